@@ -0,0 +1,30 @@
+/**
+ * Device emulation for pages that outlive one viewport: sessions and
+ * multi-device runs switch devices on the same page, so nothing from an
+ * earlier device (user agent, touch support, mobile metrics) may carry over.
+ */
+
+import type { Page } from "puppeteer";
+
+import type { ViewportPreset } from "../config/viewports.js";
+
+/** Touch shims installed on each page, so a later viewport without touch can remove them */
+const touchScripts = new WeakMap<Page, string>();
+
+/** Emulates a viewport from scratch; setViewport already resets isMobile and hasTouch */
+export async function applyViewport(page: Page, viewport: ViewportPreset): Promise<void> {
+  await page.setViewport(viewport);
+  await page.setUserAgent(viewport.userAgent ?? await page.browser().userAgent());
+
+  const touchScript = touchScripts.get(page);
+  if (touchScript) {
+    touchScripts.delete(page);
+    await page.removeScriptToEvaluateOnNewDocument(touchScript);
+  }
+  if (viewport.hasTouch) {
+    const { identifier } = await page.evaluateOnNewDocument(() => {
+      (window as any).ontouchstart = true;
+    });
+    touchScripts.set(page, identifier);
+  }
+}
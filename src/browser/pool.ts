@@ -0,0 +1,398 @@
+/**
+ * Shared browser pool.
+ *
+ * Keeps a small number of Chromium instances warm and hands out an isolated
+ * browser context (incognito-style) per request, so cookies and storage never
+ * leak between tool calls while avoiding a full browser launch every time.
+ */
+
+import puppeteer from "puppeteer";
+import type { Browser, BrowserContext, LaunchOptions, Page } from "puppeteer";
+
+import type { Logger } from "../logger.js";
+import { getGlobalTelemetry } from "../telemetry/index.js";
+import { withTimeout, safeBrowserClose, TimeoutError } from "../utils/timeout.js";
+
+export interface BrowserPoolOptions {
+  /** Maximum number of browser processes kept alive at once */
+  maxBrowsers: number;
+  /** Maximum number of concurrent contexts (one page each) per browser */
+  maxPagesPerBrowser: number;
+  /** Close a browser after it has had no active contexts for this long */
+  idleTimeoutMs: number;
+  /** Interval between health checks / idle sweeps (0 disables the timer) */
+  healthCheckIntervalMs: number;
+  /** A browser that does not answer a health probe within this time is recycled */
+  healthCheckTimeoutMs: number;
+  /** How long acquire() waits for a free slot before giving up */
+  acquireTimeoutMs: number;
+  /** Timeout applied when closing contexts and browsers */
+  closeTimeoutMs: number;
+  /** Options passed to puppeteer.launch() */
+  launchOptions: LaunchOptions;
+}
+
+export const DEFAULT_BROWSER_POOL_OPTIONS: BrowserPoolOptions = {
+  maxBrowsers: 2,
+  maxPagesPerBrowser: 5,
+  idleTimeoutMs: 60_000,
+  healthCheckIntervalMs: 30_000,
+  healthCheckTimeoutMs: 5_000,
+  acquireTimeoutMs: 30_000,
+  closeTimeoutMs: 5_000,
+  launchOptions: {
+    headless: true,
+    args: ["--no-sandbox", "--disable-setuid-sandbox"],
+  },
+};
+
+/**
+ * A context leased from the pool. Callers must call release() exactly once,
+ * typically in a finally block.
+ */
+export interface BrowserLease {
+  browser: Browser;
+  context: BrowserContext;
+  page: Page;
+  release(): Promise<void>;
+}
+
+export interface BrowserPoolStats {
+  browsers: number;
+  activeContexts: number;
+  waiting: number;
+}
+
+interface PooledBrowser {
+  id: number;
+  browser: Browser;
+  activeContexts: number;
+  lastUsed: number;
+  healthy: boolean;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class BrowserPoolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BrowserPoolError";
+  }
+}
+
+export class BrowserPool {
+  private readonly options: BrowserPoolOptions;
+  private readonly logger?: Logger;
+  private entries: PooledBrowser[] = [];
+  private launching = 0;
+  private waiters: Waiter[] = [];
+  private nextId = 1;
+  private healthTimer?: NodeJS.Timeout;
+  private closed = false;
+
+  constructor(options: Partial<BrowserPoolOptions> = {}, logger?: Logger) {
+    this.options = {
+      ...DEFAULT_BROWSER_POOL_OPTIONS,
+      ...options,
+      launchOptions: {
+        ...DEFAULT_BROWSER_POOL_OPTIONS.launchOptions,
+        ...options.launchOptions,
+      },
+    };
+    this.logger = logger;
+
+    if (this.options.healthCheckIntervalMs > 0) {
+      this.healthTimer = setInterval(() => {
+        this.runHealthCheck().catch((error) => {
+          this.logger?.error("pool:health_check_error", { error: (error as Error).message });
+        });
+      }, this.options.healthCheckIntervalMs);
+      // Never keep the process alive just for the sweeper
+      this.healthTimer.unref?.();
+    }
+  }
+
+  /**
+   * Acquires an isolated context with a fresh page. Reuses a warm browser when
+   * one has capacity, launches a new one while under maxBrowsers, and otherwise
+   * waits for a slot to be released.
+   */
+  async acquire(tool: string): Promise<BrowserLease> {
+    if (this.closed) {
+      throw new BrowserPoolError("Browser pool has been shut down");
+    }
+
+    const entry = await this.reserveSlot();
+    const telemetry = getGlobalTelemetry(this.logger);
+
+    let context: BrowserContext | undefined;
+    try {
+      context = await entry.browser.createBrowserContext();
+      const page = await context.newPage();
+
+      await telemetry.emitTelemetry("browser.context_acquired", {
+        tool,
+        browserId: entry.id,
+        activeContexts: entry.activeContexts,
+      });
+
+      let released = false;
+      const leasedContext = context;
+      return {
+        browser: entry.browser,
+        context: leasedContext,
+        page,
+        release: async () => {
+          if (released) {
+            return;
+          }
+          released = true;
+          await this.releaseSlot(entry, leasedContext, tool);
+        },
+      };
+    } catch (error) {
+      // The browser could not hand out a context - treat it as unhealthy
+      this.logger?.warn("pool:context_failed", { browserId: entry.id, error: (error as Error).message });
+      entry.healthy = false;
+      if (context) {
+        await safeBrowserClose(context, this.options.closeTimeoutMs, this.logger, "context");
+      }
+      entry.activeContexts--;
+      await this.retireIfDrained(entry, "context_failed");
+      this.wakeWaiter();
+      throw error;
+    }
+  }
+
+  getStats(): BrowserPoolStats {
+    return {
+      browsers: this.entries.length,
+      activeContexts: this.entries.reduce((sum, entry) => sum + entry.activeContexts, 0),
+      waiting: this.waiters.length,
+    };
+  }
+
+  /**
+   * Probes every browser, recycles disconnected or hung ones and closes
+   * browsers that have been idle longer than idleTimeoutMs.
+   */
+  async runHealthCheck(): Promise<void> {
+    const now = Date.now();
+
+    for (const entry of [...this.entries]) {
+      if (!entry.browser.connected) {
+        entry.healthy = false;
+      } else if (entry.healthy) {
+        try {
+          await withTimeout(entry.browser.version(), this.options.healthCheckTimeoutMs, "Browser health check");
+        } catch (error) {
+          this.logger?.warn("pool:browser_unresponsive", {
+            browserId: entry.id,
+            error: (error as Error).message,
+          });
+          entry.healthy = false;
+        }
+      }
+
+      if (!entry.healthy) {
+        // A hung browser will never finish its in-flight work, so recycle it now
+        await this.retire(entry, "unhealthy");
+        continue;
+      }
+
+      if (entry.activeContexts === 0 && now - entry.lastUsed >= this.options.idleTimeoutMs) {
+        await this.retire(entry, "idle");
+      }
+    }
+
+    this.wakeWaiter();
+  }
+
+  /**
+   * Closes every browser and rejects pending acquirers.
+   */
+  async shutdown(): Promise<void> {
+    this.closed = true;
+
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = undefined;
+    }
+
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new BrowserPoolError("Browser pool has been shut down"));
+    }
+
+    await Promise.all([...this.entries].map((entry) => this.retire(entry, "shutdown")));
+  }
+
+  private async reserveSlot(): Promise<PooledBrowser> {
+    for (;;) {
+      const available = this.entries
+        .filter((entry) => entry.healthy && entry.browser.connected && entry.activeContexts < this.options.maxPagesPerBrowser)
+        .sort((a, b) => a.activeContexts - b.activeContexts)[0];
+
+      if (available) {
+        available.activeContexts++;
+        available.lastUsed = Date.now();
+        return available;
+      }
+
+      if (this.entries.length + this.launching < this.options.maxBrowsers) {
+        const entry = await this.launchBrowser();
+        entry.activeContexts++;
+        return entry;
+      }
+
+      await this.waitForSlot();
+    }
+  }
+
+  private async launchBrowser(): Promise<PooledBrowser> {
+    this.launching++;
+    let browser: Browser;
+    try {
+      browser = await puppeteer.launch(this.options.launchOptions);
+    } catch (error) {
+      // Let a waiting caller try to launch in our place
+      this.wakeWaiter();
+      throw error;
+    } finally {
+      this.launching--;
+    }
+
+    const entry: PooledBrowser = {
+      id: this.nextId++,
+      browser,
+      activeContexts: 0,
+      lastUsed: Date.now(),
+      healthy: true,
+    };
+
+    browser.on?.("disconnected", () => {
+      if (this.entries.includes(entry)) {
+        this.logger?.warn("pool:browser_disconnected", { browserId: entry.id });
+        entry.healthy = false;
+        this.entries = this.entries.filter((candidate) => candidate !== entry);
+        getGlobalTelemetry(this.logger)
+          .emitTelemetry("browser.closed", { browserId: entry.id, reason: "disconnected" })
+          .catch(() => undefined);
+        this.wakeWaiter();
+      }
+    });
+
+    this.entries.push(entry);
+    this.logger?.debug("pool:browser_launched", { browserId: entry.id, browsers: this.entries.length });
+    await getGlobalTelemetry(this.logger).emitTelemetry("browser.launched", {
+      browserId: entry.id,
+      browsers: this.entries.length,
+    });
+
+    return entry;
+  }
+
+  private async releaseSlot(entry: PooledBrowser, context: BrowserContext, tool: string): Promise<void> {
+    await safeBrowserClose(context, this.options.closeTimeoutMs, this.logger, "context");
+
+    entry.activeContexts = Math.max(0, entry.activeContexts - 1);
+    entry.lastUsed = Date.now();
+
+    if (!entry.browser.connected) {
+      entry.healthy = false;
+    }
+
+    await getGlobalTelemetry(this.logger).emitTelemetry("browser.context_released", {
+      tool,
+      browserId: entry.id,
+      activeContexts: entry.activeContexts,
+    });
+
+    await this.retireIfDrained(entry, "unhealthy");
+    this.wakeWaiter();
+  }
+
+  private async retireIfDrained(entry: PooledBrowser, reason: string): Promise<void> {
+    if (!entry.healthy && entry.activeContexts === 0) {
+      await this.retire(entry, reason);
+    }
+  }
+
+  private async retire(entry: PooledBrowser, reason: string): Promise<void> {
+    if (!this.entries.includes(entry)) {
+      return;
+    }
+    this.entries = this.entries.filter((candidate) => candidate !== entry);
+
+    this.logger?.debug("pool:browser_retired", { browserId: entry.id, reason });
+
+    try {
+      await withTimeout(entry.browser.close(), this.options.closeTimeoutMs, "Browser close");
+    } catch (error) {
+      this.logger?.warn("pool:browser_close_failed", {
+        browserId: entry.id,
+        reason,
+        error: (error as Error).message,
+        timedOut: error instanceof TimeoutError,
+      });
+      // Make sure a hung process does not linger
+      entry.browser.process?.()?.kill("SIGKILL");
+    }
+
+    await getGlobalTelemetry(this.logger).emitTelemetry("browser.closed", { browserId: entry.id, reason });
+  }
+
+  private waitForSlot(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter((candidate) => candidate !== waiter);
+          reject(new BrowserPoolError(`Timed out after ${this.options.acquireTimeoutMs}ms waiting for a free browser`));
+        }, this.options.acquireTimeoutMs),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  private wakeWaiter(): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      waiter.resolve();
+    }
+  }
+}
+
+// Global singleton instance
+let globalPool: BrowserPool | undefined;
+let globalPoolOptions: Partial<BrowserPoolOptions> = {};
+
+export function getBrowserPool(logger?: Logger): BrowserPool {
+  if (!globalPool) {
+    globalPool = new BrowserPool(globalPoolOptions, logger);
+  }
+  return globalPool;
+}
+
+/**
+ * Replaces the pool configuration. The current pool (if any) is shut down so
+ * the next acquire() picks up the new options.
+ */
+export async function configureBrowserPool(options: Partial<BrowserPoolOptions>): Promise<void> {
+  globalPoolOptions = options;
+  await shutdownBrowserPool();
+}
+
+export async function shutdownBrowserPool(): Promise<void> {
+  const pool = globalPool;
+  globalPool = undefined;
+  if (pool) {
+    await pool.shutdown();
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Persistent named browser sessions.
+ *
+ * A session keeps one pooled browser context (and its page) alive across tool
+ * calls so cookies, storage and the current URL survive between captures.
+ * Calls against the same session are serialized; idle sessions are closed by
+ * a periodic sweeper. Sessions belong to the API key that opened them: other
+ * keys neither see them nor can use or close them, and may reuse their names.
+ */
+
+import type { Page } from "puppeteer";
+
+import type { Logger } from "../logger.js";
+import { getGlobalTelemetry } from "../telemetry/index.js";
+import { currentTenant } from "../utils/tenant.js";
+import { getBrowserPool, type BrowserLease } from "./pool.js";
+
+export interface SessionManagerOptions {
+  /** Maximum number of sessions each API key may have open at once */
+  maxSessions: number;
+  /** Default idle timeout for sessions that don't specify their own */
+  idleTimeoutMs: number;
+  /** Upper bound for per-session idle timeouts */
+  maxIdleTimeoutMs: number;
+  /** Interval between idle sweeps (0 disables the timer) */
+  sweepIntervalMs: number;
+}
+
+export const DEFAULT_SESSION_OPTIONS: SessionManagerOptions = {
+  maxSessions: 5,
+  idleTimeoutMs: 10 * 60_000,
+  maxIdleTimeoutMs: 60 * 60_000,
+  sweepIntervalMs: 30_000,
+};
+
+export const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export interface OpenSessionOptions {
+  /** Caller-chosen session name; generated when omitted */
+  id?: string;
+  idleTimeoutMs?: number;
+}
+
+export interface SessionInfo {
+  id: string;
+  url: string;
+  createdAt: string;
+  lastUsedAt: string;
+  idleTimeoutMs: number;
+  expiresAt: string;
+  busy: boolean;
+}
+
+interface BrowserSession {
+  id: string;
+  /** API key that opened the session; undefined outside the HTTP transports */
+  owner?: string;
+  lease: BrowserLease;
+  createdAt: number;
+  lastUsed: number;
+  idleTimeoutMs: number;
+  pending: number;
+  queue: Promise<unknown>;
+}
+
+export class SessionError extends Error {
+  constructor(message: string, public readonly code: "SESSION_NOT_FOUND" | "SESSION_EXISTS" | "SESSION_LIMIT" | "SESSION_CLOSED" | "INVALID_SESSION_ID") {
+    super(message);
+    this.name = "SessionError";
+  }
+}
+
+export class BrowserSessionManager {
+  private readonly options: SessionManagerOptions;
+  private readonly logger?: Logger;
+  private sessions: Map<string, BrowserSession> = new Map();
+  /** Sessions waiting for their lease, by key, so concurrent opens can't claim the same name */
+  private opening: Map<string, string | undefined> = new Map();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(options: Partial<SessionManagerOptions> = {}, logger?: Logger) {
+    this.options = { ...DEFAULT_SESSION_OPTIONS, ...options };
+    this.logger = logger;
+
+    if (this.options.sweepIntervalMs > 0) {
+      this.sweepTimer = setInterval(() => {
+        this.sweepIdleSessions().catch((error) => {
+          this.logger?.error("session:sweep_error", { error: (error as Error).message });
+        });
+      }, this.options.sweepIntervalMs);
+      this.sweepTimer.unref?.();
+    }
+  }
+
+  async open(options: OpenSessionOptions = {}): Promise<SessionInfo> {
+    const owner = currentTenant();
+    const id = options.id ?? this.generateId(owner);
+
+    if (!SESSION_ID_PATTERN.test(id)) {
+      throw new SessionError(
+        `Invalid session id "${id}". Use 1-64 letters, digits, '-' or '_'.`,
+        "INVALID_SESSION_ID",
+      );
+    }
+    const key = sessionKey(owner, id);
+    if (this.sessions.has(key) || this.opening.has(key)) {
+      throw new SessionError(`Session "${id}" is already open`, "SESSION_EXISTS");
+    }
+    if (this.countOwned(owner) >= this.options.maxSessions) {
+      throw new SessionError(
+        `Maximum of ${this.options.maxSessions} sessions reached. Close a session with closeSession first.`,
+        "SESSION_LIMIT",
+      );
+    }
+
+    const idleTimeoutMs = Math.min(
+      options.idleTimeoutMs ?? this.options.idleTimeoutMs,
+      this.options.maxIdleTimeoutMs,
+    );
+
+    this.opening.set(key, owner);
+    let lease: BrowserLease;
+    try {
+      lease = await getBrowserPool(this.logger).acquire("session");
+    } finally {
+      this.opening.delete(key);
+    }
+
+    const now = Date.now();
+    const session: BrowserSession = {
+      id,
+      owner,
+      lease,
+      createdAt: now,
+      lastUsed: now,
+      idleTimeoutMs,
+      pending: 0,
+      queue: Promise.resolve(),
+    };
+    this.sessions.set(key, session);
+
+    this.logger?.info("session:opened", { sessionId: id, owner, idleTimeoutMs });
+    await getGlobalTelemetry(this.logger).emitTelemetry("session.opened", { sessionId: id, idleTimeoutMs });
+    return this.describe(session);
+  }
+
+  /**
+   * Runs fn against the session's live page. Calls on the same session are
+   * queued so concurrent tool calls never interleave their steps.
+   */
+  async use<T>(id: string, fn: (page: Page) => Promise<T>): Promise<T> {
+    const session = this.require(id);
+    session.pending++;
+
+    const run = session.queue.then(async () => {
+      if (this.sessions.get(sessionKey(session.owner, id)) !== session) {
+        throw new SessionError(`Session "${id}" was closed`, "SESSION_CLOSED");
+      }
+      if (session.lease.page.isClosed()) {
+        await this.closeSession(session, "page_closed");
+        throw new SessionError(`Session "${id}" was closed`, "SESSION_CLOSED");
+      }
+      return fn(session.lease.page);
+    });
+
+    session.queue = run
+      .catch(() => undefined)
+      .finally(() => {
+        session.pending--;
+        session.lastUsed = Date.now();
+      });
+
+    return run;
+  }
+
+  has(id: string): boolean {
+    return this.sessions.has(sessionKey(currentTenant(), id));
+  }
+
+  get(id: string): SessionInfo | undefined {
+    const session = this.sessions.get(sessionKey(currentTenant(), id));
+    return session ? this.describe(session) : undefined;
+  }
+
+  /** Sessions of the calling API key */
+  list(): SessionInfo[] {
+    const owner = currentTenant();
+    return Array.from(this.sessions.values())
+      .filter((session) => session.owner === owner)
+      .map((session) => this.describe(session));
+  }
+
+  async close(id: string, reason: string = "closed"): Promise<boolean> {
+    const session = this.sessions.get(sessionKey(currentTenant(), id));
+    if (!session) {
+      return false;
+    }
+    await this.closeSession(session, reason);
+    return true;
+  }
+
+  async sweepIdleSessions(): Promise<string[]> {
+    const now = Date.now();
+    const expired = Array.from(this.sessions.values()).filter(
+      (session) => session.pending === 0 && now - session.lastUsed >= session.idleTimeoutMs,
+    );
+
+    for (const session of expired) {
+      this.logger?.info("session:expired", { sessionId: session.id, owner: session.owner, idleMs: now - session.lastUsed });
+      await this.closeSession(session, "idle");
+    }
+
+    return expired.map((session) => session.id);
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+    await Promise.all(Array.from(this.sessions.values()).map((session) => this.closeSession(session, "shutdown")));
+  }
+
+  private async closeSession(session: BrowserSession, reason: string): Promise<void> {
+    const key = sessionKey(session.owner, session.id);
+    if (this.sessions.get(key) !== session) {
+      return;
+    }
+    this.sessions.delete(key);
+    await session.lease.release();
+    this.logger?.info("session:closed", { sessionId: session.id, owner: session.owner, reason });
+    await getGlobalTelemetry(this.logger).emitTelemetry("session.closed", { sessionId: session.id, reason });
+  }
+
+  private require(id: string): BrowserSession {
+    // Another key's session is reported as missing, not as forbidden
+    const session = this.sessions.get(sessionKey(currentTenant(), id));
+    if (!session) {
+      throw new SessionError(
+        `Session "${id}" not found. It may have expired; open a new one with openSession.`,
+        "SESSION_NOT_FOUND",
+      );
+    }
+    return session;
+  }
+
+  private describe(session: BrowserSession): SessionInfo {
+    const page = session.lease.page;
+    return {
+      id: session.id,
+      url: page.isClosed() ? "about:blank" : page.url(),
+      createdAt: new Date(session.createdAt).toISOString(),
+      lastUsedAt: new Date(session.lastUsed).toISOString(),
+      idleTimeoutMs: session.idleTimeoutMs,
+      expiresAt: new Date(session.lastUsed + session.idleTimeoutMs).toISOString(),
+      busy: session.pending > 0,
+    };
+  }
+
+  /** Open and opening sessions of one API key */
+  private countOwned(owner: string | undefined): number {
+    const open = Array.from(this.sessions.values()).filter((session) => session.owner === owner).length;
+    const opening = Array.from(this.opening.values()).filter((opener) => opener === owner).length;
+    return open + opening;
+  }
+
+  private generateId(owner: string | undefined): string {
+    let id: string;
+    let key: string;
+    do {
+      id = `session-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+      key = sessionKey(owner, id);
+    } while (this.sessions.has(key) || this.opening.has(key));
+    return id;
+  }
+}
+
+/** Session ids cannot contain "/", so the owner prefix keeps every key's names apart */
+function sessionKey(owner: string | undefined, id: string): string {
+  return owner === undefined ? id : `${owner}/${id}`;
+}
+
+// Global singleton instance
+let globalSessions: BrowserSessionManager | undefined;
+let globalSessionOptions: Partial<SessionManagerOptions> = {};
+
+export function getSessionManager(logger?: Logger): BrowserSessionManager {
+  if (!globalSessions) {
+    globalSessions = new BrowserSessionManager(globalSessionOptions, logger);
+  }
+  return globalSessions;
+}
+
+/**
+ * Replaces the session configuration. Open sessions are closed so the new
+ * limits apply to every session.
+ */
+export async function configureSessions(options: Partial<SessionManagerOptions>): Promise<void> {
+  globalSessionOptions = options;
+  await shutdownSessions();
+}
+
+export async function shutdownSessions(): Promise<void> {
+  const manager = globalSessions;
+  globalSessions = undefined;
+  if (manager) {
+    await manager.shutdown();
+  }
+}
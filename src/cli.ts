@@ -1,9 +1,78 @@
 #!/usr/bin/env node
 
-import { startMcpPageCaptureServer } from "./server.js";
+import { startMcpPageCaptureServer, startMcpPageCaptureHttpServer, shutdownBrowserPool, shutdownSessions } from "./server.js";
+import { CLI_USAGE, CliUsageError, parseCliCommand, parseCliOptions } from "./config/cli.js";
+import { runCliCommand, EXIT_USAGE } from "./commands.js";
+import { applyServerConfig, ConfigError, loadServerConfig } from "./config/file.js";
+import { createLogger, type LogLevel } from "./logger.js";
 
-startMcpPageCaptureServer().catch((error) => {
+async function main() {
+  const argv = process.argv.slice(2);
+  const command = parseCliCommand(argv);
+  if (command) {
+    if (command.help) {
+      console.log(CLI_USAGE);
+      return;
+    }
+    // Commands keep stderr quiet unless LOG_LEVEL asks for more
+    const logger = createLogger((process.env.LOG_LEVEL as LogLevel) || "warn");
+    if (command.config) {
+      await applyServerConfig(await loadServerConfig(command.config), logger);
+    }
+    try {
+      process.exitCode = await runCliCommand(command, logger);
+    } finally {
+      await shutdownBrowserPool();
+    }
+    return;
+  }
+
+  const options = parseCliOptions(argv);
+  if (options.help) {
+    console.log(CLI_USAGE);
+    return;
+  }
+
+  // Read before anything starts so an invalid file fails fast
+  const config = options.config ? await loadServerConfig(options.config) : undefined;
+
+  if (options.transport === "stdio") {
+    await startMcpPageCaptureServer({ config });
+    return;
+  }
+
+  const handle = await startMcpPageCaptureHttpServer({
+    transport: options.transport,
+    port: options.port,
+    host: options.host,
+    apiKeys: options.apiKeys,
+    defaultQuota: options.defaultQuota,
+    cors: options.cors,
+    sessionIdleTimeoutMs: options.sessionIdleTimeoutMs,
+    config,
+  });
+
+  const shutdown = async (signal: string) => {
+    handle.logger.info("mcp-page-capture shutting down", { signal });
+    await handle.close();
+    await shutdownSessions();
+    await shutdownBrowserPool();
+  };
+  process.once("SIGINT", () => void shutdown("SIGINT"));
+  process.once("SIGTERM", () => void shutdown("SIGTERM"));
+}
+
+main().catch((error) => {
   const message = error instanceof Error ? error.message : String(error);
   console.error("mcp-page-capture failed to start", message);
+  if (error instanceof CliUsageError) {
+    console.error(CLI_USAGE);
+    process.exitCode = EXIT_USAGE;
+    return;
+  }
+  if (error instanceof ConfigError) {
+    process.exitCode = EXIT_USAGE;
+    return;
+  }
   process.exitCode = 1;
 });
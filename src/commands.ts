@@ -0,0 +1,176 @@
+/**
+ * One-off commands for shells and CI jobs. They call the same functions as
+ * the MCP tools and report failures through process exit codes (see
+ * ERROR_EXIT_CODES) instead of MCP errors.
+ */
+
+import { promises as fs } from "fs";
+import { ZodError } from "zod";
+
+import type { Logger } from "./logger.js";
+import { CliUsageError, type CliCommand } from "./config/cli.js";
+import { captureScreenshotSchema, classifyStepFailure, runScreenshot } from "./tools/captureScreenshot.js";
+import { extractDomSchema, runDomExtraction } from "./tools/extractDom.js";
+import { classifyCaptureError, ERROR_EXIT_CODES, type ERROR_CODES, type LLMErrorResponse } from "./utils/errors.js";
+import { formatValidateResult, performStepValidation } from "./utils/stepOrder.js";
+import { normalizeUrl } from "./utils/url.js";
+
+export const EXIT_SUCCESS = 0;
+/** Unexpected failure outside the capture itself (e.g. the output file cannot be written) */
+export const EXIT_FAILURE = 1;
+/** Bad arguments or an unreadable or malformed steps file */
+export const EXIT_USAGE = 2;
+/** validate found errors in the steps */
+export const EXIT_INVALID_STEPS = 3;
+
+export interface CommandOutput {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+const processOutput: CommandOutput = {
+  stdout: (text) => process.stdout.write(text + "\n"),
+  stderr: (text) => process.stderr.write(text + "\n"),
+};
+
+/** Errors while writing results; they are not classified as capture errors */
+class OutputError extends Error {}
+
+/** Runs a command and resolves to its exit code; never rejects */
+export async function runCliCommand(
+  command: CliCommand,
+  logger: Logger,
+  output: CommandOutput = processOutput,
+): Promise<number> {
+  try {
+    switch (command.command) {
+      case "capture":
+        return await runCaptureCommand(command, logger, output);
+      case "extract":
+        return await runExtractCommand(command, logger, output);
+      case "validate":
+        return await runValidateCommand(command, output);
+    }
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      output.stderr(`error: ${error.message}`);
+      return EXIT_USAGE;
+    }
+    if (error instanceof ZodError) {
+      output.stderr(`error: invalid steps\n${formatZodIssues(error)}`);
+      return EXIT_USAGE;
+    }
+    if (error instanceof OutputError) {
+      output.stderr(`error: ${error.message}`);
+      return EXIT_FAILURE;
+    }
+
+    return reportError(classifyCaptureError(error, { url: "url" in command ? command.url : undefined }), output);
+  }
+}
+
+function reportError(classified: LLMErrorResponse, output: CommandOutput): number {
+  output.stderr(`error: ${classified.error.code}: ${classified.error.message}`);
+  output.stderr(`hint: ${classified.recovery.description}`);
+  return ERROR_EXIT_CODES[classified.error.code as keyof typeof ERROR_CODES];
+}
+
+async function runCaptureCommand(
+  command: Extract<CliCommand, { command: "capture" }>,
+  logger: Logger,
+  output: CommandOutput,
+): Promise<number> {
+  const url = normalizeUrl(command.url);
+  const steps = command.steps ? await readStepsFile(command.steps) : undefined;
+  const input = captureScreenshotSchema.parse({ url, steps });
+
+  const startedAt = Date.now();
+  const result = await runScreenshot({ ...input, url }, logger);
+  await writeOutput(command.out, Buffer.from(result.imageBase64, "base64"));
+
+  const { metadata } = result;
+  output.stdout(
+    command.json
+      ? JSON.stringify({ ...metadata, out: command.out, steps: result.steps }, null, 2)
+      : `Saved ${metadata.imageWidth ?? metadata.viewportWidth}x${metadata.imageHeight ?? metadata.viewportHeight} ` +
+          `${metadata.format ?? "png"} (${metadata.bytes} bytes) to ${command.out}`,
+  );
+
+  // The screenshot is still written, but a failed step fails the command
+  const stepError = classifyStepFailure(result, { url, executionTimeMs: Date.now() - startedAt });
+  return stepError ? reportError(stepError, output) : EXIT_SUCCESS;
+}
+
+async function runExtractCommand(
+  command: Extract<CliCommand, { command: "extract" }>,
+  logger: Logger,
+  output: CommandOutput,
+): Promise<number> {
+  const url = normalizeUrl(command.url);
+  const input = extractDomSchema.parse({
+    url,
+    selector: command.selector,
+    format: command.format === "markdown" ? "markdown" : undefined,
+  });
+
+  const result = await runDomExtraction({ ...input, url }, logger);
+  const content =
+    command.format === "json"
+      ? JSON.stringify(result, null, 2)
+      : command.format === "html"
+        ? result.html
+        : command.format === "markdown"
+          ? result.markdown ?? ""
+          : result.text;
+  if (result.truncated) {
+    output.stderr(`warning: content truncated after ${result.nodeCount} nodes`);
+  }
+
+  if (command.out) {
+    await writeOutput(command.out, content);
+    output.stdout(`Saved ${command.format} (${content.length} characters) to ${command.out}`);
+  } else {
+    output.stdout(content);
+  }
+  return EXIT_SUCCESS;
+}
+
+async function runValidateCommand(
+  command: Extract<CliCommand, { command: "validate" }>,
+  output: CommandOutput,
+): Promise<number> {
+  const steps = await readStepsFile(command.steps);
+  // Validation is static; the URL only appears in the report
+  const result = performStepValidation(steps, command.url ?? "about:blank");
+
+  output.stdout(formatValidateResult(result));
+  return result.valid ? EXIT_SUCCESS : EXIT_INVALID_STEPS;
+}
+
+/** Accepts a JSON array of steps or an object with a "steps" array */
+async function readStepsFile(file: string): Promise<unknown[]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (error) {
+    throw new CliUsageError(`Cannot read steps file ${file}: ${(error as Error).message}`);
+  }
+
+  const steps = Array.isArray(parsed) ? parsed : (parsed as { steps?: unknown } | null)?.steps;
+  if (!Array.isArray(steps)) {
+    throw new CliUsageError(`Steps file ${file} must contain an array of steps or an object with a "steps" array`);
+  }
+  return steps;
+}
+
+async function writeOutput(file: string, data: Buffer | string): Promise<void> {
+  try {
+    await fs.writeFile(file, data);
+  } catch (error) {
+    throw new OutputError(`Cannot write ${file}: ${(error as Error).message}`);
+  }
+}
+
+function formatZodIssues(error: ZodError): string {
+  return error.issues.map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`).join("\n");
+}
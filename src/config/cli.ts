@@ -0,0 +1,224 @@
+/**
+ * Command-line flags and environment variables for the server binary, and
+ * the arguments of its one-off commands. Flags win over environment variables.
+ */
+
+import { parseArgs } from "util";
+
+import type { ApiKeyConfig, QuotaConfig } from "../transport/auth.js";
+import type { CorsOptions, HttpTransportKind } from "../transport/http.js";
+
+export type TransportKind = "stdio" | HttpTransportKind;
+
+export interface CliOptions {
+  transport: TransportKind;
+  port?: number;
+  host?: string;
+  apiKeys: ApiKeyConfig[];
+  defaultQuota?: QuotaConfig;
+  cors?: CorsOptions;
+  sessionIdleTimeoutMs?: number;
+  /** Path of the JSON or YAML config file */
+  config?: string;
+  help: boolean;
+}
+
+export type ExtractOutputFormat = "text" | "html" | "json" | "markdown";
+
+/** One-off commands that run a tool once and exit instead of serving MCP */
+export type CliCommand = { config?: string; help: boolean } & (
+  | { command: "capture"; url: string; steps?: string; out: string; json: boolean }
+  | { command: "extract"; url: string; selector?: string; format: ExtractOutputFormat; out?: string }
+  | { command: "validate"; steps: string; url?: string }
+);
+
+/** Options each command accepts besides --config and --help */
+const COMMAND_OPTIONS: Record<CliCommand["command"], string[]> = {
+  capture: ["steps", "out", "json"],
+  extract: ["selector", "format", "out"],
+  validate: ["steps", "url"],
+};
+
+export const CLI_USAGE = `Usage: mcp-page-capture [options]
+       mcp-page-capture <command> [arguments]
+
+Commands:
+  capture <url> --out <file> [--steps <file>] [--json]
+                                Capture a screenshot; --json prints the metadata
+  extract <url> [--selector <css>] [--format <text|html|json|markdown>] [--out <file>]
+                                Extract page content to stdout or a file
+  validate --steps <file> [--url <url>]
+                                Check a steps file without opening a browser
+
+Steps files hold a JSON array of steps, or an object with a "steps" array.
+
+Options for the server and all commands:
+  --config <file>               JSON or YAML config file (env MCP_CONFIG)
+  -h, --help                    Show this help
+
+Server options:
+  --transport <stdio|http|sse>  Transport to serve (env MCP_TRANSPORT). Default: stdio
+  --port <number>               HTTP port (env MCP_PORT). Default: 3000
+  --host <address>              HTTP bind address (env MCP_HOST). Default: 127.0.0.1
+  --api-key <name:key>          Accepted API key, repeatable (env MCP_API_KEYS, comma-separated)
+  --quota <requests>            Requests per key per window (env MCP_QUOTA)
+  --quota-window <seconds>      Quota window length (env MCP_QUOTA_WINDOW). Default: 60
+  --cors-origin <origin|*>      Allowed CORS origin, repeatable (env MCP_CORS_ORIGINS, comma-separated)
+  --session-ttl <seconds>       Close idle Streamable HTTP sessions (env MCP_SESSION_TTL). Default: 1800`;
+
+export class CliUsageError extends Error {}
+
+export function parseCliOptions(argv: string[], env: NodeJS.ProcessEnv = process.env): CliOptions {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args: argv,
+      options: {
+        transport: { type: "string" },
+        port: { type: "string" },
+        host: { type: "string" },
+        "api-key": { type: "string", multiple: true },
+        quota: { type: "string" },
+        "quota-window": { type: "string" },
+        "cors-origin": { type: "string", multiple: true },
+        "session-ttl": { type: "string" },
+        config: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+      strict: true,
+    }));
+  } catch (error) {
+    throw new CliUsageError((error as Error).message);
+  }
+
+  const transport = values.transport ?? env.MCP_TRANSPORT ?? "stdio";
+  if (transport !== "stdio" && transport !== "http" && transport !== "sse") {
+    throw new CliUsageError(`Unknown transport "${transport}"; expected stdio, http or sse`);
+  }
+
+  const portValue = values.port ?? env.MCP_PORT;
+  const quotaValue = values.quota ?? env.MCP_QUOTA;
+  const windowValue = values["quota-window"] ?? env.MCP_QUOTA_WINDOW;
+  const origins = values["cors-origin"] ?? splitList(env.MCP_CORS_ORIGINS);
+  const sessionTtlValue = values["session-ttl"] ?? env.MCP_SESSION_TTL;
+
+  return {
+    transport,
+    port: portValue !== undefined ? parsePositiveInteger(portValue, "port") : undefined,
+    host: values.host ?? env.MCP_HOST,
+    apiKeys: (values["api-key"] ?? splitList(env.MCP_API_KEYS)).map(parseApiKey),
+    defaultQuota: quotaValue !== undefined
+      ? {
+          maxRequests: parsePositiveInteger(quotaValue, "quota"),
+          windowMs: windowValue !== undefined ? parsePositiveInteger(windowValue, "quota-window") * 1000 : undefined,
+        }
+      : undefined,
+    cors: origins.length > 0 ? { origins: origins.includes("*") ? "*" : origins } : undefined,
+    sessionIdleTimeoutMs: sessionTtlValue !== undefined ? parsePositiveInteger(sessionTtlValue, "session-ttl") * 1000 : undefined,
+    config: values.config ?? env.MCP_CONFIG,
+    help: values.help ?? false,
+  };
+}
+
+/** Returns the command to run, or undefined when the arguments start the server */
+export function parseCliCommand(argv: string[], env: NodeJS.ProcessEnv = process.env): CliCommand | undefined {
+  const [name, ...rest] = argv;
+  if (!name || !Object.hasOwn(COMMAND_OPTIONS, name)) {
+    return undefined;
+  }
+
+  let values;
+  let positionals;
+  try {
+    ({ values, positionals } = parseArgs({
+      args: rest,
+      options: {
+        steps: { type: "string" },
+        out: { type: "string", short: "o" },
+        json: { type: "boolean" },
+        selector: { type: "string" },
+        format: { type: "string" },
+        url: { type: "string" },
+        config: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+      allowPositionals: true,
+      strict: true,
+    }));
+  } catch (error) {
+    throw new CliUsageError((error as Error).message);
+  }
+
+  const help = values.help ?? false;
+  const config = values.config ?? env.MCP_CONFIG;
+  const allowed = COMMAND_OPTIONS[name as CliCommand["command"]];
+  const misplaced = Object.keys(values).find((option) => option !== "help" && option !== "config" && !allowed.includes(option));
+  if (misplaced) {
+    throw new CliUsageError(`--${misplaced} is not an option of "${name}"`);
+  }
+  if (positionals.length > (name === "validate" ? 0 : 1)) {
+    throw new CliUsageError(`Unexpected argument "${positionals.at(-1)}"`);
+  }
+
+  const url = positionals[0] ?? "";
+  const requireValue = (value: string | undefined, description: string): string => {
+    if (!value && !help) {
+      throw new CliUsageError(`"${name}" requires ${description}`);
+    }
+    return value ?? "";
+  };
+
+  switch (name) {
+    case "capture":
+      return {
+        command: "capture",
+        url: requireValue(url, "a URL"),
+        steps: values.steps,
+        out: requireValue(values.out, "--out <file>"),
+        json: values.json ?? false,
+        config,
+        help,
+      };
+    case "extract": {
+      const format = values.format ?? "text";
+      if (format !== "text" && format !== "html" && format !== "json" && format !== "markdown") {
+        throw new CliUsageError(`Unknown format "${format}"; expected text, html, json or markdown`);
+      }
+      return { command: "extract", url: requireValue(url, "a URL"), selector: values.selector, format, out: values.out, config, help };
+    }
+    default:
+      return { command: "validate", steps: requireValue(values.steps, "--steps <file>"), url: values.url, config, help };
+  }
+}
+
+/**
+ * "name:key"; the name owns the key's sessions and captures, so it is always
+ * required. Only the first ":" separates, so keys may contain ":" themselves.
+ */
+function parseApiKey(value: string): ApiKeyConfig {
+  const separator = value.indexOf(":");
+  if (separator <= 0) {
+    // Never echo the value: without a name it may be a bare secret
+    throw new CliUsageError('API keys must be given as "name:key"');
+  }
+  const config = { name: value.slice(0, separator), key: value.slice(separator + 1) };
+  if (config.key.length === 0) {
+    throw new CliUsageError(`API key "${value}" is empty`);
+  }
+  return config;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function parsePositiveInteger(value: string, name: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new CliUsageError(`--${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
@@ -0,0 +1,57 @@
+/**
+ * Process-wide defaults for the capture tools. The config file replaces them
+ * at startup; options given on a tool call still win.
+ */
+
+import type { RetryConfig } from "../types/screenshot.js";
+import type { ViewportPreset } from "./viewports.js";
+
+export interface TimeoutDefaults {
+  /** Page navigation (goto, waits for load). Default: 45000 */
+  navigationMs: number;
+  /** Whole tool call including retries; multiplied by the device count for multi-device captures. Default: 60000 */
+  totalMs: number;
+  /** Encoding a single screenshot. Default: 30000 */
+  screenshotMs: number;
+}
+
+export interface CaptureDefaults {
+  /** Viewport used when a call sets none */
+  viewport: ViewportPreset;
+  /** Merged under the retryPolicy of each call */
+  retryPolicy: RetryConfig;
+  timeouts: TimeoutDefaults;
+}
+
+export const DEFAULT_CAPTURE_DEFAULTS: CaptureDefaults = {
+  viewport: { width: 1280, height: 720 },
+  retryPolicy: {},
+  timeouts: {
+    navigationMs: 45_000,
+    totalMs: 60_000,
+    screenshotMs: 30_000,
+  },
+};
+
+let currentDefaults: CaptureDefaults = DEFAULT_CAPTURE_DEFAULTS;
+
+export function getCaptureDefaults(): CaptureDefaults {
+  return currentDefaults;
+}
+
+/** Replaces the defaults; unset fields fall back to DEFAULT_CAPTURE_DEFAULTS */
+export function configureCaptureDefaults(defaults: {
+  viewport?: ViewportPreset;
+  retryPolicy?: RetryConfig;
+  timeouts?: Partial<TimeoutDefaults>;
+}): void {
+  currentDefaults = {
+    viewport: defaults.viewport ?? DEFAULT_CAPTURE_DEFAULTS.viewport,
+    retryPolicy: defaults.retryPolicy ?? DEFAULT_CAPTURE_DEFAULTS.retryPolicy,
+    timeouts: { ...DEFAULT_CAPTURE_DEFAULTS.timeouts, ...defaults.timeouts },
+  };
+}
+
+export function resetCaptureDefaults(): void {
+  currentDefaults = DEFAULT_CAPTURE_DEFAULTS;
+}
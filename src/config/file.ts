@@ -0,0 +1,228 @@
+/**
+ * Server configuration file (JSON or YAML): named storage targets, telemetry
+ * hooks and sinks, capture defaults and browser launch options. Loaded and
+ * applied once at startup, before the first tool call.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import { z } from "zod";
+
+import type { Logger } from "../logger.js";
+import { configureBrowserPool, type BrowserPoolOptions } from "../browser/pool.js";
+import { configureMockDirectory } from "../utils/network.js";
+import { createStorageTarget, registerStorageTarget, type StorageTarget } from "../storage/index.js";
+import { createConsoleHook, createMetricsHook, createWebhookHook, getGlobalTelemetry } from "../telemetry/index.js";
+import { configureCaptureDefaults, DEFAULT_CAPTURE_DEFAULTS } from "./defaults.js";
+import { getViewportPreset, mergeViewportOptions, type ViewportPreset } from "./viewports.js";
+
+const positiveInteger = z.number().int().positive();
+
+/** Keys fall back to MCP_STORAGE_KEYS */
+const encryptionSchema = z.object({
+  keys: z.record(z.string().min(1), z.string().min(1)).optional(),
+  keyId: z.string().min(1).optional(),
+}).strict();
+
+const storageTargetSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("local"),
+    path: z.string().min(1).optional(),
+    /** Oldest captures are deleted first once a limit is exceeded */
+    retention: z.object({
+      maxAgeMs: positiveInteger.optional(),
+      maxFiles: positiveInteger.optional(),
+      maxBytes: positiveInteger.optional(),
+    }).strict().optional(),
+    partitionByDate: z.boolean().optional(),
+    /** 0 disables the background sweeper; saves still enforce maxFiles/maxBytes */
+    sweepIntervalMs: z.number().int().min(0).optional(),
+    deduplicate: z.boolean().optional(),
+    encryption: encryptionSchema.optional(),
+  }).strict(),
+  z.object({
+    type: z.literal("s3"),
+    bucket: z.string().min(1),
+    prefix: z.string().optional(),
+    region: z.string().optional(),
+    /** S3-compatible endpoint such as MinIO; buckets are then addressed in the path */
+    endpoint: z.string().url().optional(),
+    forcePathStyle: z.boolean().optional(),
+    /** Fall back to AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY / AWS_SESSION_TOKEN */
+    accessKeyId: z.string().min(1).optional(),
+    secretAccessKey: z.string().min(1).optional(),
+    sessionToken: z.string().min(1).optional(),
+    presignExpiresInSeconds: z.number().int().min(1).max(604_800).optional(),
+    timeoutMs: positiveInteger.optional(),
+    deduplicate: z.boolean().optional(),
+    encryption: encryptionSchema.optional(),
+  }).strict(),
+  z.object({
+    type: z.literal("memory"),
+    deduplicate: z.boolean().optional(),
+    encryption: encryptionSchema.optional(),
+  }).strict(),
+]);
+
+const httpSinkSchema = z.object({
+  url: z.string().url(),
+  headers: z.record(z.string(), z.string()).optional(),
+  timeout: positiveInteger.optional(),
+  retries: z.number().int().min(0).optional(),
+  batchSize: positiveInteger.optional(),
+  flushIntervalMs: positiveInteger.optional(),
+}).strict();
+
+const webhookSinkSchema = httpSinkSchema.extend({
+  secret: z.string().min(1).optional(),
+  signatureHeader: z.string().min(1).optional(),
+}).strict();
+
+const viewportSchema = z.object({
+  preset: z.string().refine((name) => getViewportPreset(name) !== undefined, (name) => ({
+    message: `Unknown viewport preset "${name}"`,
+  })).optional(),
+  width: positiveInteger.optional(),
+  height: positiveInteger.optional(),
+  deviceScaleFactor: z.number().positive().optional(),
+  isMobile: z.boolean().optional(),
+  hasTouch: z.boolean().optional(),
+  isLandscape: z.boolean().optional(),
+  userAgent: z.string().optional(),
+}).strict();
+
+const retryPolicySchema = z.object({
+  maxRetries: z.number().int().min(0).max(10).optional(),
+  initialDelayMs: positiveInteger.optional(),
+  maxDelayMs: positiveInteger.optional(),
+  backoffMultiplier: z.number().min(1).optional(),
+  retryableStatusCodes: z.array(z.number().int()).optional(),
+  retryableErrors: z.array(z.string()).optional(),
+}).strict();
+
+const serverConfigSchema = z.object({
+  /** Storage targets by name; "default" replaces the ./captures fallback */
+  storage: z.record(z.string().min(1), storageTargetSchema).optional(),
+  telemetry: z.object({
+    /** Built-in hooks to enable */
+    hooks: z.array(z.enum(["console", "metrics"])).optional(),
+    /** Batches events and POSTs them to a collector */
+    httpSink: httpSinkSchema.optional(),
+    /** POSTs every event, optionally signed with an HMAC of the body */
+    webhook: webhookSinkSchema.optional(),
+  }).strict().optional(),
+  defaults: z.object({
+    viewport: viewportSchema.optional(),
+    retryPolicy: retryPolicySchema.optional(),
+    timeouts: z.object({
+      navigationMs: positiveInteger.optional(),
+      totalMs: positiveInteger.optional(),
+      screenshotMs: positiveInteger.optional(),
+    }).strict().optional(),
+  }).strict().optional(),
+  network: z.object({
+    /** Directory that `file` mocks are read from; without it, file mocks are refused */
+    mockDir: z.string().min(1).optional(),
+  }).strict().optional(),
+  browser: z.object({
+    /** Chromium command-line arguments; replace the default --no-sandbox flags */
+    args: z.array(z.string()).optional(),
+    headless: z.boolean().optional(),
+    executablePath: z.string().min(1).optional(),
+    maxBrowsers: positiveInteger.optional(),
+    maxPagesPerBrowser: positiveInteger.optional(),
+  }).strict().optional(),
+}).strict();
+
+export type ServerConfig = z.infer<typeof serverConfigSchema>;
+
+export class ConfigError extends Error {
+  constructor(message: string, readonly file?: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+/** Reads and validates a config file; .yaml/.yml files are parsed as YAML, anything else as JSON */
+export async function loadServerConfig(file: string): Promise<ServerConfig> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, "utf8");
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file ${file}: ${(error as Error).message}`, file);
+  }
+
+  let raw: unknown;
+  try {
+    raw = /\.ya?ml$/i.test(path.extname(file)) ? yaml.load(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(`Cannot parse config file ${file}: ${(error as Error).message}`, file);
+  }
+
+  return parseServerConfig(raw ?? {}, file);
+}
+
+export function parseServerConfig(raw: unknown, file?: string): ServerConfig {
+  const result = serverConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new ConfigError(`Invalid config${file ? ` file ${file}` : ""}:\n${issues.join("\n")}`, file);
+  }
+  return result.data;
+}
+
+/** Registers storage targets and telemetry hooks and replaces the capture and browser pool defaults */
+export async function applyServerConfig(config: ServerConfig, logger: Logger): Promise<void> {
+  for (const [name, target] of Object.entries(config.storage ?? {})) {
+    let storage: StorageTarget;
+    try {
+      storage = createStorageTarget(target, logger);
+    } catch (error) {
+      // e.g. encryption enabled without a key: refuse to start rather than write plaintext
+      throw new ConfigError(`Storage target "${name}": ${(error as Error).message}`);
+    }
+    registerStorageTarget(name, storage);
+    logger.info("config:storage_registered", { name, type: target.type });
+  }
+
+  const telemetry = getGlobalTelemetry(logger);
+  for (const hook of config.telemetry?.hooks ?? []) {
+    telemetry.registerHook({ ...(hook === "console" ? createConsoleHook() : createMetricsHook()), enabled: true });
+  }
+  if (config.telemetry?.webhook) {
+    telemetry.registerHook({ ...createWebhookHook(config.telemetry.webhook), enabled: true });
+  }
+  if (config.telemetry?.httpSink) {
+    telemetry.configureHttpSink(config.telemetry.httpSink);
+  }
+
+  const { viewport, retryPolicy, timeouts } = config.defaults ?? {};
+  configureCaptureDefaults({
+    viewport: viewport ? resolveViewport(viewport) : undefined,
+    retryPolicy,
+    timeouts,
+  });
+
+  configureMockDirectory(config.network?.mockDir);
+
+  if (config.browser) {
+    const { args, headless, executablePath, maxBrowsers, maxPagesPerBrowser } = config.browser;
+    const poolOptions: Partial<BrowserPoolOptions> = {
+      ...definedOnly({ maxBrowsers, maxPagesPerBrowser }),
+      launchOptions: definedOnly({ args, headless, executablePath }),
+    };
+    await configureBrowserPool(poolOptions);
+  }
+}
+
+function resolveViewport({ preset, ...overrides }: z.infer<typeof viewportSchema>): ViewportPreset {
+  // The schema already rejected unknown presets
+  const base = preset ? getViewportPreset(preset)! : DEFAULT_CAPTURE_DEFAULTS.viewport;
+  return mergeViewportOptions(base, overrides);
+}
+
+/** Unset options must not override the defaults they are merged into */
+function definedOnly<T extends Record<string, unknown>>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
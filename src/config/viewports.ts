@@ -581,5 +581,9 @@ export function listRecommendedPresets(): string[] {
 }
 
 export function mergeViewportOptions(preset: ViewportPreset, overrides?: Partial<ViewportPreset>): ViewportPreset {
-  return { ...preset, ...overrides };
+  // Unset overrides must not erase preset values (e.g. { device: "mobile" } has no width)
+  const defined = Object.fromEntries(
+    Object.entries(overrides ?? {}).filter(([, value]) => value !== undefined),
+  ) as Partial<ViewportPreset>;
+  return { ...preset, ...defined };
 }
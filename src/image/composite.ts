@@ -0,0 +1,51 @@
+/**
+ * Side-by-side composition of several RGBA images into one canvas.
+ */
+
+import type { RgbaImage } from "./png.js";
+
+export interface CompositeOptions {
+  /** Space between images in pixels. Default: 16 */
+  gap?: number;
+  /** Canvas colour behind and between images. Default: light gray */
+  background?: [number, number, number, number];
+}
+
+export interface CompositeLayout {
+  image: RgbaImage;
+  /** Left edge of each source image on the canvas, in input order */
+  offsets: number[];
+}
+
+const DEFAULT_GAP = 16;
+const DEFAULT_BACKGROUND: [number, number, number, number] = [240, 240, 240, 255];
+
+/** Places images left to right, top-aligned, separated by a gap */
+export function composeSideBySide(images: RgbaImage[], options: CompositeOptions = {}): CompositeLayout {
+  if (images.length === 0) {
+    throw new Error("Cannot compose an empty list of images");
+  }
+
+  const gap = options.gap ?? DEFAULT_GAP;
+  const background = options.background ?? DEFAULT_BACKGROUND;
+  const width = images.reduce((total, image) => total + image.width, 0) + gap * (images.length - 1);
+  const height = Math.max(...images.map((image) => image.height));
+
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set(background, i * 4);
+  }
+
+  const offsets: number[] = [];
+  let left = 0;
+  for (const image of images) {
+    offsets.push(left);
+    const rowBytes = image.width * 4;
+    for (let y = 0; y < image.height; y++) {
+      data.set(image.data.subarray(y * rowBytes, (y + 1) * rowBytes), (y * width + left) * 4);
+    }
+    left += image.width + gap;
+  }
+
+  return { image: { width, height, data }, offsets };
+}
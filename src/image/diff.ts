@@ -0,0 +1,413 @@
+/**
+ * Pixel-level visual diff between two RGBA images.
+ *
+ * Colour differences are measured in YIQ space (perceptual, alpha-blended onto
+ * white) and pixels that look like anti-aliasing artifacts can be tolerated,
+ * following the approach popularised by pixelmatch. Changed pixels are grouped
+ * into bounding boxes so callers can point at what moved.
+ */
+
+import type { RgbaImage } from "./png.js";
+
+export interface DiffRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DiffRegion extends DiffRect {
+  /** Number of changed pixels inside the box */
+  pixels: number;
+}
+
+export interface ImageDiffOptions {
+  /** Per-pixel colour sensitivity from 0 (exact) to 1 (lenient). Default: 0.1 */
+  colorThreshold?: number;
+  /** Count anti-aliased pixels as differences instead of tolerating them. Default: false */
+  includeAntialiasing?: boolean;
+  /** Rectangles (in image pixels) excluded from the comparison */
+  ignoreRegions?: DiffRect[];
+}
+
+export interface ImageDiffResult {
+  width: number;
+  height: number;
+  dimensionsMatch: boolean;
+  /** Pixels that took part in the comparison (everything outside ignore regions) */
+  comparedPixels: number;
+  diffPixels: number;
+  antialiasedPixels: number;
+  ignoredPixels: number;
+  /** diffPixels as a percentage of comparedPixels */
+  mismatchPercentage: number;
+  /** Bounding boxes of changed areas, largest first */
+  regions: DiffRegion[];
+  /** Faded baseline with changes in red, anti-aliasing in yellow and ignored areas in blue */
+  diffImage: RgbaImage;
+}
+
+export const DEFAULT_COLOR_THRESHOLD = 0.1;
+
+/** Changed pixels closer than this (in px) are reported as one region */
+const REGION_CELL_SIZE = 16;
+
+// Maximum possible YIQ delta between two colours
+const MAX_YIQ_DELTA = 35215;
+
+const DIFF_COLOR = [255, 0, 0] as const;
+const ANTIALIAS_COLOR = [255, 255, 0] as const;
+const IGNORE_COLOR = [0, 96, 255] as const;
+
+export function diffImages(baseline: RgbaImage, current: RgbaImage, options: ImageDiffOptions = {}): ImageDiffResult {
+  const colorThreshold = options.colorThreshold ?? DEFAULT_COLOR_THRESHOLD;
+  const maxDelta = MAX_YIQ_DELTA * colorThreshold * colorThreshold;
+  const dimensionsMatch = baseline.width === current.width && baseline.height === current.height;
+
+  // Compare on a shared canvas; pixels present in only one image always count as changed
+  const width = Math.max(baseline.width, current.width);
+  const height = Math.max(baseline.height, current.height);
+  const a = dimensionsMatch ? baseline : padImage(baseline, width, height);
+  const b = dimensionsMatch ? current : padImage(current, width, height);
+
+  const ignored = buildIgnoreMask(width, height, options.ignoreRegions ?? []);
+  const changed = new Uint8Array(width * height);
+  const output = new Uint8Array(width * height * 4);
+
+  let diffPixels = 0;
+  let antialiasedPixels = 0;
+  let ignoredPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const pos = index * 4;
+
+      if (ignored[index]) {
+        ignoredPixels++;
+        drawBlended(output, pos, IGNORE_COLOR, a.data, 0.25);
+        continue;
+      }
+
+      const inBoth = x < baseline.width && y < baseline.height && x < current.width && y < current.height;
+      const delta = inBoth ? colorDelta(a.data, b.data, pos, pos, false) : Infinity;
+
+      if (Math.abs(delta) <= maxDelta) {
+        drawFaded(output, pos, a.data);
+        continue;
+      }
+
+      if (
+        inBoth &&
+        !options.includeAntialiasing &&
+        (isAntialiased(a, x, y, b) || isAntialiased(b, x, y, a))
+      ) {
+        antialiasedPixels++;
+        drawPixel(output, pos, ANTIALIAS_COLOR);
+        continue;
+      }
+
+      diffPixels++;
+      changed[index] = 1;
+      drawPixel(output, pos, DIFF_COLOR);
+    }
+  }
+
+  const comparedPixels = width * height - ignoredPixels;
+
+  return {
+    width,
+    height,
+    dimensionsMatch,
+    comparedPixels,
+    diffPixels,
+    antialiasedPixels,
+    ignoredPixels,
+    mismatchPercentage: comparedPixels === 0 ? 0 : (diffPixels / comparedPixels) * 100,
+    regions: findRegions(changed, width, height),
+    diffImage: { width, height, data: output },
+  };
+}
+
+function padImage(image: RgbaImage, width: number, height: number): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < image.height; y++) {
+    data.set(image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4), y * width * 4);
+  }
+  return { width, height, data };
+}
+
+function buildIgnoreMask(width: number, height: number, regions: DiffRect[]): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (const region of regions) {
+    const x0 = Math.max(0, Math.floor(region.x));
+    const y0 = Math.max(0, Math.floor(region.y));
+    const x1 = Math.min(width, Math.ceil(region.x + region.width));
+    const y1 = Math.min(height, Math.ceil(region.y + region.height));
+    for (let y = y0; y < y1; y++) {
+      mask.fill(1, y * width + x0, y * width + Math.max(x0, x1));
+    }
+  }
+  return mask;
+}
+
+/**
+ * Groups changed pixels into bounding boxes. Pixels are bucketed into a coarse
+ * grid and touching dirty cells are merged, so nearby edits form one region.
+ */
+function findRegions(changed: Uint8Array, width: number, height: number): DiffRegion[] {
+  const cols = Math.ceil(width / REGION_CELL_SIZE);
+  const rows = Math.ceil(height / REGION_CELL_SIZE);
+  const cells = new Int32Array(cols * rows).fill(-1);
+  const boxes: Array<{ minX: number; minY: number; maxX: number; maxY: number; pixels: number }> = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!changed[y * width + x]) {
+        continue;
+      }
+      const cell = Math.floor(y / REGION_CELL_SIZE) * cols + Math.floor(x / REGION_CELL_SIZE);
+      let box = cells[cell];
+      if (box === -1) {
+        box = boxes.length;
+        cells[cell] = box;
+        boxes.push({ minX: x, minY: y, maxX: x, maxY: y, pixels: 0 });
+      }
+      const entry = boxes[box];
+      entry.minX = Math.min(entry.minX, x);
+      entry.minY = Math.min(entry.minY, y);
+      entry.maxX = Math.max(entry.maxX, x);
+      entry.maxY = Math.max(entry.maxY, y);
+      entry.pixels++;
+    }
+  }
+
+  // Flood-fill over dirty cells (8-connected) to merge per-cell boxes
+  const visited = new Uint8Array(cols * rows);
+  const regions: DiffRegion[] = [];
+
+  for (let start = 0; start < cells.length; start++) {
+    if (cells[start] === -1 || visited[start]) {
+      continue;
+    }
+    const merged = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity, pixels: 0 };
+    const stack = [start];
+    visited[start] = 1;
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const box = boxes[cells[cell]];
+      merged.minX = Math.min(merged.minX, box.minX);
+      merged.minY = Math.min(merged.minY, box.minY);
+      merged.maxX = Math.max(merged.maxX, box.maxX);
+      merged.maxY = Math.max(merged.maxY, box.maxY);
+      merged.pixels += box.pixels;
+
+      const col = cell % cols;
+      const row = Math.floor(cell / cols);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const c = col + dx;
+          const r = row + dy;
+          if (c < 0 || r < 0 || c >= cols || r >= rows) {
+            continue;
+          }
+          const neighbour = r * cols + c;
+          if (cells[neighbour] !== -1 && !visited[neighbour]) {
+            visited[neighbour] = 1;
+            stack.push(neighbour);
+          }
+        }
+      }
+    }
+
+    regions.push({
+      x: merged.minX,
+      y: merged.minY,
+      width: merged.maxX - merged.minX + 1,
+      height: merged.maxY - merged.minY + 1,
+      pixels: merged.pixels,
+    });
+  }
+
+  return regions.sort((left, right) => right.pixels - left.pixels);
+}
+
+/**
+ * Squared YIQ distance between two pixels, signed by which one is brighter.
+ * With yOnly set, returns just the luma difference.
+ */
+function colorDelta(img1: Uint8Array, img2: Uint8Array, k: number, m: number, yOnly: boolean): number {
+  let r1 = img1[k];
+  let g1 = img1[k + 1];
+  let b1 = img1[k + 2];
+  const a1 = img1[k + 3];
+  let r2 = img2[m];
+  let g2 = img2[m + 1];
+  let b2 = img2[m + 2];
+  const a2 = img2[m + 3];
+
+  if (a1 === a2 && r1 === r2 && g1 === g2 && b1 === b2) {
+    return 0;
+  }
+
+  if (a1 < 255) {
+    const alpha = a1 / 255;
+    r1 = blend(r1, alpha);
+    g1 = blend(g1, alpha);
+    b1 = blend(b1, alpha);
+  }
+  if (a2 < 255) {
+    const alpha = a2 / 255;
+    r2 = blend(r2, alpha);
+    g2 = blend(g2, alpha);
+    b2 = blend(b2, alpha);
+  }
+
+  const y1 = rgb2y(r1, g1, b1);
+  const y2 = rgb2y(r2, g2, b2);
+  const y = y1 - y2;
+
+  if (yOnly) {
+    return y;
+  }
+
+  const i = rgb2i(r1, g1, b1) - rgb2i(r2, g2, b2);
+  const q = rgb2q(r1, g1, b1) - rgb2q(r2, g2, b2);
+  const delta = 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+
+  return y1 > y2 ? -delta : delta;
+}
+
+/**
+ * A pixel is treated as anti-aliasing when it sits on a brightness gradient
+ * between two neighbours that are themselves part of solid areas in both images.
+ */
+function isAntialiased(image: RgbaImage, x1: number, y1: number, other: RgbaImage): boolean {
+  const { width, height, data } = image;
+  const x0 = Math.max(x1 - 1, 0);
+  const y0 = Math.max(y1 - 1, 0);
+  const x2 = Math.min(x1 + 1, width - 1);
+  const y2 = Math.min(y1 + 1, height - 1);
+  const pos = (y1 * width + x1) * 4;
+
+  let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+  let min = 0;
+  let max = 0;
+  let minX = 0;
+  let minY = 0;
+  let maxX = 0;
+  let maxY = 0;
+
+  for (let x = x0; x <= x2; x++) {
+    for (let y = y0; y <= y2; y++) {
+      if (x === x1 && y === y1) {
+        continue;
+      }
+      const delta = colorDelta(data, data, pos, (y * width + x) * 4, true);
+      if (delta === 0) {
+        zeroes++;
+        if (zeroes > 2) {
+          return false;
+        }
+      } else if (delta < min) {
+        min = delta;
+        minX = x;
+        minY = y;
+      } else if (delta > max) {
+        max = delta;
+        maxX = x;
+        maxY = y;
+      }
+    }
+  }
+
+  if (min === 0 || max === 0) {
+    return false;
+  }
+
+  return (
+    (hasManySiblings(image, minX, minY) && hasManySiblings(other, minX, minY)) ||
+    (hasManySiblings(image, maxX, maxY) && hasManySiblings(other, maxX, maxY))
+  );
+}
+
+/** True when at least three neighbours share the pixel's exact colour */
+function hasManySiblings(image: RgbaImage, x1: number, y1: number): boolean {
+  const { width, height, data } = image;
+  const x0 = Math.max(x1 - 1, 0);
+  const y0 = Math.max(y1 - 1, 0);
+  const x2 = Math.min(x1 + 1, width - 1);
+  const y2 = Math.min(y1 + 1, height - 1);
+  const pos = (y1 * width + x1) * 4;
+  let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+
+  for (let x = x0; x <= x2; x++) {
+    for (let y = y0; y <= y2; y++) {
+      if (x === x1 && y === y1) {
+        continue;
+      }
+      const other = (y * width + x) * 4;
+      if (
+        data[pos] === data[other] &&
+        data[pos + 1] === data[other + 1] &&
+        data[pos + 2] === data[other + 2] &&
+        data[pos + 3] === data[other + 3]
+      ) {
+        zeroes++;
+      }
+      if (zeroes > 2) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+function rgb2y(r: number, g: number, b: number): number {
+  return r * 0.29889531 + g * 0.58662247 + b * 0.11448223;
+}
+
+function rgb2i(r: number, g: number, b: number): number {
+  return r * 0.59597799 - g * 0.2741761 - b * 0.32180189;
+}
+
+function rgb2q(r: number, g: number, b: number): number {
+  return r * 0.21147017 - g * 0.52261711 + b * 0.31114694;
+}
+
+function blend(channel: number, alpha: number): number {
+  return 255 + (channel - 255) * alpha;
+}
+
+function drawPixel(output: Uint8Array, pos: number, color: readonly [number, number, number]): void {
+  output[pos] = color[0];
+  output[pos + 1] = color[1];
+  output[pos + 2] = color[2];
+  output[pos + 3] = 255;
+}
+
+/** Unchanged pixels are drawn as a washed-out grayscale copy of the baseline */
+function drawFaded(output: Uint8Array, pos: number, source: Uint8Array): void {
+  const alpha = source[pos + 3] / 255;
+  const luma = blend(rgb2y(source[pos], source[pos + 1], source[pos + 2]), alpha);
+  const value = Math.round(blend(luma, 0.1));
+  output[pos] = value;
+  output[pos + 1] = value;
+  output[pos + 2] = value;
+  output[pos + 3] = 255;
+}
+
+function drawBlended(
+  output: Uint8Array,
+  pos: number,
+  color: readonly [number, number, number],
+  source: Uint8Array,
+  strength: number,
+): void {
+  drawFaded(output, pos, source);
+  for (let c = 0; c < 3; c++) {
+    output[pos + c] = Math.round(output[pos + c] * (1 - strength) + color[c] * strength);
+  }
+}
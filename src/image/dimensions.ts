@@ -0,0 +1,98 @@
+/**
+ * Reads the format and pixel size of an encoded PNG, JPEG or WebP image from
+ * its header, without decoding the pixels.
+ */
+
+import { isPng } from "./png.js";
+
+export type ImageFormat = "png" | "jpeg" | "webp";
+
+export interface ImageInfo {
+  format: ImageFormat;
+  width: number;
+  height: number;
+}
+
+export const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+};
+
+export function readImageInfo(buffer: Buffer): ImageInfo | undefined {
+  if (isPng(buffer)) {
+    return buffer.length >= 24
+      ? { format: "png", width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) }
+      : undefined;
+  }
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return readJpegInfo(buffer);
+  }
+  if (buffer.length >= 30 && buffer.toString("latin1", 0, 4) === "RIFF" && buffer.toString("latin1", 8, 12) === "WEBP") {
+    return readWebpInfo(buffer);
+  }
+  return undefined;
+}
+
+function readJpegInfo(buffer: Buffer): ImageInfo | undefined {
+  let offset = 2;
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      return undefined;
+    }
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      // Fill byte before a marker
+      offset++;
+      continue;
+    }
+    // Markers without a length field
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += 2;
+      continue;
+    }
+    // Start-of-frame markers carry the dimensions (C4, C8 and CC are not frames)
+    const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrame) {
+      if (offset + 9 > buffer.length) {
+        return undefined;
+      }
+      return {
+        format: "jpeg",
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7),
+      };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+function readWebpInfo(buffer: Buffer): ImageInfo | undefined {
+  const chunk = buffer.toString("latin1", 12, 16);
+  switch (chunk) {
+    case "VP8 ":
+      // Lossy: 3-byte frame tag, then start code 9d 01 2a, then 14-bit sizes
+      return {
+        format: "webp",
+        width: buffer.readUInt16LE(26) & 0x3fff,
+        height: buffer.readUInt16LE(28) & 0x3fff,
+      };
+    case "VP8L": {
+      const bits = buffer.readUInt32LE(21);
+      return {
+        format: "webp",
+        width: (bits & 0x3fff) + 1,
+        height: ((bits >> 14) & 0x3fff) + 1,
+      };
+    }
+    case "VP8X":
+      return {
+        format: "webp",
+        width: buffer.readUIntLE(24, 3) + 1,
+        height: buffer.readUIntLE(27, 3) + 1,
+      };
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,403 @@
+/**
+ * Minimal PNG codec in pure TypeScript.
+ *
+ * Decodes every standard PNG variant (grayscale, RGB, palette, alpha, 1-16 bit,
+ * Adam7 interlacing) into 8-bit RGBA, and encodes 8-bit RGBA back to PNG.
+ * Compression uses Node's built-in zlib, so no native image library is needed.
+ */
+
+import { deflateSync, inflateSync } from "zlib";
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  /** Row-major RGBA pixels, 4 bytes per pixel */
+  data: Uint8Array;
+}
+
+export class PngError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PngError";
+  }
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Channels per pixel for each PNG color type
+const CHANNELS: Record<number, number> = {
+  0: 1, // grayscale
+  2: 3, // RGB
+  3: 1, // palette index
+  4: 2, // grayscale + alpha
+  6: 4, // RGBA
+};
+
+const ALLOWED_BIT_DEPTHS: Record<number, number[]> = {
+  0: [1, 2, 4, 8, 16],
+  2: [8, 16],
+  3: [1, 2, 4, 8],
+  4: [8, 16],
+  6: [8, 16],
+};
+
+// Adam7 passes: [xStart, yStart, xStep, yStep]
+const ADAM7_PASSES: Array<[number, number, number, number]> = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+/** Upper bound on decoded pixels, so a hostile header can't exhaust memory */
+const MAX_PIXELS = 100_000_000;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer: Uint8Array, start: number, end: number): number {
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function isPng(buffer: Uint8Array): boolean {
+  return buffer.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((byte, i) => buffer[i] === byte);
+}
+
+export function decodePng(input: Buffer | Uint8Array): RgbaImage {
+  const buffer = Buffer.isBuffer(input) ? input : Buffer.from(input);
+  if (!isPng(buffer)) {
+    throw new PngError("Not a PNG image");
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = -1;
+  let interlace = 0;
+  let palette: Uint8Array | undefined;
+  let transparency: Uint8Array | undefined;
+  const idat: Buffer[] = [];
+  let offset = PNG_SIGNATURE.length;
+  let sawEnd = false;
+
+  while (offset < buffer.length) {
+    if (offset + 12 > buffer.length) {
+      throw new PngError("Truncated PNG chunk");
+    }
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    const dataStart = offset + 8;
+    const dataEnd = dataStart + length;
+    if (dataEnd + 4 > buffer.length) {
+      throw new PngError(`Truncated PNG chunk: ${type}`);
+    }
+    if (crc32(buffer, offset + 4, dataEnd) !== buffer.readUInt32BE(dataEnd)) {
+      throw new PngError(`CRC mismatch in PNG chunk: ${type}`);
+    }
+    const data = buffer.subarray(dataStart, dataEnd);
+
+    switch (type) {
+      case "IHDR":
+        width = data.readUInt32BE(0);
+        height = data.readUInt32BE(4);
+        bitDepth = data[8];
+        colorType = data[9];
+        interlace = data[12];
+        if (data[10] !== 0 || data[11] !== 0) {
+          throw new PngError("Unsupported PNG compression or filter method");
+        }
+        break;
+      case "PLTE":
+        palette = data;
+        break;
+      case "tRNS":
+        transparency = data;
+        break;
+      case "IDAT":
+        idat.push(data);
+        break;
+      case "IEND":
+        sawEnd = true;
+        break;
+      default:
+        // Ancillary chunks (gAMA, pHYs, tEXt, ...) don't affect pixels here
+        break;
+    }
+
+    offset = dataEnd + 4;
+    if (sawEnd) {
+      break;
+    }
+  }
+
+  if (width === 0 || height === 0) {
+    throw new PngError("PNG is missing a valid IHDR chunk");
+  }
+  if (!(colorType in CHANNELS) || !ALLOWED_BIT_DEPTHS[colorType].includes(bitDepth)) {
+    throw new PngError(`Unsupported PNG format: color type ${colorType}, bit depth ${bitDepth}`);
+  }
+  if (colorType === 3 && !palette) {
+    throw new PngError("Palette PNG is missing its PLTE chunk");
+  }
+  if (width * height > MAX_PIXELS) {
+    throw new PngError(`PNG is too large: ${width}x${height}`);
+  }
+  if (idat.length === 0) {
+    throw new PngError("PNG has no image data");
+  }
+
+  let raw: Buffer;
+  try {
+    raw = inflateSync(Buffer.concat(idat));
+  } catch (error) {
+    throw new PngError(`Corrupt PNG image data: ${(error as Error).message}`);
+  }
+
+  const format: PixelFormat = { bitDepth, colorType, palette, transparency };
+  const output = new Uint8Array(width * height * 4);
+
+  if (interlace === 0) {
+    unpackPass(raw, 0, width, height, format, (x, y, rgba) => {
+      output.set(rgba, (y * width + x) * 4);
+    });
+  } else {
+    let passOffset = 0;
+    for (const [xStart, yStart, xStep, yStep] of ADAM7_PASSES) {
+      const passWidth = Math.ceil((width - xStart) / xStep);
+      const passHeight = Math.ceil((height - yStart) / yStep);
+      if (passWidth <= 0 || passHeight <= 0) {
+        continue;
+      }
+      passOffset = unpackPass(raw, passOffset, passWidth, passHeight, format, (x, y, rgba) => {
+        output.set(rgba, ((yStart + y * yStep) * width + xStart + x * xStep) * 4);
+      });
+    }
+  }
+
+  return { width, height, data: output };
+}
+
+export function encodePng(image: RgbaImage): Buffer {
+  const { width, height, data } = image;
+  if (data.length !== width * height * 4) {
+    throw new PngError(`Pixel buffer size ${data.length} does not match ${width}x${height} RGBA`);
+  }
+
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (stride + 1);
+    // Filter type 1 (Sub) compresses flat diff overlays well and is cheap to compute
+    raw[rowStart] = 1;
+    for (let i = 0; i < stride; i++) {
+      const left = i >= 4 ? data[y * stride + i - 4] : 0;
+      raw[rowStart + 1 + i] = (data[y * stride + i] - left) & 0xff;
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+  header[10] = 0;
+  header[11] = 0;
+  header[12] = 0;
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    createChunk("IHDR", header),
+    createChunk("IDAT", deflateSync(raw)),
+    createChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+interface PixelFormat {
+  bitDepth: number;
+  colorType: number;
+  palette?: Uint8Array;
+  transparency?: Uint8Array;
+}
+
+function createChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(data.length + 12);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, "latin1");
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk, 4, data.length + 8), data.length + 8);
+  return chunk;
+}
+
+/**
+ * Unfilters one (sub)image starting at offset and reports each pixel as RGBA.
+ * Returns the offset just past the pass.
+ */
+function unpackPass(
+  raw: Buffer,
+  offset: number,
+  width: number,
+  height: number,
+  format: PixelFormat,
+  emit: (x: number, y: number, rgba: Uint8Array) => void,
+): number {
+  const channels = CHANNELS[format.colorType];
+  const bitsPerPixel = channels * format.bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+
+  if (offset + (stride + 1) * height > raw.length) {
+    throw new PngError("PNG image data is shorter than its dimensions");
+  }
+
+  let previous = new Uint8Array(stride);
+  let current = new Uint8Array(stride);
+  const rgba = new Uint8Array(4);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[offset];
+    const line = raw.subarray(offset + 1, offset + 1 + stride);
+    offset += stride + 1;
+
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bytesPerPixel ? current[i - bytesPerPixel] : 0;
+      const up = previous[i];
+      const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+      let value: number;
+      switch (filter) {
+        case 0:
+          value = line[i];
+          break;
+        case 1:
+          value = line[i] + left;
+          break;
+        case 2:
+          value = line[i] + up;
+          break;
+        case 3:
+          value = line[i] + ((left + up) >> 1);
+          break;
+        case 4:
+          value = line[i] + paeth(left, up, upLeft);
+          break;
+        default:
+          throw new PngError(`Invalid PNG filter type: ${filter}`);
+      }
+      current[i] = value & 0xff;
+    }
+
+    for (let x = 0; x < width; x++) {
+      readPixel(current, x, format, rgba);
+      emit(x, y, rgba);
+    }
+
+    [previous, current] = [current, previous];
+  }
+
+  return offset;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) {
+    return a;
+  }
+  return pb <= pc ? b : c;
+}
+
+function readPixel(line: Uint8Array, x: number, format: PixelFormat, out: Uint8Array): void {
+  const { bitDepth, colorType, palette, transparency } = format;
+
+  // Sub-byte samples (grayscale or palette at 1, 2 or 4 bits)
+  const sample = (index: number): number => {
+    if (bitDepth === 8) {
+      return line[index];
+    }
+    if (bitDepth === 16) {
+      return line[index * 2];
+    }
+    const bitOffset = index * bitDepth;
+    const byte = line[bitOffset >> 3];
+    const shift = 8 - bitDepth - (bitOffset & 7);
+    return (byte >> shift) & ((1 << bitDepth) - 1);
+  };
+  const raw16 = (index: number): number => (line[index * 2] << 8) | line[index * 2 + 1];
+
+  switch (colorType) {
+    case 0: {
+      const value = sample(x);
+      const gray = bitDepth < 8 ? Math.round((value * 255) / ((1 << bitDepth) - 1)) : value;
+      let alpha = 255;
+      if (transparency && transparency.length >= 2) {
+        const key = (transparency[0] << 8) | transparency[1];
+        const original = bitDepth === 16 ? raw16(x) : value;
+        alpha = original === key ? 0 : 255;
+      }
+      out[0] = gray;
+      out[1] = gray;
+      out[2] = gray;
+      out[3] = alpha;
+      return;
+    }
+    case 2: {
+      out[0] = sample(x * 3);
+      out[1] = sample(x * 3 + 1);
+      out[2] = sample(x * 3 + 2);
+      out[3] = 255;
+      if (transparency && transparency.length >= 6) {
+        const matches = bitDepth === 16
+          ? [0, 1, 2].every((c) => raw16(x * 3 + c) === ((transparency[c * 2] << 8) | transparency[c * 2 + 1]))
+          : [0, 1, 2].every((c) => out[c] === transparency[c * 2 + 1]);
+        if (matches) {
+          out[3] = 0;
+        }
+      }
+      return;
+    }
+    case 3: {
+      const index = sample(x);
+      const base = index * 3;
+      if (!palette || base + 2 >= palette.length) {
+        throw new PngError(`Palette index ${index} out of range`);
+      }
+      out[0] = palette[base];
+      out[1] = palette[base + 1];
+      out[2] = palette[base + 2];
+      out[3] = transparency && index < transparency.length ? transparency[index] : 255;
+      return;
+    }
+    case 4: {
+      const gray = sample(x * 2);
+      out[0] = gray;
+      out[1] = gray;
+      out[2] = gray;
+      out[3] = sample(x * 2 + 1);
+      return;
+    }
+    case 6: {
+      out[0] = sample(x * 4);
+      out[1] = sample(x * 4 + 1);
+      out[2] = sample(x * 4 + 2);
+      out[3] = sample(x * 4 + 3);
+      return;
+    }
+  }
+}
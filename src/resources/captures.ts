@@ -0,0 +1,127 @@
+/**
+ * Exposes everything saved through the storage registry as MCP resources at
+ * capture://{target}/{key}, and tells clients when new captures are saved.
+ */
+
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError, type ReadResourceResult, type Resource } from "@modelcontextprotocol/sdk/types.js";
+
+import type { Logger } from "../logger.js";
+import {
+  getStorageTarget,
+  isTextMimeType,
+  listStorageTargets,
+  mimeTypeFromKey,
+  onStorageSaved,
+  statCapture,
+  StorageError,
+  type StorageListItem,
+} from "../storage/index.js";
+import { CAPTURE_RESOURCE_DESCRIPTION } from "../schemas/index.js";
+import { currentTenant } from "../utils/tenant.js";
+
+export const CAPTURE_URI_TEMPLATE = "capture://{target}/{+key}";
+
+export function registerCaptureResources(server: McpServer, logger: Logger) {
+  server.registerResource(
+    "captures",
+    new ResourceTemplate(CAPTURE_URI_TEMPLATE, {
+      list: async () => ({ resources: await listCaptureResources(logger) }),
+      complete: {
+        target: (value) => listStorageTargets().map(({ name }) => name).filter((name) => name.startsWith(value)),
+      },
+    }),
+    {
+      title: "Stored captures",
+      description: CAPTURE_RESOURCE_DESCRIPTION,
+    },
+    async (uri, variables) => readCaptureResource(uri.href, String(variables.target), String(variables.key)),
+  );
+
+  // Saves happen outside any request, so the notification goes out on its own.
+  // Only clients of the key that saved are told, since only they can list it.
+  const owner = currentTenant();
+  const unsubscribe = onStorageSaved(() => {
+    if (currentTenant() === owner) {
+      server.sendResourceListChanged();
+    }
+  });
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    unsubscribe();
+    previousOnClose?.();
+  };
+}
+
+export function captureUri(target: string, key: string): string {
+  return `capture://${encodeURIComponent(target)}/${key.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+async function listCaptureResources(logger: Logger): Promise<Resource[]> {
+  const resources: Resource[] = [];
+  for (const { name, target } of listStorageTargets()) {
+    if (!target.list || !target.retrieve) {
+      continue;
+    }
+    let items: StorageListItem[];
+    try {
+      items = await target.list();
+    } catch (error) {
+      // One unreachable target should not hide the others
+      logger.warn("resources:list_failed", { target: name, error: (error as Error).message });
+      continue;
+    }
+    for (const item of items) {
+      resources.push({
+        uri: captureUri(name, item.key),
+        name: item.key,
+        title: `${item.key} (${name})`,
+        mimeType: item.mimeType ?? mimeTypeFromKey(item.key),
+        _meta: {
+          size: item.size,
+          lastModified: item.modified,
+          ...(item.metadata ? { tags: item.metadata } : {}),
+        },
+      });
+    }
+  }
+  return resources;
+}
+
+async function readCaptureResource(uri: string, encodedTarget: string, encodedKey: string): Promise<ReadResourceResult> {
+  const targetName = decodeURIComponent(encodedTarget);
+  const key = encodedKey.split("/").map(decodeURIComponent).join("/");
+
+  const target = getStorageTarget(targetName);
+  if (!target?.retrieve) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown storage target "${targetName}"`, { uri });
+  }
+  let data: Buffer | string | null;
+  try {
+    data = await target.retrieve(key);
+  } catch (error) {
+    if (error instanceof StorageError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message, { uri, code: error.code });
+    }
+    throw error;
+  }
+  if (data === null) {
+    throw new McpError(ErrorCode.InvalidParams, `Capture "${key}" not found in storage target "${targetName}"`, {
+      uri,
+      code: "STORAGE_NOT_FOUND",
+    });
+  }
+
+  const item = target.stat || target.list ? await statCapture(target, key) : null;
+  const mimeType = item?.mimeType ?? mimeTypeFromKey(key) ?? "application/octet-stream";
+  const buffer = typeof data === "string" ? Buffer.from(data) : data;
+  const meta = item?.metadata ? { _meta: { tags: item.metadata } } : {};
+
+  return {
+    contents: [
+      isTextMimeType(mimeType)
+        ? { uri, mimeType, text: buffer.toString("utf8"), ...meta }
+        : { uri, mimeType, blob: buffer.toString("base64"), ...meta },
+    ],
+  };
+}
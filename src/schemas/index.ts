@@ -20,6 +20,8 @@
 
 import { z } from "zod";
 
+import type { StructuredDataItem } from "../types/metadata.js";
+
 // ============================================
 // DEVICE PRESETS (Enum to prevent hallucination)
 // ============================================
@@ -180,6 +182,12 @@ export const screenshotStepSchema = z.object({
     .describe("(optional) Capture entire scrollable page. Default: false"),
   element: z.string().optional()
     .describe("(optional) CSS selector to capture specific element only"),
+  format: z.enum(["png", "jpeg", "webp"]).optional()
+    .describe("(optional) Image format. Default: 'png'"),
+  quality: z.number().int().min(1).max(100).optional()
+    .describe("(optional) Compression quality 1-100 for jpeg/webp. Default: 80"),
+  maxBytes: z.number().int().min(1024).optional()
+    .describe("(optional) Byte budget. Lowers quality, then downscales until the image fits. PNG switches to jpeg when over budget"),
 }).describe("Capture screenshot. Auto-added at end if omitted. Errors: ELEMENT_NOT_FOUND (if 'element' used).");
 
 // ============================================
@@ -316,6 +324,87 @@ export const runtimeStepSchema = z.discriminatedUnion("type", [
 
 export type RuntimeStep = z.infer<typeof runtimeStepSchema>;
 
+export const sessionIdSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{1,64}$/, "Session id must be 1-64 letters, digits, '-' or '_'.")
+  .describe("(optional) Run against an open browser session (from openSession) instead of a fresh page");
+
+export const MAX_DEVICES_PER_CAPTURE = 6;
+
+export const devicesSchema = z
+  .array(devicePresetSchema)
+  .min(1)
+  .max(MAX_DEVICES_PER_CAPTURE)
+  .refine((devices) => new Set(devices).size === devices.length, "Devices must not repeat.")
+  .describe("(optional) Capture once per device with the same steps, e.g. ['mobile', 'tablet', 'desktop']");
+
+export const responseFormatSchema = z
+  .enum(["text", "json"])
+  .describe("(optional) 'json' returns the result as JSON, and failures as a JSON error with recovery steps. Default: 'text'");
+
+export const traceSchema = z
+  .union([
+    z.boolean(),
+    z.object({
+      thumbnails: z.boolean().optional()
+        .describe("(optional) Thumbnail of the page after every step. Default: false"),
+      save: z.boolean().optional()
+        .describe("(optional) Save the trace as one JSON bundle to storage, also when the capture fails. Default: false"),
+    }),
+  ])
+  .describe("(optional) Record a per-step timeline (type, selector, timing, outcome) to debug failing flows");
+
+export const recordHarSchema = z
+  .union([
+    z.boolean(),
+    z.object({
+      includeBodies: z.boolean().optional()
+        .describe("(optional) Store response bodies. Default: false"),
+      maxBodyBytes: z.number().int().positive().max(10 * 1024 * 1024).optional()
+        .describe("(optional) Largest body to store in bytes. Default: 65536"),
+    }),
+  ])
+  .describe("(optional) Record every request and response as a HAR 1.2 file saved to storage; a network summary is added to the response");
+
+const networkMockSchema = z.object({
+  url: z.string().min(1)
+    .describe("(required) URL glob to answer, e.g. 'https://api.example.com/products*'"),
+  method: z.string().min(1).optional()
+    .describe("(optional) Only mock this HTTP method"),
+  status: z.number().int().min(100).max(599).optional()
+    .describe("(optional) Response status. Default: 200"),
+  headers: z.record(z.string().min(1), z.string()).optional()
+    .describe("(optional) Response headers"),
+  json: z.any().optional()
+    .describe("(optional) Respond with this value as JSON"),
+  body: z.string().optional()
+    .describe("(optional) Respond with this text"),
+  file: z.string().min(1).optional()
+    .describe("(optional) Respond with this file, relative to the server's mock directory; content type follows the extension"),
+  contentType: z.string().min(1).optional()
+    .describe("(optional) Override the response content type"),
+}).refine(
+  (mock) => [mock.json, mock.body, mock.file].filter((value) => value !== undefined).length <= 1,
+  { message: "A mock takes only one of json, body or file" },
+);
+
+export const networkSchema = z.object({
+  block: z.array(z.string().min(1)).optional()
+    .describe("(optional) URL globs to block, e.g. ['*://*.example-cdn.com/*', '*.mp4']. '*' matches anything"),
+  blockResourceTypes: z.array(z.enum(["ads", "analytics", "fonts", "media", "images", "stylesheets"])).optional()
+    .describe("(optional) Block whole categories of requests"),
+  mocks: z.array(networkMockSchema).optional()
+    .describe("(optional) Serve these responses instead of hitting the network"),
+  headers: z.record(z.string().min(1), z.record(z.string().min(1), z.string().nullable())).optional()
+    .describe("(optional) Host glob → request headers to set; null removes a header. E.g. { '*.example.com': { 'X-Test': '1' } }"),
+}).describe("(optional) Block, mock or rewrite requests for reproducible captures; matched rules are reported in the metadata");
+
+export const collectConsoleSchema = z.boolean()
+  .describe("(optional) Return console messages by level, uncaught exceptions with stacks, and failed requests. Default: false");
+
+export const failOnConsoleErrorSchema = z.boolean()
+  .describe("(optional) Fail the call when the page logs console.error or throws an uncaught exception (implies collectConsole). Default: false");
+
 // ============================================
 // TOOL INPUT SCHEMAS
 // ============================================
@@ -327,11 +416,21 @@ export type RuntimeStep = z.infer<typeof runtimeStepSchema>;
 export const captureScreenshotInputSchema = z.object({
   url: z.string().min(1)
     .describe("(required) Webpage URL to capture"),
+  sessionId: sessionIdSchema.optional(),
   steps: z.array(llmStepSchema).optional()
     .describe("(optional) Steps to execute before capture. Order: viewport → wait → fill → click → scroll → screenshot"),
+  devices: devicesSchema.optional(),
+  composite: z.boolean().optional()
+    .describe("(optional) With devices, also return one side-by-side image of all captures"),
   headers: headersSchema,
   validate: z.boolean().optional()
     .describe("(optional) Validate steps without executing. Returns analysis of step order and potential issues."),
+  responseFormat: responseFormatSchema.optional(),
+  trace: traceSchema.optional(),
+  recordHar: recordHarSchema.optional(),
+  network: networkSchema.optional(),
+  collectConsole: collectConsoleSchema.optional(),
+  failOnConsoleError: failOnConsoleErrorSchema.optional(),
 });
 
 /**
@@ -341,10 +440,272 @@ export const captureScreenshotInputSchema = z.object({
 export const extractDomInputSchema = z.object({
   url: z.string().min(1)
     .describe("(required) Webpage URL to extract DOM from"),
+  sessionId: sessionIdSchema.optional(),
   selector: z.string().min(1).optional()
     .describe("(optional) CSS selector to scope extraction (e.g., 'main', '#content')"),
+  recordHar: recordHarSchema.optional(),
+  network: networkSchema.optional(),
+  collectConsole: collectConsoleSchema.optional(),
+  failOnConsoleError: failOnConsoleErrorSchema.optional(),
 });
 
+// ============================================
+// TOOL OUTPUT SCHEMAS
+// ============================================
+
+const networkRuleMatchOutputSchema = z.object({
+  action: z.enum(["block", "mock", "headers"]),
+  rule: z.string(),
+  matches: z.number(),
+  urls: z.array(z.string()),
+});
+
+const screenshotMetadataOutputSchema = z.object({
+  url: z.string(),
+  fullPage: z.boolean(),
+  viewportWidth: z.number(),
+  viewportHeight: z.number(),
+  scrollWidth: z.number(),
+  scrollHeight: z.number(),
+  scrollX: z.number(),
+  scrollY: z.number(),
+  bytes: z.number(),
+  format: z.enum(["png", "jpeg", "webp"]).optional(),
+  imageWidth: z.number().optional(),
+  imageHeight: z.number().optional(),
+  quality: z.number().optional(),
+  scale: z.number().optional(),
+  budgetExceeded: z.boolean().optional(),
+  capturedAt: z.string(),
+  viewportPreset: z.string().optional(),
+  device: z.string().optional(),
+  retryAttempts: z.number().optional(),
+  storageLocation: z.string().optional(),
+  clickActionsExecuted: z.number().optional(),
+  stepsExecuted: z.number().optional(),
+  networkRules: z.array(networkRuleMatchOutputSchema).optional(),
+});
+
+const stepExecutionOutputSchema = z.object({
+  type: z.string(),
+  target: z.string().optional(),
+  success: z.boolean(),
+  error: z.string().optional(),
+});
+
+const llmErrorOutputSchema = z.object({
+  success: z.literal(false),
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    step: z.number().optional(),
+    stepType: z.string().optional(),
+    target: z.string().optional(),
+  }),
+  recovery: z.object({
+    action: z.enum(["retry", "modify", "skip", "abort"]),
+    description: z.string(),
+    correctedSteps: z.array(z.any()).optional(),
+  }),
+  context: z.object({
+    url: z.string(),
+    stepsTotal: z.number(),
+    stepsCompleted: z.number(),
+    lastSuccessfulStep: z.number().optional(),
+    executionTimeMs: z.number(),
+  }),
+});
+
+const executionTraceOutputSchema = z.object({
+  url: z.string(),
+  startedAt: z.string(),
+  endedAt: z.string().optional(),
+  durationMs: z.number().optional(),
+  outcome: z.enum(["running", "success", "failed"]),
+  error: z.string().optional(),
+  steps: z.array(z.object({
+    index: z.number(),
+    phase: z.enum(["before-navigation", "after-navigation"]),
+    type: z.string(),
+    target: z.string().optional(),
+    device: z.string().optional(),
+    attempt: z.number(),
+    startedAt: z.string(),
+    endedAt: z.string(),
+    durationMs: z.number(),
+    outcome: z.enum(["success", "failed"]),
+    error: z.string().optional(),
+    /** The image is in the trace bundle (bundlePointer) or an image block (contentIndex) */
+    thumbnail: z.object({
+      mimeType: z.string(),
+      width: z.number().optional(),
+      height: z.number().optional(),
+      bundlePointer: z.string().optional(),
+      contentIndex: z.number().optional(),
+    }).optional(),
+  })),
+});
+
+const harRequestOutputSchema = z.object({
+  url: z.string(),
+  method: z.string(),
+  status: z.number(),
+  time: z.number(),
+  error: z.string().optional(),
+});
+
+const consoleOutputSchema = z.object({
+  counts: z.record(z.string(), z.number()),
+  messages: z.array(z.object({
+    level: z.string(),
+    text: z.string(),
+    location: z.string().optional(),
+  })),
+  pageErrors: z.array(z.object({
+    message: z.string(),
+    stack: z.string().optional(),
+  })),
+  failedRequests: z.array(z.object({
+    url: z.string(),
+    method: z.string(),
+    resourceType: z.string(),
+    status: z.number().optional(),
+    errorText: z.string().optional(),
+  })),
+  truncated: z.boolean().optional(),
+});
+
+const harOutputSchema = z.object({
+  location: z.string().optional(),
+  summary: z.object({
+    totalRequests: z.number(),
+    totalBytes: z.number(),
+    failed: z.array(harRequestOutputSchema),
+    slowest: z.array(harRequestOutputSchema),
+  }),
+});
+
+/**
+ * captureScreenshot structured result (MCP structuredContent).
+ * metadata, validation or error is set; a failed step sets both metadata and error.
+ */
+export const captureScreenshotOutputSchema = z.object({
+  success: z.boolean(),
+  metadata: screenshotMetadataOutputSchema.optional(),
+  devices: z.array(z.object({
+    device: z.string(),
+    metadata: screenshotMetadataOutputSchema,
+  })).optional(),
+  composite: z.object({
+    width: z.number(),
+    height: z.number(),
+    devices: z.array(z.object({ device: z.string(), x: z.number() })),
+  }).optional(),
+  steps: z.array(stepExecutionOutputSchema).optional(),
+  warnings: z.array(z.string()),
+  validation: z.object({
+    valid: z.boolean(),
+    stepCount: z.number(),
+    estimatedTimeMs: z.number(),
+    warnings: z.array(z.string()),
+    errors: z.array(z.string()),
+    suggestions: z.array(z.object({
+      stepIndex: z.number(),
+      issue: z.string(),
+      fix: z.string(),
+      correctedStep: z.any().optional(),
+    })),
+    stepAnalysis: z.array(z.object({
+      index: z.number(),
+      type: z.string(),
+      target: z.string().optional(),
+      status: z.enum(["ok", "warning", "error"]),
+      notes: z.array(z.string()),
+    })),
+  }).optional(),
+  error: llmErrorOutputSchema.optional(),
+  trace: executionTraceOutputSchema.optional(),
+  /** Storage location of the saved trace bundle */
+  traceLocation: z.string().optional(),
+  har: harOutputSchema.optional(),
+  console: consoleOutputSchema.optional(),
+});
+
+export type CaptureScreenshotOutput = z.infer<typeof captureScreenshotOutputSchema>;
+
+const structuredDataItemOutputSchema: z.ZodType<StructuredDataItem> = z.lazy(() =>
+  z.object({
+    types: z.array(z.string()),
+    id: z.string().nullable(),
+    properties: z.record(z.string(), z.array(z.union([z.string(), structuredDataItemOutputSchema]))),
+  }),
+);
+
+/**
+ * extractMetadata structured result (MCP structuredContent).
+ * Absent single values are null; absent lists are empty.
+ */
+export const pageMetadataOutputSchema = z.object({
+  url: z.string(),
+  title: z.string().nullable(),
+  canonicalUrl: z.string().nullable(),
+  language: z.string().nullable(),
+  description: z.string().nullable(),
+  robots: z.object({
+    content: z.string(),
+    directives: z.array(z.string()),
+    index: z.boolean(),
+    follow: z.boolean(),
+  }).nullable(),
+  openGraph: z.object({
+    title: z.string().nullable(),
+    description: z.string().nullable(),
+    type: z.string().nullable(),
+    url: z.string().nullable(),
+    siteName: z.string().nullable(),
+    locale: z.string().nullable(),
+    images: z.array(z.object({
+      url: z.string(),
+      secureUrl: z.string().nullable(),
+      type: z.string().nullable(),
+      width: z.number().nullable(),
+      height: z.number().nullable(),
+      alt: z.string().nullable(),
+    })),
+    /** Remaining og:* properties, keyed without the prefix */
+    other: z.record(z.string(), z.string()),
+  }),
+  twitter: z.object({
+    card: z.string().nullable(),
+    site: z.string().nullable(),
+    creator: z.string().nullable(),
+    title: z.string().nullable(),
+    description: z.string().nullable(),
+    image: z.string().nullable(),
+    imageAlt: z.string().nullable(),
+  }),
+  jsonLd: z.array(z.object({
+    /** @type of the block, or of each @graph entry */
+    types: z.array(z.string()),
+    /** Null when the block is not valid JSON */
+    data: z.unknown(),
+    error: z.string().nullable(),
+  })),
+  microdata: z.array(structuredDataItemOutputSchema),
+  rdfa: z.array(structuredDataItemOutputSchema),
+  alternates: z.array(z.object({ hreflang: z.string(), href: z.string() })),
+  feeds: z.array(z.object({ type: z.string(), title: z.string().nullable(), href: z.string() })),
+  favicons: z.array(z.object({
+    rel: z.string(),
+    href: z.string(),
+    sizes: z.string().nullable(),
+    type: z.string().nullable(),
+  })),
+  capturedAt: z.string(),
+});
+
+export type PageMetadata = z.infer<typeof pageMetadataOutputSchema>;
+
 // ============================================
 // TOOL DESCRIPTIONS (Optimized for LLM scanning)
 // ============================================
@@ -360,6 +721,15 @@ PARAMS:
 • steps (optional): Array of 6 step types (order auto-fixed)
 • headers (optional): HTTP auth headers
 • validate (optional): Dry-run step validation
+• sessionId (optional): Reuse an open session (cookies, storage and current page kept). url may be omitted to capture the session's current page.
+• devices (optional): ["mobile", "tablet", "desktop"] - same steps replayed per device, one image each
+• composite (optional): With devices, add one side-by-side image of all captures
+• responseFormat (optional): "json" for machine-readable results and errors with correctedSteps
+• trace (optional): true or { thumbnails, save } - per-step timeline with timings, saved as a bundle on request
+• recordHar (optional): true or { includeBodies, maxBodyBytes } - save all network traffic as HAR, summary of failed/slow requests in response
+• network (optional): { block, blockResourceTypes, mocks, headers } - block ads/analytics/fonts/media or URL globs, mock responses, rewrite headers per host
+• collectConsole (optional): Return console messages, uncaught exceptions and failed requests
+• failOnConsoleError (optional): Treat console.error or an uncaught exception as a failed capture (smoke checks)
 
 6 STEPS (all optional, order doesn't matter):
 • viewport: { device: "mobile" } - Set device/screen
@@ -379,15 +749,147 @@ EXAMPLE: { "url": "...", "steps": [{ "type": "fill", "target": "#email", "value"
 export const EXTRACT_DOM_SHORT = "Extract HTML, text, and DOM structure from webpage";
 
 /** Full description for tool execution context */
-export const EXTRACT_DOM_DESCRIPTION = `Extract HTML, text, and DOM structure from a webpage.
+export const EXTRACT_DOM_DESCRIPTION = `Extract HTML, text, and DOM structure (or clean Markdown) from a webpage.
 
-USE WHEN: Need text content for analysis, DOM structure for selector discovery, or pre-capture page validation.
+USE WHEN: Need text content for analysis, DOM structure, or pre-capture page validation.
 USE captureScreenshot WHEN: Need visual verification or rendered UI.
+USE findElements WHEN: Need selectors for click/type/select steps.
+USE extractMetadata WHEN: Need title, OpenGraph, JSON-LD or other head metadata.
 
 • url (required): Page URL
 • selector (optional): CSS selector to scope extraction (e.g., 'main', 'article')
+• format (optional): 'full' (default) or 'markdown' - visible content only, keeping headings, lists, links, tables, code and image alt text
+• mode (optional): 'page' (default) or 'article' - main content only (no navigation, footers or cookie banners) with title, byline, publish date and the container's selector for later element steps
+• sessionId (optional): Extract from an open session's current page (url may be omitted)
+• recordHar (optional): true or { includeBodies, maxBodyBytes } - save network traffic as HAR with a summary
+• network (optional): same block/mock/header rules as captureScreenshot
+• collectConsole / failOnConsoleError (optional): same console collection as captureScreenshot
+
+EXAMPLE: { "url": "https://example.com", "selector": "article", "format": "markdown" }`;
+
+export const EXTRACT_METADATA_DESCRIPTION = `Extract a page's structured metadata as typed JSON: title, canonical URL, meta description, robots, OpenGraph, Twitter card, JSON-LD, microdata, RDFa, hreflang alternates, feeds and favicons.
+
+USE WHEN: Need SEO or catalog data (product, article, organization...) without reading the page's HTML.
+USE extractDom WHEN: Need the page's visible content.
+
+• url (required): Page URL
+• sessionId (optional): Use an open session's current page (url may be omitted)
+
+Missing single values are null and missing lists are empty. JSON-LD blocks are parsed; invalid ones keep data null and report the parse error.
+
+EXAMPLE: { "url": "https://example.com/products/42" }`;
+
+export const GET_ACCESSIBILITY_TREE_DESCRIPTION = `Return the page's accessibility tree: role, name, value and states of each node, far smaller than the DOM.
+
+USE WHEN: Need to understand a page's controls and structure, or find a target for click/fill steps.
+USE extractDom WHEN: Need the page's text or HTML.
+
+• url (required): Page URL
+• sessionId (optional): Use an open session's current page (url may be omitted)
+• selector (optional): CSS selector whose subtree is returned
+• interestingOnly (optional): Skip generic containers and nodes without semantics (default: true)
+• maxDepth (optional): Deepest level returned, root = 0
+
+Buttons, links, textboxes and other controls carry a ref: a CSS selector matching only that element, to use as the target of click/fill steps.
+
+EXAMPLE: { "url": "https://example.com/login", "maxDepth": 6 }`;
+
+export const FIND_ELEMENTS_DESCRIPTION = `List the visible interactive elements on a page (links, buttons, inputs, selects, anything with a role) with selectors that are known to work.
+
+USE WHEN: Need a selector for a click/type/select/hover step. Prefer these over selectors guessed from extractDom output.
+USE getAccessibilityTree WHEN: Need the page's structure around the controls.
+
+• url (required): Page URL
+• sessionId (optional): Use an open session's current page (url may be omitted)
+• selector (optional): CSS selector of the region to search (e.g., 'form', 'nav')
+• limit (optional): Most elements returned (default: 100, max: 500)
+
+Each element has its type, label text, bounding box and a ranked list of selectors: id, data-testid, name, aria-label, then a short structural path. Every selector was checked to match exactly one element; use the first.
+
+EXAMPLE: { "url": "https://example.com/login", "selector": "form" }`;
+
+// ============================================
+// SESSION TOOL DESCRIPTIONS
+// ============================================
+
+export const OPEN_SESSION_DESCRIPTION = `Open a persistent browser session that keeps cookies, storage and the current page between tool calls.
+
+USE WHEN: A flow needs several calls against the same logged-in page (e.g., login once, then capture many pages).
+
+• sessionId (optional): Name for the session (letters, digits, '-', '_'). Generated if omitted.
+• url (optional): Page to open immediately
+• headers (optional): HTTP headers sent with every request in the session
+• device (optional): Device preset for the session viewport
+• idleTimeoutMs (optional): Close the session after this much inactivity (default 10 minutes)
+
+Then pass sessionId to captureScreenshot or extractDom. Close with closeSession when done.
+
+EXAMPLE: { "sessionId": "admin", "url": "https://example.com/login" }`;
+
+export const CLOSE_SESSION_DESCRIPTION = `Close a browser session opened with openSession and discard its cookies and storage.
+
+• sessionId (required): Session to close`;
+
+export const LIST_SESSIONS_DESCRIPTION = `List open browser sessions with their current URL and idle expiry.`;
+
+// ============================================
+// VISUAL COMPARISON TOOL DESCRIPTION
+// ============================================
+
+export const COMPARE_SCREENSHOTS_DESCRIPTION = `Capture a page and compare it pixel-by-pixel against a baseline PNG from storage.
+
+USE WHEN: Checking a UI change for visual regressions.
+
+• url (required unless sessionId): Page to capture
+• baselineKey (required): Storage key of the baseline image
+• storageTarget (optional): Storage target holding the baseline
+• threshold (optional): Max mismatch % that still passes (default 0.1)
+• colorThreshold (optional): Per-pixel colour sensitivity 0-1 (default 0.1)
+• includeAntialiasing (optional): Count anti-aliased edge pixels as changes (default false)
+• ignoreRegions (optional): Skip dynamic areas, e.g. [{ "selector": ".ad" }, { "x": 0, "y": 0, "width": 200, "height": 50 }]
+• updateBaseline (optional): Save this capture as the baseline (creates it if missing)
+• steps, headers, sessionId (optional): Same as captureScreenshot
+
+RETURNS: PASS/FAIL, mismatch %, changed region boxes and a diff image (red = changed).
+
+EXAMPLE: { "url": "https://example.com", "baselineKey": "home.png", "ignoreRegions": [{ "selector": ".clock" }] }`;
+
+// ============================================
+// CAPTURE CATALOG TOOL DESCRIPTIONS
+// ============================================
+
+export const LIST_CAPTURES_DESCRIPTION = `List captures saved through storageTarget, newest first, so an earlier screenshot can be reused instead of recaptured.
+
+USE WHEN: Looking for an existing capture of a page before taking a new one.
+
+• storageTarget (optional): Storage target to search (default: the default target)
+• url (optional): Only captures of this page (matches the url tag)
+• tags (optional): Exact tag matches, e.g. { "fullPage": "true", "viewport": "1280x720" }
+• since / until (optional): Capture time range, ISO 8601
+• mimeType (optional): e.g. "image/png" or "image/*"
+• limit (optional): Max results (default 50)
+
+RETURNS: key, content type, size, capture time and tags of each match. Pass the key to getCapture or deleteCapture.
+
+EXAMPLE: { "url": "https://example.com", "since": "2026-01-05T00:00:00Z", "mimeType": "image/*" }`;
+
+export const GET_CAPTURE_DESCRIPTION = `Fetch a stored capture by key: images are returned as images, HTML/JSON as text.
+
+• key (required): Key from listCaptures
+• storageTarget (optional): Storage target holding it (default: the default target)
+
+EXAMPLE: { "key": "capture-2026-01-05T10-00-00-000Z.png" }`;
+
+export const DELETE_CAPTURE_DESCRIPTION = `Delete a stored capture by key.
+
+• key (required): Key from listCaptures
+• storageTarget (optional): Storage target holding it (default: the default target)`;
+
+// ============================================
+// RESOURCE DESCRIPTIONS
+// ============================================
 
-EXAMPLE: { "url": "https://example.com", "selector": "article" }`;
+export const CAPTURE_RESOURCE_DESCRIPTION = `Captures, DOM extractions, traces and HAR files saved through storageTarget, addressed as capture://{target}/{key}. Images are returned as blobs, HTML and JSON as text; the tags saved with each capture are in _meta.tags.`;
 
 // ============================================
 // COMPOSITE PATTERNS (High-level convenience)
@@ -5,8 +5,62 @@ import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import { createLogger, type LogLevel, type Logger } from "./logger.js";
 import { registerCaptureScreenshotTool } from "./tools/captureScreenshot.js";
 import { registerExtractDomTool } from "./tools/extractDom.js";
+import { registerExtractMetadataTool } from "./tools/extractMetadata.js";
+import { registerAccessibilityTreeTool } from "./tools/accessibility.js";
+import { registerFindElementsTool } from "./tools/findElements.js";
+import { registerSessionTools } from "./tools/sessions.js";
+import { registerCompareScreenshotsTool } from "./tools/compareScreenshots.js";
+import { registerCaptureCatalogTools } from "./tools/captures.js";
+import { registerCaptureResources } from "./resources/captures.js";
+import { startHttpServer, type HttpServerHandle, type HttpServerOptions } from "./transport/http.js";
+import { applyServerConfig, type ServerConfig } from "./config/file.js";
 import packageJson from "../package.json" with { type: "json" };
 
+export { configureBrowserPool, shutdownBrowserPool, type BrowserPoolOptions } from "./browser/pool.js";
+export { configureSessions, shutdownSessions, type SessionManagerOptions } from "./browser/sessions.js";
+export { compareScreenshots } from "./tools/compareScreenshots.js";
+export { getAccessibilityTree } from "./tools/accessibility.js";
+export type { AccessibilityNode, AccessibilityTreeInput, AccessibilityTreeResult } from "./types/accessibility.js";
+export { findElements } from "./tools/findElements.js";
+export type { ElementBox, FindElementsInput, FindElementsResult, InteractiveElement } from "./types/elements.js";
+export { extractMetadata } from "./tools/extractMetadata.js";
+export type { PageMetadata } from "./schemas/index.js";
+export type { ExtractMetadataInput, StructuredDataItem } from "./types/metadata.js";
+export { diffImages, type ImageDiffOptions, type ImageDiffResult } from "./image/diff.js";
+export { decodePng, encodePng, type RgbaImage } from "./image/png.js";
+export type { CompareScreenshotsInput, CompareScreenshotsResult, IgnoreRegion } from "./types/compare.js";
+export type { HttpServerHandle, HttpServerOptions, HttpTransportKind, CorsOptions } from "./transport/http.js";
+export type { ApiKeyConfig, QuotaConfig } from "./transport/auth.js";
+export {
+  createStorageTarget,
+  registerStorageTarget,
+  getStorageTarget,
+  LocalStorageTarget,
+  S3StorageTarget,
+  MemoryStorageTarget,
+  type StorageTarget,
+  type StorageTargetConfig,
+  StorageError,
+  type StorageErrorCode,
+  type S3StorageConfig,
+  type LocalStorageOptions,
+  type RetentionPolicy,
+  type SweepResult,
+} from "./storage/index.js";
+export { queryCaptures, type CaptureQuery, type CaptureQueryResult } from "./storage/catalog.js";
+export { DeduplicatingStorageTarget, type CaptureSidecar } from "./storage/dedup.js";
+export { EncryptingStorageTarget, type EncryptionOptions } from "./storage/encryption.js";
+export {
+  getGlobalTelemetry,
+  createConsoleHook,
+  createMetricsHook,
+  createWebhookHook,
+  type TelemetryHook,
+  type TelemetryEvent,
+} from "./telemetry/index.js";
+export { loadServerConfig, parseServerConfig, applyServerConfig, ConfigError, type ServerConfig } from "./config/file.js";
+export { configureCaptureDefaults, type CaptureDefaults, type TimeoutDefaults } from "./config/defaults.js";
+
 export interface CreateServerOptions {
   logger?: Logger;
 }
@@ -25,7 +79,19 @@ const MCP_INSTRUCTIONS = `# MCP Page-Capture Server
 ## captureScreenshot
 Capture webpage screenshot with optional interactions.
 
-**Params:** url (required), steps (optional), headers (optional), validate (optional)
+**Params:** url (required unless sessionId), steps (optional), headers (optional), validate (optional), sessionId (optional), devices (optional), composite (optional), responseFormat (optional), trace (optional), recordHar (optional), network (optional), collectConsole (optional), failOnConsoleError (optional)
+
+**Structured output:** { "url": "...", "responseFormat": "json" } → structuredContent with metadata, per-step results and warnings; failures (and a failed step, next to the capture) return isError with { success: false, error: { code, message, step, stepType, target }, recovery: { action, correctedSteps }, context } instead of a plain message
+
+**Trace:** { "url": "...", "trace": { "thumbnails": true, "save": true } } → per-step timeline (selector, timing, outcome) saved as one JSON bundle, also on failure; thumbnails stay in the bundle, or come back as extra image blocks without save
+
+**Network:** { "url": "...", "recordHar": { "includeBodies": true } } → every request saved as a HAR 1.2 file; failed requests, slowest requests and total bytes summarized in the response
+
+**Network rules:** { "url": "...", "network": { "blockResourceTypes": ["ads", "analytics"], "mocks": [{ "url": "https://api.example.com/*", "json": [] }], "headers": { "*.example.com": { "X-Env": "test" } } } } → reproducible captures; matched rules listed in the metadata
+
+**Console:** { "url": "...", "failOnConsoleError": true } → smoke check: console messages, uncaught exceptions and failed requests are returned, and a console.error or uncaught exception fails the call (PAGE_ERROR)
+
+**Multi-device:** { "url": "...", "devices": ["mobile", "tablet", "desktop"], "composite": true } → one image per device (same steps replayed) plus a side-by-side composite
 
 **6 Steps (order auto-fixed, screenshot auto-added):**
 
@@ -36,7 +102,7 @@ Capture webpage screenshot with optional interactions.
 | fill | target, value | { "type": "fill", "target": "#email", "value": "a@b.com" } |
 | click | target, waitFor | { "type": "click", "target": "#btn", "waitFor": ".result" } |
 | scroll | to or y | { "type": "scroll", "to": "#footer" } |
-| screenshot | fullPage, element | { "type": "screenshot", "fullPage": true } |
+| screenshot | fullPage, element, format, quality, maxBytes | { "type": "screenshot", "format": "jpeg", "maxBytes": 200000 } |
 
 **Composite Patterns (expand automatically):**
 - login: { "type": "login", "email": { "selector": "#email", "value": "..." }, "password": { "selector": "#pass", "value": "..." }, "submit": "#btn", "successIndicator": ".dashboard" }
@@ -49,14 +115,54 @@ Capture webpage screenshot with optional interactions.
 - ELEMENT_NOT_VISIBLE → Add { "type": "scroll", "to": "<selector>" } BEFORE failing step
 
 ## extractDom
-Extract HTML/text/DOM structure. Use for text analysis or selector discovery.
+Extract HTML/text/DOM structure. Use for text analysis; for selectors use findElements.
+
+**Params:** url (required unless sessionId), selector (optional - scope extraction), format (optional - "markdown" for clean Markdown of the visible content; far smaller than the default HTML + text + DOM tree when reading a page), mode (optional - "article" for the main content of news/docs pages with title, byline and publish date; reuse the returned container selector in element steps), sessionId (optional), recordHar (optional - HAR file of network traffic with a failed/slow request summary), network (optional - same block/mock/header rules as captureScreenshot), collectConsole / failOnConsoleError (optional)
+
+## extractMetadata
+Title, canonical URL, description, robots, OpenGraph, Twitter card, parsed JSON-LD, microdata/RDFa items, hreflang alternates, feeds and favicons as typed JSON (also in structuredContent). Use instead of extractDom when only metadata is needed; absent values are null.
+
+**Params:** url (required unless sessionId), sessionId (optional)
+
+## getAccessibilityTree
+Role, name, value and states of every node; much smaller than extractDom's DOM tree. Controls (buttons, links, textboxes...) carry ref=<selector> to use as click/fill targets.
+
+**Params:** url (required unless sessionId), selector (optional - subtree only), interestingOnly (optional, default true), maxDepth (optional), sessionId (optional)
+
+## findElements
+Visible links, buttons, inputs, selects and role elements with label, type, box and ranked selectors (id, data-testid, name, aria-label, short path), each verified to match exactly one element. Use the first selector in steps instead of guessing from extractDom output; this avoids ELEMENT_NOT_FOUND.
+
+**Params:** url (required unless sessionId), selector (optional - region to search), limit (optional, default 100), sessionId (optional)
+
+## Sessions (openSession / closeSession / listSessions)
+Keep one live page across calls (cookies, storage and current URL persist).
+1. openSession { "sessionId": "app", "url": "https://example.com/login" }
+2. captureScreenshot { "sessionId": "app", "steps": [{ "type": "login", ... }] }
+3. captureScreenshot { "sessionId": "app", "url": "https://example.com/settings" } → still logged in
+4. closeSession { "sessionId": "app" } when done (idle sessions expire automatically)
+
+## compareScreenshots
+Capture a page and diff it against a stored baseline PNG. Returns PASS/FAIL, mismatch %, changed regions and a diff image.
 
-**Params:** url (required), selector (optional - scope extraction)
+**Params:** url (required unless sessionId), baselineKey (required), threshold (optional, % default 0.1), ignoreRegions (optional: { "selector": ".ad" } or { "x", "y", "width", "height" }), updateBaseline (optional), steps/headers/sessionId as captureScreenshot
+
+## Stored captures (listCaptures / getCapture / deleteCapture)
+Reuse an earlier capture instead of recapturing:
+1. listCaptures { "url": "https://example.com", "since": "2026-01-05T00:00:00Z" } → newest first, filterable by tags (fullPage, viewport, kind...) and mimeType
+2. getCapture { "key": "<key from the list>" } → the image (or HTML/JSON text) plus its tags
+3. deleteCapture { "key": "..." } removes it
+
+## Resources: capture://{target}/{key}
+Everything saved with storageTarget (screenshots, DOM extractions, traces, HAR files) is listed as a resource; read it to get images back as blobs and HTML/JSON as text, with size, lastModified and the saved tags in _meta. The list changes (resources/list_changed) whenever a capture is saved.
 `;
 
-export function createPageCaptureServer(options: CreateServerOptions = {}): CreateServerResult {
+function resolveLogger(logger?: Logger): Logger {
   const resolvedLevel = (process.env.LOG_LEVEL as LogLevel) || "info";
-  const logger = options.logger ?? createLogger(resolvedLevel);
+  return logger ?? createLogger(resolvedLevel);
+}
+
+export function createPageCaptureServer(options: CreateServerOptions = {}): CreateServerResult {
+  const logger = resolveLogger(options.logger);
 
   const server = new McpServer(
     {
@@ -70,12 +176,21 @@ export function createPageCaptureServer(options: CreateServerOptions = {}): Crea
 
   registerCaptureScreenshotTool(server, logger);
   registerExtractDomTool(server, logger);
+  registerExtractMetadataTool(server, logger);
+  registerAccessibilityTreeTool(server, logger);
+  registerFindElementsTool(server, logger);
+  registerSessionTools(server, logger);
+  registerCompareScreenshotsTool(server, logger);
+  registerCaptureCatalogTools(server, logger);
+  registerCaptureResources(server, logger);
 
   return { server, logger };
 }
 
 export interface StartServerOptions extends CreateServerOptions {
   transport?: Transport;
+  /** Applied once before the server accepts requests (see loadServerConfig) */
+  config?: ServerConfig;
 }
 
 export interface StartServerResult extends CreateServerResult {
@@ -87,8 +202,39 @@ export async function startMcpPageCaptureServer(options: StartServerOptions = {}
   const { server, logger } = createPageCaptureServer({ logger: options.logger });
 
   logger.info("mcp-page-capture starting");
+  if (options.config) {
+    await applyServerConfig(options.config, logger);
+  }
   await server.connect(transport);
   logger.info("mcp-page-capture ready to accept requests");
 
   return { server, transport, logger };
 }
+
+export interface StartHttpServerOptions extends CreateServerOptions, Omit<HttpServerOptions, "version"> {
+  /** Applied once before the server accepts requests (see loadServerConfig) */
+  config?: ServerConfig;
+}
+
+export interface StartHttpServerResult extends HttpServerHandle {
+  logger: Logger;
+}
+
+/** Serves the tools to many clients over HTTP; each MCP session gets its own server instance */
+export async function startMcpPageCaptureHttpServer(options: StartHttpServerOptions): Promise<StartHttpServerResult> {
+  const { logger: providedLogger, config, ...httpOptions } = options;
+  const logger = resolveLogger(providedLogger);
+
+  logger.info("mcp-page-capture starting", { transport: options.transport });
+  if (config) {
+    await applyServerConfig(config, logger);
+  }
+  const handle = await startHttpServer(
+    () => createPageCaptureServer({ logger }).server,
+    { ...httpOptions, version: packageJson.version },
+    logger,
+  );
+  logger.info("mcp-page-capture ready to accept requests", { url: handle.url });
+
+  return { ...handle, logger };
+}
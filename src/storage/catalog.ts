@@ -0,0 +1,63 @@
+/**
+ * Filtering over StorageTarget.list(): finds stored captures by the tags they
+ * were saved with (url, fullPage, viewport, kind, ...) and by capture time.
+ */
+
+import { mimeTypeFromKey, type StorageListItem, type StorageTarget } from "./index.js";
+
+export interface CaptureQuery {
+  /** Every tag must match exactly */
+  tags?: Record<string, string>;
+  /** Inclusive lower bound on the capture time (ISO 8601) */
+  since?: string;
+  /** Inclusive upper bound on the capture time (ISO 8601) */
+  until?: string;
+  /** Exact content type, or a family such as "image/*" */
+  mimeType?: string;
+  /** Default: 50 */
+  limit?: number;
+}
+
+export interface CaptureQueryResult {
+  /** Newest first */
+  items: StorageListItem[];
+  /** Matches before the limit was applied */
+  total: number;
+}
+
+const DEFAULT_QUERY_LIMIT = 50;
+
+export async function queryCaptures(target: StorageTarget, query: CaptureQuery = {}): Promise<CaptureQueryResult> {
+  if (!target.list) {
+    throw new Error(`Storage target of type "${target.type}" does not support listing captures`);
+  }
+
+  const since = query.since ? Date.parse(query.since) : -Infinity;
+  const until = query.until ? Date.parse(query.until) : Infinity;
+  const tags = Object.entries(query.tags ?? {});
+
+  const matches = (await target.list()).filter((item) => {
+    const capturedAt = Date.parse(item.modified);
+    if (capturedAt < since || capturedAt > until) {
+      return false;
+    }
+    if (query.mimeType && !matchesMimeType(item.mimeType ?? mimeTypeFromKey(item.key), query.mimeType)) {
+      return false;
+    }
+    return tags.every(([name, value]) => item.metadata?.[name] !== undefined && String(item.metadata[name]) === value);
+  });
+
+  matches.sort((a, b) => Date.parse(b.modified) - Date.parse(a.modified));
+
+  return {
+    items: matches.slice(0, query.limit ?? DEFAULT_QUERY_LIMIT),
+    total: matches.length,
+  };
+}
+
+function matchesMimeType(mimeType: string | undefined, pattern: string): boolean {
+  if (!mimeType) {
+    return false;
+  }
+  return pattern.endsWith("/*") ? mimeType.startsWith(pattern.slice(0, -1)) : mimeType === pattern;
+}
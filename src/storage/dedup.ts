@@ -0,0 +1,229 @@
+/**
+ * Content-addressed storage decorator: every distinct payload is stored once
+ * under blobs/<sha256>, and each logical capture is a small JSON sidecar under
+ * captures/ that points at its blob. The wrapped target must not evict files
+ * on its own (retention), since it cannot tell which blobs are still in use.
+ */
+
+import { createHash } from "crypto";
+import path from "path";
+
+import type { Logger } from "../logger.js";
+import {
+  extensionFromMimeType,
+  mimeTypeFromKey,
+  notifyStorageSaved,
+  saveToInnerTarget,
+  type StorageListItem,
+  type StorageMetadata,
+  type StorageResult,
+  type StorageTarget,
+} from "./index.js";
+
+const BLOB_PREFIX = "blobs/";
+const SIDECAR_PREFIX = "captures/";
+const SIDECAR_SUFFIX = ".json";
+
+/** What the sidecar of one logical capture records */
+export interface CaptureSidecar {
+  version: 1;
+  key: string;
+  sha256: string;
+  blob: string;
+  size: number;
+  mimeType?: string;
+  timestamp: string;
+  /** Copied from the url and viewport tags */
+  url?: string;
+  viewport?: string;
+  tags: Record<string, string>;
+}
+
+export class DeduplicatingStorageTarget implements StorageTarget {
+  type = "dedup";
+  private inner: StorageTarget;
+  private logger?: Logger;
+  /** Per blob, so a delete never removes a blob that a concurrent save is reusing */
+  private blobLocks = new Map<string, Promise<unknown>>();
+
+  constructor(inner: StorageTarget, logger?: Logger) {
+    if (!inner.retrieve) {
+      throw new Error(`Storage target of type "${inner.type}" cannot be deduplicated: it does not support retrieve`);
+    }
+    this.inner = inner;
+    this.logger = logger;
+  }
+
+  async save(data: Buffer | string, metadata: StorageMetadata): Promise<StorageResult> {
+    const buffer = typeof data === "string" ? Buffer.from(data, "base64") : data;
+    const sha256 = createHash("sha256").update(buffer).digest("hex");
+    const key = (metadata.keyPrefix ?? "") + (metadata.filename || this.generateKey(metadata));
+    const mimeType = metadata.mimeType ?? mimeTypeFromKey(key);
+    const blob = `${BLOB_PREFIX}${sha256}${path.extname(key)}`;
+    const timestamp = metadata.timestamp || new Date().toISOString();
+    const tags = metadata.tags ?? {};
+
+    const sidecar: CaptureSidecar = {
+      version: 1,
+      key,
+      sha256,
+      blob,
+      size: buffer.length,
+      mimeType,
+      timestamp,
+      url: tags.url,
+      viewport: tags.viewport,
+      tags,
+    };
+    const { deduplicated, blobResult, sidecarResult } = await this.withBlobLock(blob, async () => {
+      const deduplicated = await this.hasBlob(blob);
+      const blobResult = deduplicated
+        ? undefined
+        : await saveToInnerTarget(this.inner, buffer, { filename: blob, mimeType, timestamp, tags: { sha256 } });
+      const sidecarResult = await saveToInnerTarget(this.inner, Buffer.from(JSON.stringify(sidecar, null, 2)), {
+        filename: sidecarKey(key),
+        mimeType: "application/json",
+        timestamp,
+        tags: { ...tags, sha256 },
+      });
+      return { deduplicated, blobResult, sidecarResult };
+    });
+
+    this.logger?.debug("storage:dedup:saved", { key, sha256, size: buffer.length, deduplicated });
+
+    const result: StorageResult = {
+      location: sidecarResult.location,
+      key,
+      url: blobResult?.url,
+      size: buffer.length,
+      metadata: {
+        ...tags,
+        timestamp,
+        sha256,
+        blob,
+        deduplicated,
+      },
+    };
+    notifyStorageSaved(this, result);
+    return result;
+  }
+
+  async retrieve(key: string): Promise<Buffer | null> {
+    const sidecar = await this.readSidecar(key);
+    if (!sidecar) {
+      return null;
+    }
+    const data = await this.inner.retrieve!(sidecar.blob);
+    if (data === null) {
+      this.logger?.warn("storage:dedup:blob_missing", { key, blob: sidecar.blob });
+      return null;
+    }
+    return typeof data === "string" ? Buffer.from(data) : data;
+  }
+
+  /** Reads only this capture's sidecar */
+  async stat(key: string): Promise<StorageListItem | null> {
+    const sidecar = await this.readSidecar(key);
+    return sidecar && describe(key, sidecar);
+  }
+
+  async list(): Promise<StorageListItem[]> {
+    const items: StorageListItem[] = [];
+    for (const key of await this.listKeys()) {
+      const sidecar = await this.readSidecar(key);
+      if (sidecar) {
+        items.push(describe(key, sidecar));
+      }
+    }
+    return items;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    if (!this.inner.delete) {
+      throw new Error(`Storage target of type "${this.inner.type}" does not support deleting captures`);
+    }
+    const sidecar = await this.readSidecar(key);
+    if (!sidecar) {
+      return false;
+    }
+    const remove = this.inner.delete.bind(this.inner);
+    return this.withBlobLock(sidecar.blob, async () => {
+      await remove(sidecarKey(key));
+
+      // The blob goes only with the last capture that points at it
+      for (const other of await this.listKeys()) {
+        if ((await this.readSidecar(other))?.blob === sidecar.blob) {
+          return true;
+        }
+      }
+      await remove(sidecar.blob);
+      this.logger?.debug("storage:dedup:blob_deleted", { blob: sidecar.blob });
+      return true;
+    });
+  }
+
+  /** Asks the wrapped target every time: blobs can disappear behind this instance's back */
+  private async hasBlob(blob: string): Promise<boolean> {
+    if (this.inner.stat) {
+      return (await this.inner.stat(blob)) !== null;
+    }
+    return (await this.inner.retrieve!(blob)) !== null;
+  }
+
+  private withBlobLock<T>(blob: string, fn: () => Promise<T>): Promise<T> {
+    const run = (this.blobLocks.get(blob) ?? Promise.resolve()).then(fn);
+    // A failed call must not block the ones queued after it
+    const settled = run.catch(() => undefined);
+    this.blobLocks.set(blob, settled);
+    void settled.then(() => {
+      if (this.blobLocks.get(blob) === settled) {
+        this.blobLocks.delete(blob);
+      }
+    });
+    return run;
+  }
+
+  private async readSidecar(key: string): Promise<CaptureSidecar | null> {
+    const data = await this.inner.retrieve!(sidecarKey(key));
+    if (data === null) {
+      return null;
+    }
+    try {
+      return JSON.parse(data.toString("utf8"));
+    } catch (error) {
+      this.logger?.warn("storage:dedup:sidecar_unreadable", { key, error: (error as Error).message });
+      return null;
+    }
+  }
+
+  private async listKeys(): Promise<string[]> {
+    if (!this.inner.list) {
+      throw new Error(`Storage target of type "${this.inner.type}" does not support listing captures`);
+    }
+    return (await this.inner.list())
+      .map((item) => item.key)
+      .filter((key) => key.startsWith(SIDECAR_PREFIX) && key.endsWith(SIDECAR_SUFFIX))
+      .map((key) => key.slice(SIDECAR_PREFIX.length, -SIDECAR_SUFFIX.length));
+  }
+
+  private generateKey(metadata: StorageMetadata): string {
+    // Identical captures in the same millisecond still need distinct keys
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const random = Math.random().toString(36).substring(2, 8);
+    return `capture-${timestamp}-${random}${extensionFromMimeType(metadata.mimeType)}`;
+  }
+}
+
+function sidecarKey(key: string): string {
+  return `${SIDECAR_PREFIX}${key}${SIDECAR_SUFFIX}`;
+}
+
+function describe(key: string, sidecar: CaptureSidecar): StorageListItem {
+  return {
+    key,
+    size: sidecar.size,
+    modified: sidecar.timestamp,
+    mimeType: sidecar.mimeType,
+    metadata: { ...sidecar.tags, sha256: sidecar.sha256 },
+  };
+}
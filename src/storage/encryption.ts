@@ -0,0 +1,222 @@
+/**
+ * Encryption-at-rest decorator: captures are sealed with AES-256-GCM before
+ * they reach the wrapped target and opened again on retrieve. Each stored
+ * payload names the key it was sealed with, so keys can be rotated without
+ * re-encrypting older captures. Tags (which carry the captured URL) are sealed
+ * the same way into a single tag and opened again on list and stat.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+import type { Logger } from "../logger.js";
+import {
+  notifyStorageSaved,
+  saveToInnerTarget,
+  statCapture,
+  StorageError,
+  type StorageListItem,
+  type StorageMetadata,
+  type StorageResult,
+  type StorageTarget,
+} from "./index.js";
+
+/** Identifies sealed payloads: "MPCE" followed by the format version */
+const MAGIC = Buffer.from("MPCE");
+const FORMAT_VERSION = 1;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+/** The one tag the wrapped target sees: the capture's tags, sealed and base64-encoded */
+const SEALED_TAGS = "sealedTags";
+
+export const ENCRYPTION_KEYS_ENV = "MCP_STORAGE_KEYS";
+
+export interface EncryptionOptions {
+  /**
+   * Key ID → 256-bit key, as 64 hex characters or base64.
+   * Default: MCP_STORAGE_KEYS, a comma-separated list of [id:]key
+   */
+  keys?: Record<string, string>;
+  /** Key that seals new captures. Default: the first key */
+  keyId?: string;
+}
+
+export class EncryptingStorageTarget implements StorageTarget {
+  type = "encrypted";
+  private inner: StorageTarget;
+  private logger?: Logger;
+  private keys: Map<string, Buffer>;
+  private keyId: string;
+
+  constructor(inner: StorageTarget, options: EncryptionOptions = {}, logger?: Logger) {
+    this.inner = inner;
+    this.logger = logger;
+    this.keys = resolveEncryptionKeys(options.keys);
+
+    const keyId = options.keyId ?? this.keys.keys().next().value;
+    if (keyId === undefined) {
+      throw new Error(
+        `Storage encryption is enabled but no key is configured: set encryption.keys on the storage target, or ${ENCRYPTION_KEYS_ENV}`,
+      );
+    }
+    if (!this.keys.has(keyId)) {
+      throw new Error(`Encryption key "${keyId}" is not configured`);
+    }
+    this.keyId = keyId;
+  }
+
+  async save(data: Buffer | string, metadata: StorageMetadata): Promise<StorageResult> {
+    const buffer = typeof data === "string" ? Buffer.from(data, "base64") : data;
+    const innerResult = await saveToInnerTarget(this.inner, this.seal(buffer), {
+      ...metadata,
+      tags: metadata.tags ? { [SEALED_TAGS]: this.seal(Buffer.from(JSON.stringify(metadata.tags))).toString("base64") } : undefined,
+    });
+
+    this.logger?.debug("storage:encrypted:saved", { key: innerResult.key, keyId: this.keyId, size: buffer.length });
+
+    // A URL to the stored object would only hand out ciphertext
+    const result: StorageResult = {
+      location: innerResult.location,
+      key: innerResult.key,
+      size: buffer.length,
+      metadata: { ...withoutSealedTags(innerResult.metadata), ...metadata.tags, encryptionKeyId: this.keyId },
+    };
+    notifyStorageSaved(this, result);
+    return result;
+  }
+
+  async retrieve(key: string): Promise<Buffer | null> {
+    if (!this.inner.retrieve) {
+      throw new Error(`Storage target of type "${this.inner.type}" does not support retrieving captures`);
+    }
+    const data = await this.inner.retrieve(key);
+    if (data === null) {
+      return null;
+    }
+    return this.open(key, typeof data === "string" ? Buffer.from(data) : data);
+  }
+
+  async stat(key: string): Promise<StorageListItem | null> {
+    const item = await statCapture(this.inner, key);
+    return item && this.openTags(item);
+  }
+
+  async list(): Promise<StorageListItem[]> {
+    if (!this.inner.list) {
+      throw new Error(`Storage target of type "${this.inner.type}" does not support listing captures`);
+    }
+    return (await this.inner.list()).map((item) => this.openTags(item));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    if (!this.inner.delete) {
+      throw new Error(`Storage target of type "${this.inner.type}" does not support deleting captures`);
+    }
+    return this.inner.delete(key);
+  }
+
+  /** Replaces the sealed tag with the tags it holds; tags that cannot be opened are left out */
+  private openTags(item: StorageListItem): StorageListItem {
+    const sealed = item.metadata?.[SEALED_TAGS];
+    if (typeof sealed !== "string") {
+      return item;
+    }
+    try {
+      const tags = JSON.parse(this.open(item.key, Buffer.from(sealed, "base64")).toString("utf8"));
+      return { ...item, metadata: { ...withoutSealedTags(item.metadata), ...tags } };
+    } catch (error) {
+      this.logger?.warn("storage:encrypted:tags_unreadable", { key: item.key, error: (error as Error).message });
+      return { ...item, metadata: withoutSealedTags(item.metadata) };
+    }
+  }
+
+  /** Layout: MAGIC | version | key ID length | key ID | IV | auth tag | ciphertext */
+  private seal(plaintext: Buffer): Buffer {
+    const keyId = Buffer.from(this.keyId, "utf8");
+    const header = Buffer.concat([MAGIC, Buffer.from([FORMAT_VERSION, keyId.length]), keyId]);
+    const iv = randomBytes(IV_LENGTH);
+
+    const cipher = createCipheriv("aes-256-gcm", this.keys.get(this.keyId)!, iv);
+    cipher.setAAD(header);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return Buffer.concat([header, iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  private open(key: string, sealed: Buffer): Buffer {
+    if (sealed.length < MAGIC.length + 2 || !sealed.subarray(0, MAGIC.length).equals(MAGIC)) {
+      throw new StorageError(`Capture "${key}" is not encrypted`, "STORAGE_DECRYPT_FAILED");
+    }
+    const version = sealed[MAGIC.length];
+    if (version !== FORMAT_VERSION) {
+      throw new StorageError(`Capture "${key}" uses unknown encryption format ${version}`, "STORAGE_DECRYPT_FAILED");
+    }
+
+    const headerLength = MAGIC.length + 2 + sealed[MAGIC.length + 1];
+    const keyId = sealed.subarray(MAGIC.length + 2, headerLength).toString("utf8");
+    const secret = this.keys.get(keyId);
+    if (!secret) {
+      throw new StorageError(
+        `Capture "${key}" was encrypted with key "${keyId}", which is not configured`,
+        "STORAGE_KEY_MISSING",
+      );
+    }
+
+    const ivEnd = headerLength + IV_LENGTH;
+    const tagEnd = ivEnd + AUTH_TAG_LENGTH;
+    if (sealed.length < tagEnd) {
+      throw new StorageError(`Capture "${key}" is truncated`, "STORAGE_DECRYPT_FAILED");
+    }
+
+    try {
+      const decipher = createDecipheriv("aes-256-gcm", secret, sealed.subarray(headerLength, ivEnd));
+      decipher.setAAD(sealed.subarray(0, headerLength));
+      decipher.setAuthTag(sealed.subarray(ivEnd, tagEnd));
+      return Buffer.concat([decipher.update(sealed.subarray(tagEnd)), decipher.final()]);
+    } catch (error) {
+      throw new StorageError(
+        `Capture "${key}" failed authentication with key "${keyId}"; it was modified or the key is wrong`,
+        "STORAGE_DECRYPT_FAILED",
+        { cause: error },
+      );
+    }
+  }
+}
+
+function withoutSealedTags(metadata: Record<string, any> | undefined): Record<string, any> | undefined {
+  if (!metadata || !(SEALED_TAGS in metadata)) {
+    return metadata;
+  }
+  const { [SEALED_TAGS]: _sealed, ...rest } = metadata;
+  return rest;
+}
+
+function resolveEncryptionKeys(configured: Record<string, string> | undefined): Map<string, Buffer> {
+  const entries = configured
+    ? Object.entries(configured)
+    : (process.env[ENCRYPTION_KEYS_ENV] ?? "")
+        .split(",")
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0)
+        .map((item): [string, string] => {
+          const separator = item.indexOf(":");
+          return separator > 0 ? [item.slice(0, separator), item.slice(separator + 1)] : ["default", item];
+        });
+
+  const keys = new Map<string, Buffer>();
+  for (const [id, value] of entries) {
+    if (id.length === 0 || Buffer.byteLength(id, "utf8") > 255) {
+      throw new Error(`Encryption key ID "${id}" must be 1-255 bytes`);
+    }
+    keys.set(id, decodeKey(id, value));
+  }
+  return keys;
+}
+
+function decodeKey(id: string, value: string): Buffer {
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, "hex") : Buffer.from(value, "base64");
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Encryption key "${id}" must be 32 bytes (64 hex characters or base64), got ${key.length} bytes`);
+  }
+  return key;
+}
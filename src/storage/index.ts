@@ -1,18 +1,38 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomBytes } from "crypto";
 import { promises as fs } from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
 import type { Logger } from "../logger.js";
+import { getGlobalTelemetry } from "../telemetry/index.js";
+import { currentTenant } from "../utils/tenant.js";
+import { DeduplicatingStorageTarget } from "./dedup.js";
+import { EncryptingStorageTarget, type EncryptionOptions } from "./encryption.js";
+import { TenantStorageTarget } from "./tenant.js";
+import {
+  EMPTY_PAYLOAD_HASH,
+  presignUrl,
+  sha256Hex,
+  signRequest,
+  uriEncode,
+  type SigV4Credentials,
+  type SigV4Scope,
+} from "./sigv4.js";
 
 export interface StorageTarget {
   type: string;
   save(data: Buffer | string, metadata: StorageMetadata): Promise<StorageResult>;
   retrieve?(key: string): Promise<Buffer | string | null>;
+  /** One capture's list() entry without reading it or listing the rest; null when missing */
+  stat?(key: string): Promise<StorageListItem | null>;
   list?(): Promise<StorageListItem[]>;
   delete?(key: string): Promise<boolean>;
 }
 
 export interface StorageMetadata {
   filename?: string;
+  /** Prepended to the key, whether given as filename or generated; keeps each API key's captures apart */
+  keyPrefix?: string;
   mimeType?: string;
   contentType?: string;
   timestamp?: string;
@@ -21,6 +41,8 @@ export interface StorageMetadata {
 
 export interface StorageResult {
   location: string;
+  /** Key to pass to retrieve() and delete() */
+  key?: string;
   url?: string;
   size: number;
   metadata?: Record<string, any>;
@@ -30,79 +52,199 @@ export interface StorageListItem {
   key: string;
   size: number;
   modified: string;
+  mimeType?: string;
   metadata?: Record<string, any>;
 }
 
+export type StorageErrorCode =
+  | "STORAGE_NOT_FOUND"
+  | "STORAGE_FORBIDDEN"
+  | "STORAGE_IO_ERROR"
+  | "STORAGE_KEY_MISSING"
+  | "STORAGE_DECRYPT_FAILED";
+
+export class StorageError extends Error {
+  constructor(message: string, public readonly code: StorageErrorCode, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "StorageError";
+  }
+}
+
+/** Limits enforced by LocalStorageTarget; the oldest captures are deleted first */
+export interface RetentionPolicy {
+  /** Delete captures older than this */
+  maxAgeMs?: number;
+  /** Keep at most this many captures */
+  maxFiles?: number;
+  /** Keep at most this many bytes of captures */
+  maxBytes?: number;
+}
+
+export interface LocalStorageOptions {
+  retention?: RetentionPolicy;
+  /** Save captures without an explicit filename under YYYY-MM-DD/ subdirectories. Default: false */
+  partitionByDate?: boolean;
+  /** How often the retention policy is applied in the background; 0 disables the sweeper. Default: 600000 */
+  sweepIntervalMs?: number;
+}
+
+export interface SweepResult {
+  /** Keys of the deleted captures, oldest first */
+  deleted: string[];
+  freedBytes: number;
+  remainingFiles: number;
+  remainingBytes: number;
+}
+
+const DEFAULT_SWEEP_INTERVAL_MS = 10 * 60_000;
+
+/** Tags and content type of every capture in a LocalStorageTarget, keyed by file name */
+const LOCAL_INDEX_FILE = ".captures-index.json";
+
+const MAX_LOCAL_KEY_LENGTH = 1024;
+/** Control characters, backslashes and characters Windows forbids in file names */
+const UNSAFE_LOCAL_KEY_CHARACTERS = /[\x00-\x1f<>:"|?*\\]/;
+
+interface LocalIndexEntry {
+  mimeType?: string;
+  timestamp: string;
+  tags?: Record<string, string>;
+  /** Saved under an explicit filename (e.g. a baseline); retention leaves it alone */
+  named?: boolean;
+}
+
 export class LocalStorageTarget implements StorageTarget {
   type = "local";
   private baseDir: string;
   private logger?: Logger;
+  private options: LocalStorageOptions;
+  /** Serializes read-modify-write cycles on the index file */
+  private indexUpdate: Promise<void> = Promise.resolve();
+  /** Serializes retention passes so two never delete the same file */
+  private retentionPass: Promise<unknown> = Promise.resolve();
+  private sweepTimer?: NodeJS.Timeout;
 
-  constructor(baseDir?: string, logger?: Logger) {
+  constructor(baseDir?: string, logger?: Logger, options: LocalStorageOptions = {}) {
     this.baseDir = baseDir || path.join(process.cwd(), "captures");
     this.logger = logger;
+    this.options = options;
+
+    const sweepIntervalMs = options.sweepIntervalMs ?? DEFAULT_SWEEP_INTERVAL_MS;
+    if (options.retention && sweepIntervalMs > 0) {
+      this.sweepTimer = setInterval(() => {
+        this.sweep().catch((error) => {
+          this.logger?.error("storage:local:sweep_error", { error: (error as Error).message });
+        });
+      }, sweepIntervalMs);
+      this.sweepTimer.unref?.();
+    }
   }
 
   async save(data: Buffer | string, metadata: StorageMetadata): Promise<StorageResult> {
-    // Ensure directory exists
-    await fs.mkdir(this.baseDir, { recursive: true });
-
-    // Generate filename if not provided
-    const filename = metadata.filename || this.generateFilename(metadata);
-    const filePath = path.join(this.baseDir, filename);
+    // Generate filename if not provided; explicit names (baselines) are never partitioned
+    const timestamp = metadata.timestamp || new Date().toISOString();
+    const filename = (metadata.keyPrefix ?? "") + (metadata.filename
+      || (this.options.partitionByDate ? `${timestamp.slice(0, 10)}/` : "") + this.generateFilename(metadata));
+    const filePath = await this.resolveKey(filename);
 
     // Convert string to Buffer if needed
     const buffer = typeof data === "string" ? Buffer.from(data, "base64") : data;
 
     // Write file
-    await fs.writeFile(filePath, buffer);
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await writeFileAtomically(filePath, buffer);
+      await this.updateIndex((index) => {
+        index[filename] = {
+          mimeType: metadata.mimeType ?? mimeTypeFromKey(filename),
+          timestamp,
+          ...(metadata.tags ? { tags: metadata.tags } : {}),
+          ...(metadata.filename ? { named: true } : {}),
+        };
+      });
+    } catch (error) {
+      throw toStorageIoError(`Cannot write capture "${filename}"`, error);
+    }
 
     this.logger?.debug("storage:local:saved", { 
       path: filePath, 
       size: buffer.length 
     });
 
-    return {
+    const { maxFiles, maxBytes } = this.options.retention ?? {};
+    if (maxFiles !== undefined || maxBytes !== undefined) {
+      await this.applyRetention("save", filename);
+    }
+
+    const result: StorageResult = {
       location: filePath,
+      key: filename,
       size: buffer.length,
       metadata: {
         filename,
-        timestamp: metadata.timestamp || new Date().toISOString(),
+        timestamp,
         ...metadata.tags,
       },
     };
+    notifyStorageSaved(this, result);
+    return result;
   }
 
   async retrieve(key: string): Promise<Buffer | null> {
+    const filePath = await this.resolveKey(key);
     try {
-      const filePath = path.join(this.baseDir, key);
       const data = await fs.readFile(filePath);
       this.logger?.debug("storage:local:retrieved", { path: filePath });
       return data;
     } catch (error) {
-      if ((error as any).code === "ENOENT") {
+      // A directory is not a capture either
+      if (isMissingFile(error) || (error as NodeJS.ErrnoException).code === "EISDIR") {
+        return null;
+      }
+      throw toStorageIoError(`Cannot read capture "${key}"`, error);
+    }
+  }
+
+  async stat(key: string): Promise<StorageListItem | null> {
+    const filePath = await this.resolveKey(key);
+    try {
+      const stat = await fs.stat(filePath);
+      if (!stat.isFile()) {
         return null;
       }
-      throw error;
+      const entry = (await this.readIndex())[key];
+      return {
+        key,
+        size: stat.size,
+        modified: entry?.timestamp ?? stat.mtime.toISOString(),
+        mimeType: entry?.mimeType ?? mimeTypeFromKey(key),
+        metadata: entry?.tags,
+      };
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return null;
+      }
+      throw toStorageIoError(`Cannot read capture "${key}"`, error);
     }
   }
 
   async list(): Promise<StorageListItem[]> {
     try {
-      const files = await fs.readdir(this.baseDir);
+      const files = await this.listFiles(this.baseDir);
+      const index = await this.readIndex();
       const items: StorageListItem[] = [];
 
-      for (const file of files) {
-        const filePath = path.join(this.baseDir, file);
-        const stat = await fs.stat(filePath);
-        
-        if (stat.isFile()) {
-          items.push({
-            key: file,
-            size: stat.size,
-            modified: stat.mtime.toISOString(),
-          });
-        }
+      for (const key of files) {
+        const stat = await fs.stat(path.join(this.baseDir, key));
+        // Files copied in by hand have no index entry
+        const entry = index[key];
+        items.push({
+          key,
+          size: stat.size,
+          modified: entry?.timestamp ?? stat.mtime.toISOString(),
+          mimeType: entry?.mimeType ?? mimeTypeFromKey(key),
+          metadata: entry?.tags,
+        });
       }
 
       return items;
@@ -110,24 +252,204 @@ export class LocalStorageTarget implements StorageTarget {
       if ((error as any).code === "ENOENT") {
         return [];
       }
-      throw error;
+      throw toStorageIoError("Cannot list captures", error);
     }
   }
 
   async delete(key: string): Promise<boolean> {
+    const filePath = await this.resolveKey(key);
     try {
-      const filePath = path.join(this.baseDir, key);
+      if (!(await fs.lstat(filePath)).isFile()) {
+        return false;
+      }
       await fs.unlink(filePath);
+      await this.updateIndex((index) => {
+        delete index[key];
+      });
       this.logger?.debug("storage:local:deleted", { path: filePath });
       return true;
     } catch (error) {
-      if ((error as any).code === "ENOENT") {
+      if (isMissingFile(error)) {
         return false;
       }
-      throw error;
+      throw toStorageIoError(`Cannot delete capture "${key}"`, error);
+    }
+  }
+
+  /** Applies the retention policy now; the sweeper calls this on its interval */
+  sweep(): Promise<SweepResult> {
+    return this.applyRetention("sweep");
+  }
+
+  /** Stops the background sweeper */
+  shutdown(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
     }
   }
 
+  private applyRetention(trigger: "save" | "sweep", keep?: string): Promise<SweepResult> {
+    const pass = this.retentionPass.then(async () => {
+      const { maxAgeMs, maxFiles, maxBytes } = this.options.retention ?? {};
+      // Named captures such as compareScreenshots baselines are kept until deleted explicitly
+      const index = await this.readIndex();
+      const oldestFirst = (await this.list())
+        .filter((item) => !index[item.key]?.named)
+        .sort((a, b) => Date.parse(a.modified) - Date.parse(b.modified));
+      const now = Date.now();
+
+      const doomed: StorageListItem[] = [];
+      let remainingFiles = oldestFirst.length;
+      let remainingBytes = oldestFirst.reduce((total, item) => total + item.size, 0);
+      for (const item of oldestFirst) {
+        const expired = maxAgeMs !== undefined && now - Date.parse(item.modified) > maxAgeMs;
+        const overQuota = (maxFiles !== undefined && remainingFiles > maxFiles)
+          || (maxBytes !== undefined && remainingBytes > maxBytes);
+        // The capture that triggered the check always survives it
+        if ((expired || overQuota) && item.key !== keep) {
+          doomed.push(item);
+          remainingFiles -= 1;
+          remainingBytes -= item.size;
+        }
+      }
+
+      for (const item of doomed) {
+        await fs.rm(path.join(this.baseDir, item.key), { force: true });
+      }
+      if (doomed.length > 0) {
+        await this.updateIndex((index) => {
+          for (const item of doomed) {
+            delete index[item.key];
+          }
+        });
+        await this.removeEmptyDirectories(doomed.map((item) => path.dirname(item.key)));
+      }
+
+      const result: SweepResult = {
+        deleted: doomed.map((item) => item.key),
+        freedBytes: doomed.reduce((total, item) => total + item.size, 0),
+        remainingFiles,
+        remainingBytes,
+      };
+
+      if (doomed.length > 0) {
+        this.logger?.info("storage:local:swept", { baseDir: this.baseDir, trigger, deleted: doomed.length, freedBytes: result.freedBytes });
+      }
+      // On-save checks that evict nothing would flood the sinks
+      if (trigger === "sweep" || doomed.length > 0) {
+        await getGlobalTelemetry(this.logger).emitTelemetry("storage.swept", {
+          target: "local",
+          baseDir: this.baseDir,
+          trigger,
+          deletedFiles: doomed.length,
+          freedBytes: result.freedBytes,
+          remainingFiles,
+          remainingBytes,
+        });
+      }
+      return result;
+    });
+    // A failed pass must not block the ones queued after it
+    this.retentionPass = pass.catch(() => undefined);
+    return pass;
+  }
+
+  /**
+   * Validates a key and returns its absolute path. Keys are relative paths of
+   * plain segments; the real path of whatever already exists on the way must
+   * also stay inside baseDir, so symlinks cannot lead out of it.
+   */
+  private async resolveKey(key: string): Promise<string> {
+    const problem = describeUnsafeKey(key);
+    if (problem) {
+      throw new StorageError(`Invalid storage key "${key}": ${problem}`, "STORAGE_FORBIDDEN");
+    }
+
+    const root = path.resolve(this.baseDir);
+    const filePath = path.resolve(root, ...key.split("/"));
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new StorageError(`Storage key "${key}" points outside the capture directory`, "STORAGE_FORBIDDEN");
+    }
+
+    let realRoot: string;
+    try {
+      realRoot = await fs.realpath(root);
+    } catch (error) {
+      if (isMissingFile(error)) {
+        // Nothing exists below a missing baseDir, so nothing can link out of it
+        return filePath;
+      }
+      throw toStorageIoError("Cannot open the capture directory", error);
+    }
+
+    let existing = filePath;
+    for (;;) {
+      try {
+        const real = await fs.realpath(existing);
+        if (real !== realRoot && !real.startsWith(realRoot + path.sep)) {
+          throw new StorageError(`Storage key "${key}" points outside the capture directory`, "STORAGE_FORBIDDEN");
+        }
+        return filePath;
+      } catch (error) {
+        if (!isMissingFile(error)) {
+          throw toStorageIoError(`Cannot resolve capture "${key}"`, error);
+        }
+        existing = path.dirname(existing);
+      }
+    }
+  }
+
+  /** Keys of every file below dir, with / separators; dot-files (index, temp files) are skipped */
+  private async listFiles(dir: string, prefix = ""): Promise<string[]> {
+    const keys: string[] = [];
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      if (entry.name.startsWith(".")) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        keys.push(...await this.listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`));
+      } else if (entry.isFile()) {
+        keys.push(prefix + entry.name);
+      }
+    }
+    return keys;
+  }
+
+  /** Drops date partitions emptied by a sweep */
+  private async removeEmptyDirectories(directories: string[]): Promise<void> {
+    for (const directory of new Set(directories)) {
+      if (directory === ".") {
+        continue;
+      }
+      // rmdir refuses non-empty directories, which is exactly the check needed
+      await fs.rmdir(path.join(this.baseDir, directory)).catch(() => undefined);
+    }
+  }
+
+  private async readIndex(): Promise<Record<string, LocalIndexEntry>> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.baseDir, LOCAL_INDEX_FILE), "utf8"));
+    } catch (error) {
+      if ((error as any).code !== "ENOENT") {
+        // A damaged index only loses tags; the captures themselves are still listed
+        this.logger?.warn("storage:local:index_unreadable", { error: (error as Error).message });
+      }
+      return {};
+    }
+  }
+
+  private updateIndex(update: (index: Record<string, LocalIndexEntry>) => void): Promise<void> {
+    const next = this.indexUpdate.then(async () => {
+      const index = await this.readIndex();
+      update(index);
+      await writeFileAtomically(path.join(this.baseDir, LOCAL_INDEX_FILE), JSON.stringify(index, null, 2));
+    });
+    // A failed update must not block the ones queued after it
+    this.indexUpdate = next.catch(() => undefined);
+    return next;
+  }
+
   private generateFilename(metadata: StorageMetadata): string {
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
     const extension = this.getExtension(metadata.mimeType);
@@ -140,6 +462,8 @@ export class LocalStorageTarget implements StorageTarget {
         return ".png";
       case "image/jpeg":
         return ".jpg";
+      case "image/webp":
+        return ".webp";
       case "text/html":
         return ".html";
       case "application/json":
@@ -150,71 +474,343 @@ export class LocalStorageTarget implements StorageTarget {
   }
 }
 
+function describeUnsafeKey(key: string): string | undefined {
+  if (key.length === 0) {
+    return "it is empty";
+  }
+  if (key.length > MAX_LOCAL_KEY_LENGTH) {
+    return `it is longer than ${MAX_LOCAL_KEY_LENGTH} characters`;
+  }
+  if (path.isAbsolute(key) || key.startsWith("/")) {
+    return "it is an absolute path";
+  }
+  if (UNSAFE_LOCAL_KEY_CHARACTERS.test(key)) {
+    return "it contains control characters, backslashes or one of <>:\"|?*";
+  }
+  // Also rules out "." and "..", and keeps the index and temp files out of reach
+  if (key.split("/").some((segment) => segment === "" || segment.startsWith("."))) {
+    return "path segments may not be empty or start with '.'";
+  }
+  return undefined;
+}
+
+/** Writes next to the target and renames, so readers never see a partial file */
+async function writeFileAtomically(filePath: string, data: Buffer | string): Promise<void> {
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${randomBytes(6).toString("hex")}.tmp`);
+  try {
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true }).catch(() => undefined);
+    throw error;
+  }
+}
+
+function isMissingFile(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException).code;
+  return code === "ENOENT" || code === "ENOTDIR";
+}
+
+function toStorageIoError(message: string, error: unknown): StorageError {
+  if (error instanceof StorageError) {
+    return error;
+  }
+  return new StorageError(`${message}: ${(error as Error).message}`, "STORAGE_IO_ERROR", { cause: error });
+}
+
+export interface S3StorageConfig {
+  bucket: string;
+  /** Prepended to every key, e.g. "screenshots/" */
+  prefix?: string;
+  /** Default: AWS_REGION, then AWS_DEFAULT_REGION, then us-east-1 */
+  region?: string;
+  /** S3-compatible endpoint such as http://localhost:9000. Default: AWS_ENDPOINT_URL_S3, then AWS_ENDPOINT_URL, then AWS */
+  endpoint?: string;
+  /** Address the bucket in the path (MinIO and most self-hosted stores). Default: true when an endpoint is set */
+  forcePathStyle?: boolean;
+  /** Default: AWS_ACCESS_KEY_ID */
+  accessKeyId?: string;
+  /** Default: AWS_SECRET_ACCESS_KEY */
+  secretAccessKey?: string;
+  /** Default: AWS_SESSION_TOKEN */
+  sessionToken?: string;
+  /** Lifetime of the pre-signed GET URL returned in StorageResult.url. Default: 3600 */
+  presignExpiresInSeconds?: number;
+  /** Per-request timeout in ms. Default: 30000 */
+  timeoutMs?: number;
+}
+
+/** Tags travel as one URL-encoded JSON header because S3 lower-cases metadata names */
+const S3_TAGS_HEADER = "x-amz-meta-tags";
+const S3_CAPTURED_AT_HEADER = "x-amz-meta-captured-at";
+/** Parallel HEAD requests when list() collects tags */
+const S3_HEAD_CONCURRENCY = 8;
+
 export class S3StorageTarget implements StorageTarget {
   type = "s3";
   private bucket: string;
   private prefix: string;
   private region: string;
+  private endpoint: URL;
+  private pathStyle: boolean;
+  private credentials?: SigV4Credentials;
+  private presignExpiresInSeconds: number;
+  private timeoutMs: number;
   private logger?: Logger;
 
-  constructor(config: { 
-    bucket: string; 
-    prefix?: string; 
-    region?: string;
-  }, logger?: Logger) {
+  constructor(config: S3StorageConfig, logger?: Logger) {
+    const endpoint = config.endpoint ?? process.env.AWS_ENDPOINT_URL_S3 ?? process.env.AWS_ENDPOINT_URL;
+    const accessKeyId = config.accessKeyId ?? process.env.AWS_ACCESS_KEY_ID;
+    const secretAccessKey = config.secretAccessKey ?? process.env.AWS_SECRET_ACCESS_KEY;
+
     this.bucket = config.bucket;
     this.prefix = config.prefix || "";
-    this.region = config.region || "us-east-1";
+    this.region = config.region || process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION || "us-east-1";
+    this.endpoint = new URL(endpoint ?? `https://s3.${this.region}.amazonaws.com`);
+    this.pathStyle = config.forcePathStyle ?? endpoint !== undefined;
+    this.credentials = accessKeyId && secretAccessKey
+      ? { accessKeyId, secretAccessKey, sessionToken: config.sessionToken ?? process.env.AWS_SESSION_TOKEN }
+      : undefined;
+    this.presignExpiresInSeconds = config.presignExpiresInSeconds ?? 3600;
+    this.timeoutMs = config.timeoutMs ?? 30_000;
     this.logger = logger;
   }
 
   async save(data: Buffer | string, metadata: StorageMetadata): Promise<StorageResult> {
-    // This is a placeholder implementation
-    // In production, you would use AWS SDK or S3-compatible client
-    
-    const key = this.prefix + (metadata.filename || this.generateKey(metadata));
+    const key = (metadata.keyPrefix ?? "") + (metadata.filename || this.generateKey(metadata));
+    const objectKey = this.objectKey(key);
     const buffer = typeof data === "string" ? Buffer.from(data, "base64") : data;
+    const timestamp = metadata.timestamp || new Date().toISOString();
 
-    this.logger?.info("storage:s3:save", {
+    await this.send("PutObject", "PUT", objectKey, {
+      body: buffer,
+      headers: {
+        "content-type": metadata.mimeType ?? mimeTypeFromKey(key) ?? "application/octet-stream",
+        [S3_CAPTURED_AT_HEADER]: timestamp,
+        ...(metadata.tags ? { [S3_TAGS_HEADER]: encodeURIComponent(JSON.stringify(metadata.tags)) } : {}),
+      },
+    });
+
+    this.logger?.debug("storage:s3:saved", {
       bucket: this.bucket,
-      key,
+      key: objectKey,
       size: buffer.length,
-      note: "S3 integration not implemented - using mock response",
     });
 
-    // Mock response
-    return {
-      location: `s3://${this.bucket}/${key}`,
-      url: `https://${this.bucket}.s3.${this.region}.amazonaws.com/${key}`,
+    const result: StorageResult = {
+      location: `s3://${this.bucket}/${objectKey}`,
+      key,
+      url: presignUrl(this.objectUrl(objectKey), this.scope(), this.presignExpiresInSeconds),
       size: buffer.length,
       metadata: {
         bucket: this.bucket,
-        key,
+        key: objectKey,
+        timestamp,
         ...metadata.tags,
       },
     };
+    notifyStorageSaved(this, result);
+    return result;
+  }
+
+  async retrieve(key: string): Promise<Buffer | null> {
+    const objectKey = this.objectKey(key);
+    const response = await this.send("GetObject", "GET", objectKey, { allowNotFound: true });
+    if (!response) {
+      return null;
+    }
+    this.logger?.debug("storage:s3:retrieved", { bucket: this.bucket, key: objectKey });
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async list(): Promise<StorageListItem[]> {
+    const objects: Array<{ key: string; size: number; modified: string }> = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.send("ListObjectsV2", "GET", undefined, {
+        query: {
+          "list-type": "2",
+          ...(this.prefix ? { prefix: this.prefix } : {}),
+          ...(continuationToken ? { "continuation-token": continuationToken } : {}),
+        },
+      });
+      const page = parseListObjectsResponse(await response!.text());
+      for (const object of page.objects) {
+        objects.push({ ...object, key: object.key.slice(this.prefix.length) });
+      }
+      continuationToken = page.nextContinuationToken;
+    } while (continuationToken);
+
+    // Listings carry no user metadata, so the tags come from one HEAD per object
+    const items: StorageListItem[] = [];
+    for (let start = 0; start < objects.length; start += S3_HEAD_CONCURRENCY) {
+      const batch = objects.slice(start, start + S3_HEAD_CONCURRENCY);
+      items.push(...await Promise.all(batch.map(async (object) => {
+        const head = await this.send("HeadObject", "HEAD", this.prefix + object.key, { allowNotFound: true });
+        return describeObject(object.key, head, object.size, object.modified, this.logger);
+      })));
+    }
+    return items;
+  }
+
+  async stat(key: string): Promise<StorageListItem | null> {
+    const head = await this.send("HeadObject", "HEAD", this.objectKey(key), { allowNotFound: true });
+    if (!head) {
+      return null;
+    }
+    const lastModified = head.headers.get("last-modified");
+    return describeObject(
+      key,
+      head,
+      Number(head.headers.get("content-length") ?? 0),
+      (lastModified ? new Date(lastModified) : new Date()).toISOString(),
+      this.logger,
+    );
+  }
+
+  async delete(key: string): Promise<boolean> {
+    // DeleteObject succeeds for missing keys too, so check first
+    const objectKey = this.objectKey(key);
+    const head = await this.send("HeadObject", "HEAD", objectKey, { allowNotFound: true });
+    if (!head) {
+      return false;
+    }
+    await this.send("DeleteObject", "DELETE", objectKey);
+    this.logger?.debug("storage:s3:deleted", { bucket: this.bucket, key: objectKey });
+    return true;
+  }
+
+  /** Signs and sends one S3 API call; with allowNotFound a 404 resolves to null instead of throwing */
+  private async send(
+    operation: string,
+    method: string,
+    objectKey: string | undefined,
+    options: { query?: Record<string, string>; headers?: Record<string, string>; body?: Buffer; allowNotFound?: boolean } = {},
+  ): Promise<Response | null> {
+    const url = this.objectUrl(objectKey);
+    for (const [name, value] of Object.entries(options.query ?? {})) {
+      url.searchParams.set(name, value);
+    }
+    const headers = signRequest(
+      {
+        method,
+        url,
+        headers: options.headers,
+        payloadHash: options.body ? sha256Hex(options.body) : EMPTY_PAYLOAD_HASH,
+      },
+      this.scope(),
+    );
+
+    const target = `s3://${this.bucket}/${objectKey ?? ""}`;
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers,
+        body: options.body ? new Uint8Array(options.body) : undefined,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      throw toStorageIoError(`S3 ${operation} failed for ${target}`, error);
+    }
+
+    if (response.status === 404 && options.allowNotFound) {
+      return null;
+    }
+    if (!response.ok) {
+      const body = method === "HEAD" ? "" : await response.text();
+      const code = xmlElement(body, "Code") ?? response.statusText;
+      const message = xmlElement(body, "Message");
+      // Same codes as LocalStorageTarget, so the catalog tools report both alike
+      throw new StorageError(
+        `S3 ${operation} failed for ${target}: ${response.status} ${code}${message ? ` - ${message}` : ""}`,
+        response.status === 403 ? "STORAGE_FORBIDDEN" : "STORAGE_IO_ERROR",
+      );
+    }
+    return response;
+  }
+
+  private scope(): SigV4Scope {
+    if (!this.credentials) {
+      throw new StorageError(
+        "S3 credentials are not configured: set accessKeyId and secretAccessKey on the storage target, or AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY",
+        "STORAGE_FORBIDDEN",
+      );
+    }
+    return { credentials: this.credentials, region: this.region };
+  }
+
+  /**
+   * URL parsing collapses ".." segments, so an unchecked key could leave the
+   * prefix, or with path-style addressing reach another bucket
+   */
+  private objectKey(key: string): string {
+    const problem = describeUnsafeKey(key);
+    if (problem) {
+      throw new StorageError(`Invalid storage key "${key}": ${problem}`, "STORAGE_FORBIDDEN");
+    }
+    return this.prefix + key;
+  }
+
+  private objectUrl(objectKey?: string): URL {
+    const path = objectKey === undefined ? "/" : `/${objectKey.split("/").map(uriEncode).join("/")}`;
+    const base = this.endpoint.pathname.replace(/\/$/, "");
+    if (this.pathStyle) {
+      return new URL(`${this.endpoint.origin}${base}/${uriEncode(this.bucket)}${objectKey === undefined ? "" : path}`);
+    }
+    return new URL(`${this.endpoint.protocol}//${this.bucket}.${this.endpoint.host}${base}${path}`);
   }
 
   private generateKey(metadata: StorageMetadata): string {
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const extension = this.getExtension(metadata.mimeType);
-    return `capture-${timestamp}${extension}`;
+    return `capture-${timestamp}${extensionFromMimeType(metadata.mimeType)}`;
   }
+}
 
-  private getExtension(mimeType?: string): string {
-    switch (mimeType) {
-      case "image/png":
-        return ".png";
-      case "image/jpeg":
-        return ".jpg";
-      case "text/html":
-        return ".html";
-      case "application/json":
-        return ".json";
-      default:
-        return ".bin";
-    }
+/** Prefers the capture time and tags saved as user metadata over what the listing says */
+function describeObject(
+  key: string,
+  head: Response | null,
+  size: number,
+  modified: string,
+  logger?: Logger,
+): StorageListItem {
+  const tags = head?.headers.get(S3_TAGS_HEADER);
+  let metadata: Record<string, any> | undefined;
+  try {
+    metadata = tags ? JSON.parse(decodeURIComponent(tags)) : undefined;
+  } catch (error) {
+    // Damaged tags only lose the metadata; the object itself is still listed
+    logger?.warn("storage:s3:tags_unreadable", { key, error: (error as Error).message });
   }
+  return {
+    key,
+    size,
+    modified: head?.headers.get(S3_CAPTURED_AT_HEADER) ?? modified,
+    mimeType: head?.headers.get("content-type") ?? mimeTypeFromKey(key),
+    metadata,
+  };
+}
+
+function parseListObjectsResponse(xml: string): {
+  objects: Array<{ key: string; size: number; modified: string }>;
+  nextContinuationToken?: string;
+} {
+  const objects = [...xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)].map(([, block]) => ({
+    key: xmlElement(block, "Key") ?? "",
+    size: Number(xmlElement(block, "Size") ?? 0),
+    modified: xmlElement(block, "LastModified") ?? new Date(0).toISOString(),
+  }));
+  const truncated = xmlElement(xml, "IsTruncated") === "true";
+  return { objects, nextContinuationToken: truncated ? xmlElement(xml, "NextContinuationToken") : undefined };
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+/** Text of the first element with this name; S3 responses are flat enough that a full parser is not needed */
+function xmlElement(xml: string, name: string): string | undefined {
+  const match = xml.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`));
+  return match?.[1].replace(/&(amp|lt|gt|quot|apos);/g, (_, entity: string) => XML_ENTITIES[entity]);
 }
 
 export class MemoryStorageTarget implements StorageTarget {
@@ -228,45 +824,43 @@ export class MemoryStorageTarget implements StorageTarget {
   }
 
   async save(data: Buffer | string, metadata: StorageMetadata): Promise<StorageResult> {
-    const key = metadata.filename || this.generateKey(metadata);
+    const key = (metadata.keyPrefix ?? "") + (metadata.filename || this.generateKey(metadata));
     const buffer = typeof data === "string" ? Buffer.from(data, "base64") : data;
     
+    const timestamp = metadata.timestamp || new Date().toISOString();
+
     this.storage.set(key, buffer);
-    this.metadata.set(key, metadata);
+    this.metadata.set(key, { ...metadata, timestamp });
 
     this.logger?.debug("storage:memory:saved", { 
       key, 
       size: buffer.length 
     });
 
-    return {
+    const result: StorageResult = {
       location: `memory://${key}`,
+      key,
       size: buffer.length,
       metadata: {
         ...metadata.tags,
-        timestamp: metadata.timestamp || new Date().toISOString(),
+        timestamp,
       },
     };
+    notifyStorageSaved(this, result);
+    return result;
   }
 
   async retrieve(key: string): Promise<Buffer | null> {
     return this.storage.get(key) || null;
   }
 
-  async list(): Promise<StorageListItem[]> {
-    const items: StorageListItem[] = [];
-    
-    for (const [key, buffer] of this.storage.entries()) {
-      const meta = this.metadata.get(key);
-      items.push({
-        key,
-        size: buffer.length,
-        modified: meta?.timestamp || new Date().toISOString(),
-        metadata: meta?.tags,
-      });
-    }
+  async stat(key: string): Promise<StorageListItem | null> {
+    const buffer = this.storage.get(key);
+    return buffer ? this.describe(key, buffer) : null;
+  }
 
-    return items;
+  async list(): Promise<StorageListItem[]> {
+    return Array.from(this.storage.entries()).map(([key, buffer]) => this.describe(key, buffer));
   }
 
   async delete(key: string): Promise<boolean> {
@@ -276,6 +870,17 @@ export class MemoryStorageTarget implements StorageTarget {
     return existed;
   }
 
+  private describe(key: string, buffer: Buffer): StorageListItem {
+    const meta = this.metadata.get(key);
+    return {
+      key,
+      size: buffer.length,
+      modified: meta?.timestamp || new Date().toISOString(),
+      mimeType: meta?.mimeType ?? mimeTypeFromKey(key),
+      metadata: meta?.tags,
+    };
+  }
+
   private generateKey(metadata: StorageMetadata): string {
     const timestamp = Date.now().toString(36);
     const random = Math.random().toString(36).substring(2, 8);
@@ -285,17 +890,39 @@ export class MemoryStorageTarget implements StorageTarget {
 
 // Storage factory and registry
 
-export type StorageTargetConfig = 
-  | { type: "local"; path?: string }
-  | { type: "s3"; bucket: string; prefix?: string; region?: string }
-  | { type: "memory" };
+export type StorageTargetConfig = (
+  | ({ type: "local"; path?: string } & LocalStorageOptions)
+  | ({ type: "s3" } & S3StorageConfig)
+  | { type: "memory" }
+) & {
+  /** Wrap the target in a DeduplicatingStorageTarget */
+  deduplicate?: boolean;
+  /** Wrap the target in an EncryptingStorageTarget; blobs and sidecars are both encrypted */
+  encryption?: EncryptionOptions;
+};
 
 const storageRegistry = new Map<string, StorageTarget>();
 
 export function createStorageTarget(config: StorageTargetConfig, logger?: Logger): StorageTarget {
+  if (config.deduplicate && config.type === "local" && config.retention) {
+    // Evicting the oldest files would take blobs that newer captures still point at
+    throw new Error("retention cannot be combined with deduplicate; keep deduplicated captures in a target without retention");
+  }
+  let target = createBaseStorageTarget(config, logger);
+  if (config.encryption) {
+    target = new EncryptingStorageTarget(target, config.encryption, logger);
+  }
+  return config.deduplicate ? new DeduplicatingStorageTarget(target, logger) : target;
+}
+
+function createBaseStorageTarget(config: StorageTargetConfig, logger?: Logger): StorageTarget {
   switch (config.type) {
     case "local":
-      return new LocalStorageTarget(config.path, logger);
+      return new LocalStorageTarget(config.path, logger, {
+        retention: config.retention,
+        partitionByDate: config.partitionByDate,
+        sweepIntervalMs: config.sweepIntervalMs,
+      });
     case "s3":
       return new S3StorageTarget(config, logger);
     case "memory":
@@ -309,18 +936,115 @@ export function registerStorageTarget(name: string, target: StorageTarget): void
   storageRegistry.set(name, target);
 }
 
+/**
+ * Registered targets are shared by every API key, so lookups made while
+ * serving an HTTP request return that key's view of the target.
+ */
 export function getStorageTarget(name: string): StorageTarget | undefined {
-  return storageRegistry.get(name);
+  const target = storageRegistry.get(name);
+  return target && scopeToTenant(target);
+}
+
+export function listStorageTargets(): Array<{ name: string; target: StorageTarget }> {
+  return [...storageRegistry.entries()].map(([name, target]) => ({ name, target: scopeToTenant(target) }));
 }
 
 export function getDefaultStorageTarget(logger?: Logger): StorageTarget {
   const defaultTarget = storageRegistry.get("default");
   if (defaultTarget) {
-    return defaultTarget;
+    return scopeToTenant(defaultTarget);
   }
   
   // Create and register a default local storage target
   const localTarget = new LocalStorageTarget(undefined, logger);
   registerStorageTarget("default", localTarget);
-  return localTarget;
+  return scopeToTenant(localTarget);
+}
+
+function scopeToTenant(target: StorageTarget): StorageTarget {
+  const tenant = currentTenant();
+  return tenant === undefined ? target : new TenantStorageTarget(target, tenant);
+}
+
+/** StorageTarget.stat, falling back to searching list() for targets without it */
+export async function statCapture(target: StorageTarget, key: string): Promise<StorageListItem | null> {
+  if (target.stat) {
+    return target.stat(key);
+  }
+  if (!target.list) {
+    throw new Error(`Storage target of type "${target.type}" does not support listing captures`);
+  }
+  return (await target.list()).find((item) => item.key === key) ?? null;
+}
+
+// Save notifications
+
+export type StorageSavedListener = (target: StorageTarget, result: StorageResult) => void;
+
+const savedListeners = new Set<StorageSavedListener>();
+/** Set while a wrapper saves through its inner target, whose own notifications are dropped */
+const wrappedSave = new AsyncLocalStorage<boolean>();
+
+/** Subscribes to saves on every storage target; returns the unsubscribe function */
+export function onStorageSaved(listener: StorageSavedListener): () => void {
+  savedListeners.add(listener);
+  return () => {
+    savedListeners.delete(listener);
+  };
+}
+
+/** Called by the built-in targets after each save; custom targets should call it too */
+export function notifyStorageSaved(target: StorageTarget, result: StorageResult): void {
+  if (wrappedSave.getStore()) {
+    return;
+  }
+  for (const listener of savedListeners) {
+    try {
+      listener(target, result);
+    } catch {
+      // A failing listener must not fail the save
+    }
+  }
+}
+
+/**
+ * Saves through a wrapped target without notifying, so that only the
+ * outermost target reports the capture, once. Wrappers call this instead of
+ * inner.save() and notify for themselves.
+ */
+export function saveToInnerTarget(
+  inner: StorageTarget,
+  data: Buffer | string,
+  metadata: StorageMetadata,
+): Promise<StorageResult> {
+  return wrappedSave.run(true, () => inner.save(data, metadata));
+}
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".html": "text/html",
+  ".json": "application/json",
+  ".har": "application/json",
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+};
+
+const TEXT_MIME_TYPE = /^(text\/|application\/(json|xml)$)/;
+
+/** Content types that can be returned as text rather than base64 */
+export function isTextMimeType(mimeType: string): boolean {
+  return TEXT_MIME_TYPE.test(mimeType);
+}
+
+/** Guesses the content type from the key's extension */
+export function mimeTypeFromKey(key: string): string | undefined {
+  return MIME_TYPES_BY_EXTENSION[path.extname(key).toLowerCase()];
+}
+
+/** File extension for generated keys; ".bin" when the type is unknown */
+export function extensionFromMimeType(mimeType?: string): string {
+  return Object.keys(MIME_TYPES_BY_EXTENSION).find((extension) => MIME_TYPES_BY_EXTENSION[extension] === mimeType) ?? ".bin";
 }
@@ -0,0 +1,143 @@
+/**
+ * AWS Signature Version 4 for S3-compatible requests: header signing for API
+ * calls and query-string signing for pre-signed URLs.
+ */
+
+import { createHash, createHmac } from "crypto";
+
+export interface SigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface SigV4Scope {
+  credentials: SigV4Credentials;
+  region: string;
+  /** Default: "s3" */
+  service?: string;
+}
+
+/** Payload hash for GET/HEAD/DELETE requests */
+export const EMPTY_PAYLOAD_HASH = sha256Hex("");
+
+export function sha256Hex(data: Buffer | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Returns the headers to send with the request: the given ones plus host,
+ * x-amz-date, x-amz-content-sha256, the session token if any and Authorization.
+ */
+export function signRequest(
+  request: { method: string; url: URL; headers?: Record<string, string>; payloadHash: string },
+  scope: SigV4Scope,
+  date = new Date(),
+): Record<string, string> {
+  const amzDate = toAmzDate(date);
+  const headers: Record<string, string> = {
+    ...lowerCaseKeys(request.headers ?? {}),
+    host: request.url.host,
+    "x-amz-date": amzDate,
+    "x-amz-content-sha256": request.payloadHash,
+    ...(scope.credentials.sessionToken ? { "x-amz-security-token": scope.credentials.sessionToken } : {}),
+  };
+
+  const signedHeaderNames = Object.keys(headers).sort();
+  const canonicalHeaders = signedHeaderNames.map((name) => `${name}:${headers[name].trim().replace(/\s+/g, " ")}\n`).join("");
+  const signedHeaders = signedHeaderNames.join(";");
+  const canonicalRequest = [
+    request.method,
+    canonicalUri(request.url),
+    canonicalQuery(request.url.searchParams),
+    canonicalHeaders,
+    signedHeaders,
+    request.payloadHash,
+  ].join("\n");
+
+  const credentialScope = buildCredentialScope(amzDate, scope);
+  const signature = sign(canonicalRequest, amzDate, credentialScope, scope);
+
+  // host is added by fetch itself and may not be overridden
+  delete headers.host;
+  headers.authorization =
+    `AWS4-HMAC-SHA256 Credential=${scope.credentials.accessKeyId}/${credentialScope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return headers;
+}
+
+/** Returns a copy of the URL that grants a GET without credentials until it expires */
+export function presignUrl(url: URL, scope: SigV4Scope, expiresInSeconds: number, date = new Date()): string {
+  const amzDate = toAmzDate(date);
+  const credentialScope = buildCredentialScope(amzDate, scope);
+  const presigned = new URL(url.href);
+
+  presigned.searchParams.set("X-Amz-Algorithm", "AWS4-HMAC-SHA256");
+  presigned.searchParams.set("X-Amz-Credential", `${scope.credentials.accessKeyId}/${credentialScope}`);
+  presigned.searchParams.set("X-Amz-Date", amzDate);
+  presigned.searchParams.set("X-Amz-Expires", String(expiresInSeconds));
+  if (scope.credentials.sessionToken) {
+    presigned.searchParams.set("X-Amz-Security-Token", scope.credentials.sessionToken);
+  }
+  presigned.searchParams.set("X-Amz-SignedHeaders", "host");
+
+  const canonicalRequest = [
+    "GET",
+    canonicalUri(presigned),
+    canonicalQuery(presigned.searchParams),
+    `host:${presigned.host}\n`,
+    "host",
+    "UNSIGNED-PAYLOAD",
+  ].join("\n");
+
+  const signature = sign(canonicalRequest, amzDate, credentialScope, scope);
+  return `${presigned.origin}${presigned.pathname}?${canonicalQuery(presigned.searchParams)}&X-Amz-Signature=${signature}`;
+}
+
+/** RFC 3986 encoding as SigV4 expects it; encodeURIComponent leaves !'()* alone */
+export function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function canonicalUri(url: URL): string {
+  // S3 signs the path as sent: segments are encoded once, never normalized
+  return url.pathname.split("/").map((segment) => uriEncode(decodeURIComponent(segment))).join("/") || "/";
+}
+
+function canonicalQuery(params: URLSearchParams): string {
+  return [...params.entries()]
+    .map(([name, value]) => [uriEncode(name), uriEncode(value)])
+    .sort(([a, aValue], [b, bValue]) => (a === b ? compare(aValue, bValue) : compare(a, b)))
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&");
+}
+
+function buildCredentialScope(amzDate: string, scope: SigV4Scope): string {
+  return `${amzDate.slice(0, 8)}/${scope.region}/${scope.service ?? "s3"}/aws4_request`;
+}
+
+function sign(canonicalRequest: string, amzDate: string, credentialScope: string, scope: SigV4Scope): string {
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, credentialScope, sha256Hex(canonicalRequest)].join("\n");
+  let key: Buffer = hmac(`AWS4${scope.credentials.secretAccessKey}`, amzDate.slice(0, 8));
+  for (const part of [scope.region, scope.service ?? "s3", "aws4_request"]) {
+    key = hmac(key, part);
+  }
+  return createHmac("sha256", key).update(stringToSign).digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+}
+
+function lowerCaseKeys(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+}
+
+/** Byte order, not locale order */
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,54 @@
+/**
+ * One API key's view of a shared storage target: its captures live under
+ * tenants/<name>/ and every key it reads, lists or deletes is relative to that
+ * prefix, so other keys' captures can be neither seen nor overwritten.
+ */
+
+import { tenantKeyPrefix } from "../utils/tenant.js";
+import { statCapture, type StorageListItem, type StorageMetadata, type StorageResult, type StorageTarget } from "./index.js";
+
+export class TenantStorageTarget implements StorageTarget {
+  type: string;
+  private inner: StorageTarget;
+  private prefix: string;
+
+  constructor(inner: StorageTarget, tenant: string) {
+    this.type = inner.type;
+    this.inner = inner;
+    this.prefix = tenantKeyPrefix(tenant);
+  }
+
+  async save(data: Buffer | string, metadata: StorageMetadata): Promise<StorageResult> {
+    // The wrapped target notifies listeners; a view is not a target of its own
+    const result = await this.inner.save(data, { ...metadata, keyPrefix: this.prefix + (metadata.keyPrefix ?? "") });
+    return { ...result, key: result.key?.startsWith(this.prefix) ? result.key.slice(this.prefix.length) : result.key };
+  }
+
+  async retrieve(key: string): Promise<Buffer | string | null> {
+    if (!this.inner.retrieve) {
+      throw new Error(`Storage target of type "${this.inner.type}" does not support retrieving captures`);
+    }
+    return this.inner.retrieve(this.prefix + key);
+  }
+
+  async stat(key: string): Promise<StorageListItem | null> {
+    const item = await statCapture(this.inner, this.prefix + key);
+    return item && { ...item, key };
+  }
+
+  async list(): Promise<StorageListItem[]> {
+    if (!this.inner.list) {
+      throw new Error(`Storage target of type "${this.inner.type}" does not support listing captures`);
+    }
+    return (await this.inner.list())
+      .filter((item) => item.key.startsWith(this.prefix))
+      .map((item) => ({ ...item, key: item.key.slice(this.prefix.length) }));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    if (!this.inner.delete) {
+      throw new Error(`Storage target of type "${this.inner.type}" does not support deleting captures`);
+    }
+    return this.inner.delete(this.prefix + key);
+  }
+}
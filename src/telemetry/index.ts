@@ -1,3 +1,4 @@
+import { createHmac } from "crypto";
 import { EventEmitter } from "events";
 import type { Logger } from "../logger.js";
 
@@ -13,10 +14,18 @@ export type TelemetryEventType =
   | "retry.succeeded"
   | "retry.failed"
   | "screenshot.captured"
+  | "screenshot.compared"
   | "scroll.executed"
   | "dom.extracted"
   | "browser.launched"
-  | "browser.closed";
+  | "browser.closed"
+  | "browser.context_acquired"
+  | "browser.context_released"
+  | "session.opened"
+  | "session.closed"
+  | "trace.saved"
+  | "har.saved"
+  | "storage.swept";
 
 export interface TelemetryEvent {
   type: TelemetryEventType;
@@ -219,8 +228,7 @@ export function getGlobalTelemetry(logger?: Logger): TelemetryEmitter {
 
 // Helper function to create webhook signature
 export function createWebhookSignature(payload: string, secret: string): string {
-  const crypto = require("crypto");
-  return crypto.createHmac("sha256", secret).update(payload).digest("hex");
+  return createHmac("sha256", secret).update(payload).digest("hex");
 }
 
 // Built-in hooks
@@ -0,0 +1,346 @@
+import type { Page, SerializedAXNode } from "puppeteer";
+import { z } from "zod";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import type { Logger } from "../logger.js";
+import type { AccessibilityNode, AccessibilityTreeInput, AccessibilityTreeResult } from "../types/accessibility.js";
+import { normalizeHeadersInput } from "../utils/requestOptions.js";
+import { normalizeUrl } from "../utils/url.js";
+import { rankedSelectorsFor } from "../utils/selectors.js";
+import { getCaptureDefaults } from "../config/defaults.js";
+import { getGlobalTelemetry } from "../telemetry/index.js";
+import { withTimeout } from "../utils/timeout.js";
+import { getBrowserPool } from "../browser/pool.js";
+import { getSessionManager } from "../browser/sessions.js";
+
+import {
+  headersSchema,
+  sessionIdSchema,
+  GET_ACCESSIBILITY_TREE_DESCRIPTION,
+} from "../schemas/index.js";
+
+/** Each ref costs a round trip to the page */
+const MAX_REFS = 300;
+
+/** Roles that click/fill steps act on; only these get a ref */
+const ACTIONABLE_ROLES = new Set([
+  "button", "link", "textbox", "searchbox", "checkbox", "radio", "switch", "combobox",
+  "listbox", "option", "menuitem", "menuitemcheckbox", "menuitemradio", "tab", "slider",
+  "spinbutton", "treeitem",
+]);
+
+const getAccessibilityTreeInputSchema = z.object({
+  url: z
+    .string()
+    .min(1, "URL cannot be empty.")
+    .transform((value: string, ctx: z.RefinementCtx) => {
+      try {
+        return normalizeUrl(value);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: (error as Error).message,
+        });
+        return z.NEVER;
+      }
+    })
+    .optional()
+    .describe("The webpage URL. Required unless sessionId is given (then the session's current page is used)."),
+  sessionId: sessionIdSchema.optional(),
+  selector: z.string().min(1, "Selector cannot be empty.").optional()
+    .describe("(optional) CSS selector whose subtree is returned. Default: the whole page"),
+  headers: headersSchema,
+  interestingOnly: z.boolean().optional()
+    .describe("(optional) Skip generic containers and nodes without semantics. Default: true"),
+  maxDepth: z.number().int().min(0).max(100).optional()
+    .describe("(optional) Deepest level returned; the root is level 0. Default: unlimited"),
+});
+
+export function registerAccessibilityTreeTool(server: McpServer, logger: Logger) {
+  server.registerTool(
+    "getAccessibilityTree",
+    {
+      title: "Get Accessibility Tree",
+      description: GET_ACCESSIBILITY_TREE_DESCRIPTION,
+      inputSchema: getAccessibilityTreeInputSchema,
+    },
+    async (rawInput) => {
+      const input = getAccessibilityTreeInputSchema.parse(rawInput);
+      const { sessionId, selector } = input;
+      const telemetry = getGlobalTelemetry(logger);
+
+      const url = input.url ?? (sessionId ? getSessionManager(logger).get(sessionId)?.url : undefined);
+      if (!url) {
+        throw new McpError(ErrorCode.InvalidParams, "getAccessibilityTree failed", {
+          sessionId,
+          detail: sessionId
+            ? `Session "${sessionId}" not found. It may have expired; open a new one with openSession.`
+            : "URL is required.",
+        });
+      }
+
+      logger.info("getAccessibilityTree:requested", {
+        url,
+        selector: selector ?? null,
+        sessionId,
+        interestingOnly: input.interestingOnly ?? true,
+        maxDepth: input.maxDepth,
+      });
+
+      await telemetry.emitTelemetry("tool.invoked", {
+        tool: "getAccessibilityTree",
+        url,
+        selector,
+      });
+
+      try {
+        const result = await getAccessibilityTree({ ...input, url }, logger);
+
+        await telemetry.emitTelemetry("tool.completed", {
+          tool: "getAccessibilityTree",
+          url,
+          nodeCount: result.nodeCount,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatAccessibilitySummary(result),
+            },
+            {
+              type: "text",
+              text: result.tree ? formatAccessibilityTree(result.tree) : "The page exposes no accessible nodes.",
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error("getAccessibilityTree:failed", {
+          url,
+          selector: selector ?? null,
+          reason: (error as Error).message,
+        });
+
+        await telemetry.emitTelemetry("tool.failed", {
+          tool: "getAccessibilityTree",
+          url,
+          error: (error as Error).message,
+        });
+
+        throw new McpError(ErrorCode.InvalidParams, "getAccessibilityTree failed", {
+          url,
+          detail: (error as Error).message,
+        });
+      }
+    },
+  );
+}
+
+/** Snapshots Chromium's accessibility tree and gives every control a selector steps can target */
+export async function getAccessibilityTree(
+  args: AccessibilityTreeInput,
+  logger: Logger,
+): Promise<AccessibilityTreeResult> {
+  const defaults = getCaptureDefaults();
+
+  const snapshotPage = async (page: Page, inSession: boolean): Promise<AccessibilityTreeResult> => {
+    if (!inSession) {
+      await page.setViewport(defaults.viewport);
+    }
+    page.setDefaultNavigationTimeout(defaults.timeouts.navigationMs);
+
+    const normalizedHeaders = normalizeHeadersInput(args.headers);
+    if (normalizedHeaders) {
+      await page.setExtraHTTPHeaders(normalizedHeaders);
+    }
+
+    if (inSession && page.url() === args.url) {
+      logger.debug("navigation:session_reused", { url: args.url, sessionId: args.sessionId });
+    } else {
+      const response = await page.goto(args.url, {
+        waitUntil: "networkidle2",
+        timeout: defaults.timeouts.navigationMs,
+      });
+      if (!response || !response.ok()) {
+        throw new Error(`Navigation failed with status: ${response?.status() ?? "unknown"}`);
+      }
+    }
+
+    const root = args.selector ? await page.$(args.selector) : undefined;
+    if (args.selector && !root) {
+      throw new Error(`No element matched selector: ${args.selector}`);
+    }
+
+    try {
+      const snapshot = await page.accessibility.snapshot({
+        interestingOnly: args.interestingOnly ?? true,
+        ...(root ? { root } : {}),
+      });
+      const converter = new AccessibilityTreeConverter(args.maxDepth, logger);
+      const tree = snapshot ? await converter.convert(snapshot, 0) : null;
+
+      return {
+        url: args.url,
+        selector: args.selector,
+        tree,
+        nodeCount: converter.nodeCount,
+        refCount: converter.refCount,
+        truncated: converter.truncated,
+        capturedAt: new Date().toISOString(),
+      };
+    } finally {
+      await root?.dispose();
+    }
+  };
+
+  const execute = async (): Promise<AccessibilityTreeResult> => {
+    if (args.sessionId) {
+      return getSessionManager(logger).use(args.sessionId, (page) => snapshotPage(page, true));
+    }
+
+    const lease = await getBrowserPool(logger).acquire("getAccessibilityTree");
+    try {
+      return await snapshotPage(lease.page, false);
+    } finally {
+      await lease.release();
+    }
+  };
+
+  return withTimeout(execute(), defaults.timeouts.totalMs, "getAccessibilityTree");
+}
+
+class AccessibilityTreeConverter {
+  nodeCount = 0;
+  refCount = 0;
+  truncated = false;
+
+  constructor(
+    private maxDepth: number | undefined,
+    private logger: Logger,
+  ) {}
+
+  async convert(node: SerializedAXNode, depth: number): Promise<AccessibilityNode> {
+    this.nodeCount += 1;
+
+    const converted: AccessibilityNode = { role: node.role };
+    if (node.name) {
+      converted.name = node.name;
+    }
+    if (node.value !== undefined && node.value !== "") {
+      converted.value = node.value;
+    }
+    if (node.description) {
+      converted.description = node.description;
+    }
+    const states = describeStates(node);
+    if (states.length > 0) {
+      converted.states = states;
+    }
+    if (ACTIONABLE_ROLES.has(node.role)) {
+      converted.ref = await this.refFor(node);
+    }
+
+    const children = node.children ?? [];
+    if (children.length > 0) {
+      if (this.maxDepth !== undefined && depth >= this.maxDepth) {
+        converted.omittedChildren = children.length;
+        this.truncated = true;
+      } else {
+        converted.children = [];
+        for (const child of children) {
+          converted.children.push(await this.convert(child, depth + 1));
+        }
+      }
+    }
+    return converted;
+  }
+
+  private async refFor(node: SerializedAXNode): Promise<string | undefined> {
+    if (this.refCount >= MAX_REFS) {
+      this.truncated = true;
+      return undefined;
+    }
+    const handle = await node.elementHandle().catch(() => null);
+    if (!handle) {
+      return undefined;
+    }
+    try {
+      const [ref] = await handle.evaluate(rankedSelectorsFor);
+      if (ref) {
+        this.refCount += 1;
+      }
+      return ref;
+    } catch (error) {
+      this.logger.debug("getAccessibilityTree:ref_failed", { role: node.role, name: node.name, error: (error as Error).message });
+      return undefined;
+    } finally {
+      await handle.dispose();
+    }
+  }
+}
+
+function describeStates(node: SerializedAXNode): string[] {
+  const states: string[] = [];
+  for (const flag of ["disabled", "focused", "modal", "multiline", "multiselectable", "readonly", "required", "selected"] as const) {
+    if (node[flag]) {
+      states.push(flag);
+    }
+  }
+  if (node.checked !== undefined) {
+    states.push(node.checked === "mixed" ? "mixed" : node.checked ? "checked" : "unchecked");
+  }
+  if (node.pressed !== undefined) {
+    states.push(node.pressed === "mixed" ? "mixed" : node.pressed ? "pressed" : "not pressed");
+  }
+  if (node.expanded !== undefined) {
+    states.push(node.expanded ? "expanded" : "collapsed");
+  }
+  if (node.invalid && node.invalid !== "false") {
+    states.push("invalid");
+  }
+  if (node.level !== undefined) {
+    states.push(`level=${node.level}`);
+  }
+  return states;
+}
+
+function formatAccessibilitySummary(result: AccessibilityTreeResult): string {
+  return [
+    "mcp-page-capture accessibility tree",
+    `URL: ${result.url}`,
+    `Selector: ${result.selector ?? "<document>"}`,
+    `Captured: ${result.capturedAt}`,
+    `Nodes: ${result.nodeCount}${result.truncated ? " (truncated)" : ""}`,
+    `Refs: ${result.refCount} (use as click/fill step targets)`,
+  ].join("\n");
+}
+
+/** One line per node, indented by depth: role "name" = value [states] ref=selector */
+function formatAccessibilityTree(root: AccessibilityNode): string {
+  const lines: string[] = [];
+  const visit = (node: AccessibilityNode, depth: number) => {
+    const parts = [`${"  ".repeat(depth)}- ${node.role}`];
+    if (node.name) {
+      parts.push(JSON.stringify(node.name));
+    }
+    if (node.value !== undefined) {
+      parts.push(`= ${JSON.stringify(node.value)}`);
+    }
+    if (node.states) {
+      parts.push(`[${node.states.join(", ")}]`);
+    }
+    if (node.ref) {
+      parts.push(`ref=${node.ref}`);
+    }
+    if (node.omittedChildren) {
+      parts.push(`(+${node.omittedChildren} children below maxDepth)`);
+    }
+    lines.push(parts.join(" "));
+    for (const child of node.children ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+  visit(root, 0);
+  return lines.join("\n");
+}
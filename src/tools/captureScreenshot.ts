@@ -1,18 +1,31 @@
-import puppeteer from "puppeteer";
+import type { ElementHandle, Page } from "puppeteer";
 import { z } from "zod";
 import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 import type { Logger } from "../logger.js";
-import type { CaptureScreenshotInput, CaptureScreenshotResult, ScreenshotMetadata, ViewportConfig, RetryConfig, ScrollConfig, ClickAction, ActionStep, ScreenshotStep, CookieActionStep, StorageActionStep, ViewportStep, FullPageStep, CaptureCookieInput, FillFormStep, FormFieldInput, QuickFillStep } from "../types/screenshot.js";
+import type { CaptureScreenshotInput, CaptureScreenshotResult, CompositeImage, DeviceCaptureResult, ElementRect, FailedStep, ScreenshotMetadata, ViewportConfig, RetryConfig, ScrollConfig, ClickAction, ActionStep, ScreenshotStep, CookieActionStep, StorageActionStep, ViewportStep, FullPageStep, CaptureCookieInput, FillFormStep, FormFieldInput, QuickFillStep } from "../types/screenshot.js";
 import { normalizeHeadersInput, toPuppeteerCookies } from "../utils/requestOptions.js";
 import { normalizeUrl } from "../utils/url.js";
 import { withRetry, type RetryPolicy } from "../utils/retry.js";
+import { getCaptureDefaults } from "../config/defaults.js";
 import { getViewportPreset, mergeViewportOptions, type ViewportPreset } from "../config/viewports.js";
 import { getGlobalTelemetry } from "../telemetry/index.js";
 import { getStorageTarget, getDefaultStorageTarget } from "../storage/index.js";
-import { withTimeout, safeBrowserClose, TimeoutError } from "../utils/timeout.js";
-import { LLM_ERRORS, formatErrorResponse, createLLMError, formatErrorForMCP, type LLMErrorResponse } from "../utils/errors.js";
+import { withTimeout, TimeoutError } from "../utils/timeout.js";
+import { getBrowserPool } from "../browser/pool.js";
+import { getSessionManager } from "../browser/sessions.js";
+import { applyViewport } from "../browser/emulation.js";
+import { decodePng, encodePng } from "../image/png.js";
+import { composeSideBySide } from "../image/composite.js";
+import { IMAGE_MIME_TYPES } from "../image/dimensions.js";
+import { captureScreenshotWithinBudget, type CapturedScreenshot } from "../utils/screenshotBudget.js";
+import { LLM_ERRORS, formatErrorResponse, createLLMError, formatErrorForMCP, classifyCaptureError, classifyStepError, type LLMErrorResponse } from "../utils/errors.js";
+import type { StepExecutionInfo } from "../utils/responseFormat.js";
+import { StepTracer, detachThumbnails, saveTraceBundle, type ExecutionTrace, type ResponseTrace, type TraceOptions } from "../utils/trace.js";
+import { HarRecorder, finishHarRecording, formatHarSummary } from "../utils/har.js";
+import { NetworkInterceptor, formatNetworkRuleMatches, type NetworkInterception } from "../utils/network.js";
+import { ConsoleCollector, formatConsoleReport } from "../utils/console.js";
 import { normalizeDeviceName, validateSelector, autoFixParameters, convertSimpleParamsToSteps, mergeLegacyIntoSteps, normalizeAllSteps, normalizeUrlInput, collectDeprecationWarnings } from "../utils/normalize.js";
 import { normalizeStepsArray } from "../utils/stepMapper.js";
 import { validateAndFixSteps } from "../utils/validate.js";
@@ -24,23 +37,23 @@ import {
   runtimeStepSchema,
   headersSchema,
   cookieSchema,
+  sessionIdSchema,
+  devicesSchema,
+  responseFormatSchema,
+  traceSchema,
+  recordHarSchema,
+  networkSchema,
+  collectConsoleSchema,
+  failOnConsoleErrorSchema,
+  captureScreenshotOutputSchema,
   CAPTURE_SCREENSHOT_DESCRIPTION,
+  type CaptureScreenshotOutput,
 } from "../schemas/index.js";
 
-const CAPTURE_TIMEOUT_MS = 45_000;
-const BROWSER_CLOSE_TIMEOUT_MS = 5_000;
-const MASTER_TIMEOUT_MS = 60_000;
-const SCREENSHOT_TIMEOUT_MS = 30_000;
 const STEP_TIMEOUT_MS = 15_000;
-const DEFAULT_VIEWPORT = { width: 1280, height: 720 } as const;
-
-// Step execution tracking
-interface StepExecutionInfo {
-  type: string;
-  target?: string;
-  success: boolean;
-  error?: string;
-}
+const MAX_COMPOSITE_PIXELS = 60_000_000;
+
+const STEP_TARGET_KEYS = ["target", "selector", "element", "captureElement", "for", "awaitElement", "to", "scrollTo", "formSelector"] as const;
 
 // Legacy schemas for backward compatibility (runtime only, not exposed to LLMs)
 const viewportSchema = z.object({
@@ -129,6 +142,9 @@ const screenshotStepSchemaRuntime = z.object({
   fullPage: z.boolean().optional(),
   element: z.string().optional(),
   captureElement: z.string().optional(),
+  format: z.enum(["png", "jpeg", "webp"]).optional(),
+  quality: z.number().int().min(1).max(100).optional(),
+  maxBytes: z.number().int().min(1024).optional(),
 });
 
 const cookieActionStepSchema = z.object({
@@ -330,7 +346,6 @@ const captureScreenshotInputSchema = z.object({
   url: z
     .string({ required_error: "URL is required." })
     .min(1, "URL cannot be empty.")
-    .describe("The webpage URL to capture.")
     .transform((value: string, ctx: z.RefinementCtx) => {
       try {
         return normalizeUrl(value);
@@ -341,15 +356,27 @@ const captureScreenshotInputSchema = z.object({
         });
         return z.NEVER;
       }
-    }),
+    })
+    .optional()
+    .describe("The webpage URL to capture. Required unless sessionId is given (then the session's current page is used)."),
+  sessionId: sessionIdSchema.optional(),
   steps: z.array(llmStepSchema).optional()
     .describe("Steps to execute before capture. Order: viewport → wait → fill → click → scroll → screenshot"),
+  devices: devicesSchema.optional(),
+  composite: z.boolean().optional()
+    .describe("With devices, also return one side-by-side image of all captures."),
   headers: z.record(z.string(), z.string()).optional()
     .describe("HTTP headers for authentication (e.g., { 'Authorization': 'Bearer token' })."),
+  responseFormat: responseFormatSchema.optional(),
+  trace: traceSchema.optional(),
+  recordHar: recordHarSchema.optional(),
+  network: networkSchema.optional(),
+  collectConsole: collectConsoleSchema.optional(),
+  failOnConsoleError: failOnConsoleErrorSchema.optional(),
 });
 
 // Full runtime schema - includes legacy params and accepts all step types for backward compatibility
-const captureScreenshotSchema = z.object({
+export const captureScreenshotSchema = z.object({
   url: z
     .string({ required_error: "URL is required." })
     .min(1, "URL cannot be empty.")
@@ -363,11 +390,21 @@ const captureScreenshotSchema = z.object({
         });
         return z.NEVER;
       }
-    }),
+    })
+    .optional(),
+  sessionId: sessionIdSchema.optional(),
   headers: headersSchema,
   retryPolicy: retryPolicySchema,
   storageTarget: z.string().optional(),
   steps: runtimeStepsSchema,
+  devices: devicesSchema.optional(),
+  composite: z.boolean().optional(),
+  responseFormat: responseFormatSchema.optional(),
+  trace: traceSchema.optional(),
+  recordHar: recordHarSchema.optional(),
+  network: networkSchema.optional(),
+  collectConsole: collectConsoleSchema.optional(),
+  failOnConsoleError: failOnConsoleErrorSchema.optional(),
 }).and(legacyParametersSchema);
 
 export function registerCaptureScreenshotTool(server: McpServer, logger: Logger) {
@@ -377,12 +414,27 @@ export function registerCaptureScreenshotTool(server: McpServer, logger: Logger)
       title: "Capture Screenshot",
       description: CAPTURE_SCREENSHOT_DESCRIPTION,
       inputSchema: captureScreenshotInputSchema,
+      outputSchema: captureScreenshotOutputSchema,
     },
     async (rawInput) => {
       // Parse with full schema to support legacy params at runtime
       const input = captureScreenshotSchema.parse(rawInput);
-      const { url, viewport, retryPolicy, storageTarget, scroll } = input;
+      const { viewport, retryPolicy, storageTarget, scroll, sessionId, devices } = input;
+      const jsonMode = input.responseFormat === "json";
+      const startedAt = Date.now();
+      const traceOptions: TraceOptions | undefined = input.trace === true ? {} : input.trace || undefined;
       const telemetry = getGlobalTelemetry(logger);
+
+      // Without an explicit URL, a session call captures whatever page the session is on
+      const url = input.url ?? (sessionId ? getSessionManager(logger).get(sessionId)?.url : undefined);
+      if (!url) {
+        throw new McpError(ErrorCode.InvalidParams, "captureScreenshot failed", {
+          sessionId,
+          detail: sessionId
+            ? `Session "${sessionId}" not found. It may have expired; open a new one with openSession.`
+            : "URL is required.",
+        });
+      }
       
       // Handle validate mode - return analysis without executing
       const validateMode = (rawInput as any).validate === true;
@@ -399,13 +451,20 @@ export function registerCaptureScreenshotTool(server: McpServer, logger: Logger)
           stepCount: validationResult.stepCount,
         });
         
+        const structured: CaptureScreenshotOutput = {
+          success: validationResult.valid,
+          warnings: validationResult.warnings,
+          validation: validationResult,
+        };
+
         return {
           content: [
             {
               type: "text",
-              text: `URL: ${url}\n\n${formattedResult}`,
+              text: jsonMode ? JSON.stringify(structured, null, 2) : `URL: ${url}\n\n${formattedResult}`,
             },
           ],
+          structuredContent: structured,
         };
       }
       
@@ -413,6 +472,8 @@ export function registerCaptureScreenshotTool(server: McpServer, logger: Logger)
         url, 
         viewportPreset: viewport?.preset,
         storageTarget,
+        sessionId,
+        devices,
         scroll: scroll ? { x: scroll.x, y: scroll.y, selector: scroll.selector } : undefined,
       });
 
@@ -422,8 +483,20 @@ export function registerCaptureScreenshotTool(server: McpServer, logger: Logger)
         viewportPreset: viewport?.preset,
       });
 
+      const tracer = traceOptions ? new StepTracer(url, traceOptions, logger) : undefined;
+      const harRecorder = input.recordHar
+        ? new HarRecorder(input.recordHar === true ? {} : input.recordHar, logger)
+        : undefined;
+      const consoleCollector = input.collectConsole || input.failOnConsoleError ? new ConsoleCollector() : undefined;
+
       try {
-        const result = await runScreenshot(input, logger);
+        const result = await runScreenshot({ ...input, url }, logger, { tracer, harRecorder, consoleCollector });
+        const pageError = input.failOnConsoleError ? consoleCollector?.toError() : undefined;
+        if (pageError) {
+          throw pageError;
+        }
+        const traceReport = tracer ? await finishTrace(tracer, storageTarget, logger) : undefined;
+        const harReport = harRecorder ? await finishHarRecording(harRecorder, url, storageTarget, logger) : undefined;
 
         logger.info("captureScreenshot:completed", {
           url,
@@ -440,28 +513,83 @@ export function registerCaptureScreenshotTool(server: McpServer, logger: Logger)
           retryAttempts: result.metadata.retryAttempts,
         });
 
-        const metadataSummary = formatMetadata(result.metadata);
+        const images = (result.deviceCaptures ?? [result]).map((capture) => ({
+          type: "image" as const,
+          mimeType: capture.mimeType,
+          data: capture.imageBase64,
+        }));
+        if (result.composite) {
+          images.push({
+            type: "image" as const,
+            mimeType: result.composite.mimeType,
+            data: result.composite.imageBase64,
+          });
+        }
+
+        // Thumbnails go to the bundle or to image blocks after the screenshots, never into the text
+        const responseTrace = traceReport
+          ? detachThumbnails(traceReport.trace, traceReport.location !== undefined, 1 + images.length)
+          : undefined;
+        images.push(...(responseTrace?.images ?? []).map((thumbnail) => ({
+          type: "image" as const,
+          mimeType: thumbnail.mimeType,
+          data: thumbnail.imageBase64,
+        })));
+
+        const metadataSummary = result.deviceCaptures
+          ? formatDeviceCaptures(result)
+          : formatMetadata(result.metadata);
         
         // Collect deprecation warnings for legacy parameters
         const deprecations = collectDeprecationWarnings(input.steps || []);
+        const compositeSkipped = Boolean(input.composite && result.deviceCaptures && !result.composite);
         let responseText = metadataSummary;
+        if (compositeSkipped) {
+          responseText += "\n\nComposite image skipped: the captures could not be combined (see server logs).";
+        }
         if (deprecations.hasWarnings) {
           responseText += "\n\nDEPRECATION WARNINGS:\n" + deprecations.warnings.map(w => `⚠ ${w}`).join("\n");
           logger.warn("deprecation:warnings", { warnings: deprecations.warnings });
         }
+        if (traceReport && responseTrace) {
+          responseText += "\n\n" + formatTrace(responseTrace.trace, traceReport.location);
+        }
+        if (harReport) {
+          responseText += "\n\n" + formatHarSummary(harReport.summary, harReport.location);
+        }
+        const consoleReport = consoleCollector?.report();
+        if (consoleReport) {
+          responseText += "\n\n" + formatConsoleReport(consoleReport);
+        }
+
+        const structured = buildStructuredResult(result, [
+          ...collectResultWarnings(result),
+          ...(compositeSkipped ? ["Composite image skipped: the captures could not be combined."] : []),
+          ...deprecations.warnings,
+        ]);
+        if (traceReport) {
+          structured.trace = responseTrace?.trace;
+          structured.traceLocation = traceReport.location;
+        }
+        structured.har = harReport;
+        structured.console = consoleReport;
+        // The capture still completes; json mode reports the failed step as the result
+        const stepError = classifyStepFailure(result, { url, executionTimeMs: Date.now() - startedAt });
+        if (stepError) {
+          structured.success = false;
+          structured.error = stepError;
+        }
 
         return {
           content: [
             {
               type: "text",
-              text: responseText,
-            },
-            {
-              type: "image",
-              mimeType: result.mimeType,
-              data: result.imageBase64,
+              text: jsonMode ? JSON.stringify(structured, null, 2) : responseText,
             },
+            ...images,
           ],
+          ...(jsonMode ? { isError: Boolean(stepError) } : {}),
+          structuredContent: structured,
         };
       } catch (error) {
         logger.error("captureScreenshot:failed", {
@@ -475,15 +603,82 @@ export function registerCaptureScreenshotTool(server: McpServer, logger: Logger)
           error: (error as Error).message,
         });
 
+        // The trace of a failed run is what makes it debuggable, so it is saved before reporting
+        const traceReport = tracer ? await finishTrace(tracer, storageTarget, logger, error) : undefined;
+        const harReport = harRecorder ? await finishHarRecording(harRecorder, url, storageTarget, logger) : undefined;
+
+        if (jsonMode) {
+          const responseTrace = traceReport
+            ? detachThumbnails(traceReport.trace, traceReport.location !== undefined, 1)
+            : undefined;
+          // Returned as a tool error so the recovery details reach the client intact
+          const structured: CaptureScreenshotOutput = {
+            success: false,
+            warnings: [],
+            error: classifyCaptureError(error, {
+              url,
+              stepsTotal: input.steps?.length ?? 0,
+              executionTimeMs: Date.now() - startedAt,
+            }),
+            trace: responseTrace?.trace,
+            traceLocation: traceReport?.location,
+            har: harReport,
+            console: consoleCollector?.report(),
+          };
+          return {
+            isError: true,
+            content: [
+              { type: "text", text: JSON.stringify(structured, null, 2) },
+              ...(responseTrace?.images ?? []).map((thumbnail) => ({
+                type: "image" as const,
+                mimeType: thumbnail.mimeType,
+                data: thumbnail.imageBase64,
+              })),
+            ],
+            structuredContent: structured,
+          };
+        }
+
         throw new McpError(ErrorCode.InvalidParams, "captureScreenshot failed", {
           url,
           detail: (error as Error).message,
+          ...(traceReport?.location ? { traceLocation: traceReport.location } : {}),
+          ...(harReport?.location ? { harLocation: harReport.location } : {}),
+          ...(consoleCollector ? { console: consoleCollector.report() } : {}),
         });
       }
     },
   );
 }
 
+/** Ends the trace and saves the bundle when requested. Saving is best effort. */
+async function finishTrace(
+  tracer: StepTracer,
+  storageTarget: string | undefined,
+  logger: Logger,
+  error?: unknown,
+): Promise<{ trace: ExecutionTrace; location?: string }> {
+  const trace = tracer.finish(error);
+  if (!tracer.saveRequested) {
+    return { trace };
+  }
+
+  try {
+    const storage = (storageTarget && getStorageTarget(storageTarget)) || getDefaultStorageTarget(logger);
+    const saved = await saveTraceBundle(trace, storage);
+    await getGlobalTelemetry(logger).emitTelemetry("trace.saved", {
+      url: trace.url,
+      outcome: trace.outcome,
+      steps: trace.steps.length,
+      location: saved.location,
+    });
+    return { trace, location: saved.location };
+  } catch (saveError) {
+    logger.warn("trace:save_failed", { url: trace.url, error: (saveError as Error).message });
+    return { trace };
+  }
+}
+
 /**
  * Converts legacy parameters to steps for backward compatibility
  */
@@ -576,13 +771,30 @@ function convertLegacyParametersToSteps(args: CaptureScreenshotInput, logger?: L
   return steps;
 }
 
-async function runScreenshot(args: CaptureScreenshotInput, logger: Logger): Promise<CaptureScreenshotResult> {
+export interface ScreenshotRunOptions {
+  /** Selectors whose bounding boxes (in screenshot pixels) are reported in elementRects */
+  measureSelectors?: string[];
+  /** Records a per-step timeline of the run */
+  tracer?: StepTracer;
+  /** Records network traffic of every page the run uses */
+  harRecorder?: HarRecorder;
+  /** Collects console output and page errors of every page the run uses */
+  consoleCollector?: ConsoleCollector;
+}
+
+export async function runScreenshot(
+  args: CaptureScreenshotInput,
+  logger: Logger,
+  options: ScreenshotRunOptions = {},
+): Promise<CaptureScreenshotResult> {
   const telemetry = getGlobalTelemetry(logger);
   let retryAttempts = 0;
   
   // Convert legacy parameters to steps and merge with explicit steps
   const legacySteps = convertLegacyParametersToSteps(args, logger);
   const allSteps = [...legacySteps, ...(args.steps || [])];
+  // Steps run viewport and cookie steps first, so failures are reported by their position in args.steps
+  const callerPositions = new Map((args.steps ?? []).map((step, index) => [step, index + 1]));
   
   // If no screenshot step exists, add one at the end
   const hasScreenshotStep = allSteps.some(step => step.type === "screenshot");
@@ -590,36 +802,48 @@ async function runScreenshot(args: CaptureScreenshotInput, logger: Logger): Prom
     allSteps.push({ type: "screenshot" } as ScreenshotStep);
   }
   
-  // Prepare retry policy
-  const retryPolicy: Partial<RetryPolicy> = args.retryPolicy || {};
+  // Prepare retry policy. Session calls act on a live page, so replaying steps
+  // is only safe when the caller explicitly asks for retries.
+  const defaults = getCaptureDefaults();
+  const retryPolicy: Partial<RetryPolicy> = {
+    ...defaults.retryPolicy,
+    ...(args.retryPolicy || (args.sessionId ? { maxRetries: 0 } : {})),
+  };
   
-  const executeCapture = async (): Promise<CaptureScreenshotResult> => {
-    const browser = await puppeteer.launch({
-      headless: true,
-      args: ["--no-sandbox", "--disable-setuid-sandbox"],
-    });
-
+  const { tracer, harRecorder, consoleCollector } = options;
+  // Compiled once so a missing mock file fails the call before any navigation
+  const interceptor = args.network ? await NetworkInterceptor.create(args.network, logger) : undefined;
+
+  const captureOnPage = async (page: Page, inSession: boolean, device?: string): Promise<CaptureScreenshotResult> => {
+    // Multi-device runs replay the same steps with the device's viewport in place of any viewport step
+    const steps: ActionStep[] = device
+      ? [{ type: "viewport", preset: device } as ViewportStep, ...allSteps.filter(step => step.type !== "viewport")]
+      : allSteps;
+
+    const stopHar = harRecorder?.attach(page, device ? `${args.url} (${device})` : args.url);
+    const stopConsole = consoleCollector?.attach(page);
+    let interception: NetworkInterception | undefined;
     try {
-      await telemetry.emitTelemetry("browser.launched", { tool: "captureScreenshot" });
-      
-      const page = await browser.newPage();
-      
-      // Set default viewport (will be overridden by viewport steps if any)
-      await page.setViewport(DEFAULT_VIEWPORT as ViewportPreset);
+      // Set default viewport (will be overridden by viewport steps if any).
+      // Sessions keep whatever viewport they already have.
+      if (!inSession) {
+        await page.setViewport(defaults.viewport);
+      }
       
-      page.setDefaultNavigationTimeout(CAPTURE_TIMEOUT_MS);
+      page.setDefaultNavigationTimeout(defaults.timeouts.navigationMs);
 
       const normalizedHeaders = normalizeHeadersInput(args.headers);
       if (normalizedHeaders) {
         await page.setExtraHTTPHeaders(normalizedHeaders);
       }
+      interception = await interceptor?.attach(page);
 
       // Execute pre-navigation steps (viewport and cookies that need to be set before page load)
-      const preNavSteps = allSteps.filter(step => 
+      const preNavSteps = steps.filter(step => 
         step.type === "viewport" || 
         (step.type === "cookie" && (step as CookieActionStep).action === "set")
       );
-      const postNavSteps = allSteps.filter(step => 
+      const postNavSteps = steps.filter(step => 
         step.type !== "viewport" && 
         !(step.type === "cookie" && (step as CookieActionStep).action === "set")
       );
@@ -631,47 +855,62 @@ async function runScreenshot(args: CaptureScreenshotInput, logger: Logger): Prom
         fullPageEnabled: false, 
         viewportPreset: undefined 
       };
+      if (tracer) {
+        tracer.device = device;
+        tracer.phase = "before-navigation";
+      }
       if (preNavSteps.length > 0) {
-        preNavStepsResult = await executeSteps(page, preNavSteps, logger, true);
+        preNavStepsResult = await executeSteps(page, preNavSteps, logger, true, tracer);
       }
 
-      await telemetry.emitTelemetry("navigation.started", { 
-        url: args.url,
-      });
+      // A session that is already on the requested page keeps its current state,
+      // unless a device switch needs its user agent and viewport applied by a reload
+      if (inSession && !device && page.url() === args.url) {
+        logger.debug("navigation:session_reused", { url: args.url, sessionId: args.sessionId });
+      } else {
+        await telemetry.emitTelemetry("navigation.started", { 
+          url: args.url,
+        });
 
-      const response = await page.goto(args.url, {
-        // Use domcontentloaded to avoid hanging on long-lived connections (e.g., analytics beacons)
-        waitUntil: "domcontentloaded",
-        timeout: CAPTURE_TIMEOUT_MS,
-      });
+        const response = await page.goto(args.url, {
+          // Use domcontentloaded to avoid hanging on long-lived connections (e.g., analytics beacons)
+          waitUntil: "domcontentloaded",
+          timeout: defaults.timeouts.navigationMs,
+        });
 
-      // Best-effort short network idle wait (does not block completion if it times out)
-      await page.waitForNetworkIdle({ idleTime: 500, timeout: 5000 }).catch(() => {
-        logger?.debug("navigation:networkidle_skip", { reason: "timeout_or_busy" });
-      });
+        // Best-effort short network idle wait (does not block completion if it times out)
+        await page.waitForNetworkIdle({ idleTime: 500, timeout: 5000 }).catch(() => {
+          logger?.debug("navigation:networkidle_skip", { reason: "timeout_or_busy" });
+        });
 
-      if (!response || !response.ok()) {
-        const status = response?.status() ?? "unknown";
-        await telemetry.emitTelemetry("navigation.failed", { 
-          url: args.url, 
-          status,
+        if (!response || !response.ok()) {
+          const status = response?.status() ?? "unknown";
+          await telemetry.emitTelemetry("navigation.failed", { 
+            url: args.url, 
+            status,
+          });
+          throw new Error(`Navigation failed with status: ${status}`);
+        }
+
+        await telemetry.emitTelemetry("navigation.completed", { 
+          url: args.url,
+          status: response.status(),
         });
-        throw new Error(`Navigation failed with status: ${status}`);
       }
 
-      await telemetry.emitTelemetry("navigation.completed", { 
-        url: args.url,
-        status: response.status(),
-      });
-
       // Execute post-navigation steps
-      const stepsResult = await executeSteps(page, postNavSteps, logger);
+      if (tracer) {
+        tracer.phase = "after-navigation";
+      }
+      const stepsResult = await executeSteps(page, postNavSteps, logger, false, tracer);
       const screenshotBuffer = stepsResult.screenshotBuffer;
+      const imageFormat = stepsResult.screenshot?.format ?? "png";
+      const mimeType = IMAGE_MIME_TYPES[imageFormat];
       const totalStepsExecuted = (preNavStepsResult.stepsExecuted || 0) + stepsResult.stepsExecuted;
       
       logger.info("steps:executed", {
         url: args.url,
-        stepsRequested: allSteps.length,
+        stepsRequested: steps.length,
         stepsExecuted: totalStepsExecuted,
         screenshotsTaken: stepsResult.screenshotsTaken,
       });
@@ -679,6 +918,7 @@ async function runScreenshot(args: CaptureScreenshotInput, logger: Logger): Prom
       await telemetry.emitTelemetry("screenshot.captured", {
         url: args.url,
         bytes: screenshotBuffer.length,
+        format: imageFormat,
       })
 
       const metrics = await page.evaluate(() => ({
@@ -701,6 +941,10 @@ async function runScreenshot(args: CaptureScreenshotInput, logger: Logger): Prom
         };
       });
 
+      const elementRects = options.measureSelectors?.length
+        ? await measureElementRects(page, options.measureSelectors, stepsResult.fullPageEnabled, logger)
+        : undefined;
+
       // Get current viewport for metadata (may not be available in tests)
       const currentViewport = page.viewport ? page.viewport() : { width: 1280, height: 720 };
 
@@ -709,12 +953,13 @@ async function runScreenshot(args: CaptureScreenshotInput, logger: Logger): Prom
       if (args.storageTarget) {
         const storage = getStorageTarget(args.storageTarget) || getDefaultStorageTarget(logger);
         const storageResult = await storage.save(screenshotBuffer, {
-          mimeType: "image/png",
+          mimeType,
           timestamp: new Date().toISOString(),
           tags: {
             url: args.url,
             fullPage: String(stepsResult.fullPageEnabled),
             viewport: `${currentViewport?.width}x${currentViewport?.height}`,
+            ...(device ? { device } : {}),
           },
         });
         storageLocation = storageResult.location;
@@ -730,27 +975,100 @@ async function runScreenshot(args: CaptureScreenshotInput, logger: Logger): Prom
         scrollX: metrics.scrollX,
         scrollY: metrics.scrollY,
         bytes: screenshotBuffer.length,
+        format: imageFormat,
+        imageWidth: stepsResult.screenshot?.width,
+        imageHeight: stepsResult.screenshot?.height,
+        quality: stepsResult.screenshot?.quality,
+        scale: stepsResult.screenshot && stepsResult.screenshot.scale < 1 ? stepsResult.screenshot.scale : undefined,
+        budgetExceeded: stepsResult.screenshot?.budgetExceeded || undefined,
         capturedAt: new Date().toISOString(),
         viewportPreset: stepsResult.viewportPreset || preNavStepsResult.viewportPreset,
+        device,
         retryAttempts,
         storageLocation,
         clickActionsExecuted: undefined, // Deprecated
         stepsExecuted: totalStepsExecuted > 0 ? totalStepsExecuted : undefined,
+        networkRules: interception?.matchedRules(),
       };
 
       const imageBase64 = screenshotBuffer.toString("base64");
+      // Every executed step leaves exactly one result, so results and steps line up
+      const stepResults = [...(preNavStepsResult.stepResults ?? []), ...stepsResult.stepResults];
+      const executedSteps = [...preNavSteps, ...postNavSteps];
+      const failedIndex = stepResults.findIndex((step) => !step.success);
+      const lastSuccessful = executedSteps
+        .slice(0, Math.max(failedIndex, 0))
+        .reverse()
+        .find((step) => callerPositions.has(step));
 
       return {
         metadata,
         imageBase64,
-        mimeType: "image/png",
+        mimeType,
+        elementRects,
+        steps: stepResults,
+        failedStep: failedIndex === -1
+          ? undefined
+          : {
+              index: callerPositions.get(executedSteps[failedIndex]),
+              step: executedSteps[failedIndex],
+              error: stepResults[failedIndex].error ?? "Step failed",
+              stepsCompleted: failedIndex,
+              lastSuccessfulStep: lastSuccessful && callerPositions.get(lastSuccessful),
+              device,
+            },
       };
     } catch (error) {
       logger.error("captureScreenshot:puppeteerError", { error: (error as Error).message });
       throw error;
     } finally {
-      await telemetry.emitTelemetry("browser.closed", { tool: "captureScreenshot" });
-      await safeBrowserClose(browser, BROWSER_CLOSE_TIMEOUT_MS, logger);
+      await interception?.detach();
+      stopConsole?.();
+      await stopHar?.();
+    }
+  };
+
+  // One page serves every device in turn; the first device's capture doubles as the primary result
+  const captureDevices = async (page: Page, inSession: boolean, devices: string[]): Promise<CaptureScreenshotResult> => {
+    const captures: DeviceCaptureResult[] = [];
+    let primary: CaptureScreenshotResult | undefined;
+
+    let failedStep: FailedStep | undefined;
+
+    for (const device of devices) {
+      logger.debug("devices:capturing", { device, index: captures.length, total: devices.length });
+      const result = await captureOnPage(page, inSession, device);
+      primary ??= result;
+      failedStep ??= result.failedStep;
+      captures.push({
+        device,
+        metadata: result.metadata,
+        imageBase64: result.imageBase64,
+        mimeType: result.mimeType,
+      });
+    }
+
+    return { ...primary!, failedStep, deviceCaptures: captures };
+  };
+
+  const devices = args.devices?.length ? args.devices : undefined;
+  const captureWith = (page: Page, inSession: boolean) =>
+    devices ? captureDevices(page, inSession, devices) : captureOnPage(page, inSession);
+
+  const executeCapture = async (): Promise<CaptureScreenshotResult> => {
+    if (tracer) {
+      tracer.attempt++;
+    }
+    if (args.sessionId) {
+      return getSessionManager(logger).use(args.sessionId, (page) => captureWith(page, true));
+    }
+
+    // Lease an isolated context from the shared pool instead of launching a browser
+    const lease = await getBrowserPool(logger).acquire("captureScreenshot");
+    try {
+      return await captureWith(lease.page, false);
+    } finally {
+      await lease.release();
     }
   };
   
@@ -765,11 +1083,91 @@ async function runScreenshot(args: CaptureScreenshotInput, logger: Logger): Prom
     return result;
   });
 
-  return withTimeout(retryPromise, MASTER_TIMEOUT_MS, "captureScreenshot");
+  // Each device is a full navigation, so the budget scales with the device count
+  const result = await withTimeout(retryPromise, defaults.timeouts.totalMs * (devices?.length ?? 1), "captureScreenshot");
+
+  if (args.composite && result.deviceCaptures) {
+    result.composite = buildComposite(result.deviceCaptures, logger);
+  }
+
+  return result;
+}
+
+/**
+ * Lays the device captures side by side in one PNG. A composite that can't be
+ * built (undecodable image, too many pixels) is skipped rather than failing the capture.
+ */
+function buildComposite(captures: DeviceCaptureResult[], logger: Logger): CompositeImage | undefined {
+  if (captures.some((capture) => capture.mimeType !== "image/png")) {
+    logger.warn("devices:composite_skipped", { reason: "non_png_format" });
+    return undefined;
+  }
+
+  try {
+    const images = captures.map((capture) => decodePng(Buffer.from(capture.imageBase64, "base64")));
+    const totalPixels = images.reduce((total, image) => total + image.width * image.height, 0);
+    if (totalPixels > MAX_COMPOSITE_PIXELS) {
+      logger.warn("devices:composite_skipped", { reason: "too_large", totalPixels });
+      return undefined;
+    }
+
+    const { image, offsets } = composeSideBySide(images);
+    return {
+      imageBase64: encodePng(image).toString("base64"),
+      mimeType: "image/png",
+      width: image.width,
+      height: image.height,
+      devices: captures.map((capture, index) => ({ device: capture.device, x: offsets[index] })),
+    };
+  } catch (error) {
+    logger.warn("devices:composite_skipped", { reason: (error as Error).message });
+    return undefined;
+  }
+}
+
+/**
+ * Measures every element matching each selector in screenshot pixel space:
+ * document coordinates for full-page captures, viewport coordinates otherwise,
+ * scaled by the device pixel ratio.
+ */
+async function measureElementRects(
+  page: Page,
+  selectors: string[],
+  fullPage: boolean,
+  logger?: Logger,
+): Promise<Record<string, ElementRect[]>> {
+  const measured = await page.evaluate((selectorList: string[], useDocumentCoords: boolean) => {
+    const scale = window.devicePixelRatio || 1;
+    const offsetX = useDocumentCoords ? window.scrollX : 0;
+    const offsetY = useDocumentCoords ? window.scrollY : 0;
+    const result: Record<string, Array<{ x: number; y: number; width: number; height: number }>> = {};
+
+    for (const selector of selectorList) {
+      try {
+        result[selector] = Array.from(document.querySelectorAll(selector)).map((element) => {
+          const rect = element.getBoundingClientRect();
+          return {
+            x: (rect.left + offsetX) * scale,
+            y: (rect.top + offsetY) * scale,
+            width: rect.width * scale,
+            height: rect.height * scale,
+          };
+        });
+      } catch {
+        result[selector] = [];
+      }
+    }
+    return result;
+  }, selectors, fullPage).catch((error) => {
+    logger?.warn("measure:element_rects_failed", { error: (error as Error).message });
+    return undefined;
+  });
+
+  return Object.fromEntries(selectors.map((selector) => [selector, measured?.[selector] ?? []]));
 }
 
 function resolveViewport(config?: ViewportConfig, logger?: Logger): ViewportPreset {
-  let viewport: ViewportPreset = DEFAULT_VIEWPORT as ViewportPreset;
+  let viewport: ViewportPreset = getCaptureDefaults().viewport;
   
   // Support both 'device' (LLM canonical) and 'preset' (legacy) parameters
   const deviceName = (config as any)?.device || config?.preset;
@@ -800,7 +1198,7 @@ function resolveViewport(config?: ViewportConfig, logger?: Logger): ViewportPres
 }
 
 async function executeScroll(
-  page: Awaited<ReturnType<typeof puppeteer.launch>>['newPage'] extends () => Promise<infer P> ? P : never,
+  page: Page,
   scroll: ScrollConfig,
   logger?: Logger
 ): Promise<{ x: number; y: number }> {
@@ -867,7 +1265,7 @@ async function executeScroll(
 }
 
 async function executeClickActions(
-  page: Awaited<ReturnType<typeof puppeteer.launch>>['newPage'] extends () => Promise<infer P> ? P : never,
+  page: Page,
   clickActions: ClickAction[],
   logger?: Logger
 ): Promise<number> {
@@ -954,6 +1352,10 @@ async function executeClickActions(
 
 interface StepsExecutionResult {
   screenshotBuffer: Buffer;
+  /** Format, quality and size details of the final screenshot */
+  screenshot?: CapturedScreenshot;
+  /** Outcome of each step, in execution order */
+  stepResults: StepExecutionInfo[];
   stepsExecuted: number;
   screenshotsTaken: number;
   fullPageEnabled: boolean;
@@ -961,19 +1363,23 @@ interface StepsExecutionResult {
 }
 
 async function executeSteps(
-  page: Awaited<ReturnType<typeof puppeteer.launch>>['newPage'] extends () => Promise<infer P> ? P : never,
+  page: Page,
   steps: ActionStep[],
   logger?: Logger,
-  skipScreenshot: boolean = false
+  skipScreenshot: boolean = false,
+  tracer?: StepTracer
 ): Promise<StepsExecutionResult> {
   let stepsExecuted = 0;
   let screenshotsTaken = 0;
-  let screenshotBuffer: Buffer | null = null;
+  let screenshot: CapturedScreenshot | null = null;
   let fullPageEnabled = false;
+  const stepResults: StepExecutionInfo[] = [];
   let viewportPreset: string | undefined;
 
   for (let i = 0; i < steps.length; i++) {
     const step = steps[i];
+    const target = describeStepTarget(step);
+    const stepStartedAt = Date.now();
     logger?.debug("step:executing", { index: i, type: step.type });
 
     try {
@@ -988,17 +1394,7 @@ async function executeSteps(
           });
 
           const viewport = resolveViewport(viewportStep, logger);
-          await page.setViewport(viewport);
-          
-          if (viewport.userAgent) {
-            await page.setUserAgent(viewport.userAgent);
-          }
-          
-          if (viewport.hasTouch) {
-            await page.evaluateOnNewDocument(() => {
-              (window as any).ontouchstart = true;
-            });
-          }
+          await applyViewport(page, viewport);
           
           viewportPreset = viewportStep.preset;
           stepsExecuted++;
@@ -1192,25 +1588,34 @@ async function executeSteps(
           // Get element selector (handle both 'element' and 'captureElement')
           const elementSelector = screenshotStep.element || screenshotStep.captureElement;
           
-          logger?.debug("step:screenshot", { index: i, fullPage: useFullPage, element: elementSelector });
+          logger?.debug("step:screenshot", {
+            index: i,
+            fullPage: useFullPage,
+            element: elementSelector,
+            format: screenshotStep.format,
+            quality: screenshotStep.quality,
+            maxBytes: screenshotStep.maxBytes,
+          });
           
           // Wrap screenshot in timeout to prevent indefinite hangs
-          const takeScreenshot = async (): Promise<Buffer> => {
+          const takeScreenshot = async (): Promise<CapturedScreenshot> => {
+            let element: ElementHandle | undefined;
             if (elementSelector) {
-              const element = await page.$(elementSelector);
-              if (element) {
-                return (await element.screenshot({ type: "png" })) as Buffer;
-              } else {
+              element = (await page.$(elementSelector)) ?? undefined;
+              if (!element) {
                 logger?.warn("step:screenshot:element_not_found", { index: i, element: elementSelector });
               }
             }
-            return (await page.screenshot({
-              type: "png",
+            return captureScreenshotWithinBudget(page, {
+              format: screenshotStep.format,
+              quality: screenshotStep.quality,
+              maxBytes: screenshotStep.maxBytes,
               fullPage: useFullPage,
-            })) as Buffer;
+              element,
+            }, logger);
           };
           
-          screenshotBuffer = await withTimeout(takeScreenshot(), SCREENSHOT_TIMEOUT_MS, "screenshot");
+          screenshot = await withTimeout(takeScreenshot(), getCaptureDefaults().timeouts.screenshotMs, "screenshot");
           screenshotsTaken++;
           stepsExecuted++;
           break;
@@ -1772,43 +2177,156 @@ async function executeSteps(
 
         default:
           logger?.warn("step:unsupported", { index: i, type: (step as any).type });
-          break;
+          stepResults.push({ type: (step as any).type, target, success: false, error: "Unsupported step type" });
+          continue;
       }
+      stepResults.push({ type: step.type, target, success: true });
     } catch (error) {
       logger?.warn("step:failed", {
         index: i,
         type: step.type,
         error: (error as Error).message,
       });
+      stepResults.push({ type: step.type, target, success: false, error: (error as Error).message });
       // Continue with remaining steps even if one fails
+    } finally {
+      if (tracer) {
+        await tracer.record(page, { ...stepResults[stepResults.length - 1], index: i, startedAt: stepStartedAt });
+      }
     }
   }
 
   // If no screenshot step was executed and we're not skipping, take one at the end
-  if (!screenshotBuffer && !skipScreenshot) {
+  if (!screenshot && !skipScreenshot) {
     logger?.debug("step:auto_screenshot", { reason: "no screenshot step found" });
-    screenshotBuffer = await withTimeout(
-      page.screenshot({ type: "png", fullPage: fullPageEnabled }) as Promise<Buffer>,
-      SCREENSHOT_TIMEOUT_MS,
+    screenshot = await withTimeout(
+      captureScreenshotWithinBudget(page, { fullPage: fullPageEnabled }, logger),
+      getCaptureDefaults().timeouts.screenshotMs,
       "auto_screenshot"
     );
     screenshotsTaken++;
   }
 
-  // Provide a default buffer if needed (shouldn't happen in normal flow)
-  if (!screenshotBuffer && !skipScreenshot) {
-    screenshotBuffer = Buffer.from([]);
-  }
-
   return {
-    screenshotBuffer: screenshotBuffer || Buffer.from([]),
+    screenshotBuffer: screenshot?.buffer || Buffer.from([]),
+    screenshot: screenshot ?? undefined,
     stepsExecuted,
+    stepResults,
     screenshotsTaken,
     fullPageEnabled,
     viewportPreset,
   };
 }
 
+function formatTrace(trace: ResponseTrace, location?: string): string {
+  const lines = [`TRACE (${trace.steps.length} steps, ${trace.durationMs ?? 0}ms):`];
+  for (const step of trace.steps) {
+    const status = step.outcome === "success" ? "✓" : "✗";
+    const target = step.target ? ` ${step.target}` : "";
+    const context = [step.device, step.attempt > 1 ? `attempt ${step.attempt}` : undefined].filter(Boolean).join(", ");
+    const thumbnail = step.thumbnail?.contentIndex !== undefined ? ` [thumbnail: image ${step.thumbnail.contentIndex}]` : "";
+    lines.push(`  ${status} ${step.type}${target} ${step.durationMs}ms${context ? ` (${context})` : ""}${thumbnail}`);
+    if (step.error) {
+      lines.push(`     Error: ${step.error}`);
+    }
+  }
+  if (location) {
+    lines.push(`Trace saved at: ${location}`);
+  }
+  return lines.join("\n");
+}
+
+/** Structured counterpart of the text summary, without image data */
+function buildStructuredResult(result: CaptureScreenshotResult, warnings: string[]): CaptureScreenshotOutput {
+  return {
+    success: true,
+    metadata: result.metadata,
+    devices: result.deviceCaptures?.map(({ device, metadata }) => ({ device, metadata })),
+    composite: result.composite && {
+      width: result.composite.width,
+      height: result.composite.height,
+      devices: result.composite.devices,
+    },
+    steps: result.steps,
+    warnings,
+  };
+}
+
+/**
+ * The error a capture with a failed step is reported with, built from that
+ * step: its position in the caller's steps, type, target and the step itself
+ * for corrected steps.
+ */
+export function classifyStepFailure(
+  result: CaptureScreenshotResult,
+  context: { url: string; executionTimeMs: number },
+): LLMErrorResponse | undefined {
+  const failed = result.failedStep;
+  if (!failed) {
+    return undefined;
+  }
+  return classifyStepError({
+    message: failed.device ? `${failed.error} (${failed.device})` : failed.error,
+    step: failed.index,
+    stepType: failed.step.type,
+    target: describeStepTarget(failed.step),
+    url: context.url,
+    stepsTotal: result.steps?.length ?? failed.stepsCompleted + 1,
+    stepsCompleted: failed.stepsCompleted,
+    lastSuccessfulStep: failed.lastSuccessfulStep,
+    executionTimeMs: context.executionTimeMs,
+    originalParams: failed.step,
+  });
+}
+
+/** Failed steps and unmet byte budgets, which don't fail the capture */
+function collectResultWarnings(result: CaptureScreenshotResult): string[] {
+  const warnings = (result.steps ?? []).flatMap((step, index) =>
+    step.success
+      ? []
+      : [`Step ${index + 1} (${step.type}${step.target ? ` ${step.target}` : ""}) failed: ${step.error}`],
+  );
+  const captures = result.deviceCaptures ?? [result];
+  for (const capture of captures) {
+    if (capture.metadata.budgetExceeded) {
+      const device = capture.metadata.device ? ` (${capture.metadata.device})` : "";
+      warnings.push(`Screenshot${device} is larger than maxBytes: ${capture.metadata.bytes} bytes`);
+    }
+  }
+  return warnings;
+}
+
+/** Selector or element a step acts on, for step reports */
+function describeStepTarget(step: ActionStep): string | undefined {
+  const fields = step as unknown as Record<string, unknown>;
+  for (const key of STEP_TARGET_KEYS) {
+    if (typeof fields[key] === "string") {
+      return fields[key] as string;
+    }
+  }
+  return undefined;
+}
+
+function formatDeviceCaptures(result: CaptureScreenshotResult): string {
+  const captures = result.deviceCaptures ?? [];
+  const sections = captures.map((capture, index) =>
+    [`[Image ${index + 1}] Device: ${capture.device}`, formatMetadata(capture.metadata)].join("\n"),
+  );
+
+  const lines = [
+    `mcp-page-capture multi-device capture (${captures.length} devices: ${captures.map((capture) => capture.device).join(", ")})`,
+    "",
+    sections.join("\n\n"),
+  ];
+
+  if (result.composite) {
+    const layout = result.composite.devices.map((entry) => `${entry.device}@x=${entry.x}`).join(", ");
+    lines.push("", `[Image ${captures.length + 1}] Composite: ${result.composite.width}x${result.composite.height} (${layout})`);
+  }
+
+  return lines.join("\n");
+}
+
 function formatMetadata(metadata: ScreenshotMetadata): string {
   const lines = [
     "mcp-page-capture screenshot",
@@ -1820,6 +2338,20 @@ function formatMetadata(metadata: ScreenshotMetadata): string {
     `Scroll position: (${metadata.scrollX}, ${metadata.scrollY})`,
     `Size: ${(metadata.bytes / 1024).toFixed(1)} KB`,
   ];
+
+  if (metadata.format) {
+    const dimensions = metadata.imageWidth && metadata.imageHeight ? ` ${metadata.imageWidth}x${metadata.imageHeight}` : "";
+    const quality = metadata.quality !== undefined ? `, quality ${metadata.quality}` : "";
+    lines.push(`Image: ${metadata.format}${dimensions}${quality}`);
+  }
+
+  if (metadata.scale !== undefined) {
+    lines.push(`Downscaled to ${Math.round(metadata.scale * 100)}% to fit the byte budget`);
+  }
+
+  if (metadata.budgetExceeded) {
+    lines.push("Warning: screenshot is still larger than maxBytes at the lowest quality and scale");
+  }
   
   if (metadata.viewportPreset) {
     lines.push(`Viewport preset: ${metadata.viewportPreset}`);
@@ -1840,6 +2372,10 @@ function formatMetadata(metadata: ScreenshotMetadata): string {
   if (metadata.stepsExecuted && metadata.stepsExecuted > 0) {
     lines.push(`Steps executed: ${metadata.stepsExecuted}`);
   }
+
+  if (metadata.networkRules?.length) {
+    lines.push(formatNetworkRuleMatches(metadata.networkRules));
+  }
   
   return lines.join("\n");
 }
@@ -0,0 +1,254 @@
+import { z } from "zod";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import type { Logger } from "../logger.js";
+import { normalizeUrl } from "../utils/url.js";
+import {
+  getDefaultStorageTarget,
+  getStorageTarget,
+  isTextMimeType,
+  mimeTypeFromKey,
+  statCapture,
+  StorageError,
+  type StorageErrorCode,
+  type StorageListItem,
+  type StorageTarget,
+} from "../storage/index.js";
+import { queryCaptures } from "../storage/catalog.js";
+import { captureUri } from "../resources/captures.js";
+
+import {
+  LIST_CAPTURES_DESCRIPTION,
+  GET_CAPTURE_DESCRIPTION,
+  DELETE_CAPTURE_DESCRIPTION,
+} from "../schemas/index.js";
+
+const storageTargetSchema = z.string().min(1).optional()
+  .describe("(optional) Storage target name. Default: the default target");
+
+const captureKeySchema = z.string().min(1, "Key cannot be empty.")
+  .describe("(required) Key from listCaptures");
+
+const listCapturesInputSchema = z.object({
+  storageTarget: storageTargetSchema,
+  url: z
+    .string()
+    .min(1, "URL cannot be empty.")
+    .optional()
+    .describe("(optional) Only captures of this page")
+    .transform((value: string | undefined, ctx: z.RefinementCtx) => {
+      if (value === undefined) {
+        return undefined;
+      }
+      try {
+        return normalizeUrl(value);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: (error as Error).message,
+        });
+        return z.NEVER;
+      }
+    }),
+  tags: z.record(z.string(), z.string()).optional()
+    .describe('(optional) Exact tag matches, e.g. { "fullPage": "true" }'),
+  since: z.string().datetime({ offset: true }).optional()
+    .describe("(optional) Captured at or after this time (ISO 8601)"),
+  until: z.string().datetime({ offset: true }).optional()
+    .describe("(optional) Captured at or before this time (ISO 8601)"),
+  mimeType: z.string().min(1).optional()
+    .describe('(optional) Content type, e.g. "image/png" or "image/*"'),
+  limit: z.number().int().min(1).max(500).optional()
+    .describe("(optional) Max results (1-500). Default: 50"),
+});
+
+const captureKeyInputSchema = z.object({
+  key: captureKeySchema,
+  storageTarget: storageTargetSchema,
+});
+
+export function registerCaptureCatalogTools(server: McpServer, logger: Logger) {
+  server.registerTool(
+    "listCaptures",
+    {
+      title: "List Stored Captures",
+      description: LIST_CAPTURES_DESCRIPTION,
+      inputSchema: listCapturesInputSchema,
+    },
+    async (rawInput) => {
+      const input = listCapturesInputSchema.parse(rawInput);
+      const targetName = input.storageTarget ?? "default";
+
+      try {
+        const { items, total } = await queryCaptures(resolveCatalogStorage(input.storageTarget, logger), {
+          tags: input.url ? { ...input.tags, url: input.url } : input.tags,
+          since: input.since,
+          until: input.until,
+          mimeType: input.mimeType,
+          limit: input.limit,
+        });
+
+        logger.info("listCaptures:completed", { storageTarget: targetName, matched: total });
+
+        const text = total === 0
+          ? `No captures in "${targetName}" match.`
+          : [
+              `Captures in "${targetName}": ${total}${items.length < total ? ` (showing the newest ${items.length})` : ""}`,
+              ...items.map((item) => `\n${formatCaptureItem(item)}`),
+            ].join("\n");
+
+        return {
+          content: [
+            {
+              type: "text",
+              text,
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error("listCaptures:failed", { storageTarget: targetName, reason: (error as Error).message });
+        throw new McpError(ErrorCode.InvalidParams, "listCaptures failed", {
+          storageTarget: targetName,
+          detail: (error as Error).message,
+          ...storageErrorCode(error),
+        });
+      }
+    },
+  );
+
+  server.registerTool(
+    "getCapture",
+    {
+      title: "Get Stored Capture",
+      description: GET_CAPTURE_DESCRIPTION,
+      inputSchema: captureKeyInputSchema,
+    },
+    async (rawInput) => {
+      const { key, storageTarget } = captureKeyInputSchema.parse(rawInput);
+      const targetName = storageTarget ?? "default";
+
+      let item: StorageListItem;
+      let data: Buffer;
+      try {
+        const storage = resolveCatalogStorage(storageTarget, logger);
+        if (!storage.retrieve) {
+          throw new Error(`Storage target "${targetName}" does not support retrieving captures`);
+        }
+        const stored = await storage.retrieve(key);
+        if (stored === null) {
+          throw new StorageError(`Capture "${key}" not found in storage target "${targetName}"`, "STORAGE_NOT_FOUND");
+        }
+        data = typeof stored === "string" ? Buffer.from(stored) : stored;
+        item = (storage.stat || storage.list ? await statCapture(storage, key) : null)
+          ?? { key, size: data.length, modified: "unknown" };
+      } catch (error) {
+        logger.error("getCapture:failed", { key, storageTarget: targetName, reason: (error as Error).message });
+        throw new McpError(ErrorCode.InvalidParams, "getCapture failed", {
+          key,
+          storageTarget: targetName,
+          detail: (error as Error).message,
+          ...storageErrorCode(error),
+        });
+      }
+
+      const mimeType = item.mimeType ?? mimeTypeFromKey(key) ?? "application/octet-stream";
+      logger.info("getCapture:completed", { key, storageTarget: targetName, size: data.length });
+
+      const summary = {
+        type: "text" as const,
+        text: `mcp-page-capture stored capture\n${formatCaptureItem({ ...item, mimeType })}`,
+      };
+
+      if (mimeType.startsWith("image/")) {
+        return { content: [summary, { type: "image", mimeType, data: data.toString("base64") }] };
+      }
+      if (isTextMimeType(mimeType)) {
+        return { content: [summary, { type: "text", text: data.toString("utf8") }] };
+      }
+      return {
+        content: [
+          summary,
+          { type: "text", text: `Binary content (${mimeType}) is not shown; read ${captureUri(targetName, key)} instead.` },
+        ],
+      };
+    },
+  );
+
+  server.registerTool(
+    "deleteCapture",
+    {
+      title: "Delete Stored Capture",
+      description: DELETE_CAPTURE_DESCRIPTION,
+      inputSchema: captureKeyInputSchema,
+    },
+    async (rawInput) => {
+      const { key, storageTarget } = captureKeyInputSchema.parse(rawInput);
+      const targetName = storageTarget ?? "default";
+
+      let deleted: boolean;
+      try {
+        const storage = resolveCatalogStorage(storageTarget, logger);
+        if (!storage.delete) {
+          throw new Error(`Storage target "${targetName}" does not support deleting captures`);
+        }
+        deleted = await storage.delete(key);
+      } catch (error) {
+        logger.error("deleteCapture:failed", { key, storageTarget: targetName, reason: (error as Error).message });
+        throw new McpError(ErrorCode.InvalidParams, "deleteCapture failed", {
+          key,
+          storageTarget: targetName,
+          detail: (error as Error).message,
+          ...storageErrorCode(error),
+        });
+      }
+
+      logger.info("deleteCapture:completed", { key, storageTarget: targetName, deleted });
+
+      if (!deleted) {
+        throw new McpError(ErrorCode.InvalidParams, "deleteCapture failed", {
+          key,
+          storageTarget: targetName,
+          detail: `Capture "${key}" not found in storage target "${targetName}".`,
+          code: "STORAGE_NOT_FOUND",
+        });
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Capture "${key}" deleted from "${targetName}".`,
+          },
+        ],
+      };
+    },
+  );
+}
+
+function resolveCatalogStorage(name: string | undefined, logger: Logger): StorageTarget {
+  if (!name) {
+    return getDefaultStorageTarget(logger);
+  }
+  const target = getStorageTarget(name);
+  if (!target) {
+    throw new Error(`Unknown storage target "${name}"`);
+  }
+  return target;
+}
+
+/** Lets clients tell a bad key (STORAGE_FORBIDDEN) from a missing capture or a disk failure */
+function storageErrorCode(error: unknown): { code?: StorageErrorCode } {
+  return error instanceof StorageError ? { code: error.code } : {};
+}
+
+function formatCaptureItem(item: StorageListItem): string {
+  const tags = Object.entries(item.metadata ?? {}).map(([name, value]) => `${name}=${value}`);
+  return [
+    `Key: ${item.key}`,
+    `Type: ${item.mimeType ?? mimeTypeFromKey(item.key) ?? "unknown"}`,
+    `Size: ${item.size} bytes`,
+    `Captured: ${item.modified}`,
+    ...(tags.length > 0 ? [`Tags: ${tags.join(", ")}`] : []),
+  ].join("\n");
+}
@@ -0,0 +1,331 @@
+import { z } from "zod";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import type { Logger } from "../logger.js";
+import type { ActionStep, ElementRect } from "../types/screenshot.js";
+import type { CompareScreenshotsInput, CompareScreenshotsResult } from "../types/compare.js";
+import { normalizeUrl } from "../utils/url.js";
+import { getGlobalTelemetry } from "../telemetry/index.js";
+import { getStorageTarget, getDefaultStorageTarget, type StorageTarget } from "../storage/index.js";
+import { getSessionManager } from "../browser/sessions.js";
+import { decodePng, encodePng } from "../image/png.js";
+import { diffImages, DEFAULT_COLOR_THRESHOLD } from "../image/diff.js";
+import { runScreenshot } from "./captureScreenshot.js";
+
+import {
+  llmStepSchema,
+  headersSchema,
+  sessionIdSchema,
+  COMPARE_SCREENSHOTS_DESCRIPTION,
+} from "../schemas/index.js";
+
+const DEFAULT_MISMATCH_THRESHOLD = 0.1;
+const MAX_REPORTED_REGIONS = 10;
+
+const ignoreRegionSchema = z.union([
+  z.object({
+    selector: z.string().min(1).describe("CSS selector; every matching element is ignored"),
+  }),
+  z.object({
+    x: z.number().min(0),
+    y: z.number().min(0),
+    width: z.number().positive(),
+    height: z.number().positive(),
+  }).describe("Rectangle in screenshot pixels"),
+]);
+
+const compareScreenshotsInputSchema = z.object({
+  url: z
+    .string()
+    .min(1, "URL cannot be empty.")
+    .transform((value: string, ctx: z.RefinementCtx) => {
+      try {
+        return normalizeUrl(value);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: (error as Error).message,
+        });
+        return z.NEVER;
+      }
+    })
+    .optional()
+    .describe("The webpage URL to capture. Required unless sessionId is given."),
+  sessionId: sessionIdSchema.optional(),
+  steps: z.array(llmStepSchema).optional()
+    .describe("(optional) Steps to execute before capture, same as captureScreenshot"),
+  headers: headersSchema,
+  baselineKey: z.string().min(1, "Baseline key cannot be empty.")
+    .describe("(required) Storage key of the baseline PNG"),
+  storageTarget: z.string().optional()
+    .describe("(optional) Storage target holding the baseline. Default: the default target"),
+  threshold: z.number().min(0).max(100).optional()
+    .describe("(optional) Maximum mismatch percentage that still passes. Default: 0.1"),
+  colorThreshold: z.number().min(0).max(1).optional()
+    .describe("(optional) Per-pixel colour sensitivity, 0 (exact) to 1 (lenient). Default: 0.1"),
+  includeAntialiasing: z.boolean().optional()
+    .describe("(optional) Count anti-aliased pixels as differences. Default: false"),
+  ignoreRegions: z.array(ignoreRegionSchema).max(50).optional()
+    .describe("(optional) Areas to skip: { selector } or { x, y, width, height }"),
+  updateBaseline: z.boolean().optional()
+    .describe("(optional) Save this capture as the new baseline (creates it if missing)"),
+});
+
+export function registerCompareScreenshotsTool(server: McpServer, logger: Logger) {
+  server.registerTool(
+    "compareScreenshots",
+    {
+      title: "Compare Screenshots",
+      description: COMPARE_SCREENSHOTS_DESCRIPTION,
+      inputSchema: compareScreenshotsInputSchema,
+    },
+    async (rawInput) => {
+      const input = compareScreenshotsInputSchema.parse(rawInput);
+      const { sessionId, baselineKey } = input;
+      const telemetry = getGlobalTelemetry(logger);
+
+      const url = input.url ?? (sessionId ? getSessionManager(logger).get(sessionId)?.url : undefined);
+      if (!url) {
+        throw new McpError(ErrorCode.InvalidParams, "compareScreenshots failed", {
+          sessionId,
+          detail: sessionId
+            ? `Session "${sessionId}" not found. It may have expired; open a new one with openSession.`
+            : "URL is required.",
+        });
+      }
+
+      logger.info("compareScreenshots:requested", {
+        url,
+        baselineKey,
+        storageTarget: input.storageTarget,
+        sessionId,
+        ignoreRegions: input.ignoreRegions?.length ?? 0,
+      });
+
+      await telemetry.emitTelemetry("tool.invoked", {
+        tool: "compareScreenshots",
+        url,
+        baselineKey,
+      });
+
+      try {
+        const result = await compareScreenshots(
+          { ...input, url, steps: input.steps as ActionStep[] | undefined },
+          logger,
+        );
+
+        await telemetry.emitTelemetry("tool.completed", {
+          tool: "compareScreenshots",
+          url,
+          passed: result.passed,
+          mismatchPercentage: result.mismatchPercentage,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatComparison(result),
+            },
+            {
+              type: "image",
+              mimeType: "image/png",
+              data: result.diffImageBase64 ?? result.currentImageBase64,
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error("compareScreenshots:failed", {
+          url,
+          baselineKey,
+          reason: (error as Error).message,
+        });
+
+        await telemetry.emitTelemetry("tool.failed", {
+          tool: "compareScreenshots",
+          url,
+          error: (error as Error).message,
+        });
+
+        throw new McpError(ErrorCode.InvalidParams, "compareScreenshots failed", {
+          url,
+          baselineKey,
+          detail: (error as Error).message,
+        });
+      }
+    },
+  );
+}
+
+/**
+ * Captures the page and diffs it against a stored baseline PNG.
+ * A mismatch above the threshold is reported as passed: false, not thrown.
+ */
+export async function compareScreenshots(
+  args: CompareScreenshotsInput & { url: string },
+  logger: Logger,
+): Promise<CompareScreenshotsResult> {
+  const storage = resolveBaselineStorage(args.storageTarget, logger);
+  if (!storage.retrieve) {
+    throw new Error(`Storage target "${args.storageTarget ?? "default"}" does not support retrieving baselines`);
+  }
+
+  const stored = await storage.retrieve(args.baselineKey);
+  if (stored === null && !args.updateBaseline) {
+    throw new Error(
+      `Baseline "${args.baselineKey}" not found in storage target "${args.storageTarget ?? "default"}". Pass updateBaseline: true to create it from this capture.`,
+    );
+  }
+  const baselinePng = stored === null ? null : typeof stored === "string" ? Buffer.from(stored, "base64") : stored;
+  const baseline = baselinePng ? decodePng(baselinePng) : null;
+
+  const ignoreRegions = args.ignoreRegions ?? [];
+  const selectors = ignoreRegions.flatMap((region) => ("selector" in region ? [region.selector] : []));
+  const capture = await runScreenshot(
+    {
+      url: args.url,
+      sessionId: args.sessionId,
+      steps: args.steps,
+      headers: args.headers,
+    },
+    logger,
+    { measureSelectors: selectors },
+  );
+
+  if (capture.mimeType !== "image/png") {
+    throw new Error(
+      `compareScreenshots needs PNG captures, but the screenshot step produced ${capture.mimeType}. Remove format/maxBytes from the screenshot step.`,
+    );
+  }
+
+  const currentPng = Buffer.from(capture.imageBase64, "base64");
+  const current = decodePng(currentPng);
+
+  const rects: ElementRect[] = ignoreRegions.flatMap((region) => ("selector" in region ? [] : [region]));
+  const unmatchedSelectors: string[] = [];
+  for (const selector of selectors) {
+    const matched = capture.elementRects?.[selector] ?? [];
+    if (matched.length === 0) {
+      unmatchedSelectors.push(selector);
+    }
+    rects.push(...matched);
+  }
+  if (unmatchedSelectors.length > 0) {
+    logger.warn("compareScreenshots:ignore_selector_unmatched", { selectors: unmatchedSelectors });
+  }
+
+  const threshold = args.threshold ?? DEFAULT_MISMATCH_THRESHOLD;
+  const diff = baseline
+    ? diffImages(baseline, current, {
+        colorThreshold: args.colorThreshold ?? DEFAULT_COLOR_THRESHOLD,
+        includeAntialiasing: args.includeAntialiasing,
+        ignoreRegions: rects,
+      })
+    : null;
+
+  let baselineUpdated = false;
+  if (args.updateBaseline) {
+    await storage.save(currentPng, {
+      filename: args.baselineKey,
+      mimeType: "image/png",
+      timestamp: new Date().toISOString(),
+      tags: {
+        url: args.url,
+        role: "baseline",
+      },
+    });
+    baselineUpdated = true;
+    logger.info("compareScreenshots:baseline_updated", { baselineKey: args.baselineKey, created: !baseline });
+  }
+
+  const result: CompareScreenshotsResult = {
+    url: args.url,
+    baselineKey: args.baselineKey,
+    compared: diff !== null,
+    passed: diff ? diff.mismatchPercentage <= threshold : true,
+    threshold,
+    mismatchPercentage: diff?.mismatchPercentage ?? 0,
+    diffPixels: diff?.diffPixels ?? 0,
+    comparedPixels: diff?.comparedPixels ?? 0,
+    antialiasedPixels: diff?.antialiasedPixels ?? 0,
+    ignoredPixels: diff?.ignoredPixels ?? 0,
+    dimensionsMatch: diff?.dimensionsMatch ?? true,
+    baselineSize: baseline ? { width: baseline.width, height: baseline.height } : null,
+    currentSize: { width: current.width, height: current.height },
+    regions: diff?.regions ?? [],
+    unmatchedSelectors,
+    baselineUpdated,
+    capturedAt: capture.metadata.capturedAt,
+    diffImageBase64: diff ? encodePng(diff.diffImage).toString("base64") : undefined,
+    currentImageBase64: capture.imageBase64,
+  };
+
+  await getGlobalTelemetry(logger).emitTelemetry("screenshot.compared", {
+    url: args.url,
+    baselineKey: args.baselineKey,
+    compared: result.compared,
+    passed: result.passed,
+    mismatchPercentage: result.mismatchPercentage,
+    regions: result.regions.length,
+  });
+
+  return result;
+}
+
+function resolveBaselineStorage(name: string | undefined, logger: Logger): StorageTarget {
+  if (!name) {
+    return getDefaultStorageTarget(logger);
+  }
+  const target = getStorageTarget(name);
+  if (!target) {
+    throw new Error(`Unknown storage target "${name}"`);
+  }
+  return target;
+}
+
+function formatComparison(result: CompareScreenshotsResult): string {
+  if (!result.compared) {
+    return [
+      "mcp-page-capture visual comparison",
+      `URL: ${result.url}`,
+      `Baseline: ${result.baselineKey} (created from this capture)`,
+      `Size: ${result.currentSize.width}x${result.currentSize.height}`,
+      `Captured: ${result.capturedAt}`,
+    ].join("\n");
+  }
+
+  const lines = [
+    "mcp-page-capture visual comparison",
+    `Result: ${result.passed ? "PASS" : "FAIL"}`,
+    `URL: ${result.url}`,
+    `Baseline: ${result.baselineKey}${result.baselineUpdated ? " (updated)" : ""}`,
+    `Mismatch: ${result.mismatchPercentage.toFixed(3)}% (threshold ${result.threshold}%)`,
+    `Changed pixels: ${result.diffPixels} of ${result.comparedPixels}`,
+    `Anti-aliased pixels tolerated: ${result.antialiasedPixels}`,
+    `Ignored pixels: ${result.ignoredPixels}`,
+  ];
+
+  if (!result.dimensionsMatch && result.baselineSize) {
+    lines.push(
+      `Size changed: ${result.baselineSize.width}x${result.baselineSize.height} → ${result.currentSize.width}x${result.currentSize.height}`,
+    );
+  }
+
+  if (result.unmatchedSelectors.length > 0) {
+    lines.push(`Ignore selectors with no match: ${result.unmatchedSelectors.join(", ")}`);
+  }
+
+  if (result.regions.length > 0) {
+    lines.push("", `Changed regions: ${result.regions.length}`);
+    for (const region of result.regions.slice(0, MAX_REPORTED_REGIONS)) {
+      lines.push(`• x=${region.x} y=${region.y} ${region.width}x${region.height} (${region.pixels} px)`);
+    }
+    if (result.regions.length > MAX_REPORTED_REGIONS) {
+      lines.push(`• ... ${result.regions.length - MAX_REPORTED_REGIONS} more`);
+    }
+  }
+
+  lines.push("", "Diff image: changes in red, anti-aliasing in yellow, ignored areas in blue.");
+  return lines.join("\n");
+}
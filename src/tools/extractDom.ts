@@ -1,4 +1,4 @@
-import puppeteer from "puppeteer";
+import type { Page } from "puppeteer";
 import { z } from "zod";
 import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
@@ -9,21 +9,35 @@ import type { ViewportConfig, RetryConfig } from "../types/screenshot.js";
 import { normalizeHeadersInput, toPuppeteerCookies } from "../utils/requestOptions.js";
 import { normalizeUrl } from "../utils/url.js";
 import { withRetry, type RetryPolicy } from "../utils/retry.js";
+import { getCaptureDefaults } from "../config/defaults.js";
 import { getViewportPreset, mergeViewportOptions, type ViewportPreset } from "../config/viewports.js";
 import { getGlobalTelemetry } from "../telemetry/index.js";
 import { getStorageTarget, getDefaultStorageTarget } from "../storage/index.js";
-import { withTimeout, safeBrowserClose } from "../utils/timeout.js";
+import { withTimeout } from "../utils/timeout.js";
+import { getBrowserPool } from "../browser/pool.js";
+import { getSessionManager } from "../browser/sessions.js";
+import { applyViewport } from "../browser/emulation.js";
+import { HarRecorder, finishHarRecording, formatHarSummary } from "../utils/har.js";
+import { NetworkInterceptor, formatNetworkRuleMatches, type NetworkInterception } from "../utils/network.js";
+import { ConsoleCollector, formatConsoleReport } from "../utils/console.js";
+import { domTreeToMarkdown } from "../utils/markdown.js";
 
 // Import from centralized schema
-import { headersSchema, cookieSchema, EXTRACT_DOM_DESCRIPTION } from "../schemas/index.js";
+import {
+  headersSchema,
+  cookieSchema,
+  sessionIdSchema,
+  recordHarSchema,
+  networkSchema,
+  collectConsoleSchema,
+  failOnConsoleErrorSchema,
+  EXTRACT_DOM_DESCRIPTION,
+} from "../schemas/index.js";
 
-const EXTRACTION_TIMEOUT_MS = 45_000;
-const BROWSER_CLOSE_TIMEOUT_MS = 5_000;
-const MASTER_TIMEOUT_MS = 60_000;
-const DEFAULT_VIEWPORT = { width: 1280, height: 720 } as const;
 const MAX_DOM_NODES = 5_000;
 const MAX_HTML_CHARS = 200_000;
 const MAX_TEXT_CHARS = 100_000;
+const MAX_MARKDOWN_CHARS = 100_000;
 
 // Legacy schemas for backward compatibility (runtime only)
 
@@ -52,7 +66,6 @@ const extractDomInputSchema = z.object({
   url: z
     .string({ required_error: "URL is required." })
     .min(1, "URL cannot be empty.")
-    .describe("The webpage URL to extract DOM from.")
     .transform((value: string, ctx: z.RefinementCtx) => {
       try {
         return normalizeUrl(value);
@@ -63,12 +76,21 @@ const extractDomInputSchema = z.object({
         });
         return z.NEVER;
       }
-    }),
+    })
+    .optional()
+    .describe("The webpage URL to extract DOM from. Required unless sessionId is given (then the session's current page is used)."),
+  sessionId: sessionIdSchema.optional(),
   selector: z.string().min(1, "Selector cannot be empty.").optional().describe("CSS selector to scope extraction (e.g., 'main', '#content'). Omit for entire document."),
+  format: z.enum(["full", "markdown"]).optional().describe("'full' (default): HTML, text and DOM tree. 'markdown': clean Markdown of the visible content only."),
+  mode: z.enum(["page", "article"]).optional().describe("'page' (default): the whole document or selector. 'article': only the main content, with title, byline, publish date and the container's selector."),
+  recordHar: recordHarSchema.optional(),
+  network: networkSchema.optional(),
+  collectConsole: collectConsoleSchema.optional(),
+  failOnConsoleError: failOnConsoleErrorSchema.optional(),
 });
 
 // Full runtime schema - includes all options for backward compatibility
-const extractDomSchema = extractDomInputSchema.and(z.object({
+export const extractDomSchema = extractDomInputSchema.and(z.object({
   headers: headersSchema,
   cookies: z.array(cookieSchema).optional().describe("Cookies to set before loading."),
   viewport: viewportSchema,
@@ -87,14 +109,28 @@ export function registerExtractDomTool(server: McpServer, logger: Logger) {
     async (rawInput) => {
       // Parse with full schema for backward compatibility
       const input = extractDomSchema.parse(rawInput);
-      const { url, selector, viewport, retryPolicy, storageTarget } = input;
+      const { selector, viewport, retryPolicy, storageTarget, sessionId, format, mode } = input;
       const telemetry = getGlobalTelemetry(logger);
+
+      // Without an explicit URL, a session call extracts whatever page the session is on
+      const url = input.url ?? (sessionId ? getSessionManager(logger).get(sessionId)?.url : undefined);
+      if (!url) {
+        throw new McpError(ErrorCode.InvalidParams, "extractDom failed", {
+          sessionId,
+          detail: sessionId
+            ? `Session "${sessionId}" not found. It may have expired; open a new one with openSession.`
+            : "URL is required.",
+        });
+      }
       
       logger.info("extractDom:requested", { 
         url,
         selector: selector ?? null,
+        format: format ?? "full",
+        mode: mode ?? "page",
         viewportPreset: viewport?.preset,
         storageTarget,
+        sessionId,
       });
 
       await telemetry.emitTelemetry("tool.invoked", {
@@ -104,8 +140,18 @@ export function registerExtractDomTool(server: McpServer, logger: Logger) {
         viewportPreset: viewport?.preset,
       });
 
+      const harRecorder = input.recordHar
+        ? new HarRecorder(input.recordHar === true ? {} : input.recordHar, logger)
+        : undefined;
+      const consoleCollector = input.collectConsole || input.failOnConsoleError ? new ConsoleCollector() : undefined;
+
       try {
-        const result = await runDomExtraction(input, logger);
+        const result = await runDomExtraction({ ...input, url }, logger, { harRecorder, consoleCollector });
+        const pageError = input.failOnConsoleError ? consoleCollector?.toError() : undefined;
+        if (pageError) {
+          throw pageError;
+        }
+        const harReport = harRecorder ? await finishHarRecording(harRecorder, url, storageTarget, logger) : undefined;
 
         await telemetry.emitTelemetry("tool.completed", {
           tool: "extractDom",
@@ -114,9 +160,15 @@ export function registerExtractDomTool(server: McpServer, logger: Logger) {
           retryAttempts: result.retryAttempts,
         });
 
-        return {
-          content: buildDomContent(result),
-        };
+        const content = buildDomContent(result);
+        if (harReport) {
+          content.push({ type: "text" as const, text: formatHarSummary(harReport.summary, harReport.location) });
+        }
+        if (consoleCollector) {
+          content.push({ type: "text" as const, text: formatConsoleReport(consoleCollector.report()) });
+        }
+
+        return { content };
       } catch (error) {
         logger.error("extractDom:failed", {
           url,
@@ -130,94 +182,248 @@ export function registerExtractDomTool(server: McpServer, logger: Logger) {
           error: (error as Error).message,
         });
 
+        const harReport = harRecorder ? await finishHarRecording(harRecorder, url, storageTarget, logger) : undefined;
         throw new McpError(ErrorCode.InvalidParams, "extractDom failed", {
           url,
           detail: (error as Error).message,
+          ...(harReport?.location ? { harLocation: harReport.location } : {}),
+          ...(consoleCollector ? { console: consoleCollector.report() } : {}),
         });
       }
     },
   );
 }
 
-export async function runDomExtraction(args: ExtractDomInput, logger: Logger): Promise<ExtractDomResult> {
+export interface DomExtractionOptions {
+  /** Records network traffic of every page the extraction uses */
+  harRecorder?: HarRecorder;
+  /** Collects console output and page errors of every page the extraction uses */
+  consoleCollector?: ConsoleCollector;
+}
+
+export async function runDomExtraction(
+  args: ExtractDomInput,
+  logger: Logger,
+  options: DomExtractionOptions = {},
+): Promise<ExtractDomResult> {
   const telemetry = getGlobalTelemetry(logger);
   let retryAttempts = 0;
   
   // Prepare viewport configuration
   const viewport = resolveViewport(args.viewport, logger);
   
-  // Prepare retry policy
-  const retryPolicy: Partial<RetryPolicy> = args.retryPolicy || {};
-  
-  const executeExtraction = async (): Promise<ExtractDomResult> => {
-    const browser = await puppeteer.launch({
-      headless: true,
-      args: ["--no-sandbox", "--disable-setuid-sandbox"],
-    });
+  // Prepare retry policy. Extraction is read-only, so sessions keep the default policy.
+  const defaults = getCaptureDefaults();
+  const retryPolicy: Partial<RetryPolicy> = { ...defaults.retryPolicy, ...args.retryPolicy };
 
+  // Compiled once so a missing mock file fails the call before any navigation
+  const interceptor = args.network ? await NetworkInterceptor.create(args.network, logger) : undefined;
+  
+  const extractFromPage = async (page: Page, inSession: boolean): Promise<ExtractDomResult> => {
+    const stopHar = options.harRecorder?.attach(page, args.url);
+    const stopConsole = options.consoleCollector?.attach(page);
+    let interception: NetworkInterception | undefined;
     try {
-      await telemetry.emitTelemetry("browser.launched", { tool: "extractDom" });
-      
-      const page = await browser.newPage();
-      
-      // Apply viewport configuration
-      await page.setViewport(viewport);
-      
-      // Set user agent if specified
-      if (viewport.userAgent) {
-        await page.setUserAgent(viewport.userAgent);
-      }
-      
-      // Enable touch if specified
-      if (viewport.hasTouch) {
-        await page.evaluateOnNewDocument(() => {
-          (window as any).ontouchstart = true;
-        });
+      // Apply viewport configuration (sessions keep their own unless one is given)
+      if (!inSession || args.viewport) {
+        await applyViewport(page, viewport);
       }
       
-      page.setDefaultNavigationTimeout(EXTRACTION_TIMEOUT_MS);
+      page.setDefaultNavigationTimeout(defaults.timeouts.navigationMs);
 
       const normalizedHeaders = normalizeHeadersInput(args.headers);
       if (normalizedHeaders) {
         await page.setExtraHTTPHeaders(normalizedHeaders);
       }
+      interception = await interceptor?.attach(page);
 
       const cookieParams = toPuppeteerCookies(args.cookies, args.url);
       if (cookieParams.length > 0) {
         await page.setCookie(...cookieParams);
       }
 
-      await telemetry.emitTelemetry("navigation.started", { 
-        url: args.url,
-        viewport: `${viewport.width}x${viewport.height}`,
-      });
+      // A session that is already on the requested page keeps its current state
+      if (inSession && page.url() === args.url) {
+        logger.debug("navigation:session_reused", { url: args.url, sessionId: args.sessionId });
+      } else {
+        await telemetry.emitTelemetry("navigation.started", { 
+          url: args.url,
+          viewport: `${viewport.width}x${viewport.height}`,
+        });
 
-      const response = await page.goto(args.url, {
-        waitUntil: "networkidle2",
-        timeout: EXTRACTION_TIMEOUT_MS,
-      });
+        const response = await page.goto(args.url, {
+          waitUntil: "networkidle2",
+          timeout: defaults.timeouts.navigationMs,
+        });
 
-      if (!response || !response.ok()) {
-        const status = response?.status() ?? "unknown";
-        await telemetry.emitTelemetry("navigation.failed", { 
-          url: args.url, 
-          status,
+        if (!response || !response.ok()) {
+          const status = response?.status() ?? "unknown";
+          await telemetry.emitTelemetry("navigation.failed", { 
+            url: args.url, 
+            status,
+          });
+          throw new Error(`Navigation failed with status: ${status}`);
+        }
+
+        await telemetry.emitTelemetry("navigation.completed", { 
+          url: args.url,
+          status: response.status(),
         });
-        throw new Error(`Navigation failed with status: ${status}`);
       }
 
-      await telemetry.emitTelemetry("navigation.completed", { 
-        url: args.url,
-        status: response.status(),
-      });
-
+      const markdown = args.format === "markdown";
       const extraction = await page.evaluate(
-        ({ selector, maxNodes }) => {
-          const target = selector ? document.querySelector(selector) : document.documentElement;
-          if (!target) {
+        ({ selector, maxNodes, visibleOnly, articleMode }) => {
+          const scope = selector ? document.querySelector(selector) : document.documentElement;
+          if (!scope) {
             return { ok: false, error: `No element matched selector: ${selector}` } as const;
           }
 
+          let target: Element = scope;
+          let article: { selector: string; title?: string; byline?: string; publishedAt?: string } | undefined;
+
+          if (articleMode) {
+            const negativeHint = /nav|menu|footer|header|sidebar|aside|comment|cookie|consent|banner|promo|share|social|related|advert|\bads?\b|popup|modal|newsletter|subscribe/i;
+            const positiveHint = /article|content|main|post|entry|story|body|text|blog|docs?/i;
+            const hints = (element: Element) => `${element.getAttribute("class") ?? ""} ${element.id}`;
+            const textOf = (element: Element) => (element.textContent ?? "").replace(/\s+/g, " ").trim();
+            const linkDensity = (element: Element) => {
+              const length = textOf(element).length;
+              if (length === 0) {
+                return 1;
+              }
+              const linkLength = Array.from(element.querySelectorAll("a")).reduce((sum, link) => sum + textOf(link).length, 0);
+              return Math.min(linkLength / length, 1);
+            };
+            const baseScore = (element: Element) => {
+              const tag = element.tagName;
+              let score = ["ARTICLE", "MAIN"].includes(tag) ? 10 : tag === "DIV" ? 5 : ["PRE", "TD", "BLOCKQUOTE"].includes(tag) ? 3 : 0;
+              if (negativeHint.test(hints(element))) {
+                score -= 25;
+              }
+              if (positiveHint.test(hints(element))) {
+                score += 25;
+              }
+              return score;
+            };
+
+            // Paragraphs vote for their parent and, at half weight, their grandparent
+            const scores = new Map<Element, number>();
+            const paragraphs = scope.querySelectorAll("p, pre, td, blockquote");
+            for (const paragraph of Array.from(paragraphs)) {
+              const text = textOf(paragraph);
+              if (text.length < 25 || paragraph.closest("nav, aside, footer, [role=navigation], [role=complementary], [role=contentinfo]")) {
+                continue;
+              }
+              const points = 1 + (text.match(/,/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+              const parent = paragraph.parentElement;
+              const grandparent = parent?.parentElement;
+              for (const [candidate, share] of [[parent, 1], [grandparent, 0.5]] as const) {
+                if (candidate && scope.contains(candidate)) {
+                  scores.set(candidate, (scores.get(candidate) ?? baseScore(candidate)) + points * share);
+                }
+              }
+            }
+
+            let best: Element | undefined;
+            let bestScore = 0;
+            for (const [candidate, score] of scores) {
+              // Navigation-heavy blocks lose most of their score
+              const adjusted = score * (1 - linkDensity(candidate));
+              if (adjusted > bestScore) {
+                best = candidate;
+                bestScore = adjusted;
+              }
+            }
+            const container = best ?? (scope === document.documentElement ? document.body ?? scope : scope);
+
+            // Shortest selector that matches only the container, so captureScreenshot steps can reuse it
+            const isUnique = (candidate: string) => {
+              try {
+                return document.querySelectorAll(candidate).length === 1;
+              } catch {
+                return false;
+              }
+            };
+            const selectorFor = (element: Element): string => {
+              const tag = element.tagName.toLowerCase();
+              if (element.id && isUnique(`#${CSS.escape(element.id)}`)) {
+                return `#${CSS.escape(element.id)}`;
+              }
+              if (["article", "main", "body"].includes(tag) && isUnique(tag)) {
+                return tag;
+              }
+              const parent = element.parentElement;
+              if (!parent) {
+                return tag;
+              }
+              const sameTag = Array.from(parent.children).filter((sibling) => sibling.tagName === element.tagName);
+              const step = sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(element) + 1})` : tag;
+              return `${selectorFor(parent)} > ${step}`;
+            };
+
+            const meta = (...names: string[]) => {
+              for (const name of names) {
+                const content = document.querySelector(`meta[property="${name}"], meta[name="${name}"], meta[itemprop="${name}"]`)
+                  ?.getAttribute("content")?.trim();
+                if (content) {
+                  return content;
+                }
+              }
+              return undefined;
+            };
+            const firstText = (query: string) => {
+              for (const element of Array.from(document.querySelectorAll(query))) {
+                const text = textOf(element);
+                if (text && text.length <= 200) {
+                  return text;
+                }
+              }
+              return undefined;
+            };
+            const author = meta("author", "article:author");
+            const dateElement = container.querySelector("time[datetime]")
+              ?? document.querySelector("[itemprop=datePublished], time[datetime]");
+
+            article = {
+              selector: selectorFor(container),
+              title: meta("og:title") ?? firstText("h1") ?? (document.title.trim() || undefined),
+              byline: (author && !/^https?:/.test(author) ? author : undefined)
+                ?? firstText("[rel=author], [itemprop=author], .byline, .author"),
+              publishedAt: meta("article:published_time", "datePublished", "date")
+                ?? dateElement?.getAttribute("datetime")
+                ?? dateElement?.getAttribute("content")
+                ?? undefined,
+            };
+
+            // Serialize a copy without scripts, widgets, hidden elements and boilerplate blocks
+            const junkTags = ["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "IFRAME", "FORM", "BUTTON", "INPUT", "SELECT", "TEXTAREA", "NAV", "ASIDE", "FOOTER"];
+            const originals = [container, ...Array.from(container.querySelectorAll("*"))];
+            const clone = container.cloneNode(true) as Element;
+            const copies = [clone, ...Array.from(clone.querySelectorAll("*"))];
+            originals.forEach((element, index) => {
+              if (index === 0) {
+                return;
+              }
+              const style = window.getComputedStyle(element);
+              const role = element.getAttribute("role") ?? "";
+              if (
+                junkTags.includes(element.tagName) ||
+                ["navigation", "complementary", "dialog", "banner", "contentinfo"].includes(role) ||
+                element.hasAttribute("hidden") ||
+                element.getAttribute("aria-hidden") === "true" ||
+                style.display === "none" ||
+                style.visibility === "hidden" ||
+                (negativeHint.test(hints(element)) && !positiveHint.test(hints(element)))
+              ) {
+                copies[index].remove();
+              }
+            });
+            target = clone;
+          }
+
+          // The cleaned article copy is detached, so computed styles are only checked on the live page
+          const pruneHidden = visibleOnly && !articleMode;
           let nodeCount = 0;
           let truncated = false;
 
@@ -230,7 +436,12 @@ export async function runDomExtraction(args: ExtractDomInput, logger: Logger): P
             if (node.nodeType === Node.TEXT_NODE) {
               const textValue = node.textContent ?? "";
               if (textValue.trim().length === 0) {
-                return null;
+                // The space between two inline elements is visible text too
+                if (!visibleOnly || textValue.length === 0) {
+                  return null;
+                }
+                nodeCount += 1;
+                return { type: "text", textContent: " " };
               }
               nodeCount += 1;
               return { type: "text", textContent: textValue };
@@ -240,6 +451,22 @@ export async function runDomExtraction(args: ExtractDomInput, logger: Logger): P
               return null;
             }
 
+            // Markdown only describes what a reader sees
+            if (pruneHidden) {
+              const element = node as Element;
+              if (
+                ["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE"].includes(element.tagName) ||
+                element.hasAttribute("hidden") ||
+                element.getAttribute("aria-hidden") === "true"
+              ) {
+                return null;
+              }
+              const style = window.getComputedStyle(element);
+              if (style.display === "none" || style.visibility === "hidden") {
+                return null;
+              }
+            }
+
             nodeCount += 1;
 
             const attributes = Array.from((node as Element).attributes).reduce<Record<string, string>>((acc, attr) => {
@@ -273,24 +500,31 @@ export async function runDomExtraction(args: ExtractDomInput, logger: Logger): P
             return { ok: false, error: "Unable to serialize DOM tree." } as const;
           }
 
+          const text = target.textContent ?? "";
           return {
             ok: true,
             payload: {
-              html: (target as Element).outerHTML ?? new XMLSerializer().serializeToString(target),
-              text: target.textContent ?? "",
+              html: target.outerHTML ?? new XMLSerializer().serializeToString(target),
+              text: articleMode ? text.replace(/[ \t\r\f\v]+/g, " ").replace(/ *\n\s*/g, "\n").trim() : text,
               domTree,
               nodeCount,
               truncated,
+              article,
             },
           } as const;
         },
-        { selector: args.selector, maxNodes: MAX_DOM_NODES },
+        { selector: args.selector, maxNodes: MAX_DOM_NODES, visibleOnly: markdown, articleMode: args.mode === "article" },
       );
 
       if (!extraction.ok) {
         throw new Error(extraction.error);
       }
 
+      const markdownText = markdown ? domTreeToMarkdown(extraction.payload.domTree, page.url()) : undefined;
+      const article = extraction.payload.article
+        ? { ...extraction.payload.article, publishedAt: normalizeDate(extraction.payload.article.publishedAt) }
+        : undefined;
+
       await telemetry.emitTelemetry("dom.extracted", {
         url: args.url,
         selector: args.selector,
@@ -308,6 +542,8 @@ export async function runDomExtraction(args: ExtractDomInput, logger: Logger): P
           html: extraction.payload.html,
           text: extraction.payload.text,
           domTree: extraction.payload.domTree,
+          markdown: markdownText,
+          article,
           nodeCount: extraction.payload.nodeCount,
           truncated: extraction.payload.truncated,
           capturedAt: new Date().toISOString(),
@@ -332,19 +568,37 @@ export async function runDomExtraction(args: ExtractDomInput, logger: Logger): P
         html: extraction.payload.html,
         text: extraction.payload.text,
         domTree: extraction.payload.domTree,
+        markdown: markdownText,
+        article,
         nodeCount: extraction.payload.nodeCount,
         truncated: extraction.payload.truncated,
         capturedAt: new Date().toISOString(),
         viewportPreset: args.viewport?.preset,
         retryAttempts,
         storageLocation,
+        networkRules: interception?.matchedRules(),
       };
     } catch (error) {
       logger.error("extractDom:puppeteerError", { error: (error as Error).message });
       throw error;
     } finally {
-      await telemetry.emitTelemetry("browser.closed", { tool: "extractDom" });
-      await safeBrowserClose(browser, BROWSER_CLOSE_TIMEOUT_MS, logger);
+      await interception?.detach();
+      stopConsole?.();
+      await stopHar?.();
+    }
+  };
+
+  const executeExtraction = async (): Promise<ExtractDomResult> => {
+    if (args.sessionId) {
+      return getSessionManager(logger).use(args.sessionId, (page) => extractFromPage(page, true));
+    }
+
+    // Lease an isolated context from the shared pool instead of launching a browser
+    const lease = await getBrowserPool(logger).acquire("extractDom");
+    try {
+      return await extractFromPage(lease.page, false);
+    } finally {
+      await lease.release();
     }
   };
   
@@ -359,11 +613,11 @@ export async function runDomExtraction(args: ExtractDomInput, logger: Logger): P
     return result;
   });
 
-  return withTimeout(retryPromise, MASTER_TIMEOUT_MS, "extractDom");
+  return withTimeout(retryPromise, defaults.timeouts.totalMs, "extractDom");
 }
 
 function resolveViewport(config?: ViewportConfig, logger?: Logger): ViewportPreset {
-  let viewport: ViewportPreset = DEFAULT_VIEWPORT as ViewportPreset;
+  let viewport: ViewportPreset = getCaptureDefaults().viewport;
   
   if (config?.preset) {
     const preset = getViewportPreset(config.preset);
@@ -392,6 +646,20 @@ function resolveViewport(config?: ViewportConfig, logger?: Logger): ViewportPres
 }
 
 function buildDomContent(result: ExtractDomResult) {
+  if (result.markdown !== undefined) {
+    const markdownPayload = createBoundedPayload(result.markdown, MAX_MARKDOWN_CHARS);
+    return [
+      {
+        type: "text" as const,
+        text: formatDomSummary(result, { markdownTruncated: markdownPayload.truncated }),
+      },
+      {
+        type: "text" as const,
+        text: `Markdown${markdownPayload.truncated ? " (truncated)" : ""}:\n${markdownPayload.value}`,
+      },
+    ];
+  }
+
   const htmlPayload = createBoundedPayload(result.html, MAX_HTML_CHARS);
   const textPayload = createBoundedPayload(result.text, MAX_TEXT_CHARS);
   const domTreeJson = JSON.stringify(result.domTree, null, 2);
@@ -419,6 +687,14 @@ function buildDomContent(result: ExtractDomResult) {
   ];
 }
 
+function normalizeDate(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? value : new Date(time).toISOString();
+}
+
 function createBoundedPayload(value: string, maxLength: number) {
   if (value.length <= maxLength) {
     return { value, truncated: false };
@@ -432,7 +708,7 @@ function createBoundedPayload(value: string, maxLength: number) {
 
 function formatDomSummary(
   result: ExtractDomResult,
-  options: { htmlTruncated: boolean; textTruncated: boolean },
+  options: { htmlTruncated?: boolean; textTruncated?: boolean; markdownTruncated?: boolean },
 ): string {
   const lines = [
     "mcp-page-capture DOM extraction",
@@ -440,9 +716,20 @@ function formatDomSummary(
     `Selector: ${result.selector ?? "<document>"}`,
     `Captured: ${result.capturedAt}`,
     `Nodes serialized: ${result.nodeCount}${result.truncated ? " (truncated)" : ""}`,
-    `HTML truncated: ${options.htmlTruncated}`,
-    `Text truncated: ${options.textTruncated}`,
   ];
+  if (result.article) {
+    lines.push(
+      `Article container: ${result.article.selector}`,
+      `Title: ${result.article.title ?? "unknown"}`,
+      `Byline: ${result.article.byline ?? "unknown"}`,
+      `Published: ${result.article.publishedAt ?? "unknown"}`,
+    );
+  }
+  if (options.markdownTruncated !== undefined) {
+    lines.push(`Markdown truncated: ${options.markdownTruncated}`);
+  } else {
+    lines.push(`HTML truncated: ${options.htmlTruncated}`, `Text truncated: ${options.textTruncated}`);
+  }
   
   if (result.viewportPreset) {
     lines.push(`Viewport preset: ${result.viewportPreset}`);
@@ -455,6 +742,10 @@ function formatDomSummary(
   if (result.storageLocation) {
     lines.push(`Stored at: ${result.storageLocation}`);
   }
+
+  if (result.networkRules?.length) {
+    lines.push(formatNetworkRuleMatches(result.networkRules));
+  }
   
   return lines.join("\n");
 }
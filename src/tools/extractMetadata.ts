@@ -0,0 +1,311 @@
+import type { Page } from "puppeteer";
+import { z } from "zod";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import type { Logger } from "../logger.js";
+import type { ExtractMetadataInput, RawPageMetadata, StructuredDataItem } from "../types/metadata.js";
+import { normalizeHeadersInput } from "../utils/requestOptions.js";
+import { normalizeUrl } from "../utils/url.js";
+import { buildPageMetadata } from "../utils/metadata.js";
+import { getCaptureDefaults } from "../config/defaults.js";
+import { getGlobalTelemetry } from "../telemetry/index.js";
+import { withTimeout } from "../utils/timeout.js";
+import { getBrowserPool } from "../browser/pool.js";
+import { getSessionManager } from "../browser/sessions.js";
+
+import {
+  headersSchema,
+  sessionIdSchema,
+  pageMetadataOutputSchema,
+  type PageMetadata,
+  EXTRACT_METADATA_DESCRIPTION,
+} from "../schemas/index.js";
+
+const extractMetadataInputSchema = z.object({
+  url: z
+    .string()
+    .min(1, "URL cannot be empty.")
+    .transform((value: string, ctx: z.RefinementCtx) => {
+      try {
+        return normalizeUrl(value);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: (error as Error).message,
+        });
+        return z.NEVER;
+      }
+    })
+    .optional()
+    .describe("The webpage URL. Required unless sessionId is given (then the session's current page is used)."),
+  sessionId: sessionIdSchema.optional(),
+  headers: headersSchema,
+});
+
+export function registerExtractMetadataTool(server: McpServer, logger: Logger) {
+  server.registerTool(
+    "extractMetadata",
+    {
+      title: "Extract Page Metadata",
+      description: EXTRACT_METADATA_DESCRIPTION,
+      inputSchema: extractMetadataInputSchema,
+      outputSchema: pageMetadataOutputSchema,
+    },
+    async (rawInput) => {
+      const input = extractMetadataInputSchema.parse(rawInput);
+      const { sessionId } = input;
+      const telemetry = getGlobalTelemetry(logger);
+
+      const url = input.url ?? (sessionId ? getSessionManager(logger).get(sessionId)?.url : undefined);
+      if (!url) {
+        throw new McpError(ErrorCode.InvalidParams, "extractMetadata failed", {
+          sessionId,
+          detail: sessionId
+            ? `Session "${sessionId}" not found. It may have expired; open a new one with openSession.`
+            : "URL is required.",
+        });
+      }
+
+      logger.info("extractMetadata:requested", { url, sessionId });
+
+      await telemetry.emitTelemetry("tool.invoked", {
+        tool: "extractMetadata",
+        url,
+      });
+
+      try {
+        const metadata = await extractMetadata({ ...input, url }, logger);
+
+        await telemetry.emitTelemetry("tool.completed", {
+          tool: "extractMetadata",
+          url,
+          jsonLdBlocks: metadata.jsonLd.length,
+          microdataItems: metadata.microdata.length,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatMetadataSummary(metadata),
+            },
+            {
+              type: "text",
+              text: JSON.stringify(metadata, null, 2),
+            },
+          ],
+          structuredContent: metadata,
+        };
+      } catch (error) {
+        logger.error("extractMetadata:failed", {
+          url,
+          reason: (error as Error).message,
+        });
+
+        await telemetry.emitTelemetry("tool.failed", {
+          tool: "extractMetadata",
+          url,
+          error: (error as Error).message,
+        });
+
+        throw new McpError(ErrorCode.InvalidParams, "extractMetadata failed", {
+          url,
+          detail: (error as Error).message,
+        });
+      }
+    },
+  );
+}
+
+/** Reads the head tags, JSON-LD, microdata and RDFa of a page into typed metadata */
+export async function extractMetadata(
+  args: ExtractMetadataInput,
+  logger: Logger,
+): Promise<PageMetadata> {
+  const defaults = getCaptureDefaults();
+
+  const readPage = async (page: Page, inSession: boolean): Promise<PageMetadata> => {
+    if (!inSession) {
+      await page.setViewport(defaults.viewport);
+    }
+    page.setDefaultNavigationTimeout(defaults.timeouts.navigationMs);
+
+    const normalizedHeaders = normalizeHeadersInput(args.headers);
+    if (normalizedHeaders) {
+      await page.setExtraHTTPHeaders(normalizedHeaders);
+    }
+
+    if (inSession && page.url() === args.url) {
+      logger.debug("navigation:session_reused", { url: args.url, sessionId: args.sessionId });
+    } else {
+      const response = await page.goto(args.url, {
+        waitUntil: "networkidle2",
+        timeout: defaults.timeouts.navigationMs,
+      });
+      if (!response || !response.ok()) {
+        throw new Error(`Navigation failed with status: ${response?.status() ?? "unknown"}`);
+      }
+    }
+
+    const raw = await page.evaluate(collectPageMetadata);
+    return buildPageMetadata(raw);
+  };
+
+  const execute = async (): Promise<PageMetadata> => {
+    if (args.sessionId) {
+      return getSessionManager(logger).use(args.sessionId, (page) => readPage(page, true));
+    }
+
+    const lease = await getBrowserPool(logger).acquire("extractMetadata");
+    try {
+      return await readPage(lease.page, false);
+    } finally {
+      await lease.release();
+    }
+  };
+
+  return withTimeout(execute(), defaults.timeouts.totalMs, "extractMetadata");
+}
+
+/**
+ * Gathers meta and link tags, JSON-LD script bodies, microdata and RDFa items.
+ * Runs inside the page, so it must not reference anything outside its own body.
+ */
+function collectPageMetadata(): RawPageMetadata {
+  const clean = (value: string | null | undefined) => (value ?? "").replace(/\s+/g, " ").trim();
+  const tokens = (value: string | null) => clean(value).split(" ").filter((token) => token.length > 0);
+  const resolve = (value: string) => {
+    try {
+      return new URL(value, document.baseURI).href;
+    } catch {
+      return value;
+    }
+  };
+
+  // Same value rules for both syntaxes: content, then the element's URL, then its text
+  const valueOf = (element: Element): string => {
+    const tagName = element.tagName.toLowerCase();
+    const content = element.getAttribute("content");
+    if (content !== null) {
+      return content.trim();
+    }
+    if (["audio", "embed", "iframe", "img", "source", "track", "video"].includes(tagName)) {
+      return resolve(element.getAttribute("src") ?? "");
+    }
+    if (["a", "area", "link"].includes(tagName)) {
+      return resolve(element.getAttribute("href") ?? "");
+    }
+    if (tagName === "object") {
+      return resolve(element.getAttribute("data") ?? "");
+    }
+    if (tagName === "data" || tagName === "meter") {
+      return clean(element.getAttribute("value"));
+    }
+    if (tagName === "time" && element.hasAttribute("datetime")) {
+      return clean(element.getAttribute("datetime"));
+    }
+    return clean(element.textContent);
+  };
+
+  // itemref can point back at an ancestor scope, so nesting is capped
+  const MAX_NESTING = 8;
+
+  const microdataItem = (scope: Element, depth: number): StructuredDataItem => {
+    const item: StructuredDataItem = {
+      types: tokens(scope.getAttribute("itemtype")),
+      id: scope.hasAttribute("itemid") ? resolve(clean(scope.getAttribute("itemid"))) : null,
+      properties: {},
+    };
+    const collect = (element: Element) => {
+      const nested = element.hasAttribute("itemscope");
+      const names = tokens(element.getAttribute("itemprop"));
+      if (names.length > 0) {
+        const value = nested && depth < MAX_NESTING ? microdataItem(element, depth + 1) : valueOf(element);
+        for (const name of names) {
+          (item.properties[name] ??= []).push(value);
+        }
+      }
+      if (!nested) {
+        Array.from(element.children).forEach(collect);
+      }
+    };
+    Array.from(scope.children).forEach(collect);
+    for (const id of tokens(scope.getAttribute("itemref"))) {
+      const referenced = document.getElementById(id);
+      if (referenced) {
+        collect(referenced);
+      }
+    }
+    return item;
+  };
+
+  const rdfaItem = (scope: Element, depth: number): StructuredDataItem => {
+    const vocab = scope.closest("[vocab]")?.getAttribute("vocab") ?? "";
+    const item: StructuredDataItem = {
+      types: tokens(scope.getAttribute("typeof")).map((type) => (vocab && !type.includes(":") ? `${vocab}${type}` : type)),
+      id: scope.hasAttribute("resource") || scope.hasAttribute("about")
+        ? resolve(clean(scope.getAttribute("resource") ?? scope.getAttribute("about")))
+        : null,
+      properties: {},
+    };
+    const collect = (element: Element) => {
+      const nested = element.hasAttribute("typeof");
+      const names = tokens(element.getAttribute("property"));
+      if (names.length > 0) {
+        const value = nested && depth < MAX_NESTING ? rdfaItem(element, depth + 1) : valueOf(element);
+        for (const name of names) {
+          (item.properties[name] ??= []).push(value);
+        }
+      }
+      if (!nested) {
+        Array.from(element.children).forEach(collect);
+      }
+    };
+    Array.from(scope.children).forEach(collect);
+    return item;
+  };
+
+  return {
+    url: location.href,
+    title: document.title,
+    language: document.documentElement.lang,
+    metas: Array.from(document.querySelectorAll("meta[content]"), (meta) => ({
+      name: meta.getAttribute("name"),
+      property: meta.getAttribute("property"),
+      httpEquiv: meta.getAttribute("http-equiv"),
+      content: meta.getAttribute("content") ?? "",
+    })),
+    links: Array.from(document.querySelectorAll<HTMLLinkElement>("link[rel][href]"), (link) => ({
+      rel: link.rel,
+      href: link.href,
+      hreflang: link.getAttribute("hreflang"),
+      type: link.getAttribute("type"),
+      title: link.getAttribute("title"),
+      sizes: link.getAttribute("sizes"),
+    })),
+    jsonLd: Array.from(
+      document.querySelectorAll('script[type="application/ld+json" i]'),
+      (script) => script.textContent ?? "",
+    ),
+    microdata: Array.from(document.querySelectorAll("[itemscope]:not([itemprop])"), (scope) => microdataItem(scope, 0)),
+    rdfa: Array.from(document.querySelectorAll("[typeof]:not([property])"), (scope) => rdfaItem(scope, 0)),
+  };
+}
+
+function formatMetadataSummary(metadata: PageMetadata): string {
+  const found = (value: string | null) => value ?? "<none>";
+  return [
+    "mcp-page-capture metadata",
+    `URL: ${metadata.url}`,
+    `Captured: ${metadata.capturedAt}`,
+    `Title: ${found(metadata.title)}`,
+    `Canonical: ${found(metadata.canonicalUrl)}`,
+    `Robots: ${found(metadata.robots?.content ?? null)}`,
+    `OpenGraph: ${metadata.openGraph.title ?? metadata.openGraph.type ?? "<none>"}${metadata.openGraph.images.length > 0 ? ` (${metadata.openGraph.images.length} image(s))` : ""}`,
+    `Twitter card: ${found(metadata.twitter.card)}`,
+    `JSON-LD: ${metadata.jsonLd.length} block(s)${metadata.jsonLd.some((block) => block.error) ? ", some invalid" : ""}`,
+    `Microdata: ${metadata.microdata.length} item(s), RDFa: ${metadata.rdfa.length} item(s)`,
+    `Alternates: ${metadata.alternates.length}, Feeds: ${metadata.feeds.length}, Favicons: ${metadata.favicons.length}`,
+  ].join("\n");
+}
@@ -0,0 +1,334 @@
+import type { ElementHandle, Page } from "puppeteer";
+import { z } from "zod";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import type { Logger } from "../logger.js";
+import type { ElementBox, FindElementsInput, FindElementsResult, InteractiveElement } from "../types/elements.js";
+import { normalizeHeadersInput } from "../utils/requestOptions.js";
+import { normalizeUrl } from "../utils/url.js";
+import { rankedSelectorsFor } from "../utils/selectors.js";
+import { getCaptureDefaults } from "../config/defaults.js";
+import { getGlobalTelemetry } from "../telemetry/index.js";
+import { withTimeout } from "../utils/timeout.js";
+import { getBrowserPool } from "../browser/pool.js";
+import { getSessionManager } from "../browser/sessions.js";
+
+import {
+  headersSchema,
+  sessionIdSchema,
+  FIND_ELEMENTS_DESCRIPTION,
+} from "../schemas/index.js";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+/** Links, buttons, form fields and anything carrying a role */
+const INTERACTIVE_QUERY = [
+  "a[href]",
+  "button",
+  'input:not([type="hidden"])',
+  "select",
+  "textarea",
+  "summary",
+  '[contenteditable]:not([contenteditable="false"])',
+  '[role]:not([role="presentation"]):not([role="none"])',
+].join(", ");
+
+const findElementsInputSchema = z.object({
+  url: z
+    .string()
+    .min(1, "URL cannot be empty.")
+    .transform((value: string, ctx: z.RefinementCtx) => {
+      try {
+        return normalizeUrl(value);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: (error as Error).message,
+        });
+        return z.NEVER;
+      }
+    })
+    .optional()
+    .describe("The webpage URL. Required unless sessionId is given (then the session's current page is used)."),
+  sessionId: sessionIdSchema.optional(),
+  selector: z.string().min(1, "Selector cannot be empty.").optional()
+    .describe("(optional) CSS selector of the region to search, e.g. 'form' or 'nav'. Default: the whole page"),
+  headers: headersSchema,
+  limit: z.number().int().min(1).max(MAX_LIMIT).optional()
+    .describe(`(optional) Most elements returned. Default: ${DEFAULT_LIMIT}`),
+});
+
+export function registerFindElementsTool(server: McpServer, logger: Logger) {
+  server.registerTool(
+    "findElements",
+    {
+      title: "Find Interactive Elements",
+      description: FIND_ELEMENTS_DESCRIPTION,
+      inputSchema: findElementsInputSchema,
+    },
+    async (rawInput) => {
+      const input = findElementsInputSchema.parse(rawInput);
+      const { sessionId, selector } = input;
+      const telemetry = getGlobalTelemetry(logger);
+
+      const url = input.url ?? (sessionId ? getSessionManager(logger).get(sessionId)?.url : undefined);
+      if (!url) {
+        throw new McpError(ErrorCode.InvalidParams, "findElements failed", {
+          sessionId,
+          detail: sessionId
+            ? `Session "${sessionId}" not found. It may have expired; open a new one with openSession.`
+            : "URL is required.",
+        });
+      }
+
+      logger.info("findElements:requested", {
+        url,
+        selector: selector ?? null,
+        sessionId,
+        limit: input.limit ?? DEFAULT_LIMIT,
+      });
+
+      await telemetry.emitTelemetry("tool.invoked", {
+        tool: "findElements",
+        url,
+        selector,
+      });
+
+      try {
+        const result = await findElements({ ...input, url }, logger);
+
+        await telemetry.emitTelemetry("tool.completed", {
+          tool: "findElements",
+          url,
+          elementCount: result.elements.length,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatFindElementsSummary(result),
+            },
+            {
+              type: "text",
+              text: result.elements.length > 0
+                ? formatElementList(result.elements)
+                : "No visible interactive elements found.",
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error("findElements:failed", {
+          url,
+          selector: selector ?? null,
+          reason: (error as Error).message,
+        });
+
+        await telemetry.emitTelemetry("tool.failed", {
+          tool: "findElements",
+          url,
+          error: (error as Error).message,
+        });
+
+        throw new McpError(ErrorCode.InvalidParams, "findElements failed", {
+          url,
+          detail: (error as Error).message,
+        });
+      }
+    },
+  );
+}
+
+/** Lists the visible controls on a page, each with selectors verified to match only that element */
+export async function findElements(
+  args: FindElementsInput,
+  logger: Logger,
+): Promise<FindElementsResult> {
+  const defaults = getCaptureDefaults();
+  const limit = args.limit ?? DEFAULT_LIMIT;
+
+  const scanPage = async (page: Page, inSession: boolean): Promise<FindElementsResult> => {
+    if (!inSession) {
+      await page.setViewport(defaults.viewport);
+    }
+    page.setDefaultNavigationTimeout(defaults.timeouts.navigationMs);
+
+    const normalizedHeaders = normalizeHeadersInput(args.headers);
+    if (normalizedHeaders) {
+      await page.setExtraHTTPHeaders(normalizedHeaders);
+    }
+
+    if (inSession && page.url() === args.url) {
+      logger.debug("navigation:session_reused", { url: args.url, sessionId: args.sessionId });
+    } else {
+      const response = await page.goto(args.url, {
+        waitUntil: "networkidle2",
+        timeout: defaults.timeouts.navigationMs,
+      });
+      if (!response || !response.ok()) {
+        throw new Error(`Navigation failed with status: ${response?.status() ?? "unknown"}`);
+      }
+    }
+
+    const root = args.selector ? await page.$(args.selector) : undefined;
+    if (args.selector && !root) {
+      throw new Error(`No element matched selector: ${args.selector}`);
+    }
+
+    const handles = await (root ?? page).$$(INTERACTIVE_QUERY);
+    const elements: InteractiveElement[] = [];
+    let scanned = 0;
+    try {
+      for (const handle of handles) {
+        if (elements.length >= limit) {
+          break;
+        }
+        scanned += 1;
+        const description = await handle.evaluate(describeInteractiveElement);
+        if (!description) {
+          continue;
+        }
+        const selectors = await selectorsFor(handle, logger);
+        if (selectors.length > 0) {
+          elements.push({ ...description, selectors });
+        }
+      }
+    } finally {
+      await Promise.all(handles.map((handle) => handle.dispose()));
+      await root?.dispose();
+    }
+
+    return {
+      url: args.url,
+      selector: args.selector,
+      elements,
+      truncated: scanned < handles.length,
+      capturedAt: new Date().toISOString(),
+    };
+  };
+
+  const execute = async (): Promise<FindElementsResult> => {
+    if (args.sessionId) {
+      return getSessionManager(logger).use(args.sessionId, (page) => scanPage(page, true));
+    }
+
+    const lease = await getBrowserPool(logger).acquire("findElements");
+    try {
+      return await scanPage(lease.page, false);
+    } finally {
+      await lease.release();
+    }
+  };
+
+  return withTimeout(execute(), defaults.timeouts.totalMs, "findElements");
+}
+
+async function selectorsFor(handle: ElementHandle<Element>, logger: Logger): Promise<string[]> {
+  try {
+    return await handle.evaluate(rankedSelectorsFor);
+  } catch (error) {
+    logger.debug("findElements:selectors_failed", { error: (error as Error).message });
+    return [];
+  }
+}
+
+/**
+ * Label, type, box and state of a visible element; null when it is hidden.
+ * Runs inside the page, so it must not reference anything outside its own body.
+ */
+function describeInteractiveElement(element: Element): Omit<InteractiveElement, "selectors"> | null {
+  const rect = element.getBoundingClientRect();
+  const style = window.getComputedStyle(element);
+  const visible = typeof element.checkVisibility === "function"
+    ? element.checkVisibility({ checkOpacity: true, checkVisibilityCSS: true })
+    : style.display !== "none" && style.visibility !== "hidden" && style.opacity !== "0";
+  if (!visible || rect.width === 0 || rect.height === 0) {
+    return null;
+  }
+
+  const tagName = element.tagName.toLowerCase();
+  const clean = (value: string | null | undefined) => (value ?? "").replace(/\s+/g, " ").trim();
+
+  const role = element.getAttribute("role");
+  let type: string;
+  if (role) {
+    type = role;
+  } else if (element instanceof HTMLInputElement) {
+    type = element.type;
+  } else if (tagName === "a") {
+    type = "link";
+  } else if (element.hasAttribute("contenteditable")) {
+    type = "editable";
+  } else {
+    type = tagName;
+  }
+
+  const labelledBy = clean(element.getAttribute("aria-labelledby"))
+    .split(" ")
+    .map((id) => clean(id ? document.getElementById(id)?.textContent : ""))
+    .filter((text) => text.length > 0)
+    .join(" ");
+  const formLabels = "labels" in element && (element as HTMLInputElement).labels
+    ? Array.from((element as HTMLInputElement).labels!, (label) => clean(label.textContent)).join(" ")
+    : "";
+  const isField = element instanceof HTMLInputElement || element instanceof HTMLSelectElement || element instanceof HTMLTextAreaElement;
+  const buttonValue = element instanceof HTMLInputElement && ["button", "submit", "reset"].includes(element.type)
+    ? element.value
+    : "";
+  const candidates = [
+    labelledBy,
+    element.getAttribute("aria-label"),
+    formLabels,
+    isField ? "" : (element as HTMLElement).innerText,
+    buttonValue,
+    element.getAttribute("alt") ?? element.querySelector("img[alt]")?.getAttribute("alt"),
+    element.getAttribute("placeholder"),
+    element.getAttribute("title"),
+  ];
+  const label = candidates.map(clean).find((text) => text.length > 0) ?? "";
+
+  const box: ElementBox = {
+    x: Math.round(rect.left + window.scrollX),
+    y: Math.round(rect.top + window.scrollY),
+    width: Math.round(rect.width),
+    height: Math.round(rect.height),
+  };
+
+  return {
+    tagName,
+    type,
+    label: label.length > 120 ? `${label.slice(0, 119)}…` : label,
+    box,
+    disabled: element.matches(":disabled") || element.getAttribute("aria-disabled") === "true",
+  };
+}
+
+function formatFindElementsSummary(result: FindElementsResult): string {
+  return [
+    "mcp-page-capture interactive elements",
+    `URL: ${result.url}`,
+    `Selector: ${result.selector ?? "<document>"}`,
+    `Captured: ${result.capturedAt}`,
+    `Elements: ${result.elements.length}${result.truncated ? " (limit reached; narrow with selector or raise limit)" : ""}`,
+  ].join("\n");
+}
+
+/** Two lines per element: what it is and where, then its selectors best first */
+function formatElementList(elements: InteractiveElement[]): string {
+  return elements
+    .map((element, index) => {
+      const { x, y, width, height } = element.box;
+      const parts = [`${index + 1}. ${element.type}`];
+      if (element.label) {
+        parts.push(JSON.stringify(element.label));
+      }
+      parts.push(`at (${x}, ${y}) ${width}x${height}`);
+      if (element.disabled) {
+        parts.push("[disabled]");
+      }
+      return `${parts.join(" ")}\n   selectors: ${element.selectors.join(" | ")}`;
+    })
+    .join("\n");
+}
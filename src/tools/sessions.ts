@@ -0,0 +1,198 @@
+import { z } from "zod";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import type { Logger } from "../logger.js";
+import { normalizeHeadersInput } from "../utils/requestOptions.js";
+import { normalizeUrl } from "../utils/url.js";
+import { getCaptureDefaults } from "../config/defaults.js";
+import { getViewportPreset, type ViewportPreset } from "../config/viewports.js";
+import { getGlobalTelemetry } from "../telemetry/index.js";
+import { getSessionManager, type SessionInfo } from "../browser/sessions.js";
+import { applyViewport } from "../browser/emulation.js";
+
+import {
+  headersSchema,
+  devicePresetSchema,
+  sessionIdSchema,
+  OPEN_SESSION_DESCRIPTION,
+  CLOSE_SESSION_DESCRIPTION,
+  LIST_SESSIONS_DESCRIPTION,
+} from "../schemas/index.js";
+
+const openSessionInputSchema = z.object({
+  sessionId: sessionIdSchema.optional()
+    .describe("(optional) Name for the session. Generated if omitted."),
+  url: z
+    .string()
+    .min(1, "URL cannot be empty.")
+    .optional()
+    .describe("(optional) Page to open immediately.")
+    .transform((value: string | undefined, ctx: z.RefinementCtx) => {
+      if (value === undefined) {
+        return undefined;
+      }
+      try {
+        return normalizeUrl(value);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: (error as Error).message,
+        });
+        return z.NEVER;
+      }
+    }),
+  headers: headersSchema,
+  device: devicePresetSchema.optional()
+    .describe("(optional) Device preset for the session viewport"),
+  idleTimeoutMs: z.number().int().min(1_000).max(3_600_000).optional()
+    .describe("(optional) Close after this much inactivity in ms (1000-3600000). Default: 600000"),
+});
+
+const closeSessionInputSchema = z.object({
+  sessionId: sessionIdSchema.describe("(required) Session to close"),
+});
+
+export function registerSessionTools(server: McpServer, logger: Logger) {
+  server.registerTool(
+    "openSession",
+    {
+      title: "Open Browser Session",
+      description: OPEN_SESSION_DESCRIPTION,
+      inputSchema: openSessionInputSchema,
+    },
+    async (rawInput) => {
+      const input = openSessionInputSchema.parse(rawInput);
+      const telemetry = getGlobalTelemetry(logger);
+      const sessions = getSessionManager(logger);
+
+      logger.info("openSession:requested", { sessionId: input.sessionId, url: input.url, device: input.device });
+      await telemetry.emitTelemetry("tool.invoked", { tool: "openSession", url: input.url });
+
+      let sessionId: string | undefined;
+      try {
+        const opened = await sessions.open({ id: input.sessionId, idleTimeoutMs: input.idleTimeoutMs });
+        sessionId = opened.id;
+
+        await sessions.use(opened.id, async (page) => {
+          const defaults = getCaptureDefaults();
+          let viewport: ViewportPreset = defaults.viewport;
+          if (input.device) {
+            viewport = getViewportPreset(input.device) ?? viewport;
+          }
+          await applyViewport(page, viewport);
+          page.setDefaultNavigationTimeout(defaults.timeouts.navigationMs);
+
+          const normalizedHeaders = normalizeHeadersInput(input.headers);
+          if (normalizedHeaders) {
+            await page.setExtraHTTPHeaders(normalizedHeaders);
+          }
+
+          if (input.url) {
+            const response = await page.goto(input.url, {
+              waitUntil: "domcontentloaded",
+              timeout: defaults.timeouts.navigationMs,
+            });
+            await page.waitForNetworkIdle({ idleTime: 500, timeout: 5000 }).catch(() => {
+              logger.debug("navigation:networkidle_skip", { reason: "timeout_or_busy" });
+            });
+            if (!response || !response.ok()) {
+              throw new Error(`Navigation failed with status: ${response?.status() ?? "unknown"}`);
+            }
+          }
+        });
+
+        const info = sessions.get(opened.id) ?? opened;
+        await telemetry.emitTelemetry("tool.completed", { tool: "openSession", sessionId: info.id });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `mcp-page-capture session opened\n${formatSessionInfo(info)}\n\nPass "sessionId": "${info.id}" to captureScreenshot or extractDom. Close it with closeSession when done.`,
+            },
+          ],
+        };
+      } catch (error) {
+        // Don't leak a half-initialised session
+        if (sessionId) {
+          await sessions.close(sessionId, "open_failed");
+        }
+
+        logger.error("openSession:failed", { sessionId: input.sessionId, reason: (error as Error).message });
+        await telemetry.emitTelemetry("tool.failed", { tool: "openSession", error: (error as Error).message });
+
+        throw new McpError(ErrorCode.InvalidParams, "openSession failed", {
+          sessionId: input.sessionId,
+          detail: (error as Error).message,
+        });
+      }
+    },
+  );
+
+  server.registerTool(
+    "closeSession",
+    {
+      title: "Close Browser Session",
+      description: CLOSE_SESSION_DESCRIPTION,
+      inputSchema: closeSessionInputSchema,
+    },
+    async (rawInput) => {
+      const { sessionId } = closeSessionInputSchema.parse(rawInput);
+      const closed = await getSessionManager(logger).close(sessionId);
+
+      logger.info("closeSession:completed", { sessionId, closed });
+
+      if (!closed) {
+        throw new McpError(ErrorCode.InvalidParams, "closeSession failed", {
+          sessionId,
+          detail: `Session "${sessionId}" not found. It may have already expired.`,
+        });
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Session "${sessionId}" closed.`,
+          },
+        ],
+      };
+    },
+  );
+
+  server.registerTool(
+    "listSessions",
+    {
+      title: "List Browser Sessions",
+      description: LIST_SESSIONS_DESCRIPTION,
+      inputSchema: z.object({}),
+    },
+    async () => {
+      const sessions = getSessionManager(logger).list();
+
+      const text = sessions.length === 0
+        ? "No open sessions."
+        : [`Open sessions: ${sessions.length}`, ...sessions.map((info) => `\n${formatSessionInfo(info)}`)].join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text,
+          },
+        ],
+      };
+    },
+  );
+}
+
+function formatSessionInfo(info: SessionInfo): string {
+  return [
+    `Session: ${info.id}`,
+    `Current URL: ${info.url}`,
+    `Created: ${info.createdAt}`,
+    `Last used: ${info.lastUsedAt}`,
+    `Expires: ${info.expiresAt} (idle timeout ${Math.round(info.idleTimeoutMs / 1000)}s)`,
+  ].join("\n");
+}
@@ -0,0 +1,113 @@
+/**
+ * API-key authentication and per-key request quotas for the HTTP transports.
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import type { IncomingMessage } from "http";
+
+export interface QuotaConfig {
+  /** Requests allowed per window */
+  maxRequests: number;
+  /** Window length in milliseconds. Default: 60000 */
+  windowMs?: number;
+}
+
+export interface ApiKeyConfig {
+  key: string;
+  /** Shown in logs instead of the key; owns its sessions and captures, so must be unique */
+  name: string;
+  /** Overrides the server's default quota for this key */
+  quota?: QuotaConfig;
+}
+
+export interface ApiKeyIdentity {
+  name: string;
+  key: string;
+  quota?: QuotaConfig;
+}
+
+export type QuotaDecision =
+  | { allowed: true; remaining?: number }
+  | { allowed: false; retryAfterMs: number };
+
+const DEFAULT_WINDOW_MS = 60_000;
+
+/** Matches the bearer token or X-API-Key header against the configured keys */
+export class ApiKeyAuthenticator {
+  private readonly keys: Array<ApiKeyIdentity & { digest: Buffer }>;
+
+  constructor(keys: ApiKeyConfig[], defaultQuota?: QuotaConfig) {
+    const names = new Set<string>();
+    for (const [index, config] of keys.entries()) {
+      if (!config.name) {
+        throw new Error(`API key ${index + 1} has no name; every key needs a unique name`);
+      }
+      if (names.has(config.name)) {
+        throw new Error(`API key name "${config.name}" is used more than once; key names must be unique`);
+      }
+      names.add(config.name);
+    }
+
+    this.keys = keys.map((config) => ({
+      name: config.name,
+      key: config.key,
+      quota: config.quota ?? defaultQuota,
+      digest: digest(config.key),
+    }));
+  }
+
+  get enabled(): boolean {
+    return this.keys.length > 0;
+  }
+
+  authenticate(req: IncomingMessage): ApiKeyIdentity | undefined {
+    const presented = readPresentedKey(req);
+    if (!presented) {
+      return undefined;
+    }
+    // Compare digests so the comparison time does not depend on key length or content
+    const presentedDigest = digest(presented);
+    const match = this.keys.find((candidate) => timingSafeEqual(candidate.digest, presentedDigest));
+    return match ? { name: match.name, key: match.key, quota: match.quota } : undefined;
+  }
+}
+
+function readPresentedKey(req: IncomingMessage): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization) {
+    const [scheme, token] = authorization.split(" ", 2);
+    if (scheme?.toLowerCase() === "bearer" && token) {
+      return token.trim();
+    }
+  }
+  const apiKey = req.headers["x-api-key"];
+  return typeof apiKey === "string" && apiKey.length > 0 ? apiKey.trim() : undefined;
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/** Fixed-window request counter per key */
+export class QuotaTracker {
+  private readonly windows = new Map<string, { startedAt: number; count: number }>();
+
+  consume(name: string, quota: QuotaConfig | undefined, now = Date.now()): QuotaDecision {
+    if (!quota) {
+      return { allowed: true };
+    }
+
+    const windowMs = quota.windowMs ?? DEFAULT_WINDOW_MS;
+    let window = this.windows.get(name);
+    if (!window || now - window.startedAt >= windowMs) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(name, window);
+    }
+
+    if (window.count >= quota.maxRequests) {
+      return { allowed: false, retryAfterMs: window.startedAt + windowMs - now };
+    }
+    window.count++;
+    return { allowed: true, remaining: quota.maxRequests - window.count };
+  }
+}
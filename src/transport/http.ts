@@ -0,0 +1,353 @@
+/**
+ * HTTP front end for shared deployments: serves MCP over Streamable HTTP or
+ * the legacy HTTP+SSE transport, with API-key auth, per-key quotas, CORS and
+ * a health check.
+ *
+ * Every MCP session gets its own server instance from the factory; the
+ * browser pool behind the tools is shared process-wide. Requests run as the
+ * API key that made them, which keeps browser sessions and stored captures
+ * private to that key.
+ */
+
+import { randomUUID } from "crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+import type { Logger } from "../logger.js";
+import { runAsTenant } from "../utils/tenant.js";
+import { ApiKeyAuthenticator, QuotaTracker, type ApiKeyConfig, type ApiKeyIdentity, type QuotaConfig } from "./auth.js";
+
+export type HttpTransportKind = "http" | "sse";
+
+export interface CorsOptions {
+  /** Allowed origins, or "*" for any */
+  origins: string[] | "*";
+  /** Preflight cache lifetime in seconds. Default: 600 */
+  maxAgeSeconds?: number;
+}
+
+export interface HttpServerOptions {
+  /** "http" serves Streamable HTTP at /mcp; "sse" serves the legacy /sse + /messages pair */
+  transport: HttpTransportKind;
+  /** Default: 3000 */
+  port?: number;
+  /** Default: 127.0.0.1 */
+  host?: string;
+  /** No keys means no authentication (a warning is logged) */
+  apiKeys?: ApiKeyConfig[];
+  /** Quota for keys without their own */
+  defaultQuota?: QuotaConfig;
+  cors?: CorsOptions;
+  /** Largest accepted JSON body in bytes. Default: 4 MiB */
+  maxBodyBytes?: number;
+  /** Streamable HTTP sessions without a request for this long are closed. Default: 30 minutes */
+  sessionIdleTimeoutMs?: number;
+  version?: string;
+}
+
+export interface HttpServerHandle {
+  server: Server;
+  /** Base URL the server listens on */
+  url: string;
+  close(): Promise<void>;
+}
+
+interface McpSessionEntry {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  /** Key that opened the session; other keys cannot use it */
+  owner?: string;
+  /** Time of the last request, for the idle timeout */
+  lastSeen: number;
+}
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60_000;
+const MAX_SESSION_SWEEP_INTERVAL_MS = 60_000;
+const STREAMABLE_PATH = "/mcp";
+const SSE_PATH = "/sse";
+const SSE_MESSAGES_PATH = "/messages";
+const ALLOWED_HEADERS = "Content-Type, Authorization, X-API-Key, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID";
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  options: HttpServerOptions,
+  logger: Logger,
+): Promise<HttpServerHandle> {
+  const authenticator = new ApiKeyAuthenticator(options.apiKeys ?? [], options.defaultQuota);
+  const quotas = new QuotaTracker();
+  const sessions = new Map<string, McpSessionEntry>();
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  if (!authenticator.enabled) {
+    logger.warn("http:auth_disabled", { reason: "No API keys configured; anyone who can reach the port can use the server" });
+  }
+
+  // The server is built as the key so anything it subscribes to knows its owner
+  const connect = async (transport: McpSessionEntry["transport"], identity?: ApiKeyIdentity) => {
+    const server = runAsTenant(identity?.name, createMcpServer);
+    await server.connect(transport);
+    return server;
+  };
+
+  // Streamable HTTP clients can vanish without closing their session
+  const sweepIdleSessions = () => {
+    const now = Date.now();
+    for (const [sessionId, entry] of sessions) {
+      if (entry.transport instanceof StreamableHTTPServerTransport && now - entry.lastSeen >= sessionIdleTimeoutMs) {
+        sessions.delete(sessionId);
+        logger.info("http:session_expired", { sessionId, key: entry.owner, idleMs: now - entry.lastSeen });
+        void entry.server.close();
+      }
+    }
+  };
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse, identity?: ApiKeyIdentity) => {
+    const sessionId = header(req, "mcp-session-id");
+    const body = req.method === "POST" ? await readJsonBody(req, maxBodyBytes) : undefined;
+
+    if (sessionId) {
+      const entry = requireSession(sessions, sessionId, identity);
+      if (!(entry.transport instanceof StreamableHTTPServerTransport)) {
+        throw new HttpError(400, "Session belongs to a different transport");
+      }
+      entry.lastSeen = Date.now();
+      const transport = entry.transport;
+      await runAsTenant(identity?.name, () => transport.handleRequest(req, res, body));
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      throw new HttpError(400, "Missing Mcp-Session-Id header; start with an initialize request");
+    }
+
+    let entry: McpSessionEntry | undefined;
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, entry!);
+        logger.info("http:session_opened", { sessionId: id, transport: "http", key: identity?.name });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        logger.info("http:session_closed", { sessionId: transport.sessionId });
+      }
+    };
+    entry = { transport, server: await connect(transport, identity), owner: identity?.name, lastSeen: Date.now() };
+    await runAsTenant(identity?.name, () => transport.handleRequest(req, res, body));
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse, url: URL, identity?: ApiKeyIdentity) => {
+    if (url.pathname === SSE_PATH && req.method === "GET") {
+      const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+      const entry: McpSessionEntry = {
+        transport,
+        server: await connect(transport, identity),
+        owner: identity?.name,
+        lastSeen: Date.now(),
+      };
+      sessions.set(transport.sessionId, entry);
+      logger.info("http:session_opened", { sessionId: transport.sessionId, transport: "sse", key: identity?.name });
+      res.on("close", () => {
+        if (sessions.delete(transport.sessionId)) {
+          logger.info("http:session_closed", { sessionId: transport.sessionId });
+          void entry.server.close();
+        }
+      });
+      return;
+    }
+
+    if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+      const entry = requireSession(sessions, url.searchParams.get("sessionId") ?? "", identity);
+      if (!(entry.transport instanceof SSEServerTransport)) {
+        throw new HttpError(400, "Session belongs to a different transport");
+      }
+      entry.lastSeen = Date.now();
+      const transport = entry.transport;
+      const body = await readJsonBody(req, maxBodyBytes);
+      await runAsTenant(identity?.name, () => transport.handlePostMessage(req, res, body));
+      return;
+    }
+
+    throw new HttpError(405, "Method not allowed");
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    applyCors(req, res, options.cors);
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    if (url.pathname === "/healthz") {
+      sendJson(res, 200, { status: "ok", version: options.version, transport: options.transport, sessions: sessions.size });
+      return;
+    }
+
+    const isMcpPath =
+      options.transport === "http"
+        ? url.pathname === STREAMABLE_PATH
+        : url.pathname === SSE_PATH || url.pathname === SSE_MESSAGES_PATH;
+    if (!isMcpPath) {
+      throw new HttpError(404, "Not found");
+    }
+
+    let identity: ApiKeyIdentity | undefined;
+    if (authenticator.enabled) {
+      identity = authenticator.authenticate(req);
+      if (!identity) {
+        throw new HttpError(401, "Missing or invalid API key", { "WWW-Authenticate": 'Bearer realm="mcp-page-capture"' });
+      }
+      // The SDK hands this to tool handlers as extra.authInfo
+      (req as IncomingMessage & { auth?: AuthInfo }).auth = { token: identity.key, clientId: identity.name, scopes: [] };
+    }
+
+    // Opening a stream is not a request; messages sent over it are
+    const counted = req.method === "POST";
+    if (identity && counted) {
+      const decision = quotas.consume(identity.name, identity.quota);
+      if (!decision.allowed) {
+        logger.warn("http:quota_exceeded", { key: identity.name });
+        throw new HttpError(429, "Request quota exceeded for this API key", {
+          "Retry-After": String(Math.ceil(decision.retryAfterMs / 1000)),
+        });
+      }
+      if (decision.remaining !== undefined) {
+        res.setHeader("X-RateLimit-Remaining", String(decision.remaining));
+      }
+    }
+
+    if (options.transport === "http") {
+      await handleStreamable(req, res, identity);
+    } else {
+      await handleSse(req, res, url, identity);
+    }
+  };
+
+  const httpServer = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (error instanceof HttpError) {
+        if (error.status >= 500) {
+          logger.error("http:request_failed", { path: req.url, error: error.message });
+        }
+        sendJsonRpcError(res, error.status, error.message, error.headers);
+        return;
+      }
+      logger.error("http:request_failed", { path: req.url, error: (error as Error).message });
+      sendJsonRpcError(res, 500, "Internal server error");
+    });
+  });
+
+  const port = options.port ?? DEFAULT_PORT;
+  const host = options.host ?? DEFAULT_HOST;
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const url = `http://${address.family === "IPv6" ? `[${address.address}]` : address.address}:${address.port}`;
+  logger.info("http:listening", { url, transport: options.transport, auth: authenticator.enabled });
+
+  const sweepTimer = setInterval(sweepIdleSessions, Math.min(sessionIdleTimeoutMs, MAX_SESSION_SWEEP_INTERVAL_MS));
+  sweepTimer.unref();
+
+  return {
+    server: httpServer,
+    url,
+    close: async () => {
+      clearInterval(sweepTimer);
+      const open = [...sessions.values()];
+      sessions.clear();
+      await Promise.allSettled(open.map((entry) => entry.server.close()));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
+
+function requireSession(
+  sessions: Map<string, McpSessionEntry>,
+  sessionId: string,
+  identity: ApiKeyIdentity | undefined,
+): McpSessionEntry {
+  const entry = sessions.get(sessionId);
+  // A session opened with another key is reported as missing rather than forbidden
+  if (!entry || entry.owner !== identity?.name) {
+    throw new HttpError(404, "Session not found");
+  }
+  return entry;
+}
+
+function applyCors(req: IncomingMessage, res: ServerResponse, cors: CorsOptions | undefined): void {
+  const origin = header(req, "origin");
+  if (!cors || !origin) {
+    return;
+  }
+  const allowed = cors.origins === "*" || cors.origins.includes(origin);
+  if (!allowed) {
+    return;
+  }
+  res.setHeader("Access-Control-Allow-Origin", cors.origins === "*" ? "*" : origin);
+  res.setHeader("Vary", "Origin");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", ALLOWED_HEADERS);
+  res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id, Retry-After, X-RateLimit-Remaining");
+  res.setHeader("Access-Control-Max-Age", String(cors.maxAgeSeconds ?? 600));
+}
+
+function header(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) {
+      throw new HttpError(413, `Request body exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json", ...headers }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null }, headers);
+}
@@ -0,0 +1,39 @@
+export interface AccessibilityNode {
+  role: string;
+  name?: string;
+  value?: string | number;
+  description?: string;
+  /** e.g. "focused", "disabled", "checked", "collapsed", "level=2" */
+  states?: string[];
+  /** Unique CSS selector of the element; set on controls so click/fill steps can target them */
+  ref?: string;
+  children?: AccessibilityNode[];
+  /** Children left out because of maxDepth */
+  omittedChildren?: number;
+}
+
+export interface AccessibilityTreeInput {
+  url: string;
+  /** Run against an open browser session instead of a fresh pooled page */
+  sessionId?: string;
+  /** Snapshot only this element's subtree */
+  selector?: string;
+  headers?: Record<string, string>;
+  /** Leave out generic containers and nodes without semantics. Default: true */
+  interestingOnly?: boolean;
+  /** Deepest level returned; the root is level 0 */
+  maxDepth?: number;
+}
+
+export interface AccessibilityTreeResult {
+  url: string;
+  selector?: string;
+  /** Null when the page (or the selector's subtree) exposes nothing */
+  tree: AccessibilityNode | null;
+  nodeCount: number;
+  /** Controls that received a ref */
+  refCount: number;
+  /** True when maxDepth or the ref limit cut something off */
+  truncated: boolean;
+  capturedAt: string;
+}
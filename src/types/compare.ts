@@ -0,0 +1,56 @@
+import type { ActionStep, ElementRect } from "./screenshot.js";
+
+/** Area to leave out of a visual comparison: either a CSS selector or a pixel rectangle */
+export type IgnoreRegion =
+  | { selector: string }
+  | ElementRect;
+
+export interface CompareScreenshotsInput {
+  /** Page to capture. Required unless sessionId is given */
+  url?: string;
+  sessionId?: string;
+  steps?: ActionStep[];
+  headers?: Record<string, string>;
+  /** Storage key of the baseline PNG */
+  baselineKey: string;
+  /** Storage target that holds the baseline. Defaults to the default target */
+  storageTarget?: string;
+  /** Maximum mismatch percentage (0-100) that still passes. Default: 0.1 */
+  threshold?: number;
+  /** Per-pixel colour sensitivity (0-1). Default: 0.1 */
+  colorThreshold?: number;
+  /** Count anti-aliased pixels as differences. Default: false */
+  includeAntialiasing?: boolean;
+  ignoreRegions?: IgnoreRegion[];
+  /** Save the new capture as the baseline (creates it when missing) */
+  updateBaseline?: boolean;
+}
+
+export interface DiffRegionInfo extends ElementRect {
+  pixels: number;
+}
+
+export interface CompareScreenshotsResult {
+  url: string;
+  baselineKey: string;
+  /** False when the baseline did not exist and was created from this capture */
+  compared: boolean;
+  passed: boolean;
+  threshold: number;
+  mismatchPercentage: number;
+  diffPixels: number;
+  comparedPixels: number;
+  antialiasedPixels: number;
+  ignoredPixels: number;
+  dimensionsMatch: boolean;
+  baselineSize: { width: number; height: number } | null;
+  currentSize: { width: number; height: number };
+  regions: DiffRegionInfo[];
+  /** Selectors from ignoreRegions that matched no element on the page */
+  unmatchedSelectors: string[];
+  baselineUpdated: boolean;
+  capturedAt: string;
+  /** PNG with changes highlighted; absent when no comparison was made */
+  diffImageBase64?: string;
+  currentImageBase64: string;
+}
@@ -0,0 +1,37 @@
+/**
+ * Console output, uncaught exceptions and failed requests collected while a
+ * page loads and the steps run.
+ */
+
+export interface ConsoleEntry {
+  /** Console method: log, info, warn, error, debug, ... */
+  level: string;
+  text: string;
+  /** Script position as url:line:column, when the browser reports one */
+  location?: string;
+}
+
+export interface PageErrorEntry {
+  message: string;
+  stack?: string;
+}
+
+export interface FailedRequestEntry {
+  url: string;
+  method: string;
+  resourceType: string;
+  /** HTTP status for responses of 400 and above */
+  status?: number;
+  /** Network error for requests that got no response */
+  errorText?: string;
+}
+
+export interface ConsoleReport {
+  /** Number of messages per level, including dropped ones */
+  counts: Record<string, number>;
+  messages: ConsoleEntry[];
+  pageErrors: PageErrorEntry[];
+  failedRequests: FailedRequestEntry[];
+  /** Set when messages beyond the collection limit were dropped */
+  truncated?: boolean;
+}
@@ -1,4 +1,6 @@
 import type { CaptureCookieInput, ViewportConfig, RetryConfig } from "./screenshot.js";
+import type { HarOptions } from "./har.js";
+import type { NetworkConfig, NetworkRuleMatch } from "./network.js";
 
 export type DomNode =
   | {
@@ -14,12 +16,35 @@ export type DomNode =
 
 export interface ExtractDomInput {
   url: string;
+  /** Run against an open browser session instead of a fresh pooled page */
+  sessionId?: string;
   selector?: string;
+  /** "markdown" converts the visible content to Markdown instead of returning HTML, text and the tree */
+  format?: "full" | "markdown";
+  /** "article" narrows the extraction to the page's main content container */
+  mode?: "page" | "article";
   headers?: Record<string, string>;
   cookies?: CaptureCookieInput[];
   viewport?: ViewportConfig;
   retryPolicy?: RetryConfig;
   storageTarget?: string;
+  /** Record network traffic as a HAR file; true is shorthand for {} */
+  recordHar?: boolean | HarOptions;
+  /** Block, mock and rewrite requests while the page loads */
+  network?: NetworkConfig;
+  /** Collect console messages, uncaught exceptions and failed requests */
+  collectConsole?: boolean;
+  /** Fail the extraction on console.error or an uncaught exception; implies collectConsole */
+  failOnConsoleError?: boolean;
+}
+
+/** What article mode found; the container selector can be reused in later steps */
+export interface ArticleInfo {
+  selector: string;
+  title?: string;
+  byline?: string;
+  /** ISO 8601 when the page's date could be parsed, otherwise as written */
+  publishedAt?: string;
 }
 
 export interface ExtractDomResult {
@@ -28,10 +53,17 @@ export interface ExtractDomResult {
   html: string;
   text: string;
   domTree: DomNode;
+  /** Set when format is "markdown" */
+  markdown?: string;
+  /** Set when mode is "article" */
+  article?: ArticleInfo;
   nodeCount: number;
   truncated: boolean;
   capturedAt: string;
   viewportPreset?: string;
   retryAttempts?: number;
   storageLocation?: string;
+  /** Network rules that matched at least one request */
+  networkRules?: NetworkRuleMatch[];
 }
+
@@ -0,0 +1,39 @@
+export interface ElementBox {
+  /** Page coordinates in CSS pixels, not viewport-relative */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface InteractiveElement {
+  tagName: string;
+  /** Explicit role, input type (text, email, checkbox...), or what the tag implies (link, button, select) */
+  type: string;
+  /** Accessible label: aria-labelledby, aria-label, <label>, text, alt, placeholder or title; empty when none */
+  label: string;
+  box: ElementBox;
+  disabled: boolean;
+  /** Selectors that each match only this element, most robust first */
+  selectors: string[];
+}
+
+export interface FindElementsInput {
+  url: string;
+  /** Run against an open browser session instead of a fresh pooled page */
+  sessionId?: string;
+  /** Only look inside this element */
+  selector?: string;
+  headers?: Record<string, string>;
+  /** Most elements returned. Default: 100 */
+  limit?: number;
+}
+
+export interface FindElementsResult {
+  url: string;
+  selector?: string;
+  elements: InteractiveElement[];
+  /** True when the limit stopped the scan before every candidate was checked */
+  truncated: boolean;
+  capturedAt: string;
+}
@@ -0,0 +1,113 @@
+/**
+ * HTTP Archive (HAR) 1.2 structures, limited to the fields the recorder fills in.
+ * See http://www.softwareishard.com/blog/har-12-spec/
+ */
+
+export interface HarOptions {
+  /** Store response bodies up to maxBodyBytes. Default: false */
+  includeBodies?: boolean;
+  /** Largest body to store, in bytes. Default: 65536 */
+  maxBodyBytes?: number;
+}
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarPage {
+  startedDateTime: string;
+  id: string;
+  title: string;
+  pageTimings: {
+    onContentLoad: number;
+    onLoad: number;
+  };
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: {
+    mimeType: string;
+    text: string;
+  };
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarContent {
+  size: number;
+  mimeType: string;
+  text?: string;
+  encoding?: "base64";
+  comment?: string;
+}
+
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: HarContent;
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  send: number;
+  wait: number;
+  receive: number;
+  ssl: number;
+}
+
+export interface HarEntry {
+  pageref: string;
+  startedDateTime: string;
+  /** Total elapsed time in milliseconds */
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: HarTimings;
+  serverIPAddress?: string;
+  /** Puppeteer resource type (document, script, xhr, ...) */
+  _resourceType: string;
+  /** Network error for requests that never got a response */
+  _failureText?: string;
+}
+
+export interface Har {
+  log: {
+    version: "1.2";
+    creator: { name: string; version: string };
+    pages: HarPage[];
+    entries: HarEntry[];
+  };
+}
+
+export interface HarRequestSummary {
+  url: string;
+  method: string;
+  status: number;
+  time: number;
+  error?: string;
+}
+
+export interface HarSummary {
+  totalRequests: number;
+  /** Sum of response body sizes where known */
+  totalBytes: number;
+  /** Requests with a network error or an HTTP status of 400 or above */
+  failed: HarRequestSummary[];
+  slowest: HarRequestSummary[];
+}
@@ -0,0 +1,45 @@
+export interface ExtractMetadataInput {
+  url: string;
+  /** Run against an open browser session instead of a fresh pooled page */
+  sessionId?: string;
+  headers?: Record<string, string>;
+}
+
+/** A microdata (itemscope) or RDFa (typeof) item; nested items appear as property values */
+export interface StructuredDataItem {
+  /** itemtype or typeof, resolved against vocab */
+  types: string[];
+  /** itemid or resource/about; null when the item is anonymous */
+  id: string | null;
+  properties: Record<string, Array<string | StructuredDataItem>>;
+}
+
+export interface MetaTag {
+  name: string | null;
+  property: string | null;
+  httpEquiv: string | null;
+  content: string;
+}
+
+export interface LinkTag {
+  rel: string;
+  /** Resolved against the document base URL */
+  href: string;
+  hreflang: string | null;
+  type: string | null;
+  title: string | null;
+  sizes: string | null;
+}
+
+/** What the in-page collector returns; buildPageMetadata turns it into PageMetadata */
+export interface RawPageMetadata {
+  url: string;
+  title: string;
+  language: string;
+  metas: MetaTag[];
+  links: LinkTag[];
+  /** Text of each application/ld+json script, unparsed */
+  jsonLd: string[];
+  microdata: StructuredDataItem[];
+  rdfa: StructuredDataItem[];
+}
@@ -0,0 +1,43 @@
+/**
+ * Request interception rules: block, mock and rewrite traffic so captures are
+ * reproducible without third-party noise.
+ */
+
+/** Groups of requests that can be blocked by name */
+export type BlockCategory = "ads" | "analytics" | "fonts" | "media" | "images" | "stylesheets";
+
+export interface NetworkMock {
+  /** URL glob; `*` matches any characters, `?` a single one */
+  url: string;
+  /** Only mock this HTTP method. Default: any */
+  method?: string;
+  /** Default: 200 */
+  status?: number;
+  headers?: Record<string, string>;
+  /** Served as application/json */
+  json?: unknown;
+  /** Served as text/plain unless contentType is set */
+  body?: string;
+  /** File to serve, relative to the configured mock directory; the content type follows the extension */
+  file?: string;
+  contentType?: string;
+}
+
+export interface NetworkConfig {
+  /** URL globs of requests to abort */
+  block?: string[];
+  blockResourceTypes?: BlockCategory[];
+  /** First matching mock answers the request without touching the network */
+  mocks?: NetworkMock[];
+  /** Host glob → header changes; a null value removes the header */
+  headers?: Record<string, Record<string, string | null>>;
+}
+
+export interface NetworkRuleMatch {
+  action: "block" | "mock" | "headers";
+  /** The glob, host pattern or resource type as configured */
+  rule: string;
+  matches: number;
+  /** First few matched URLs */
+  urls: string[];
+}
@@ -1,3 +1,8 @@
+import type { StepExecutionInfo } from "../utils/responseFormat.js";
+import type { TraceOptions } from "../utils/trace.js";
+import type { HarOptions } from "./har.js";
+import type { NetworkConfig, NetworkRuleMatch } from "./network.js";
+
 export interface CaptureCookieInput {
   name: string;
   value: string;
@@ -92,6 +97,12 @@ export interface ScreenshotStep {
   fullPage?: boolean;
   /** CSS selector of specific element to capture instead of full page/viewport. */
   captureElement?: string;
+  /** Output format. Default: 'png' */
+  format?: "png" | "jpeg" | "webp";
+  /** Compression quality 1-100 for jpeg/webp. Default: 80 */
+  quality?: number;
+  /** Byte budget: quality is lowered, then the image downscaled, until it fits */
+  maxBytes?: number;
 }
 
 // ============================================
@@ -358,6 +369,12 @@ export interface SimpleScreenshotStep {
   fullPage?: boolean;
   /** CSS selector to capture specific element instead of page */
   element?: string;
+  /** Output format. Default: 'png' */
+  format?: "png" | "jpeg" | "webp";
+  /** Compression quality 1-100 for jpeg/webp. Default: 80 */
+  quality?: number;
+  /** Byte budget: quality is lowered, then the image downscaled, until it fits */
+  maxBytes?: number;
 }
 
 export interface SimpleViewportStep {
@@ -459,10 +476,28 @@ export type ActionStep =
 
 export interface CaptureScreenshotInput {
   url: string;
+  /** Run against an open browser session instead of a fresh pooled page */
+  sessionId?: string;
   headers?: Record<string, string>;
   retryPolicy?: RetryConfig;
   storageTarget?: string;
   steps?: ActionStep[];
+  /** Replay the steps once per device preset in the same browser */
+  devices?: string[];
+  /** With devices, also return one image with all captures side by side */
+  composite?: boolean;
+  /** 'json' returns structured results and structured errors. Default: 'text' */
+  responseFormat?: "text" | "json";
+  /** Record a per-step timeline; true is shorthand for {} */
+  trace?: boolean | TraceOptions;
+  /** Record network traffic as a HAR file; true is shorthand for {} */
+  recordHar?: boolean | HarOptions;
+  /** Block, mock and rewrite requests while the page loads and the steps run */
+  network?: NetworkConfig;
+  /** Collect console messages, uncaught exceptions and failed requests */
+  collectConsole?: boolean;
+  /** Fail the capture on console.error or an uncaught exception; implies collectConsole */
+  failOnConsoleError?: boolean;
   // Legacy parameters - will be converted to steps internally
   /** @deprecated Use steps with type 'cookie' instead */
   cookies?: CaptureCookieInput[];
@@ -484,16 +519,80 @@ export interface ScreenshotMetadata {
   scrollX: number;
   scrollY: number;
   bytes: number;
+  /** Encoded image format actually produced (may differ from the request under a byte budget) */
+  format?: "png" | "jpeg" | "webp";
+  /** Pixel dimensions read from the encoded image */
+  imageWidth?: number;
+  imageHeight?: number;
+  /** Compression quality used for jpeg/webp */
+  quality?: number;
+  /** Downscale factor applied to meet maxBytes (absent when full size) */
+  scale?: number;
+  /** Set when the image is still larger than maxBytes after every reduction */
+  budgetExceeded?: boolean;
   capturedAt: string;
   viewportPreset?: string;
+  /** Device preset this capture was taken with (multi-device runs) */
+  device?: string;
   retryAttempts?: number;
   storageLocation?: string;
   clickActionsExecuted?: number;
   stepsExecuted?: number;
+  /** Network rules that matched at least one request */
+  networkRules?: NetworkRuleMatch[];
+}
+
+export interface ElementRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface CaptureScreenshotResult {
   metadata: ScreenshotMetadata;
   imageBase64: string;
   mimeType: string;
+  /** Bounding boxes in screenshot pixels, keyed by selector (only when requested) */
+  elementRects?: Record<string, ElementRect[]>;
+  /** Outcome of each executed step */
+  steps?: StepExecutionInfo[];
+  /** The first step that failed, for error reporting; the capture still completes */
+  failedStep?: FailedStep;
+  /** One entry per requested device, in request order */
+  deviceCaptures?: DeviceCaptureResult[];
+  composite?: CompositeImage;
+}
+
+export interface FailedStep {
+  /**
+   * Position in the caller's steps, counting from 1. Unset for steps the
+   * server added: legacy parameters, a device's viewport, the final screenshot.
+   */
+  index?: number;
+  /** The step as it was executed */
+  step: ActionStep;
+  error: string;
+  /** Steps that ran, all successfully, before this one */
+  stepsCompleted: number;
+  /** Position in the caller's steps of the last step that ran before this one */
+  lastSuccessfulStep?: number;
+  /** Device whose run the step failed in (multi-device runs) */
+  device?: string;
+}
+
+export interface DeviceCaptureResult {
+  device: string;
+  metadata: ScreenshotMetadata;
+  imageBase64: string;
+  mimeType: string;
+}
+
+export interface CompositeImage {
+  imageBase64: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  /** Left edge of each device's capture within the composite */
+  devices: Array<{ device: string; x: number }>;
 }
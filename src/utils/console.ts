@@ -0,0 +1,154 @@
+/**
+ * Collects what a page reports about itself: console messages, uncaught
+ * exceptions and failed requests. Attached next to the HAR recorder and
+ * detached the same way.
+ */
+
+import type { ConsoleMessage, HTTPRequest, HTTPResponse, Page } from "puppeteer";
+
+import type { ConsoleEntry, ConsoleReport, FailedRequestEntry, PageErrorEntry } from "../types/console.js";
+
+const MAX_MESSAGES = 200;
+const MAX_FAILED_REQUESTS = 100;
+const MAX_TEXT_LENGTH = 2_000;
+const SUMMARY_LIMIT = 10;
+
+export class ConsoleCollector {
+  private readonly counts: Record<string, number> = {};
+  private readonly messages: ConsoleEntry[] = [];
+  private readonly pageErrors: PageErrorEntry[] = [];
+  private readonly failedRequests: FailedRequestEntry[] = [];
+  private truncated = false;
+
+  /** Starts listening on the page; the returned function stops */
+  attach(page: Page): () => void {
+    const onConsole = (message: ConsoleMessage) => {
+      const level = message.type();
+      this.counts[level] = (this.counts[level] ?? 0) + 1;
+      if (this.messages.length >= MAX_MESSAGES) {
+        this.truncated = true;
+        return;
+      }
+      const { url, lineNumber, columnNumber } = message.location();
+      this.messages.push({
+        level,
+        text: clip(message.text()),
+        ...(url ? { location: `${url}:${(lineNumber ?? 0) + 1}:${(columnNumber ?? 0) + 1}` } : {}),
+      });
+    };
+    const onPageError = (error: unknown) => {
+      this.pageErrors.push(
+        error instanceof Error
+          ? { message: clip(error.message), ...(error.stack ? { stack: clip(error.stack) } : {}) }
+          : { message: clip(String(error)) },
+      );
+    };
+    const onRequestFailed = (request: HTTPRequest) => {
+      this.addFailedRequest(request, { errorText: request.failure()?.errorText ?? "Request failed" });
+    };
+    const onResponse = (response: HTTPResponse) => {
+      if (response.status() >= 400) {
+        this.addFailedRequest(response.request(), { status: response.status() });
+      }
+    };
+
+    page.on("console", onConsole);
+    page.on("pageerror", onPageError);
+    page.on("requestfailed", onRequestFailed);
+    page.on("response", onResponse);
+
+    return () => {
+      page.off("console", onConsole);
+      page.off("pageerror", onPageError);
+      page.off("requestfailed", onRequestFailed);
+      page.off("response", onResponse);
+    };
+  }
+
+  /** console.error calls plus uncaught exceptions */
+  get errorCount(): number {
+    return (this.counts.error ?? 0) + this.pageErrors.length;
+  }
+
+  report(): ConsoleReport {
+    return {
+      counts: { ...this.counts },
+      messages: [...this.messages],
+      pageErrors: [...this.pageErrors],
+      failedRequests: [...this.failedRequests],
+      ...(this.truncated ? { truncated: true } : {}),
+    };
+  }
+
+  /**
+   * Error that fails a capture when the page reported JavaScript errors, or
+   * undefined when it did not.
+   */
+  toError(): Error | undefined {
+    if (this.errorCount === 0) {
+      return undefined;
+    }
+    const first = this.pageErrors[0]?.message ?? this.messages.find((message) => message.level === "error")?.text;
+    const count = this.errorCount;
+    return new Error(`Page reported ${count} JavaScript error${count === 1 ? "" : "s"}${first ? `: ${first}` : ""}`);
+  }
+
+  private addFailedRequest(request: HTTPRequest, outcome: Pick<FailedRequestEntry, "status" | "errorText">) {
+    if (this.failedRequests.length >= MAX_FAILED_REQUESTS) {
+      this.truncated = true;
+      return;
+    }
+    this.failedRequests.push({
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      ...outcome,
+    });
+  }
+}
+
+function clip(text: string): string {
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text;
+}
+
+export function formatConsoleReport(report: ConsoleReport): string {
+  const counts = Object.entries(report.counts)
+    .map(([level, count]) => `${count} ${level}`)
+    .join(", ");
+  const lines = [
+    `CONSOLE: ${counts || "no messages"}; ${report.pageErrors.length} uncaught exception${report.pageErrors.length === 1 ? "" : "s"}; ${report.failedRequests.length} failed request${report.failedRequests.length === 1 ? "" : "s"}`,
+  ];
+
+  if (report.pageErrors.length > 0) {
+    lines.push("Uncaught exceptions:");
+    for (const error of report.pageErrors.slice(0, SUMMARY_LIMIT)) {
+      lines.push(`  ✗ ${error.stack ?? error.message}`.replace(/\n\s*/g, "\n      "));
+    }
+  }
+
+  const notable = report.messages.filter((message) => message.level === "error" || message.level === "warn");
+  if (notable.length > 0) {
+    lines.push("Errors and warnings:");
+    for (const message of notable.slice(0, SUMMARY_LIMIT)) {
+      lines.push(`  [${message.level}] ${message.text}${message.location ? ` (${message.location})` : ""}`);
+    }
+    if (notable.length > SUMMARY_LIMIT) {
+      lines.push(`  … ${notable.length - SUMMARY_LIMIT} more`);
+    }
+  }
+
+  if (report.failedRequests.length > 0) {
+    lines.push("Failed requests:");
+    for (const request of report.failedRequests.slice(0, SUMMARY_LIMIT)) {
+      lines.push(`  ✗ ${request.method} ${request.url} ${request.errorText ?? request.status}`);
+    }
+    if (report.failedRequests.length > SUMMARY_LIMIT) {
+      lines.push(`  … ${report.failedRequests.length - SUMMARY_LIMIT} more`);
+    }
+  }
+
+  if (report.truncated) {
+    lines.push("(Some entries were dropped after the collection limit)");
+  }
+  return lines.join("\n");
+}
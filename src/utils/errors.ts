@@ -48,8 +48,29 @@ export const ERROR_CODES = {
   STEP_TIMEOUT: "STEP_TIMEOUT",
   FILL_FAILED: "FILL_FAILED",
   SCROLL_FAILED: "SCROLL_FAILED",
+  CAPTURE_FAILED: "CAPTURE_FAILED",
+  PAGE_ERROR: "PAGE_ERROR",
 } as const;
 
+/**
+ * Process exit codes of the command-line commands, one per error code.
+ * 0-9 are reserved for the CLI itself (success, unexpected failure, usage).
+ */
+export const ERROR_EXIT_CODES: Record<keyof typeof ERROR_CODES, number> = {
+  ELEMENT_NOT_FOUND: 10,
+  ELEMENT_NOT_VISIBLE: 11,
+  ELEMENT_NOT_CLICKABLE: 12,
+  NAVIGATION_TIMEOUT: 13,
+  NAVIGATION_FAILED: 14,
+  INVALID_SELECTOR: 15,
+  INVALID_URL: 16,
+  STEP_TIMEOUT: 17,
+  FILL_FAILED: 18,
+  SCROLL_FAILED: 19,
+  CAPTURE_FAILED: 20,
+  PAGE_ERROR: 21,
+};
+
 /**
  * Creates structured error response for LLMs
  */
@@ -93,6 +114,61 @@ export function createLLMError(
   };
 }
 
+/**
+ * Maps an exception thrown during a capture to the closest error code, so
+ * clients get a structured error instead of only the message
+ */
+export function classifyCaptureError(
+  error: unknown,
+  details: Omit<Parameters<typeof createLLMError>[1], "message">
+): LLMErrorResponse {
+  const message = error instanceof Error ? error.message : String(error);
+  const code = matchErrorCode(message);
+  const response = createLLMError(code, { ...details, message });
+  if (code === "NAVIGATION_TIMEOUT" || code === "NAVIGATION_FAILED") {
+    response.recovery.action = "retry";
+  } else if (code === "CAPTURE_FAILED" || code === "PAGE_ERROR") {
+    response.recovery.action = "abort";
+  }
+  return response;
+}
+
+/**
+ * Maps the error a step failed with to the closest error code. The details
+ * carry the step as the caller wrote it (originalParams), so the corrected
+ * steps repeat it rather than a generic example.
+ */
+export function classifyStepError(details: ErrorDetails): LLMErrorResponse {
+  const code = matchStepErrorCode(details.message);
+  switch (code) {
+    case "ELEMENT_NOT_FOUND":
+    case "ELEMENT_NOT_VISIBLE":
+    case "INVALID_SELECTOR":
+      return RECOVERABLE_ERRORS[code](details);
+    default:
+      return createLLMError(code, details);
+  }
+}
+
+function matchStepErrorCode(message: string): keyof typeof ERROR_CODES {
+  if (/not a valid selector|invalid selector/i.test(message)) return "INVALID_SELECTOR";
+  // Puppeteer reports a selector that never appeared as a timeout, so this is checked before timeouts
+  if (/waiting for selector|no element found|element not found|failed to find element/i.test(message)) return "ELEMENT_NOT_FOUND";
+  if (/not visible|not an HTMLElement|not clickable/i.test(message)) return "ELEMENT_NOT_VISIBLE";
+  if (/timed? ?out|exceeded/i.test(message)) return "STEP_TIMEOUT";
+  return "CAPTURE_FAILED";
+}
+
+function matchErrorCode(message: string): keyof typeof ERROR_CODES {
+  // Checked first: the page's own error text may mention timeouts or URLs
+  if (/^Page reported \d+ JavaScript errors?/.test(message)) return "PAGE_ERROR";
+  if (/invalid url|unsupported protocol/i.test(message)) return "INVALID_URL";
+  if (/not a valid selector|invalid selector/i.test(message)) return "INVALID_SELECTOR";
+  if (/timed? ?out/i.test(message)) return "NAVIGATION_TIMEOUT";
+  if (/navigation failed|net::ERR_/i.test(message)) return "NAVIGATION_FAILED";
+  return "CAPTURE_FAILED";
+}
+
 /**
  * Recovery-focused error responses with corrected steps
  */
@@ -106,14 +182,20 @@ export const RECOVERABLE_ERRORS = {
       stepType: details.stepType,
       target: details.target,
     },
-    recovery: {
-      action: "modify",
-      description: "Add a wait step before this action, or verify the selector exists",
-      correctedSteps: [
-        { type: "wait", for: details.target, timeout: 10000 },
-        { type: details.stepType, target: details.target, ...details.originalParams },
-      ],
-    },
+    recovery: isWaitStep(details.stepType)
+      ? {
+          action: "modify",
+          description: "Wait longer, or verify the selector exists",
+          correctedSteps: [{ ...repeatedStep(details), timeout: 30000 }],
+        }
+      : {
+          action: "modify",
+          description: "Add a wait step before this action, or verify the selector exists",
+          correctedSteps: [
+            { type: "wait", for: details.target, timeout: 10000 },
+            repeatedStep(details),
+          ],
+        },
     context: {
       url: details.url,
       stepsTotal: details.stepsTotal,
@@ -138,7 +220,7 @@ export const RECOVERABLE_ERRORS = {
       correctedSteps: [
         { type: "scroll", to: details.target },
         { type: "wait", for: details.target, timeout: 2000 },
-        { type: details.stepType, target: details.target, ...details.originalParams },
+        repeatedStep(details),
       ],
     },
     context: {
@@ -193,6 +275,15 @@ export const RECOVERABLE_ERRORS = {
   }),
 };
 
+/** The failing step as the caller wrote it, or rebuilt from its type and target */
+function repeatedStep(details: ErrorDetails): object {
+  return details.originalParams ?? { type: details.stepType, target: details.target };
+}
+
+function isWaitStep(stepType: string | undefined): boolean {
+  return stepType === "wait" || stepType === "waitForSelector";
+}
+
 function getFixForError(code: keyof typeof ERROR_CODES, details: any): { description: string; example: object } {
   switch (code) {
     case "ELEMENT_NOT_FOUND":
@@ -264,6 +355,15 @@ function getFixForError(code: keyof typeof ERROR_CODES, details: any): { descrip
         },
       };
       
+    case "PAGE_ERROR":
+      return {
+        description: "The page threw JavaScript errors during the capture. Check the console report, or drop failOnConsoleError to capture anyway.",
+        example: {
+          url: details.url,
+          collectConsole: true,
+        },
+      };
+
     default:
       return {
         description: details.message,
@@ -0,0 +1,299 @@
+/**
+ * Records the network activity of a page as an HTTP Archive (HAR 1.2).
+ *
+ * A recorder can be attached to several pages in turn (retries, devices); each
+ * attachment becomes one HAR page and its requests reference it.
+ */
+
+import type { HTTPRequest, Page } from "puppeteer";
+
+import packageJson from "../../package.json" with { type: "json" };
+import type { Logger } from "../logger.js";
+import { getStorageTarget, getDefaultStorageTarget } from "../storage/index.js";
+import { getGlobalTelemetry } from "../telemetry/index.js";
+import type {
+  Har,
+  HarEntry,
+  HarNameValue,
+  HarOptions,
+  HarPage,
+  HarRequestSummary,
+  HarSummary,
+  HarTimings,
+} from "../types/har.js";
+
+export const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+const SUMMARY_LIMIT = 5;
+const TEXT_MIME_TYPE = /^text\/|^application\/(json|javascript|ecmascript|xml|x-www-form-urlencoded)|\+json|\+xml|^image\/svg/i;
+
+type ResourceTiming = NonNullable<ReturnType<NonNullable<ReturnType<HTTPRequest["response"]>>["timing"]>>;
+
+export class HarRecorder {
+  private readonly pages: HarPage[] = [];
+  private readonly entries: HarEntry[] = [];
+  private readonly includeBodies: boolean;
+  private readonly maxBodyBytes: number;
+  private readonly logger?: Logger;
+
+  constructor(options: HarOptions = {}, logger?: Logger) {
+    this.includeBodies = options.includeBodies ?? false;
+    this.maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+    this.logger = logger;
+  }
+
+  /**
+   * Starts recording the page's requests. The returned function stops
+   * recording and waits for pending body reads.
+   */
+  attach(page: Page, title: string): () => Promise<void> {
+    const pageref = `page_${this.pages.length + 1}`;
+    this.pages.push({
+      startedDateTime: new Date().toISOString(),
+      id: pageref,
+      title,
+      pageTimings: { onContentLoad: -1, onLoad: -1 },
+    });
+
+    const inFlight = new Map<HTTPRequest, number>();
+    const completions: Promise<void>[] = [];
+
+    const onRequest = (request: HTTPRequest) => {
+      inFlight.set(request, Date.now());
+    };
+    const onDone = (request: HTTPRequest) => {
+      const startedAt = inFlight.get(request);
+      if (startedAt === undefined) {
+        return;
+      }
+      inFlight.delete(request);
+      completions.push(this.complete(pageref, request, startedAt, request.failure()?.errorText));
+    };
+
+    page.on("request", onRequest);
+    page.on("requestfinished", onDone);
+    page.on("requestfailed", onDone);
+
+    return async () => {
+      page.off("request", onRequest);
+      page.off("requestfinished", onDone);
+      page.off("requestfailed", onDone);
+      await Promise.all(completions);
+
+      for (const [request, startedAt] of inFlight) {
+        this.entries.push(
+          buildEntry(pageref, request, startedAt, Date.now(), undefined, "Request did not finish before the capture ended"),
+        );
+      }
+    };
+  }
+
+  toHar(): Har {
+    return {
+      log: {
+        version: "1.2",
+        creator: { name: "mcp-page-capture", version: packageJson.version },
+        pages: [...this.pages],
+        entries: [...this.entries].sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime)),
+      },
+    };
+  }
+
+  private async complete(pageref: string, request: HTTPRequest, startedAt: number, failureText?: string): Promise<void> {
+    const endedAt = Date.now();
+    const response = request.response();
+    let body: Buffer | undefined;
+    let bodyComment: string | undefined;
+
+    const status = response?.status() ?? 0;
+    if (response && this.includeBodies && (status < 300 || status >= 400)) {
+      try {
+        body = await response.buffer();
+        if (body.length > this.maxBodyBytes) {
+          bodyComment = `Body omitted: ${body.length} bytes exceeds maxBodyBytes (${this.maxBodyBytes})`;
+        }
+      } catch (error) {
+        this.logger?.debug("har:body_unavailable", { url: request.url(), error: (error as Error).message });
+      }
+    }
+
+    const entry = buildEntry(pageref, request, startedAt, endedAt, body, failureText);
+    if (bodyComment) {
+      entry.response.content.comment = bodyComment;
+    } else if (body) {
+      const textual = TEXT_MIME_TYPE.test(entry.response.content.mimeType);
+      entry.response.content.text = body.toString(textual ? "utf8" : "base64");
+      if (!textual) {
+        entry.response.content.encoding = "base64";
+      }
+    }
+    this.entries.push(entry);
+  }
+}
+
+function buildEntry(
+  pageref: string,
+  request: HTTPRequest,
+  startedAt: number,
+  endedAt: number,
+  body: Buffer | undefined,
+  failureText: string | undefined,
+): HarEntry {
+  const response = request.response();
+  const requestHeaders = request.headers();
+  const responseHeaders = response?.headers() ?? {};
+  const postData = request.postData();
+  const contentLength = Number(responseHeaders["content-length"]);
+  const size = body?.length ?? (Number.isFinite(contentLength) ? contentLength : -1);
+  const time = endedAt - startedAt;
+
+  return {
+    pageref,
+    startedDateTime: new Date(startedAt).toISOString(),
+    time,
+    request: {
+      method: request.method(),
+      url: request.url(),
+      httpVersion: "",
+      cookies: [],
+      headers: toNameValues(requestHeaders),
+      queryString: parseQueryString(request.url()),
+      ...(postData !== undefined
+        ? { postData: { mimeType: requestHeaders["content-type"] ?? "", text: postData } }
+        : {}),
+      headersSize: -1,
+      bodySize: postData !== undefined ? Buffer.byteLength(postData) : 0,
+    },
+    response: {
+      status: response?.status() ?? 0,
+      statusText: response?.statusText() ?? "",
+      httpVersion: "",
+      cookies: [],
+      headers: toNameValues(responseHeaders),
+      content: {
+        size,
+        mimeType: responseHeaders["content-type"] ?? "",
+      },
+      redirectURL: responseHeaders["location"] ?? "",
+      headersSize: -1,
+      bodySize: size,
+    },
+    cache: {},
+    timings: toHarTimings(response?.timing() ?? null, time),
+    serverIPAddress: response?.remoteAddress().ip,
+    _resourceType: request.resourceType(),
+    ...(failureText ? { _failureText: failureText } : {}),
+  };
+}
+
+/** Puppeteer joins repeated headers with newlines; HAR lists them separately */
+function toNameValues(headers: Record<string, string>): HarNameValue[] {
+  return Object.entries(headers).flatMap(([name, value]) =>
+    value.split("\n").map((part) => ({ name, value: part })),
+  );
+}
+
+function parseQueryString(url: string): HarNameValue[] {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+/** Converts CDP resource timing (ms offsets from requestTime) into HAR phases */
+function toHarTimings(timing: ResourceTiming | null, total: number): HarTimings {
+  if (!timing) {
+    return { blocked: -1, dns: -1, connect: -1, send: 0, wait: total, receive: 0, ssl: -1 };
+  }
+
+  const span = (start: number, end: number) => (start >= 0 && end >= start ? round(end - start) : -1);
+  const dns = span(timing.dnsStart, timing.dnsEnd);
+  const connect = span(timing.connectStart, timing.connectEnd);
+  const ssl = span(timing.sslStart, timing.sslEnd);
+  const send = round(Math.max(0, timing.sendEnd - timing.sendStart));
+  const wait = round(Math.max(0, timing.receiveHeadersEnd - timing.sendEnd));
+  const blocked = round(Math.max(0, [timing.dnsStart, timing.connectStart, timing.sendStart].find((value) => value >= 0) ?? 0));
+  const receive = round(Math.max(0, total - blocked - Math.max(dns, 0) - Math.max(connect, 0) - send - wait));
+
+  return { blocked, dns, connect, send, wait, receive, ssl };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export function summarizeHar(har: Har): HarSummary {
+  const entries = har.log.entries;
+  const toSummary = (entry: HarEntry): HarRequestSummary => ({
+    url: entry.request.url,
+    method: entry.request.method,
+    status: entry.response.status,
+    time: entry.time,
+    ...(entry._failureText ? { error: entry._failureText } : {}),
+  });
+
+  return {
+    totalRequests: entries.length,
+    totalBytes: entries.reduce((total, entry) => total + Math.max(entry.response.content.size, 0), 0),
+    failed: entries.filter((entry) => entry._failureText || entry.response.status >= 400).map(toSummary),
+    slowest: [...entries].sort((a, b) => b.time - a.time).slice(0, SUMMARY_LIMIT).map(toSummary),
+  };
+}
+
+export function formatHarSummary(summary: HarSummary, location?: string): string {
+  const lines = [
+    `NETWORK: ${summary.totalRequests} requests, ${(summary.totalBytes / 1024).toFixed(1)} KB, ${summary.failed.length} failed`,
+  ];
+  const describe = (request: HarRequestSummary) =>
+    `${request.method} ${request.url} ${request.error ?? request.status} (${request.time}ms)`;
+
+  if (summary.failed.length > 0) {
+    lines.push("Failed requests:");
+    lines.push(...summary.failed.slice(0, SUMMARY_LIMIT).map((request) => `  ✗ ${describe(request)}`));
+    if (summary.failed.length > SUMMARY_LIMIT) {
+      lines.push(`  … ${summary.failed.length - SUMMARY_LIMIT} more`);
+    }
+  }
+  if (summary.slowest.length > 0) {
+    lines.push("Slowest requests:");
+    lines.push(...summary.slowest.map((request, index) => `  ${index + 1}. ${describe(request)}`));
+  }
+  if (location) {
+    lines.push(`HAR saved at: ${location}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Saves the recording through the storage target and summarizes it. A HAR that
+ * can't be saved is still summarized, so the capture itself never fails on it.
+ */
+export async function finishHarRecording(
+  recorder: HarRecorder,
+  url: string,
+  storageTarget: string | undefined,
+  logger: Logger,
+): Promise<{ summary: HarSummary; location?: string }> {
+  const har = recorder.toHar();
+  const summary = summarizeHar(har);
+
+  try {
+    const storage = (storageTarget && getStorageTarget(storageTarget)) || getDefaultStorageTarget(logger);
+    const saved = await storage.save(Buffer.from(JSON.stringify(har, null, 2)), {
+      mimeType: "application/json",
+      timestamp: new Date().toISOString(),
+      tags: { kind: "har", url },
+    });
+    await getGlobalTelemetry(logger).emitTelemetry("har.saved", {
+      url,
+      requests: summary.totalRequests,
+      failed: summary.failed.length,
+      bytes: summary.totalBytes,
+      location: saved.location,
+    });
+    return { summary, location: saved.location };
+  } catch (error) {
+    logger.warn("har:save_failed", { url, error: (error as Error).message });
+    return { summary };
+  }
+}
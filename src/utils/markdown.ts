@@ -0,0 +1,287 @@
+/**
+ * Converts the DomNode tree produced by extractDom into Markdown for LLMs:
+ * headings, lists, links, tables, code blocks and image alt text survive,
+ * layout wrappers and non-content elements do not.
+ */
+
+import type { DomNode } from "../types/dom.js";
+
+type ElementNode = Extract<DomNode, { type: "element" }>;
+
+/** Never rendered, even when the in-page serializer kept them */
+const SKIPPED_TAGS = new Set([
+  "head", "script", "style", "noscript", "template", "svg", "canvas",
+  "iframe", "object", "embed", "input", "select", "textarea",
+]);
+
+const BLOCK_TAGS = new Set([
+  "html", "body", "main", "article", "section", "header", "footer", "nav", "aside",
+  "div", "p", "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "li", "dl", "dt", "dd",
+  "pre", "blockquote", "table", "thead", "tbody", "tfoot", "tr", "hr", "figure",
+  "figcaption", "details", "summary", "address", "form", "fieldset",
+]);
+
+export function domTreeToMarkdown(root: DomNode, baseUrl?: string): string {
+  return new MarkdownRenderer(baseUrl).render(root);
+}
+
+class MarkdownRenderer {
+  constructor(private baseUrl?: string) {}
+
+  render(root: DomNode): string {
+    return this.blocks([root])
+      .join("\n\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
+  /** Renders a run of siblings; consecutive inline nodes become one paragraph */
+  private blocks(nodes: DomNode[]): string[] {
+    const output: string[] = [];
+    let inline: DomNode[] = [];
+
+    const flush = () => {
+      const paragraph = tidyInline(this.inline(inline));
+      if (paragraph) {
+        output.push(paragraph);
+      }
+      inline = [];
+    };
+
+    for (const node of nodes) {
+      if (node.type === "element" && isSkipped(node)) {
+        continue;
+      }
+      if (node.type === "text" || !BLOCK_TAGS.has(node.tagName)) {
+        inline.push(node);
+        continue;
+      }
+      flush();
+      const block = this.block(node);
+      if (block) {
+        output.push(block);
+      }
+    }
+    flush();
+    return output;
+  }
+
+  private block(node: ElementNode): string {
+    const { tagName } = node;
+    const heading = /^h([1-6])$/.exec(tagName);
+    if (heading) {
+      const text = tidyInline(this.inline(node.children)).replace(/\s*\n\s*/g, " ");
+      return text ? `${"#".repeat(Number(heading[1]))} ${text}` : "";
+    }
+
+    switch (tagName) {
+      case "ul":
+      case "ol":
+        return this.list(node);
+      case "pre":
+        return this.codeBlock(node);
+      case "blockquote":
+        return this.blocks(node.children)
+          .join("\n\n")
+          .split("\n")
+          .map((line) => (line ? `> ${line}` : ">"))
+          .join("\n");
+      case "table":
+        return this.table(node);
+      case "hr":
+        return "---";
+      default:
+        return this.blocks(node.children).join("\n\n");
+    }
+  }
+
+  private list(node: ElementNode): string {
+    const ordered = node.tagName === "ol";
+    let number = Number(node.attributes.start) || 1;
+
+    return elementChildren(node)
+      .filter((child) => child.tagName === "li" && !isSkipped(child))
+      .map((item) => {
+        const marker = ordered ? `${number++}. ` : "- ";
+        const [first = "", ...rest] = this.blocks(item.children).join("\n").split("\n");
+        const indent = " ".repeat(marker.length);
+        return [`${marker}${first}`, ...rest.map((line) => (line ? `${indent}${line}` : line))].join("\n");
+      })
+      .join("\n");
+  }
+
+  private codeBlock(node: ElementNode): string {
+    const code = rawText(node).replace(/^\n/, "").replace(/\s+$/, "");
+    if (!code) {
+      return "";
+    }
+    const codeChild = elementChildren(node).find((child) => child.tagName === "code");
+    const language = codeLanguage(node) ?? (codeChild ? codeLanguage(codeChild) : undefined) ?? "";
+    const fence = "`".repeat(Math.max(3, longestRun(code, "`") + 1));
+    return `${fence}${language}\n${code}\n${fence}`;
+  }
+
+  private table(node: ElementNode): string {
+    const rows = tableRows(node)
+      .map((row) =>
+        elementChildren(row)
+          .filter((cell) => cell.tagName === "th" || cell.tagName === "td")
+          .map((cell) => tidyInline(this.inline(cell.children)).replace(/\s*\n\s*/g, " ").replace(/\|/g, "\\|")),
+      )
+      .filter((cells) => cells.length > 0);
+    if (rows.length === 0) {
+      return "";
+    }
+
+    const columns = Math.max(...rows.map((cells) => cells.length));
+    const line = (cells: string[]) =>
+      `| ${Array.from({ length: columns }, (_, index) => cells[index] ?? "").join(" | ")} |`;
+    return [
+      line(rows[0]),
+      line(Array.from({ length: columns }, () => "---")),
+      ...rows.slice(1).map(line),
+    ].join("\n");
+  }
+
+  private inline(nodes: DomNode[]): string {
+    return nodes.map((node) => this.inlineNode(node)).join("");
+  }
+
+  private inlineNode(node: DomNode): string {
+    if (node.type === "text") {
+      return escapeMarkdown(node.textContent.replace(/\s+/g, " "));
+    }
+    if (isSkipped(node)) {
+      return "";
+    }
+
+    switch (node.tagName) {
+      case "br":
+        return "\n";
+      case "strong":
+      case "b":
+        return wrap(this.inline(node.children), "**");
+      case "em":
+      case "i":
+        return wrap(this.inline(node.children), "_");
+      case "del":
+      case "s":
+        return wrap(this.inline(node.children), "~~");
+      case "code":
+      case "kbd":
+      case "samp": {
+        const code = rawText(node).replace(/\s+/g, " ");
+        if (!code.trim()) {
+          return code;
+        }
+        const fence = "`".repeat(longestRun(code, "`") + 1);
+        return code.includes("`") ? `${fence} ${code} ${fence}` : `${fence}${code}${fence}`;
+      }
+      case "a": {
+        const text = tidyInline(this.inline(node.children)).replace(/\s*\n\s*/g, " ");
+        const href = this.resolveUrl(node.attributes.href);
+        if (!text) {
+          return "";
+        }
+        return href && !href.startsWith("javascript:") ? `[${text}](${href})` : text;
+      }
+      case "img": {
+        const alt = (node.attributes.alt ?? "").replace(/\s+/g, " ").trim();
+        if (!alt) {
+          return "";
+        }
+        const src = this.resolveUrl(node.attributes.src);
+        return src ? `![${alt}](${src})` : alt;
+      }
+      default:
+        // Block elements nested in inline content (a <div> in a link) are flattened
+        return BLOCK_TAGS.has(node.tagName) ? ` ${this.inline(node.children)} ` : this.inline(node.children);
+    }
+  }
+
+  private resolveUrl(value: string | undefined): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+    try {
+      // Parentheses would end the Markdown link early
+      return new URL(value, this.baseUrl).href.replace(/\(/g, "%28").replace(/\)/g, "%29");
+    } catch {
+      return value;
+    }
+  }
+}
+
+function isSkipped(node: ElementNode): boolean {
+  return SKIPPED_TAGS.has(node.tagName) || "hidden" in node.attributes || node.attributes["aria-hidden"] === "true";
+}
+
+function elementChildren(node: ElementNode): ElementNode[] {
+  return node.children.filter((child): child is ElementNode => child.type === "element");
+}
+
+/** Rows of this table only; nested tables are rendered inside their cell's text */
+function tableRows(node: ElementNode): ElementNode[] {
+  return elementChildren(node).flatMap((child) => {
+    if (child.tagName === "tr") {
+      return [child];
+    }
+    return ["thead", "tbody", "tfoot"].includes(child.tagName)
+      ? elementChildren(child).filter((row) => row.tagName === "tr")
+      : [];
+  });
+}
+
+/** Text with its whitespace intact, for code */
+function rawText(node: DomNode): string {
+  if (node.type === "text") {
+    return node.textContent;
+  }
+  return node.tagName === "br" ? "\n" : node.children.map(rawText).join("");
+}
+
+function codeLanguage(node: ElementNode): string | undefined {
+  return /(?:^|\s)(?:lang|language)-([\w+#-]+)/.exec(node.attributes.class ?? "")?.[1];
+}
+
+/**
+ * Backslash-escapes page text that Markdown would read as formatting: emphasis,
+ * code and link brackets anywhere, headings, quotes and list markers where
+ * they could start a line. Pipes are left to the table renderer.
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*_[\]<~]/g, "\\$&")
+    .replace(/^(\s*)(>|#{1,6}(?=\s|$)|[+-](?=\s|$)|-{3,})/, "$1\\$2")
+    .replace(/^(\s*\d+)([.)])(?=\s|$)/, "$1\\$2");
+}
+
+function wrap(text: string, marker: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return text;
+  }
+  // Keep the surrounding spaces outside the markers, or Markdown ignores them
+  const leading = text.startsWith(" ") ? " " : "";
+  const trailing = text.endsWith(" ") ? " " : "";
+  return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+function longestRun(text: string, character: string): number {
+  let longest = 0;
+  let current = 0;
+  for (const char of text) {
+    current = char === character ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+/** Trims each line of a rendered paragraph and drops blank ones */
+function tidyInline(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/ {2,}/g, " ").trim())
+    .filter((line) => line.length > 0)
+    .join("\n");
+}
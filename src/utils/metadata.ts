@@ -0,0 +1,243 @@
+/**
+ * Turns the tags and blocks collected from a page into typed metadata:
+ * the fields SEO and catalog tooling reads, without parsing the HTML again.
+ */
+
+import type { PageMetadata } from "../schemas/index.js";
+import type { LinkTag, MetaTag, RawPageMetadata } from "../types/metadata.js";
+
+type OpenGraphImage = PageMetadata["openGraph"]["images"][number];
+
+/** og:* fields that have their own key in PageMetadata.openGraph */
+const OPEN_GRAPH_FIELDS: Record<string, "title" | "description" | "type" | "url" | "siteName" | "locale"> = {
+  title: "title",
+  description: "description",
+  type: "type",
+  url: "url",
+  site_name: "siteName",
+  locale: "locale",
+};
+
+const FEED_TYPES = new Set([
+  "application/rss+xml",
+  "application/atom+xml",
+  "application/feed+json",
+]);
+
+const ICON_RELS = new Set(["icon", "apple-touch-icon", "apple-touch-icon-precomposed", "mask-icon"]);
+
+export function buildPageMetadata(raw: RawPageMetadata, capturedAt = new Date().toISOString()): PageMetadata {
+  const meta = new MetaIndex(raw.metas);
+  const resolve = (value: string | null) => (value ? resolveUrl(value, raw.url) : null);
+  const linksWithRel = (rel: string) => raw.links.filter((link) => relTokens(link).includes(rel));
+
+  return {
+    url: raw.url,
+    title: nonEmpty(raw.title),
+    canonicalUrl: linksWithRel("canonical")[0]?.href ?? null,
+    language: nonEmpty(raw.language),
+    description: meta.get("description"),
+    robots: parseRobots(meta.get("robots")),
+    openGraph: parseOpenGraph(raw.metas, raw.url),
+    twitter: {
+      card: meta.get("twitter:card"),
+      site: meta.get("twitter:site"),
+      creator: meta.get("twitter:creator"),
+      title: meta.get("twitter:title"),
+      description: meta.get("twitter:description"),
+      image: resolve(meta.get("twitter:image") ?? meta.get("twitter:image:src")),
+      imageAlt: meta.get("twitter:image:alt"),
+    },
+    jsonLd: raw.jsonLd.map(parseJsonLd),
+    microdata: raw.microdata,
+    rdfa: raw.rdfa,
+    alternates: linksWithRel("alternate")
+      .filter((link) => link.hreflang)
+      .map((link) => ({ hreflang: link.hreflang!, href: link.href })),
+    feeds: linksWithRel("alternate")
+      .filter((link) => link.type && FEED_TYPES.has(link.type.toLowerCase()))
+      .map((link) => ({ type: link.type!.toLowerCase(), title: nonEmpty(link.title), href: link.href })),
+    favicons: uniqueBy(
+      raw.links.filter((link) => relTokens(link).some((token) => ICON_RELS.has(token))),
+      (link) => link.href,
+    ).map((link) => ({
+      rel: relTokens(link).join(" "),
+      href: link.href,
+      sizes: nonEmpty(link.sizes),
+      type: nonEmpty(link.type),
+    })),
+    capturedAt,
+  };
+}
+
+/** First content for each name/property, matched case-insensitively */
+class MetaIndex {
+  private values = new Map<string, string>();
+
+  constructor(metas: MetaTag[]) {
+    for (const tag of metas) {
+      for (const key of [tag.name, tag.property]) {
+        const normalized = key?.trim().toLowerCase();
+        if (normalized && !this.values.has(normalized) && tag.content.trim()) {
+          this.values.set(normalized, tag.content.trim());
+        }
+      }
+    }
+  }
+
+  get(key: string): string | null {
+    return this.values.get(key) ?? null;
+  }
+}
+
+function parseRobots(content: string | null): PageMetadata["robots"] {
+  if (!content) {
+    return null;
+  }
+  const directives = content
+    .split(",")
+    .map((directive) => directive.trim().toLowerCase())
+    .filter((directive) => directive.length > 0);
+  return {
+    content,
+    directives,
+    index: !directives.includes("noindex") && !directives.includes("none"),
+    follow: !directives.includes("nofollow") && !directives.includes("none"),
+  };
+}
+
+/** og:image:* properties describe the og:image before them, so tags are read in document order */
+function parseOpenGraph(metas: MetaTag[], baseUrl: string): PageMetadata["openGraph"] {
+  const openGraph: PageMetadata["openGraph"] = {
+    title: null,
+    description: null,
+    type: null,
+    url: null,
+    siteName: null,
+    locale: null,
+    images: [],
+    other: {},
+  };
+
+  for (const tag of metas) {
+    const key = (tag.property ?? tag.name ?? "").trim().toLowerCase();
+    const content = tag.content.trim();
+    if (!key.startsWith("og:") || !content) {
+      continue;
+    }
+    const field = key.slice("og:".length);
+
+    if (field === "image" || field === "image:url") {
+      openGraph.images.push(emptyImage(resolveUrl(content, baseUrl)));
+      continue;
+    }
+    if (field.startsWith("image:")) {
+      const image = openGraph.images.at(-1);
+      if (image) {
+        applyImageProperty(image, field.slice("image:".length), content, baseUrl);
+      }
+      continue;
+    }
+
+    const known = OPEN_GRAPH_FIELDS[field];
+    if (known) {
+      openGraph[known] ??= known === "url" ? resolveUrl(content, baseUrl) : content;
+    } else if (!(field in openGraph.other)) {
+      openGraph.other[field] = content;
+    }
+  }
+  return openGraph;
+}
+
+function emptyImage(url: string): OpenGraphImage {
+  return { url, secureUrl: null, type: null, width: null, height: null, alt: null };
+}
+
+function applyImageProperty(image: OpenGraphImage, property: string, content: string, baseUrl: string) {
+  switch (property) {
+    case "secure_url":
+      image.secureUrl = resolveUrl(content, baseUrl);
+      break;
+    case "type":
+      image.type = content;
+      break;
+    case "width":
+    case "height": {
+      const size = Number.parseInt(content, 10);
+      image[property] = Number.isFinite(size) ? size : null;
+      break;
+    }
+    case "alt":
+      image.alt = content;
+      break;
+  }
+}
+
+function parseJsonLd(text: string): PageMetadata["jsonLd"][number] {
+  // CMSes still wrap script bodies in CDATA sections and HTML comments
+  const body = text
+    .trim()
+    .replace(/^(?:\/\/\s*)?<!\[CDATA\[|(?:\/\/\s*)?\]\]>$/g, "")
+    .replace(/^<!--|-->$/g, "")
+    .trim();
+  try {
+    const data: unknown = JSON.parse(body);
+    return { types: jsonLdTypes(data), data, error: null };
+  } catch (error) {
+    return { types: [], data: null, error: (error as Error).message };
+  }
+}
+
+function jsonLdTypes(data: unknown): string[] {
+  const types = new Set<string>();
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== "object") {
+      return;
+    }
+    const record = node as Record<string, unknown>;
+    const type = record["@type"];
+    for (const value of Array.isArray(type) ? type : [type]) {
+      if (typeof value === "string") {
+        types.add(value);
+      }
+    }
+    if (Array.isArray(record["@graph"])) {
+      visit(record["@graph"]);
+    }
+  };
+  visit(data);
+  return Array.from(types);
+}
+
+function relTokens(link: LinkTag): string[] {
+  return link.rel.toLowerCase().split(/\s+/).filter((token) => token.length > 0);
+}
+
+function resolveUrl(value: string, baseUrl: string): string {
+  try {
+    return new URL(value, baseUrl).href;
+  } catch {
+    return value;
+  }
+}
+
+function nonEmpty(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const value = key(item);
+    if (seen.has(value)) {
+      return false;
+    }
+    seen.add(value);
+    return true;
+  });
+}
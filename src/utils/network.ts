@@ -0,0 +1,355 @@
+/**
+ * Request interception for captures: blocks requests by URL glob or category,
+ * answers them from mocks, and rewrites request headers per host.
+ *
+ * Rules are checked in that order of precedence: mocks, then blocks, then
+ * header rewrites. Every match is counted so the caller can report which
+ * rules took effect.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { HTTPRequest, Page } from "puppeteer";
+
+import type { Logger } from "../logger.js";
+import type { BlockCategory, NetworkConfig, NetworkMock, NetworkRuleMatch } from "../types/network.js";
+
+const MAX_REPORTED_URLS = 5;
+
+/** Hosts (and their subdomains) behind the ads and analytics categories */
+const CATEGORY_HOSTS: Partial<Record<BlockCategory, string[]>> = {
+  ads: [
+    "doubleclick.net",
+    "googlesyndication.com",
+    "googleadservices.com",
+    "adservice.google.com",
+    "amazon-adsystem.com",
+    "adnxs.com",
+    "criteo.com",
+    "criteo.net",
+    "taboola.com",
+    "outbrain.com",
+    "pubmatic.com",
+    "rubiconproject.com",
+    "openx.net",
+    "moatads.com",
+    "adsrvr.org",
+  ],
+  analytics: [
+    "google-analytics.com",
+    "googletagmanager.com",
+    "analytics.google.com",
+    "segment.com",
+    "segment.io",
+    "mixpanel.com",
+    "hotjar.com",
+    "fullstory.com",
+    "amplitude.com",
+    "heapanalytics.com",
+    "plausible.io",
+    "clarity.ms",
+    "connect.facebook.net",
+    "bat.bing.com",
+    "scorecardresearch.com",
+    "nr-data.net",
+  ],
+};
+
+/** Puppeteer resource types behind the remaining categories */
+const CATEGORY_RESOURCE_TYPES: Partial<Record<BlockCategory, string[]>> = {
+  fonts: ["font"],
+  media: ["media"],
+  images: ["image"],
+  stylesheets: ["stylesheet"],
+};
+
+const FILE_CONTENT_TYPES: Record<string, string> = {
+  ".json": "application/json",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".js": "application/javascript",
+  ".css": "text/css",
+  ".txt": "text/plain",
+  ".xml": "application/xml",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+};
+
+/** Directory that mock `file` paths are resolved in; unset, file mocks are refused */
+let mockDirectory: string | undefined;
+
+/** Called at startup from the config file; mock files can never be read from outside this directory */
+export function configureMockDirectory(directory: string | undefined): void {
+  mockDirectory = directory;
+}
+
+interface MockRule {
+  pattern: RegExp;
+  source: string;
+  method?: string;
+  status: number;
+  headers: Record<string, string>;
+  contentType: string;
+  body: Buffer;
+}
+
+interface HeaderRule {
+  pattern: RegExp;
+  source: string;
+  changes: Record<string, string | null>;
+}
+
+interface CompiledRules {
+  mocks: MockRule[];
+  blocks: Array<{ pattern: RegExp; source: string }>;
+  categories: BlockCategory[];
+  headers: HeaderRule[];
+}
+
+export interface NetworkInterception {
+  /** Rules that matched at least once on this page, in configuration order */
+  matchedRules(): NetworkRuleMatch[];
+  /** Stops intercepting; the page goes back to plain network access */
+  detach(): Promise<void>;
+}
+
+export class NetworkInterceptor {
+  private readonly rules: CompiledRules;
+  private readonly logger?: Logger;
+
+  private constructor(rules: CompiledRules, logger?: Logger) {
+    this.rules = rules;
+    this.logger = logger;
+  }
+
+  /** Compiles the rules and reads mock files up front, so a bad path fails before navigation */
+  static async create(config: NetworkConfig, logger?: Logger): Promise<NetworkInterceptor> {
+    const rules: CompiledRules = {
+      mocks: await Promise.all((config.mocks ?? []).map((mock) => compileMock(mock))),
+      blocks: (config.block ?? []).map((glob) => ({ pattern: globToRegExp(glob), source: glob })),
+      categories: config.blockResourceTypes ?? [],
+      headers: Object.entries(config.headers ?? {}).map(([host, changes]) => ({
+        pattern: globToRegExp(host),
+        source: host,
+        changes,
+      })),
+    };
+    return new NetworkInterceptor(rules, logger);
+  }
+
+  async attach(page: Page): Promise<NetworkInterception> {
+    const matches = new Map<string, NetworkRuleMatch>();
+    const order = this.ruleKeys();
+
+    const record = (action: NetworkRuleMatch["action"], rule: string, url: string) => {
+      const key = `${action}:${rule}`;
+      const match = matches.get(key) ?? { action, rule, matches: 0, urls: [] };
+      match.matches++;
+      if (match.urls.length < MAX_REPORTED_URLS) {
+        match.urls.push(url);
+      }
+      matches.set(key, match);
+    };
+
+    const onRequest = (request: HTTPRequest) => {
+      if (request.isInterceptResolutionHandled()) {
+        return;
+      }
+      this.handle(request, record).catch(async (error) => {
+        this.logger?.warn("network:intercept_failed", { url: request.url(), error: (error as Error).message });
+        // An unresolved request would stall the page until navigation times out
+        if (!request.isInterceptResolutionHandled()) {
+          await request.abort("failed").catch(() => undefined);
+        }
+      });
+    };
+
+    await page.setRequestInterception(true);
+    page.on("request", onRequest);
+
+    return {
+      matchedRules: () => order.flatMap((key) => matches.get(key) ?? []),
+      detach: async () => {
+        page.off("request", onRequest);
+        await page.setRequestInterception(false).catch((error) => {
+          this.logger?.debug("network:detach_failed", { error: (error as Error).message });
+        });
+      },
+    };
+  }
+
+  private async handle(
+    request: HTTPRequest,
+    record: (action: NetworkRuleMatch["action"], rule: string, url: string) => void,
+  ): Promise<void> {
+    const url = request.url();
+
+    const mock = this.rules.mocks.find(
+      (candidate) => candidate.pattern.test(url) && (!candidate.method || candidate.method === request.method()),
+    );
+    if (mock) {
+      record("mock", mock.source, url);
+      await request.respond({
+        status: mock.status,
+        headers: mock.headers,
+        contentType: mock.contentType,
+        body: mock.body,
+      });
+      return;
+    }
+
+    const blocked = this.matchBlockRule(request);
+    if (blocked) {
+      record("block", blocked, url);
+      await request.abort("blockedbyclient");
+      return;
+    }
+
+    const hostname = safeHostname(url);
+    const headerRules = hostname ? this.rules.headers.filter((rule) => rule.pattern.test(hostname)) : [];
+    if (headerRules.length === 0) {
+      await request.continue();
+      return;
+    }
+
+    const headers = { ...request.headers() };
+    for (const rule of headerRules) {
+      record("headers", rule.source, url);
+      for (const [name, value] of Object.entries(rule.changes)) {
+        if (value === null) {
+          delete headers[name.toLowerCase()];
+        } else {
+          headers[name.toLowerCase()] = value;
+        }
+      }
+    }
+    await request.continue({ headers });
+  }
+
+  private matchBlockRule(request: HTTPRequest): string | undefined {
+    const url = request.url();
+    const glob = this.rules.blocks.find(({ pattern }) => pattern.test(url));
+    if (glob) {
+      return glob.source;
+    }
+
+    const hostname = safeHostname(url);
+    const resourceType = request.resourceType();
+    return this.rules.categories.find((category) => {
+      const hosts = CATEGORY_HOSTS[category];
+      if (hosts) {
+        return hostname !== undefined && hosts.some((host) => hostname === host || hostname.endsWith(`.${host}`));
+      }
+      return CATEGORY_RESOURCE_TYPES[category]?.includes(resourceType) ?? false;
+    });
+  }
+
+  /** Keys of every configured rule, so the report follows configuration order */
+  private ruleKeys(): string[] {
+    return [
+      ...this.rules.mocks.map((mock) => `mock:${mock.source}`),
+      ...this.rules.blocks.map(({ source }) => `block:${source}`),
+      ...this.rules.categories.map((category) => `block:${category}`),
+      ...this.rules.headers.map((rule) => `headers:${rule.source}`),
+    ];
+  }
+}
+
+async function compileMock(mock: NetworkMock): Promise<MockRule> {
+  let body: Buffer;
+  let contentType: string;
+
+  if (mock.file !== undefined) {
+    const filePath = await resolveMockFile(mock.file, mock.url);
+    try {
+      body = await fs.readFile(filePath);
+    } catch (error) {
+      throw new Error(`Cannot read mock file for ${mock.url}: ${(error as Error).message}`);
+    }
+    contentType = FILE_CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? "application/octet-stream";
+  } else if (mock.json !== undefined) {
+    body = Buffer.from(JSON.stringify(mock.json));
+    contentType = "application/json";
+  } else {
+    body = Buffer.from(mock.body ?? "");
+    contentType = "text/plain";
+  }
+
+  return {
+    pattern: globToRegExp(mock.url),
+    source: mock.url,
+    method: mock.method?.toUpperCase(),
+    status: mock.status ?? 200,
+    // Mocked APIs are usually fetched cross-origin, so allow that unless overridden
+    headers: { "access-control-allow-origin": "*", ...mock.headers },
+    contentType: mock.contentType ?? contentType,
+    body,
+  };
+}
+
+/**
+ * Tool input names the file, so it must stay inside the configured mock
+ * directory; symlinks are followed before the check, as for local storage keys.
+ */
+async function resolveMockFile(file: string, url: string): Promise<string> {
+  if (!mockDirectory) {
+    throw new Error(`Cannot read mock file for ${url}: mock files are disabled; set network.mockDir in the server config`);
+  }
+  const root = path.resolve(mockDirectory);
+  const filePath = path.resolve(root, file);
+  const outside = new Error(`Cannot read mock file for ${url}: "${file}" is outside the mock directory`);
+  if (path.isAbsolute(file) || !filePath.startsWith(root + path.sep)) {
+    throw outside;
+  }
+
+  let realRoot: string;
+  let realFile: string;
+  try {
+    [realRoot, realFile] = await Promise.all([fs.realpath(root), fs.realpath(filePath)]);
+  } catch (error) {
+    throw new Error(`Cannot read mock file for ${url}: ${(error as Error).message}`);
+  }
+  if (!realFile.startsWith(realRoot + path.sep)) {
+    throw outside;
+  }
+  return realFile;
+}
+
+/** Full-match glob: `*` matches any run of characters, `?` exactly one */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") {
+        return ".*";
+      }
+      if (char === "?") {
+        return ".";
+      }
+      return char.replace(/[.+^${}()|[\]\\/]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function safeHostname(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+export function formatNetworkRuleMatches(matches: NetworkRuleMatch[]): string {
+  const lines = ["Network rules matched:"];
+  for (const match of matches) {
+    lines.push(`  ${match.action} ${match.rule}: ${match.matches} request${match.matches === 1 ? "" : "s"}`);
+  }
+  return lines.join("\n");
+}
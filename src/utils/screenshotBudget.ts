@@ -0,0 +1,144 @@
+/**
+ * Screenshot capture with output format control and an optional byte budget.
+ *
+ * When a capture exceeds maxBytes, quality is lowered step by step (PNG falls
+ * back to JPEG, since it has no quality setting) and the image is then
+ * downscaled through the screenshot clip until it fits.
+ */
+
+import type { ElementHandle, Page, ScreenshotClip, ScreenshotOptions } from "puppeteer";
+
+import type { Logger } from "../logger.js";
+import { readImageInfo, type ImageFormat } from "../image/dimensions.js";
+
+export interface ScreenshotRequest {
+  format?: ImageFormat;
+  /** 1-100, lossy formats only */
+  quality?: number;
+  maxBytes?: number;
+  fullPage: boolean;
+  /** Capture this element instead of the page */
+  element?: ElementHandle;
+}
+
+export interface CapturedScreenshot {
+  buffer: Buffer;
+  format: ImageFormat;
+  quality?: number;
+  /** Downscale factor applied to meet the budget (1 = full size) */
+  scale: number;
+  width?: number;
+  height?: number;
+  /** True when even the smallest attempt is still above maxBytes */
+  budgetExceeded: boolean;
+  attempts: number;
+}
+
+export const DEFAULT_LOSSY_QUALITY = 80;
+const MIN_QUALITY = 30;
+const QUALITY_STEP = 10;
+const MIN_SCALE = 0.1;
+const MAX_SCALE_ATTEMPTS = 6;
+
+export async function captureScreenshotWithinBudget(
+  page: Page,
+  request: ScreenshotRequest,
+  logger?: Logger,
+): Promise<CapturedScreenshot> {
+  let format: ImageFormat = request.format ?? "png";
+  let quality = format === "png" ? undefined : request.quality ?? DEFAULT_LOSSY_QUALITY;
+  let scale = 1;
+  let attempts = 0;
+  let clip: ScreenshotClip | undefined;
+
+  const shoot = async (): Promise<Buffer> => {
+    attempts++;
+    const options: ScreenshotOptions = { type: format };
+    if (quality !== undefined) {
+      options.quality = quality;
+    }
+
+    if (scale === 1) {
+      if (request.element) {
+        return (await request.element.screenshot(options)) as Buffer;
+      }
+      return (await page.screenshot({ ...options, fullPage: request.fullPage })) as Buffer;
+    }
+
+    clip ??= await resolveScreenshotClip(page, request);
+    return (await page.screenshot({ ...options, clip: { ...clip, scale } })) as Buffer;
+  };
+
+  let buffer = await shoot();
+  const { maxBytes } = request;
+
+  if (maxBytes && buffer.length > maxBytes) {
+    logger?.debug("screenshot:over_budget", { bytes: buffer.length, maxBytes, format, quality });
+
+    if (format === "png") {
+      format = "jpeg";
+      quality = DEFAULT_LOSSY_QUALITY;
+      buffer = await shoot();
+    }
+
+    while (buffer.length > maxBytes && quality !== undefined && quality > MIN_QUALITY) {
+      quality = Math.max(MIN_QUALITY, quality - QUALITY_STEP);
+      buffer = await shoot();
+    }
+
+    for (let i = 0; i < MAX_SCALE_ATTEMPTS && buffer.length > maxBytes && scale > MIN_SCALE; i++) {
+      // Encoded size tracks pixel area, so shrink both sides by the square root of the overshoot
+      const estimate = scale * Math.sqrt(maxBytes / buffer.length) * 0.95;
+      scale = Math.max(MIN_SCALE, Math.min(estimate, scale * 0.9));
+      buffer = await shoot();
+    }
+  }
+
+  const budgetExceeded = maxBytes !== undefined && buffer.length > maxBytes;
+  if (budgetExceeded) {
+    logger?.warn("screenshot:budget_exceeded", { bytes: buffer.length, maxBytes, format, quality, scale });
+  } else if (attempts > 1) {
+    logger?.debug("screenshot:budget_met", { bytes: buffer.length, maxBytes, format, quality, scale, attempts });
+  }
+
+  const info = readImageInfo(buffer);
+  return {
+    buffer,
+    format,
+    quality,
+    scale,
+    width: info?.width,
+    height: info?.height,
+    budgetExceeded,
+    attempts,
+  };
+}
+
+/** Region to capture in page coordinates, matching what an unscaled capture would cover */
+export async function resolveScreenshotClip(
+  page: Page,
+  request: Pick<ScreenshotRequest, "fullPage" | "element">,
+): Promise<ScreenshotClip> {
+  const metrics = await page.evaluate(() => ({
+    x: window.scrollX,
+    y: window.scrollY,
+    width: window.innerWidth,
+    height: window.innerHeight,
+    scrollWidth: document.documentElement.scrollWidth,
+    scrollHeight: document.documentElement.scrollHeight,
+  }));
+
+  if (request.element) {
+    const box = await request.element.boundingBox();
+    if (!box) {
+      throw new Error("Element is not visible; cannot downscale its screenshot");
+    }
+    return { x: box.x + metrics.x, y: box.y + metrics.y, width: box.width, height: box.height };
+  }
+
+  if (request.fullPage) {
+    return { x: 0, y: 0, width: metrics.scrollWidth, height: metrics.scrollHeight };
+  }
+
+  return { x: metrics.x, y: metrics.y, width: metrics.width, height: metrics.height };
+}
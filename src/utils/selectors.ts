@@ -0,0 +1,76 @@
+/**
+ * Suggests CSS selectors that match only the given element, most robust first:
+ * id, data-testid (and data-test/data-qa), name, aria-label, then a short
+ * structural path. Every suggestion is checked against the live document.
+ * Runs inside the page (ElementHandle.evaluate), so it must not reference
+ * anything outside its own body.
+ */
+export function rankedSelectorsFor(element: Element): string[] {
+  const root = element.getRootNode() as Document | ShadowRoot;
+  const matchesOnly = (selector: string, target: Element) => {
+    try {
+      const matches = root.querySelectorAll(selector);
+      return matches.length === 1 && matches[0] === target;
+    } catch {
+      return false;
+    }
+  };
+
+  const attributeSelectors = (target: Element): string[] => {
+    const tag = target.tagName.toLowerCase();
+    const candidates: string[] = [];
+    if (target.id) {
+      candidates.push(`#${CSS.escape(target.id)}`);
+    }
+    for (const attribute of ["data-testid", "data-test", "data-qa", "name", "aria-label"]) {
+      const value = target.getAttribute(attribute);
+      if (value) {
+        candidates.push(`[${attribute}="${CSS.escape(value)}"]`, `${tag}[${attribute}="${CSS.escape(value)}"]`);
+      }
+    }
+    return candidates.filter((candidate) => matchesOnly(candidate, target));
+  };
+
+  const selectors: string[] = [];
+  for (const candidate of attributeSelectors(element)) {
+    // [name="q"] and input[name="q"] rank the same; keep only the shorter
+    const bare = candidate.replace(/^[a-z][a-z0-9-]*\[/, "[");
+    if (!selectors.some((existing) => existing === bare)) {
+      selectors.push(candidate);
+    }
+  }
+
+  // Walk up until an ancestor can be named on its own, then descend with child steps
+  const steps: string[] = [];
+  let current: Element | null = element;
+  while (current) {
+    const named = current === element ? undefined : attributeSelectors(current)[0];
+    if (named) {
+      steps.unshift(named);
+      break;
+    }
+    const tag = current.tagName.toLowerCase();
+    const parent: Element | null = current.parentElement;
+    if (!parent) {
+      steps.unshift(tag);
+      break;
+    }
+    const sameTag = Array.from(parent.children).filter((sibling) => sibling.tagName === current!.tagName);
+    steps.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(current) + 1})` : tag);
+    current = parent;
+  }
+
+  // Drop leading steps the path does not need
+  let path = steps.join(" > ");
+  for (let start = steps.length - 1; start > 0; start -= 1) {
+    const shorter = steps.slice(start).join(" > ");
+    if (matchesOnly(shorter, element)) {
+      path = shorter;
+      break;
+    }
+  }
+  if (!selectors.includes(path) && matchesOnly(path, element)) {
+    selectors.push(path);
+  }
+  return selectors;
+}
@@ -0,0 +1,29 @@
+/**
+ * The API key a request was made with. The HTTP transports run each request
+ * inside runAsTenant, and the process-wide browser sessions and storage
+ * targets read currentTenant() to keep keys from seeing each other's data.
+ * Outside a request (stdio, sweeps, no configured keys) there is no tenant.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+
+const tenantContext = new AsyncLocalStorage<string | undefined>();
+
+const SAFE_TENANT_SEGMENT = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function runAsTenant<T>(tenant: string | undefined, fn: () => T): T {
+  return tenantContext.run(tenant, fn);
+}
+
+export function currentTenant(): string | undefined {
+  return tenantContext.getStore();
+}
+
+/** Storage key prefix for a tenant; names that are not safe path segments are hashed */
+export function tenantKeyPrefix(tenant: string): string {
+  const segment = SAFE_TENANT_SEGMENT.test(tenant)
+    ? tenant
+    : `key-${createHash("sha256").update(tenant).digest("hex").slice(0, 16)}`;
+  return `tenants/${segment}/`;
+}
@@ -39,25 +39,27 @@ export function withTimeout<T>(
 }
 
 /**
- * Safely closes a browser with a timeout to prevent hanging.
- * If the close operation times out, we log a warning but don't throw.
- * The browser process may still be running but we can't wait forever.
+ * Safely closes a browser (or a pooled browser context) with a timeout to
+ * prevent hanging. If the close operation times out, we log a warning but
+ * don't throw. The browser process may still be running but we can't wait forever.
  */
 export async function safeBrowserClose(
   browser: { close: () => Promise<void> },
   timeoutMs: number = 5000,
-  logger?: { warn: (msg: string, meta?: Record<string, unknown>) => void }
+  logger?: { warn: (msg: string, meta?: Record<string, unknown>) => void },
+  resource: "browser" | "context" = "browser"
 ): Promise<void> {
+  const label = resource === "browser" ? "Browser" : "Browser context";
   try {
-    await withTimeout(browser.close(), timeoutMs, "Browser close");
+    await withTimeout(browser.close(), timeoutMs, `${label} close`);
   } catch (error) {
     if (error instanceof TimeoutError) {
-      logger?.warn("browser:close_timeout", {
+      logger?.warn(`${resource}:close_timeout`, {
         timeoutMs,
-        message: "Browser close timed out, process may still be running",
+        message: `${label} close timed out, process may still be running`,
       });
     } else {
-      logger?.warn("browser:close_error", {
+      logger?.warn(`${resource}:close_error`, {
         error: (error as Error).message,
       });
     }
@@ -0,0 +1,210 @@
+/**
+ * Per-step execution trace for captureScreenshot.
+ *
+ * Records what each step did and how long it took, optionally with a small
+ * thumbnail of the page after the step, so failed runs can be inspected later.
+ */
+
+import type { Page } from "puppeteer";
+
+import type { Logger } from "../logger.js";
+import type { StorageResult, StorageTarget } from "../storage/index.js";
+import { readImageInfo } from "../image/dimensions.js";
+import { resolveScreenshotClip } from "./screenshotBudget.js";
+
+export interface TraceOptions {
+  /** Capture a thumbnail of the viewport after every step. Default: false */
+  thumbnails?: boolean;
+  /** Save the trace as one JSON bundle to the storage target. Default: false */
+  save?: boolean;
+}
+
+export interface TraceThumbnail {
+  mimeType: string;
+  width?: number;
+  height?: number;
+  imageBase64: string;
+}
+
+/**
+ * A thumbnail as the tool result describes it. The image itself is in the
+ * saved trace bundle, or in a separate image block when there is no bundle.
+ */
+export interface TraceThumbnailRef {
+  mimeType: string;
+  width?: number;
+  height?: number;
+  /** JSON pointer to the thumbnail within the bundle at traceLocation */
+  bundlePointer?: string;
+  /** Position of its image block in the tool result's content */
+  contentIndex?: number;
+}
+
+export interface TraceStepEntry {
+  /** Position of the step within its phase */
+  index: number;
+  /** Steps run before navigation (cookies, storage) or after it */
+  phase: "before-navigation" | "after-navigation";
+  type: string;
+  /** Selector the step acted on, when it has one */
+  target?: string;
+  /** Device being captured in multi-device runs */
+  device?: string;
+  /** Retry attempt the step ran in, starting at 1 */
+  attempt: number;
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+  outcome: "success" | "failed";
+  error?: string;
+  thumbnail?: TraceThumbnail;
+}
+
+export interface ExecutionTrace {
+  url: string;
+  startedAt: string;
+  endedAt?: string;
+  durationMs?: number;
+  outcome: "running" | "success" | "failed";
+  /** Error that failed the whole capture, if any */
+  error?: string;
+  steps: TraceStepEntry[];
+}
+
+/** An ExecutionTrace with references in place of the thumbnail images */
+export type ResponseTrace = Omit<ExecutionTrace, "steps"> & {
+  steps: Array<Omit<TraceStepEntry, "thumbnail"> & { thumbnail?: TraceThumbnailRef }>;
+};
+
+export interface StepRecord {
+  index: number;
+  type: string;
+  target?: string;
+  startedAt: number;
+  success: boolean;
+  error?: string;
+}
+
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_QUALITY = 60;
+
+export class StepTracer {
+  readonly trace: ExecutionTrace;
+  /** Current capture context, updated by the caller between passes */
+  device?: string;
+  attempt = 0;
+  phase: TraceStepEntry["phase"] = "after-navigation";
+
+  private readonly options: TraceOptions;
+  private readonly logger?: Logger;
+  private readonly startedAt = Date.now();
+
+  constructor(url: string, options: TraceOptions = {}, logger?: Logger) {
+    this.options = options;
+    this.logger = logger;
+    this.trace = {
+      url,
+      startedAt: new Date(this.startedAt).toISOString(),
+      outcome: "running",
+      steps: [],
+    };
+  }
+
+  get saveRequested(): boolean {
+    return this.options.save === true;
+  }
+
+  /** Adds a finished step, taking a thumbnail first when enabled */
+  async record(page: Page, record: StepRecord): Promise<void> {
+    const thumbnail = this.options.thumbnails ? await captureThumbnail(page, this.logger) : undefined;
+    const endedAt = Date.now();
+
+    this.trace.steps.push({
+      index: record.index,
+      phase: this.phase,
+      type: record.type,
+      target: record.target,
+      device: this.device,
+      attempt: Math.max(this.attempt, 1),
+      startedAt: new Date(record.startedAt).toISOString(),
+      endedAt: new Date(endedAt).toISOString(),
+      durationMs: endedAt - record.startedAt,
+      outcome: record.success ? "success" : "failed",
+      error: record.error,
+      thumbnail,
+    });
+  }
+
+  finish(error?: unknown): ExecutionTrace {
+    const endedAt = Date.now();
+    this.trace.endedAt = new Date(endedAt).toISOString();
+    this.trace.durationMs = endedAt - this.startedAt;
+    this.trace.outcome = error === undefined ? "success" : "failed";
+    if (error !== undefined) {
+      this.trace.error = error instanceof Error ? error.message : String(error);
+    }
+    return this.trace;
+  }
+}
+
+/** Small JPEG of the visible viewport; a failed thumbnail never fails the step */
+async function captureThumbnail(page: Page, logger?: Logger): Promise<TraceThumbnail | undefined> {
+  try {
+    const clip = await resolveScreenshotClip(page, { fullPage: false });
+    const scale = Math.min(1, THUMBNAIL_WIDTH / clip.width);
+    const buffer = (await page.screenshot({
+      type: "jpeg",
+      quality: THUMBNAIL_QUALITY,
+      clip: { ...clip, scale },
+    })) as Buffer;
+    const info = readImageInfo(buffer);
+    return {
+      mimeType: "image/jpeg",
+      width: info?.width,
+      height: info?.height,
+      imageBase64: buffer.toString("base64"),
+    };
+  } catch (error) {
+    logger?.warn("trace:thumbnail_failed", { error: (error as Error).message });
+    return undefined;
+  }
+}
+
+/** Writes the trace, thumbnails included, as a single JSON document */
+export async function saveTraceBundle(trace: ExecutionTrace, storage: StorageTarget): Promise<StorageResult> {
+  const bundle = Buffer.from(JSON.stringify({ version: 1, trace }, null, 2));
+  return storage.save(bundle, {
+    mimeType: "application/json",
+    timestamp: trace.endedAt ?? new Date().toISOString(),
+    tags: {
+      kind: "trace",
+      url: trace.url,
+      outcome: trace.outcome,
+    },
+  });
+}
+
+/**
+ * Takes the thumbnail images out of a trace for the tool result. With a saved
+ * bundle each step points into it; without one the images are returned for
+ * the caller to append to the content, starting at firstContentIndex.
+ */
+export function detachThumbnails(
+  trace: ExecutionTrace,
+  bundleSaved: boolean,
+  firstContentIndex: number,
+): { trace: ResponseTrace; images: TraceThumbnail[] } {
+  const images: TraceThumbnail[] = [];
+  const steps = trace.steps.map(({ thumbnail, ...step }, index) => {
+    if (!thumbnail) {
+      return step;
+    }
+    const { imageBase64: _image, ...details } = thumbnail;
+    if (bundleSaved) {
+      return { ...step, thumbnail: { ...details, bundlePointer: `/trace/steps/${index}/thumbnail` } };
+    }
+    images.push(thumbnail);
+    return { ...step, thumbnail: { ...details, contentIndex: firstContentIndex + images.length - 1 } };
+  });
+  return { trace: { ...trace, steps }, images };
+}
@@ -5,6 +5,7 @@ type GotoResult = { ok: () => boolean; status: () => number };
 type GotoImplementation = (url: string, options: Record<string, unknown>) => Promise<GotoResult>;
 
 const evaluateQueue: EvaluateResult[] = [];
+const pageListeners = new Map<string, Set<(...args: any[]) => void>>();
 
 let waitForSelectorImpl: (selector: string, options?: any) => Promise<any> = async () => ({});
 let clickImpl: (selector: string, options?: any) => Promise<void> = async () => undefined;
@@ -15,10 +16,12 @@ let elementSelectorImpl: (selector: string) => Promise<any> = async (selector: s
   screenshot: vi.fn(async () => screenshotBuffer),
   uploadFile: vi.fn(async () => undefined),
 });
+let elementsSelectorImpl: (selector: string) => Promise<any[]> = async () => [];
 let typeImpl: (selector: string, text: string, options?: any) => Promise<void> = async () => undefined;
 let selectImpl: (selector: string, ...values: string[]) => Promise<string[]> = async () => [];
 let hoverImpl: (selector: string) => Promise<void> = async () => undefined;
 let focusImpl: (selector: string) => Promise<void> = async () => undefined;
+let accessibilitySnapshotImpl: (options?: any) => Promise<any> = async () => null;
 
 const mockKeyboard = {
   press: vi.fn(async () => undefined),
@@ -27,14 +30,22 @@ const mockKeyboard = {
 };
 
 let currentViewport = { width: 1280, height: 720 };
+let currentUrl = "about:blank";
+let newDocumentScripts = 0;
+
+const MOCK_BROWSER_USER_AGENT = "Mozilla/5.0 (X11; Linux x86_64) HeadlessChrome/mock";
 
 const mockPage = {
   setViewport: vi.fn(async (viewport: any) => { currentViewport = viewport; }),
   setDefaultNavigationTimeout: vi.fn(async () => undefined),
   setExtraHTTPHeaders: vi.fn(async () => undefined),
   setCookie: vi.fn(async (..._cookies: any[]) => undefined),
-  goto: vi.fn(async (url: string, options: Record<string, unknown>) => gotoImpl(url, options)),
-  screenshot: vi.fn(async () => screenshotBuffer),
+  goto: vi.fn(async (url: string, options: Record<string, unknown>) => {
+    const response = await gotoImpl(url, options);
+    currentUrl = url;
+    return response;
+  }),
+  screenshot: vi.fn(async (options?: any) => screenshotImpl(options)),
   evaluate: vi.fn(async (pageFunction: (...args: any[]) => unknown, params: any) => {
     if (evaluateQueue.length === 0) {
       throw new Error("No queued evaluate result.");
@@ -46,27 +57,59 @@ const mockPage = {
   waitForSelector: vi.fn(async (selector: string, options?: any) => waitForSelectorImpl(selector, options)),
   waitForNavigation: vi.fn(async (options?: any) => waitForNavigationImpl(options)),
   waitForNetworkIdle: vi.fn(async () => undefined),
-  setUserAgent: vi.fn(async () => undefined),
-  evaluateOnNewDocument: vi.fn(async () => undefined),
+  setUserAgent: vi.fn(async (_userAgent: string) => undefined),
+  evaluateOnNewDocument: vi.fn(async (..._args: any[]) => ({ identifier: `script-${++newDocumentScripts}` })),
+  removeScriptToEvaluateOnNewDocument: vi.fn(async (_identifier: string) => undefined),
+  browser: vi.fn(() => mockBrowser),
   cookies: vi.fn(async () => cookiesImpl()),
   deleteCookie: vi.fn(async (cookie: any) => deleteCookieImpl(cookie)),
   $: vi.fn(async (selector: string) => elementSelectorImpl(selector)),
+  $$: vi.fn(async (selector: string) => elementsSelectorImpl(selector)),
   type: vi.fn(async (selector: string, text: string, options?: any) => typeImpl(selector, text, options)),
   select: vi.fn(async (selector: string, ...values: string[]) => selectImpl(selector, ...values)),
   hover: vi.fn(async (selector: string) => hoverImpl(selector)),
   focus: vi.fn(async (selector: string) => focusImpl(selector)),
   keyboard: mockKeyboard,
+  accessibility: {
+    snapshot: vi.fn(async (options?: any) => accessibilitySnapshotImpl(options)),
+  },
   viewport: vi.fn(() => currentViewport),
+  url: vi.fn(() => currentUrl),
+  isClosed: vi.fn(() => false),
+  setRequestInterception: vi.fn(async (_enabled: boolean) => undefined),
+  on: vi.fn((event: string, listener: (...args: any[]) => void) => {
+    if (!pageListeners.has(event)) {
+      pageListeners.set(event, new Set());
+    }
+    pageListeners.get(event)!.add(listener);
+    return mockPage;
+  }),
+  off: vi.fn((event: string, listener: (...args: any[]) => void) => {
+    pageListeners.get(event)?.delete(listener);
+    return mockPage;
+  }),
+};
+
+const mockContext = {
+  newPage: vi.fn(async () => mockPage),
+  close: vi.fn(async () => undefined),
 };
 
 const mockBrowser = {
   newPage: vi.fn(async () => mockPage),
+  createBrowserContext: vi.fn(async () => mockContext),
   close: vi.fn(async () => undefined),
+  version: vi.fn(async () => "HeadlessChrome/mock"),
+  userAgent: vi.fn(async () => MOCK_BROWSER_USER_AGENT),
+  on: vi.fn(),
+  process: vi.fn(() => null),
+  connected: true,
 };
 
 const launchMock = vi.fn(async () => mockBrowser);
 
 let screenshotBuffer: Buffer = Buffer.from("mock-image");
+let screenshotImpl: (options?: any) => Promise<Buffer> = async () => screenshotBuffer;
 let gotoImpl: GotoImplementation = async () => ({
   ok: () => true,
   status: () => 200,
@@ -85,10 +128,21 @@ export function setEvaluateResults(...results: EvaluateResult[]) {
   queueEvaluateResult(...results);
 }
 
+/** Delivers a page event (request, requestfinished, ...) to the attached listeners */
+export function emitPageEvent(event: string, ...args: unknown[]) {
+  for (const listener of [...(pageListeners.get(event) ?? [])]) {
+    listener(...args);
+  }
+}
+
 export function setScreenshotBuffer(buffer: Buffer) {
   screenshotBuffer = buffer;
 }
 
+export function setScreenshotImpl(implementation: (options?: any) => Promise<Buffer>) {
+  screenshotImpl = implementation;
+}
+
 export function setGotoImplementation(implementation: GotoImplementation) {
   gotoImpl = implementation;
 }
@@ -142,6 +196,10 @@ export function setElementSelectorNotFound(selector: string) {
   };
 }
 
+export function setElementsSelectorImpl(impl: (selector: string) => Promise<any[]>) {
+  elementsSelectorImpl = impl;
+}
+
 export function setWaitForSelectorFailure(selector: string) {
   waitForSelectorImpl = async (sel: string) => {
     if (sel === selector) {
@@ -167,10 +225,17 @@ export function setFocusImpl(impl: (selector: string) => Promise<void>) {
   focusImpl = impl;
 }
 
+export function setAccessibilitySnapshotImpl(impl: (options?: any) => Promise<any>) {
+  accessibilitySnapshotImpl = impl;
+}
+
 export function resetPuppeteerMock() {
   launchMock.mockClear();
   mockBrowser.newPage.mockClear();
   mockBrowser.close.mockClear();
+  mockBrowser.createBrowserContext.mockClear();
+  mockContext.newPage.mockClear();
+  mockContext.close.mockClear();
   mockPage.setViewport.mockClear();
   mockPage.setDefaultNavigationTimeout.mockClear();
   mockPage.setExtraHTTPHeaders.mockClear();
@@ -184,20 +249,31 @@ export function resetPuppeteerMock() {
   mockPage.waitForNetworkIdle.mockClear();
   mockPage.setUserAgent.mockClear();
   mockPage.evaluateOnNewDocument.mockClear();
+  mockPage.removeScriptToEvaluateOnNewDocument.mockClear();
   mockPage.cookies.mockClear();
   mockPage.deleteCookie.mockClear();
   mockPage.$.mockClear();
+  mockPage.$$.mockClear();
   mockPage.type.mockClear();
   mockPage.select.mockClear();
   mockPage.hover.mockClear();
   mockPage.focus.mockClear();
+  mockPage.accessibility.snapshot.mockClear();
   mockPage.viewport.mockClear();
+  mockPage.url.mockClear();
+  mockPage.isClosed.mockClear();
+  mockPage.setRequestInterception.mockClear();
+  mockPage.on.mockClear();
+  mockPage.off.mockClear();
+  pageListeners.clear();
   mockKeyboard.press.mockClear();
   mockKeyboard.down.mockClear();
   mockKeyboard.up.mockClear();
   evaluateQueue.length = 0;
   screenshotBuffer = Buffer.from("mock-image");
+  screenshotImpl = async () => screenshotBuffer;
   currentViewport = { width: 1280, height: 720 };
+  currentUrl = "about:blank";
   setGotoSuccess();
   waitForSelectorImpl = async () => ({});
   clickImpl = async () => undefined;
@@ -208,10 +284,12 @@ export function resetPuppeteerMock() {
     screenshot: vi.fn(async () => screenshotBuffer),
     uploadFile: vi.fn(async () => undefined),
   });
+  elementsSelectorImpl = async () => [];
   typeImpl = async () => undefined;
   selectImpl = async () => [];
   hoverImpl = async () => undefined;
   focusImpl = async () => undefined;
+  accessibilitySnapshotImpl = async () => null;
 }
 
-export { launchMock, mockBrowser, mockPage, mockKeyboard };
+export { launchMock, mockBrowser, mockContext, mockPage, mockKeyboard, MOCK_BROWSER_USER_AGENT };
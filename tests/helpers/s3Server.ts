@@ -0,0 +1,174 @@
+import http from "http";
+import type { AddressInfo } from "net";
+
+import { presignUrl, sha256Hex, signRequest, type SigV4Scope } from "../../src/storage/sigv4.js";
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+  metadata: Record<string, string>;
+  lastModified: string;
+}
+
+export interface FakeS3Server {
+  endpoint: string;
+  objects: Map<string, StoredObject>;
+  requests: Array<{ method: string; path: string }>;
+  close(): Promise<void>;
+}
+
+/**
+ * Path-style S3 stand-in for one bucket. Recomputes the SigV4 signature of
+ * every request (header or pre-signed) and answers 403 when it differs.
+ */
+export async function startFakeS3Server(options: {
+  bucket: string;
+  scope: SigV4Scope;
+  /** Keys per ListObjectsV2 page. Default: 1000 */
+  pageSize?: number;
+}): Promise<FakeS3Server> {
+  const objects = new Map<string, StoredObject>();
+  const requests: FakeS3Server["requests"] = [];
+
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const body = Buffer.concat(chunks);
+    const url = new URL(req.url!, `http://${req.headers.host}`);
+    requests.push({ method: req.method!, path: url.pathname });
+
+    const problem = verifySignature(req, url, body, options.scope);
+    if (problem) {
+      return sendError(res, 403, "SignatureDoesNotMatch", problem);
+    }
+
+    const [, bucket, ...keyParts] = url.pathname.split("/");
+    if (decodeURIComponent(bucket) !== options.bucket) {
+      return sendError(res, 404, "NoSuchBucket", "The specified bucket does not exist");
+    }
+    const key = keyParts.map(decodeURIComponent).join("/");
+
+    if (!key && req.method === "GET" && url.searchParams.get("list-type") === "2") {
+      return sendListing(res, objects, url.searchParams, options.pageSize ?? 1000);
+    }
+
+    const object = objects.get(key);
+    switch (req.method) {
+      case "PUT":
+        objects.set(key, {
+          body,
+          contentType: String(req.headers["content-type"]),
+          metadata: Object.fromEntries(
+            Object.entries(req.headers)
+              .filter(([name]) => name.startsWith("x-amz-meta-"))
+              .map(([name, value]) => [name, String(value)]),
+          ),
+          lastModified: new Date().toISOString(),
+        });
+        res.writeHead(200).end();
+        return;
+      case "GET":
+      case "HEAD":
+        if (!object) {
+          return sendError(res, 404, "NoSuchKey", "The specified key does not exist.");
+        }
+        res.writeHead(200, {
+          "content-type": object.contentType,
+          "content-length": object.body.length,
+          "last-modified": new Date(object.lastModified).toUTCString(),
+          ...object.metadata,
+        });
+        res.end(req.method === "GET" ? object.body : undefined);
+        return;
+      case "DELETE":
+        objects.delete(key);
+        res.writeHead(204).end();
+        return;
+      default:
+        sendError(res, 405, "MethodNotAllowed", "The specified method is not allowed");
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    endpoint: `http://127.0.0.1:${port}`,
+    objects,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+function verifySignature(req: http.IncomingMessage, url: URL, body: Buffer, scope: SigV4Scope): string | undefined {
+  const presignedSignature = url.searchParams.get("X-Amz-Signature");
+  if (presignedSignature) {
+    const unsigned = new URL(url.href);
+    for (const name of [...unsigned.searchParams.keys()]) {
+      if (name.startsWith("X-Amz-")) {
+        unsigned.searchParams.delete(name);
+      }
+    }
+    const expected = presignUrl(
+      unsigned,
+      scope,
+      Number(url.searchParams.get("X-Amz-Expires")),
+      parseAmzDate(url.searchParams.get("X-Amz-Date")!),
+    );
+    return expected.endsWith(`X-Amz-Signature=${presignedSignature}`) ? undefined : "Pre-signed URL signature mismatch";
+  }
+
+  const payloadHash = String(req.headers["x-amz-content-sha256"]);
+  if (payloadHash !== sha256Hex(body)) {
+    return "Payload hash mismatch";
+  }
+  const signedHeaders = /SignedHeaders=([^,]+)/.exec(String(req.headers.authorization))?.[1].split(";") ?? [];
+  const headers = Object.fromEntries(
+    signedHeaders
+      .filter((name) => name !== "host" && name !== "x-amz-date" && name !== "x-amz-content-sha256" && name !== "x-amz-security-token")
+      .map((name) => [name, String(req.headers[name])]),
+  );
+  const expected = signRequest(
+    { method: req.method!, url, headers, payloadHash },
+    scope,
+    parseAmzDate(String(req.headers["x-amz-date"])),
+  );
+  return expected.authorization === req.headers.authorization ? undefined : "Request signature mismatch";
+}
+
+function parseAmzDate(value: string): Date {
+  return new Date(value.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, "$1-$2-$3T$4:$5:$6Z"));
+}
+
+function sendListing(res: http.ServerResponse, objects: Map<string, StoredObject>, params: URLSearchParams, pageSize: number) {
+  const prefix = params.get("prefix") ?? "";
+  const keys = [...objects.keys()].filter((key) => key.startsWith(prefix)).sort();
+  const start = Number(params.get("continuation-token") ?? 0);
+  const page = keys.slice(start, start + pageSize);
+  const truncated = start + pageSize < keys.length;
+
+  res.writeHead(200, { "content-type": "application/xml" });
+  res.end(
+    `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult>` +
+      page
+        .map((key) => {
+          const object = objects.get(key)!;
+          return `<Contents><Key>${escapeXml(key)}</Key><LastModified>${object.lastModified}</LastModified><Size>${object.body.length}</Size></Contents>`;
+        })
+        .join("") +
+      `<IsTruncated>${truncated}</IsTruncated>` +
+      (truncated ? `<NextContinuationToken>${start + pageSize}</NextContinuationToken>` : "") +
+      `</ListBucketResult>`,
+  );
+}
+
+function sendError(res: http.ServerResponse, status: number, code: string, message: string) {
+  res.writeHead(status, { "content-type": "application/xml" });
+  res.end(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${message}</Message></Error>`);
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
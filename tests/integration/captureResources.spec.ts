@@ -0,0 +1,117 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+
+import { createPageCaptureServer } from "../../src/server.js";
+import { LocalStorageTarget, MemoryStorageTarget, registerStorageTarget } from "../../src/storage/index.js";
+import type { Logger } from "../../src/logger.js";
+
+const createLogger = (): Logger => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+let client: Client;
+let storage: MemoryStorageTarget;
+
+beforeEach(async () => {
+  storage = new MemoryStorageTarget();
+  registerStorageTarget("archive", storage);
+
+  const { server } = createPageCaptureServer({ logger: createLogger() });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: "test", version: "1.0.0" });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+});
+
+afterEach(async () => {
+  await client.close();
+});
+
+describe("capture resources", () => {
+  it("lists saved captures with their MIME type and tags", async () => {
+    await storage.save(Buffer.from("png-bytes"), {
+      filename: "shots/home page.png",
+      mimeType: "image/png",
+      tags: { url: "https://example.com" },
+    });
+    await storage.save(Buffer.from('{"ok":true}'), { filename: "dom.json", mimeType: "application/json" });
+
+    const { resources } = await client.listResources();
+
+    expect(resources).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          uri: "capture://archive/shots/home%20page.png",
+          name: "shots/home page.png",
+          mimeType: "image/png",
+          _meta: expect.objectContaining({ size: 9, tags: { url: "https://example.com" } }),
+        }),
+        expect.objectContaining({ uri: "capture://archive/dom.json", mimeType: "application/json" }),
+      ]),
+    );
+  });
+
+  it("returns images as blobs and JSON as text", async () => {
+    await storage.save(Buffer.from("png-bytes"), { filename: "shots/home page.png", mimeType: "image/png", tags: { kind: "shot" } });
+    await storage.save(Buffer.from('{"ok":true}'), { filename: "dom.json", mimeType: "application/json" });
+
+    const image = await client.readResource({ uri: "capture://archive/shots/home%20page.png" });
+    const json = await client.readResource({ uri: "capture://archive/dom.json" });
+
+    expect(image.contents[0]).toMatchObject({
+      mimeType: "image/png",
+      blob: Buffer.from("png-bytes").toString("base64"),
+      _meta: { tags: { kind: "shot" } },
+    });
+    expect(json.contents[0]).toMatchObject({ mimeType: "application/json", text: '{"ok":true}' });
+  });
+
+  it("reads one capture's metadata without listing the target", async () => {
+    await storage.save(Buffer.from("png-bytes"), { filename: "home.png", mimeType: "image/png", tags: { kind: "shot" } });
+    const list = vi.spyOn(storage, "list");
+
+    const image = await client.readResource({ uri: "capture://archive/home.png" });
+
+    expect(image.contents[0]).toMatchObject({ mimeType: "image/png", _meta: { tags: { kind: "shot" } } });
+    expect(list).not.toHaveBeenCalled();
+  });
+
+  it("rejects unknown targets and keys", async () => {
+    await expect(client.readResource({ uri: "capture://archive/missing.png" })).rejects.toThrow(
+      'Capture "missing.png" not found in storage target "archive"',
+    );
+    await expect(client.readResource({ uri: "capture://nowhere/a.png" })).rejects.toThrow(
+      'Unknown storage target "nowhere"',
+    );
+  });
+
+  it("does not read files outside a local capture directory", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "capture-resources-"));
+    registerStorageTarget("disk", new LocalStorageTarget(path.join(dir, "captures")));
+
+    try {
+      await expect(client.readResource({ uri: "capture://disk/..%2Fsecret.txt" })).rejects.toThrow(
+        'Invalid storage key "../secret.txt"',
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("notifies the client when a capture is saved", async () => {
+    const changed = new Promise<void>((resolve) => {
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () => resolve());
+    });
+
+    await storage.save(Buffer.from("png-bytes"), { filename: "new.png", mimeType: "image/png" });
+
+    await expect(changed).resolves.toBeUndefined();
+  });
+});
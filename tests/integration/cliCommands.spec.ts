@@ -0,0 +1,197 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  mockPage,
+  queueEvaluateResult,
+  resetPuppeteerMock,
+  setGotoFailure,
+  setScreenshotBuffer,
+  setWaitForSelectorFailure,
+} from "../helpers/puppeteerMock.js";
+import { runCliCommand, EXIT_INVALID_STEPS, EXIT_SUCCESS, EXIT_USAGE, type CommandOutput } from "../../src/commands.js";
+import { ERROR_EXIT_CODES } from "../../src/utils/errors.js";
+import type { Logger } from "../../src/logger.js";
+
+const createLogger = (): Logger => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+const createOutput = () => {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const output: CommandOutput = { stdout: (text) => stdout.push(text), stderr: (text) => stderr.push(text) };
+  return { output, stdout, stderr };
+};
+
+const METRICS = { viewportWidth: 1280, viewportHeight: 720, scrollWidth: 1280, scrollHeight: 720, scrollX: 0, scrollY: 0 };
+
+let dir: string;
+
+beforeEach(async () => {
+  resetPuppeteerMock();
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "cli-commands-"));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("capture command", () => {
+  it("runs the steps file and writes the screenshot", async () => {
+    const stepsFile = path.join(dir, "steps.json");
+    const out = path.join(dir, "shot.png");
+    await fs.writeFile(stepsFile, JSON.stringify({ steps: [{ type: "wait", for: "#ready" }] }));
+    queueEvaluateResult(METRICS);
+    setScreenshotBuffer(Buffer.from("cli-image"));
+    const { output, stdout } = createOutput();
+
+    const code = await runCliCommand(
+      { command: "capture", url: "example.com", steps: stepsFile, out, json: true, help: false },
+      createLogger(),
+      output,
+    );
+
+    expect(code).toBe(EXIT_SUCCESS);
+    expect(mockPage.goto).toHaveBeenCalledWith("https://example.com/", expect.anything());
+    expect(mockPage.waitForSelector).toHaveBeenCalledWith("#ready", expect.anything());
+    expect(await fs.readFile(out, "utf8")).toBe("cli-image");
+    expect(JSON.parse(stdout[0])).toMatchObject({ url: "https://example.com/", bytes: 9, out });
+  });
+
+  it("exits with the error code's exit code when the capture fails", async () => {
+    setGotoFailure(400);
+    const { output, stderr } = createOutput();
+
+    const code = await runCliCommand(
+      { command: "capture", url: "https://example.com/broken", out: path.join(dir, "shot.png"), json: false, help: false },
+      createLogger(),
+      output,
+    );
+
+    expect(code).toBe(ERROR_EXIT_CODES.NAVIGATION_FAILED);
+    expect(stderr[0]).toBe("error: NAVIGATION_FAILED: Navigation failed with status: 400");
+  });
+
+  it("exits with the error code's exit code when a step fails", async () => {
+    const stepsFile = path.join(dir, "steps.json");
+    const out = path.join(dir, "shot.png");
+    await fs.writeFile(stepsFile, JSON.stringify([{ type: "click", target: "#accept" }, { type: "click", target: "#missing" }]));
+    setWaitForSelectorFailure("#missing");
+    queueEvaluateResult(METRICS);
+    setScreenshotBuffer(Buffer.from("cli-image"));
+    const { output, stdout, stderr } = createOutput();
+
+    const code = await runCliCommand(
+      { command: "capture", url: "https://example.com", steps: stepsFile, out, json: true, help: false },
+      createLogger(),
+      output,
+    );
+
+    expect(code).toBe(ERROR_EXIT_CODES.ELEMENT_NOT_FOUND);
+    expect(stderr[0]).toBe('error: ELEMENT_NOT_FOUND: Element "#missing" not found on page');
+    expect(stderr[1]).toMatch(/^hint: /);
+    expect(await fs.readFile(out, "utf8")).toBe("cli-image");
+    expect(JSON.parse(stdout[0]).steps).toEqual([
+      expect.objectContaining({ type: "click", target: "#accept", success: true }),
+      expect.objectContaining({ type: "click", target: "#missing", success: false }),
+      expect.objectContaining({ type: "screenshot", success: true }),
+    ]);
+  });
+
+  it("exits with the usage code for an invalid steps file", async () => {
+    const stepsFile = path.join(dir, "steps.json");
+    await fs.writeFile(stepsFile, JSON.stringify([{ type: "teleport" }]));
+    const { output, stderr } = createOutput();
+
+    const code = await runCliCommand(
+      { command: "capture", url: "https://example.com", steps: stepsFile, out: path.join(dir, "shot.png"), json: false, help: false },
+      createLogger(),
+      output,
+    );
+
+    expect(code).toBe(EXIT_USAGE);
+    expect(stderr[0]).toContain("invalid steps");
+    expect(mockPage.goto).not.toHaveBeenCalled();
+  });
+});
+
+describe("extract command", () => {
+  it("prints the requested format", async () => {
+    queueEvaluateResult({
+      ok: true,
+      payload: {
+        html: "<main>Hello</main>",
+        text: "Hello",
+        domTree: { type: "element", tagName: "main", attributes: {}, children: [] },
+        nodeCount: 1,
+        truncated: false,
+      },
+    });
+    const { output, stdout } = createOutput();
+
+    const code = await runCliCommand(
+      { command: "extract", url: "https://example.com", selector: "main", format: "html", help: false },
+      createLogger(),
+      output,
+    );
+
+    expect(code).toBe(EXIT_SUCCESS);
+    expect(stdout).toEqual(["<main>Hello</main>"]);
+  });
+
+  it("prints Markdown", async () => {
+    queueEvaluateResult({
+      ok: true,
+      payload: {
+        html: "<main><h2>Hello</h2></main>",
+        text: "Hello",
+        domTree: {
+          type: "element",
+          tagName: "main",
+          attributes: {},
+          children: [{ type: "element", tagName: "h2", attributes: {}, children: [{ type: "text", textContent: "Hello" }] }],
+        },
+        nodeCount: 3,
+        truncated: false,
+      },
+    });
+    const { output, stdout } = createOutput();
+
+    await runCliCommand({ command: "extract", url: "https://example.com", format: "markdown", help: false }, createLogger(), output);
+
+    expect(stdout).toEqual(["## Hello"]);
+  });
+});
+
+describe("validate command", () => {
+  it("reports invalid steps without opening a browser", async () => {
+    const stepsFile = path.join(dir, "steps.json");
+    await fs.writeFile(stepsFile, JSON.stringify([{ type: "fill", target: "#email" }]));
+    const { output, stdout } = createOutput();
+
+    const code = await runCliCommand({ command: "validate", steps: stepsFile, help: false }, createLogger(), output);
+
+    expect(code).toBe(EXIT_INVALID_STEPS);
+    expect(stdout[0]).toContain("VALIDATION FAILED");
+    expect(mockPage.goto).not.toHaveBeenCalled();
+  });
+
+  it("exits with the usage code when the steps file is missing", async () => {
+    const { output, stderr } = createOutput();
+
+    const code = await runCliCommand(
+      { command: "validate", steps: path.join(dir, "missing.json"), help: false },
+      createLogger(),
+      output,
+    );
+
+    expect(code).toBe(EXIT_USAGE);
+    expect(stderr[0]).toContain("Cannot read steps file");
+  });
+});
@@ -0,0 +1,236 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { z } from "zod";
+
+import { startHttpServer, type HttpServerHandle, type HttpServerOptions } from "../../src/transport/http.js";
+import { getStorageTarget, MemoryStorageTarget, registerStorageTarget } from "../../src/storage/index.js";
+import type { Logger } from "../../src/logger.js";
+
+const createLogger = (): Logger => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+/** Small stand-in for the page-capture server that echoes who called it */
+const createEchoServer = () => {
+  const server = new McpServer({ name: "echo", version: "1.0.0" });
+  server.registerTool(
+    "echo",
+    { description: "Echo", inputSchema: { text: z.string() } },
+    async ({ text }, extra) => ({
+      content: [{ type: "text", text: `${text} from ${extra.authInfo?.clientId ?? "anonymous"}` }],
+    }),
+  );
+  return server;
+};
+
+/** Saves and lists notes in a shared storage target, the way the capture tools do */
+const createNotesServer = () => {
+  const server = new McpServer({ name: "notes", version: "1.0.0" });
+  server.registerTool(
+    "saveNote",
+    { description: "Save", inputSchema: { name: z.string(), text: z.string() } },
+    async ({ name, text }) => {
+      await getStorageTarget("notes")!.save(Buffer.from(text), { filename: name, mimeType: "text/plain" });
+      return { content: [{ type: "text", text: "saved" }] };
+    },
+  );
+  server.registerTool("listNotes", { description: "List", inputSchema: {} }, async () => {
+    const items = await getStorageTarget("notes")!.list!();
+    return { content: [{ type: "text", text: items.map((item) => item.key).join(",") }] };
+  });
+  return server;
+};
+
+const INITIALIZE = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+};
+
+let handle: HttpServerHandle | undefined;
+const clients: Client[] = [];
+
+const start = async (options: Partial<HttpServerOptions> = {}, createServer = createEchoServer) => {
+  handle = await startHttpServer(createServer, { transport: "http", port: 0, ...options }, createLogger());
+  return handle;
+};
+
+const connect = async (url: string, transport: "http" | "sse", headers: Record<string, string> = {}) => {
+  const client = new Client({ name: "test", version: "1.0.0" });
+  const clientTransport = transport === "http"
+    ? new StreamableHTTPClientTransport(new URL(`${url}/mcp`), { requestInit: { headers } })
+    : new SSEClientTransport(new URL(`${url}/sse`), {
+        requestInit: { headers },
+        eventSourceInit: { fetch: (input, init) => fetch(input, { ...init, headers: { ...init?.headers, ...headers } }) },
+      });
+  await client.connect(clientTransport);
+  clients.push(client);
+  return client;
+};
+
+const postInitialize = (url: string, headers: Record<string, string> = {}) =>
+  fetch(`${url}/mcp`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+    body: JSON.stringify(INITIALIZE),
+  });
+
+afterEach(async () => {
+  await Promise.allSettled(clients.splice(0).map((client) => client.close()));
+  await handle?.close();
+  handle = undefined;
+});
+
+describe("HTTP transport", () => {
+  it("serves tools over Streamable HTTP and passes the key name to handlers", async () => {
+    const { url } = await start({ apiKeys: [{ name: "ci", key: "secret-1" }] });
+
+    const client = await connect(url, "http", { Authorization: "Bearer secret-1" });
+    const result = await client.callTool({ name: "echo", arguments: { text: "hi" } });
+
+    expect(result.content).toEqual([{ type: "text", text: "hi from ci" }]);
+  });
+
+  it("serves the legacy SSE transport", async () => {
+    const { url } = await start({ transport: "sse", apiKeys: [{ name: "ci", key: "secret-1" }] });
+
+    const client = await connect(url, "sse", { "X-API-Key": "secret-1" });
+    const { tools } = await client.listTools();
+
+    expect(tools.map((tool) => tool.name)).toEqual(["echo"]);
+  });
+
+  it("rejects requests without a valid API key", async () => {
+    const { url } = await start({ apiKeys: [{ name: "ci", key: "secret-1" }] });
+
+    const missing = await postInitialize(url);
+    const wrong = await postInitialize(url, { Authorization: "Bearer nope" });
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toContain("Bearer");
+    expect(wrong.status).toBe(401);
+    expect(await wrong.json()).toMatchObject({ error: { message: "Missing or invalid API key" } });
+  });
+
+  it("answers /healthz without authentication", async () => {
+    const { url } = await start({ apiKeys: [{ name: "ci", key: "secret-1" }], version: "9.9.9" });
+
+    const response = await fetch(`${url}/healthz`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: "ok", version: "9.9.9", transport: "http", sessions: 0 });
+  });
+
+  it("enforces per-key quotas", async () => {
+    const { url } = await start({
+      apiKeys: [
+        { name: "small", key: "small-key", quota: { maxRequests: 1, windowMs: 60_000 } },
+        { name: "default", key: "default-key" },
+      ],
+      defaultQuota: { maxRequests: 5 },
+    });
+
+    const first = await postInitialize(url, { "X-API-Key": "small-key" });
+    const second = await postInitialize(url, { "X-API-Key": "small-key" });
+    const other = await postInitialize(url, { "X-API-Key": "default-key" });
+
+    expect(first.status).toBe(200);
+    expect(first.headers.get("x-ratelimit-remaining")).toBe("0");
+    expect(second.status).toBe(429);
+    expect(Number(second.headers.get("retry-after"))).toBeGreaterThan(0);
+    expect(other.status).toBe(200);
+    expect(other.headers.get("x-ratelimit-remaining")).toBe("4");
+  });
+
+  it("keeps sessions private to the key that opened them", async () => {
+    const { url } = await start({ apiKeys: [{ name: "a", key: "key-a" }, { name: "b", key: "key-b" }] });
+
+    const opened = await postInitialize(url, { "X-API-Key": "key-a" });
+    const sessionId = opened.headers.get("mcp-session-id")!;
+    const hijack = await fetch(`${url}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "X-API-Key": "key-b",
+        "Mcp-Session-Id": sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+
+    expect(sessionId).toBeTruthy();
+    expect(hijack.status).toBe(404);
+  });
+
+  it.each(["http", "sse"] as const)("keeps stored data private to each key over %s", async (transport) => {
+    registerStorageTarget("notes", new MemoryStorageTarget());
+    const { url } = await start({ transport, apiKeys: [{ name: "a", key: "key-a" }, { name: "b", key: "key-b" }] }, createNotesServer);
+
+    const clientA = await connect(url, transport, { "X-API-Key": "key-a" });
+    const clientB = await connect(url, transport, { "X-API-Key": "key-b" });
+    await clientA.callTool({ name: "saveNote", arguments: { name: "todo.txt", text: "from a" } });
+    await clientB.callTool({ name: "saveNote", arguments: { name: "todo.txt", text: "from b" } });
+
+    expect((await clientA.callTool({ name: "listNotes", arguments: {} })).content).toEqual([{ type: "text", text: "todo.txt" }]);
+    expect((await clientB.callTool({ name: "listNotes", arguments: {} })).content).toEqual([{ type: "text", text: "todo.txt" }]);
+    expect((await getStorageTarget("notes")!.list!()).map((item) => item.key).sort()).toEqual([
+      "tenants/a/todo.txt",
+      "tenants/b/todo.txt",
+    ]);
+  });
+
+  it("closes Streamable HTTP sessions that stay idle", async () => {
+    const { url } = await start({ sessionIdleTimeoutMs: 50 });
+
+    const opened = await postInitialize(url);
+    const sessionId = opened.headers.get("mcp-session-id")!;
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const expired = await fetch(`${url}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "Mcp-Session-Id": sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+    const health = await fetch(`${url}/healthz`);
+
+    expect(opened.status).toBe(200);
+    expect(expired.status).toBe(404);
+    expect(await health.json()).toMatchObject({ sessions: 0 });
+  });
+
+  it("answers CORS preflights for allowed origins only", async () => {
+    const { url } = await start({ cors: { origins: ["https://app.example.com"] } });
+
+    const allowed = await fetch(`${url}/mcp`, { method: "OPTIONS", headers: { Origin: "https://app.example.com" } });
+    const denied = await fetch(`${url}/mcp`, { method: "OPTIONS", headers: { Origin: "https://evil.example.com" } });
+
+    expect(allowed.status).toBe(204);
+    expect(allowed.headers.get("access-control-allow-origin")).toBe("https://app.example.com");
+    expect(allowed.headers.get("access-control-allow-headers")).toContain("Mcp-Session-Id");
+    expect(denied.headers.get("access-control-allow-origin")).toBeNull();
+  });
+
+  it("returns 404 for unknown paths and 400 for requests without a session", async () => {
+    const { url } = await start();
+
+    const unknown = await fetch(`${url}/nope`);
+    const noSession = await fetch(`${url}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+
+    expect(unknown.status).toBe(404);
+    expect(noSession.status).toBe(400);
+  });
+});
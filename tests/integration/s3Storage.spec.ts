@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { EncryptingStorageTarget } from "../../src/storage/encryption.js";
+import { S3StorageTarget, StorageError, type S3StorageConfig } from "../../src/storage/index.js";
+import { startFakeS3Server, type FakeS3Server } from "../helpers/s3Server.js";
+import type { Logger } from "../../src/logger.js";
+
+const createLogger = (): Logger => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+const credentials = { accessKeyId: "test-key", secretAccessKey: "test-secret" };
+
+let server: FakeS3Server;
+
+const createTarget = (config: Partial<S3StorageConfig> = {}) =>
+  new S3StorageTarget({ bucket: "captures", endpoint: server.endpoint, ...credentials, ...config }, createLogger());
+
+beforeEach(async () => {
+  server = await startFakeS3Server({ bucket: "captures", scope: { credentials, region: "us-east-1" }, pageSize: 2 });
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await server.close();
+});
+
+describe("S3StorageTarget", () => {
+  it("uploads with the content type and tags and returns a pre-signed URL", async () => {
+    const storage = createTarget({ prefix: "shots/" });
+
+    const result = await storage.save(Buffer.from("png-bytes"), {
+      filename: "home page.png",
+      mimeType: "image/png",
+      timestamp: "2026-01-05T10:00:00.000Z",
+      tags: { url: "https://example.com/", fullPage: "true" },
+    });
+
+    expect(result).toMatchObject({ location: "s3://captures/shots/home page.png", key: "home page.png", size: 9 });
+    expect(server.requests).toEqual([{ method: "PUT", path: "/captures/shots/home%20page.png" }]);
+    expect(server.objects.get("shots/home page.png")).toMatchObject({ contentType: "image/png" });
+
+    const download = await fetch(result.url!);
+    expect(download.status).toBe(200);
+    expect(Buffer.from(await download.arrayBuffer()).toString()).toBe("png-bytes");
+  });
+
+  it("sends no plaintext tags when wrapped in encryption", async () => {
+    const storage = new EncryptingStorageTarget(createTarget(), { keys: { k1: "a".repeat(64) } });
+
+    await storage.save(Buffer.from("png-bytes"), { filename: "home.png", tags: { url: "https://example.com/account" } });
+
+    const stored = server.objects.get("home.png")!;
+    expect(JSON.stringify(stored.metadata)).not.toContain("example.com");
+    expect(decodeURIComponent(JSON.stringify(stored.metadata))).not.toContain("example.com");
+    expect((await storage.stat("home.png"))?.metadata).toEqual({ url: "https://example.com/account" });
+  });
+
+  it("retrieves objects and returns null for missing keys", async () => {
+    const storage = createTarget();
+    await storage.save(Buffer.from("{}"), { filename: "dom.json", mimeType: "application/json" });
+
+    expect((await storage.retrieve("dom.json"))?.toString()).toBe("{}");
+    expect(await storage.retrieve("missing.json")).toBeNull();
+  });
+
+  it("describes one object with a single HEAD request", async () => {
+    const storage = createTarget({ prefix: "run/" });
+    await storage.save(Buffer.from("png-bytes"), {
+      filename: "a.png",
+      mimeType: "image/png",
+      timestamp: "2026-01-05T10:00:00.000Z",
+      tags: { url: "https://example.com/" },
+    });
+    server.requests.length = 0;
+
+    expect(await storage.stat("a.png")).toEqual({
+      key: "a.png",
+      size: 9,
+      modified: "2026-01-05T10:00:00.000Z",
+      mimeType: "image/png",
+      metadata: { url: "https://example.com/" },
+    });
+    expect(await storage.stat("missing.png")).toBeNull();
+    expect(server.requests).toEqual([
+      { method: "HEAD", path: "/captures/run/a.png" },
+      { method: "HEAD", path: "/captures/run/missing.png" },
+    ]);
+  });
+
+  it("describes objects with unreadable tags without their metadata", async () => {
+    const logger = createLogger();
+    const storage = new S3StorageTarget({ bucket: "captures", endpoint: server.endpoint, ...credentials }, logger);
+    await storage.save(Buffer.from("png-bytes"), { filename: "a.png", tags: { url: "https://example.com/" } });
+    server.objects.get("a.png")!.metadata["x-amz-meta-tags"] = "%7Bnot-json";
+
+    expect(await storage.stat("a.png")).toMatchObject({ key: "a.png", metadata: undefined });
+    expect(await storage.list()).toEqual([expect.objectContaining({ key: "a.png", metadata: undefined })]);
+    expect(logger.warn).toHaveBeenCalledWith("storage:s3:tags_unreadable", expect.objectContaining({ key: "a.png" }));
+  });
+
+  it("lists every page with the saved tags", async () => {
+    const storage = createTarget({ prefix: "run/" });
+    for (const name of ["a.png", "b.png", "c.json"]) {
+      await storage.save(Buffer.from(name), { filename: name, tags: { name } });
+    }
+
+    const items = await storage.list();
+
+    expect(items.map((item) => item.key)).toEqual(["a.png", "b.png", "c.json"]);
+    expect(items[2]).toMatchObject({ size: 6, mimeType: "application/json", metadata: { name: "c.json" } });
+    expect(server.requests.filter((request) => request.path === "/captures")).toHaveLength(2);
+  });
+
+  it("reports whether a deleted object existed", async () => {
+    const storage = createTarget();
+    await storage.save(Buffer.from("x"), { filename: "x.png" });
+
+    expect(await storage.delete("x.png")).toBe(true);
+    expect(await storage.delete("x.png")).toBe(false);
+    expect(server.objects.size).toBe(0);
+  });
+
+  it("surfaces S3 error codes", async () => {
+    const storage = createTarget({ secretAccessKey: "wrong-secret" });
+
+    const failure = storage.save(Buffer.from("x"), { filename: "x.png" });
+
+    await expect(failure).rejects.toThrow(
+      "S3 PutObject failed for s3://captures/x.png: 403 SignatureDoesNotMatch - Request signature mismatch",
+    );
+    await expect(failure).rejects.toMatchObject({ code: "STORAGE_FORBIDDEN" });
+  });
+
+  it("reports unreachable endpoints as storage I/O errors", async () => {
+    const storage = createTarget();
+    await server.close();
+
+    await expect(storage.retrieve("x.png")).rejects.toMatchObject({ name: "StorageError", code: "STORAGE_IO_ERROR" });
+  });
+
+  it("rejects keys that would leave the prefix or the bucket", async () => {
+    const storage = createTarget({ prefix: "caps/" });
+
+    for (const key of ["../x.png", "../../other-bucket/x.png", "a/./b.png", "a//b.png", "/x.png", ""]) {
+      await expect(storage.retrieve(key)).rejects.toBeInstanceOf(StorageError);
+      await expect(storage.delete(key)).rejects.toMatchObject({ code: "STORAGE_FORBIDDEN" });
+    }
+    await expect(storage.save(Buffer.from("x"), { filename: "../x.png" })).rejects.toMatchObject({ code: "STORAGE_FORBIDDEN" });
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it("reads credentials and the endpoint from the environment", async () => {
+    vi.stubEnv("AWS_ACCESS_KEY_ID", credentials.accessKeyId);
+    vi.stubEnv("AWS_SECRET_ACCESS_KEY", credentials.secretAccessKey);
+    vi.stubEnv("AWS_ENDPOINT_URL_S3", server.endpoint);
+
+    const storage = new S3StorageTarget({ bucket: "captures" });
+    await storage.save(Buffer.from("x"), { filename: "env.png" });
+
+    expect(server.objects.has("env.png")).toBe(true);
+  });
+
+  it("refuses to send unsigned requests", async () => {
+    vi.stubEnv("AWS_ACCESS_KEY_ID", "");
+    vi.stubEnv("AWS_SECRET_ACCESS_KEY", "");
+    const storage = new S3StorageTarget({ bucket: "captures", endpoint: server.endpoint });
+
+    const error = await storage.save(Buffer.from("x"), { filename: "x.png" }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(StorageError);
+    expect(error).toMatchObject({ code: "STORAGE_FORBIDDEN", message: expect.stringContaining("S3 credentials are not configured") });
+    expect(server.requests).toHaveLength(0);
+  });
+});
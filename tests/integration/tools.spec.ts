@@ -1,20 +1,41 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 
 import {
+  launchMock,
+  MOCK_BROWSER_USER_AGENT,
   mockBrowser,
+  mockContext,
   mockPage,
   queueEvaluateResult,
   resetPuppeteerMock,
   setGotoFailure,
   setScreenshotBuffer,
+  setScreenshotImpl,
   setWaitForSelectorFailure,
   setCookiesImpl,
   setElementSelectorNotFound,
+  setGotoImplementation,
+  setAccessibilitySnapshotImpl,
+  setElementSelectorImpl,
+  setElementsSelectorImpl,
+  emitPageEvent,
 } from "../helpers/puppeteerMock.js";
 import { registerCaptureScreenshotTool } from "../../src/tools/captureScreenshot.js";
 import { registerExtractDomTool } from "../../src/tools/extractDom.js";
+import { registerExtractMetadataTool } from "../../src/tools/extractMetadata.js";
+import { registerAccessibilityTreeTool } from "../../src/tools/accessibility.js";
+import { registerFindElementsTool } from "../../src/tools/findElements.js";
+import { registerSessionTools } from "../../src/tools/sessions.js";
+import { registerCompareScreenshotsTool } from "../../src/tools/compareScreenshots.js";
+import { registerCaptureCatalogTools } from "../../src/tools/captures.js";
+import { MemoryStorageTarget, registerStorageTarget } from "../../src/storage/index.js";
+import { decodePng, encodePng, type RgbaImage } from "../../src/image/png.js";
+import { shutdownSessions } from "../../src/browser/sessions.js";
+import { captureScreenshotOutputSchema } from "../../src/schemas/index.js";
+import { applyServerConfig, parseServerConfig } from "../../src/config/file.js";
+import { resetCaptureDefaults } from "../../src/config/defaults.js";
 import type { Logger } from "../../src/logger.js";
 
 const createLogger = (): Logger => ({
@@ -24,14 +45,52 @@ const createLogger = (): Logger => ({
   error: vi.fn(),
 });
 
+const fakeNetworkRequest = (url: string, status: number | null, errorText?: string) => {
+  const response = status === null
+    ? null
+    : {
+        status: () => status,
+        statusText: () => "",
+        headers: () => ({ "content-type": "text/html", "content-length": "1024" }),
+        timing: () => null,
+        remoteAddress: () => ({}),
+      };
+  return {
+    url: () => url,
+    method: () => "GET",
+    headers: () => ({}),
+    postData: () => undefined,
+    resourceType: () => "document",
+    response: () => response,
+    failure: () => (errorText ? { errorText } : null),
+  };
+};
+
+/** Makes page.goto load the document plus one failing script */
+const setGotoWithTraffic = (status = 200) => {
+  setGotoImplementation(async (url) => {
+    const documentRequest = fakeNetworkRequest(url, status);
+    const scriptRequest = fakeNetworkRequest("https://cdn.example.com/app.js", null, "net::ERR_CONNECTION_REFUSED");
+    emitPageEvent("request", documentRequest);
+    emitPageEvent("request", scriptRequest);
+    emitPageEvent("requestfinished", documentRequest);
+    emitPageEvent("requestfailed", scriptRequest);
+    return { ok: () => status < 400, status: () => status };
+  });
+};
+
 const getToolHandler = (
   registerFn: (server: McpServer, logger: Logger) => void,
   logger: Logger,
+  toolName?: string,
 ) => {
   const registerTool = vi.fn();
   const server = { registerTool } as unknown as McpServer;
   registerFn(server, logger);
-  const handler = registerTool.mock.calls[0]?.[2];
+  const call = toolName
+    ? registerTool.mock.calls.find(([name]) => name === toolName)
+    : registerTool.mock.calls[0];
+  const handler = call?.[2];
   if (!handler) {
     throw new Error("Tool handler was not registered.");
   }
@@ -84,7 +143,7 @@ describe("captureScreenshot tool", () => {
       }),
     );
     expect(mockPage.screenshot).toHaveBeenCalledWith({ type: "png", fullPage: true });
-    expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+    expect(mockContext.close).toHaveBeenCalledTimes(1);
 
     expect(response.content[0]).toMatchObject({ type: "text" });
     expect(response.content[0].text).toContain("URL: https://example.com/dashboard");
@@ -114,7 +173,558 @@ describe("captureScreenshot tool", () => {
       },
     });
 
-    expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+    expect(mockContext.close).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns structured results matching the output schema in json mode", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    setWaitForSelectorFailure(".missing");
+    queueEvaluateResult({ x: 0, y: 100 }, { viewportWidth: 1280, viewportHeight: 720, scrollWidth: 1280, scrollHeight: 900, scrollX: 0, scrollY: 0 });
+
+    const response = await handler({
+      url: "https://example.com",
+      responseFormat: "json",
+      steps: [{ type: "wait", for: ".missing" }, { type: "scroll", y: 100 }],
+    });
+
+    const structured = response.structuredContent;
+    expect(captureScreenshotOutputSchema.safeParse(structured).success).toBe(true);
+    expect(JSON.parse(response.content[0].text)).toEqual(JSON.parse(JSON.stringify(structured)));
+    expect(response.content[1].type).toBe("image");
+    expect(structured.metadata).toMatchObject({ url: "https://example.com/", scrollHeight: 900 });
+    expect(structured.steps).toEqual(expect.arrayContaining([
+      expect.objectContaining({ type: "wait", target: ".missing", success: false }),
+      expect.objectContaining({ type: "scroll", success: true }),
+    ]));
+    expect(structured.warnings).toEqual(expect.arrayContaining([expect.stringMatching(/\(wait \.missing\) failed/)]));
+    expect(structured.error.error).toMatchObject({ code: "ELEMENT_NOT_FOUND", stepType: "wait", target: ".missing" });
+  });
+
+  it("reports the first failed step with corrected steps in json mode", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    setWaitForSelectorFailure("#checkout");
+    queueEvaluateResult({ viewportWidth: 1280, viewportHeight: 720, scrollWidth: 1280, scrollHeight: 720, scrollX: 0, scrollY: 0 });
+
+    const response = await handler({
+      url: "https://example.com",
+      responseFormat: "json",
+      steps: [{ type: "click", target: "#accept" }, { type: "click", target: "#checkout", button: "left" }],
+    });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[1].type).toBe("image");
+    expect(captureScreenshotOutputSchema.safeParse(response.structuredContent).success).toBe(true);
+    expect(response.structuredContent.success).toBe(false);
+    expect(response.structuredContent.error).toMatchObject({
+      error: { code: "ELEMENT_NOT_FOUND", step: 2, stepType: "click", target: "#checkout" },
+      recovery: {
+        action: "modify",
+        correctedSteps: [
+          { type: "wait", for: "#checkout", timeout: 10000 },
+          { type: "click", target: "#checkout", button: "left" },
+        ],
+      },
+      context: { url: "https://example.com/", stepsCompleted: 1, lastSuccessfulStep: 1 },
+    });
+    expect(response.structuredContent.error.context.stepsTotal).toBe(response.structuredContent.steps.length);
+  });
+
+  it("reports a failed step by its position in the caller's steps", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    setWaitForSelectorFailure("#checkout");
+    queueEvaluateResult({ viewportWidth: 1280, viewportHeight: 720, scrollWidth: 1280, scrollHeight: 720, scrollX: 0, scrollY: 0 });
+
+    // Cookies are set before navigation, so the click runs second but is the caller's first step
+    const response = await handler({
+      url: "https://example.com",
+      responseFormat: "json",
+      steps: [
+        { type: "click", target: "#checkout" },
+        { type: "cookie", action: "set", name: "consent", value: "yes" },
+      ],
+    });
+
+    expect(response.structuredContent.error).toMatchObject({
+      error: { code: "ELEMENT_NOT_FOUND", step: 1, stepType: "click", target: "#checkout" },
+      recovery: { correctedSteps: [{ type: "wait", for: "#checkout" }, { type: "click", target: "#checkout" }] },
+      context: { stepsCompleted: 1, lastSuccessfulStep: 2 },
+    });
+  });
+
+  it("attaches structured content to text responses", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    queueEvaluateResult({ viewportWidth: 1280, viewportHeight: 720, scrollWidth: 1280, scrollHeight: 720, scrollX: 0, scrollY: 0 });
+
+    const response = await handler({ url: "https://example.com" });
+
+    expect(response.content[0].text).toContain("mcp-page-capture screenshot");
+    expect(response.structuredContent).toMatchObject({ success: true, warnings: [] });
+    expect(captureScreenshotOutputSchema.safeParse(response.structuredContent).success).toBe(true);
+  });
+
+  it("reports a failed step as a warning and in structured content in text mode", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    setWaitForSelectorFailure(".missing");
+    queueEvaluateResult({ viewportWidth: 1280, viewportHeight: 720, scrollWidth: 1280, scrollHeight: 720, scrollX: 0, scrollY: 0 });
+
+    const response = await handler({ url: "https://example.com", steps: [{ type: "wait", for: ".missing" }] });
+
+    expect(response.content[0].text).toContain("mcp-page-capture screenshot");
+    expect(response.isError).toBeUndefined();
+    expect(response.structuredContent.success).toBe(false);
+    expect(response.structuredContent.error.error).toMatchObject({ code: "ELEMENT_NOT_FOUND", step: 1, stepType: "wait" });
+    expect(captureScreenshotOutputSchema.safeParse(response.structuredContent).success).toBe(true);
+  });
+
+  it("validates steps with structured content in text mode", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    const response = await handler({ url: "https://example.com", validate: true, steps: [{ type: "click", target: "#go" }] });
+
+    expect(response.structuredContent.validation).toMatchObject({ valid: true, errors: [] });
+    expect(captureScreenshotOutputSchema.safeParse(response.structuredContent).success).toBe(true);
+  });
+
+  it("returns failures as a structured tool error in json mode", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    setGotoFailure(400);
+
+    const response = await handler({
+      url: "https://example.com/broken",
+      responseFormat: "json",
+      steps: [{ type: "click", target: "#go" }],
+    });
+
+    expect(response.isError).toBe(true);
+    expect(captureScreenshotOutputSchema.safeParse(response.structuredContent).success).toBe(true);
+    expect(response.structuredContent.error).toMatchObject({
+      success: false,
+      error: { code: "NAVIGATION_FAILED", message: "Navigation failed with status: 400" },
+      recovery: { action: "retry" },
+      context: { url: "https://example.com/broken", stepsTotal: 1 },
+    });
+    expect(JSON.parse(response.content[0].text).error.error.code).toBe("NAVIGATION_FAILED");
+  });
+
+  it("returns a per-step trace when trace is enabled", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    setWaitForSelectorFailure(".missing");
+    queueEvaluateResult({ viewportWidth: 1280, viewportHeight: 720, scrollWidth: 1280, scrollHeight: 720, scrollX: 0, scrollY: 0 });
+
+    const response = await handler({
+      url: "https://example.com",
+      trace: true,
+      steps: [{ type: "click", target: "#go" }, { type: "wait", for: ".missing" }],
+    });
+
+    expect(response.content[0].text).toContain("TRACE (");
+    expect(response.content[0].text).toMatch(/✗ wait \.missing \d+ms/);
+    const { trace } = response.structuredContent;
+    expect(trace.outcome).toBe("success");
+    expect(trace.steps.map((step: any) => [step.type, step.outcome])).toEqual([
+      ["click", "success"],
+      ["wait", "failed"],
+      ["screenshot", "success"],
+    ]);
+    expect(trace.steps[0]).toMatchObject({ target: "#go", attempt: 1, phase: "after-navigation" });
+    expect(trace.steps[0].thumbnail).toBeUndefined();
+  });
+
+  it("returns trace thumbnails as image blocks and references them from the trace", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+    // Thumbnails, screenshots and page metrics all read the page's dimensions
+    const dimensions = { x: 0, y: 0, width: 1280, height: 720, scrollWidth: 1280, scrollHeight: 720 };
+    const metrics = { viewportWidth: 1280, viewportHeight: 720, scrollWidth: 1280, scrollHeight: 720, scrollX: 0, scrollY: 0 };
+    for (let i = 0; i < 6; i++) {
+      queueEvaluateResult({ ...dimensions, ...metrics });
+    }
+
+    const response = await handler({
+      url: "https://example.com",
+      responseFormat: "json",
+      trace: { thumbnails: true },
+      steps: [{ type: "click", target: "#go" }],
+    });
+
+    const { steps } = response.structuredContent.trace;
+    expect(steps.length).toBeGreaterThan(0);
+    for (const step of steps) {
+      expect(step.thumbnail).toMatchObject({ mimeType: "image/jpeg", contentIndex: expect.any(Number) });
+      expect(step.thumbnail.imageBase64).toBeUndefined();
+      expect(response.content[step.thumbnail.contentIndex]).toMatchObject({ type: "image", mimeType: "image/jpeg" });
+    }
+    expect(response.content).toHaveLength(2 + steps.length);
+    expect(response.content[0].text).not.toContain(Buffer.from("mock-image").toString("base64"));
+    expect(captureScreenshotOutputSchema.safeParse(response.structuredContent).success).toBe(true);
+  });
+
+  it("points trace thumbnails into the saved bundle", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+    const storage = new MemoryStorageTarget();
+    registerStorageTarget("trace-thumbnails", storage);
+    const dimensions = { x: 0, y: 0, width: 1280, height: 720, scrollWidth: 1280, scrollHeight: 720 };
+    const metrics = { viewportWidth: 1280, viewportHeight: 720, scrollWidth: 1280, scrollHeight: 720, scrollX: 0, scrollY: 0 };
+    for (let i = 0; i < 6; i++) {
+      queueEvaluateResult({ ...dimensions, ...metrics });
+    }
+
+    const response = await handler({
+      url: "https://example.com",
+      responseFormat: "json",
+      storageTarget: "trace-thumbnails",
+      trace: { thumbnails: true, save: true },
+      steps: [{ type: "click", target: "#go" }],
+    });
+
+    const { trace, traceLocation } = response.structuredContent;
+    expect(traceLocation).toMatch(/^memory:\/\//);
+    expect(response.content).toHaveLength(2);
+    expect(trace.steps[0].thumbnail).toEqual({ mimeType: "image/jpeg", bundlePointer: "/trace/steps/0/thumbnail" });
+    const item = (await storage.list()).find((entry) => entry.metadata?.kind === "trace")!;
+    const bundle = JSON.parse((await storage.retrieve(item.key))!.toString("utf8"));
+    expect(bundle.trace.steps[0].thumbnail.imageBase64).toBe(Buffer.from("mock-image").toString("base64"));
+  });
+
+  it("saves the trace bundle when the capture fails", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+    const storage = new MemoryStorageTarget();
+    registerStorageTarget("traces", storage);
+
+    setGotoFailure(400);
+
+    const error = await handler({
+      url: "https://example.com/broken",
+      storageTarget: "traces",
+      trace: { save: true },
+      steps: [{ type: "click", target: "#go" }],
+    }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).data).toMatchObject({ traceLocation: expect.stringMatching(/^memory:\/\//) });
+    const [item] = await storage.list();
+    const bundle = JSON.parse((await storage.retrieve(item.key))!.toString("utf8"));
+    expect(bundle.trace).toMatchObject({
+      url: "https://example.com/broken",
+      outcome: "failed",
+      error: "Navigation failed with status: 400",
+    });
+  });
+
+  it("records a HAR and summarizes the network traffic when recordHar is set", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+    const storage = new MemoryStorageTarget();
+    registerStorageTarget("har", storage);
+
+    setGotoWithTraffic();
+    queueEvaluateResult({ viewportWidth: 1280, viewportHeight: 720, scrollWidth: 1280, scrollHeight: 720, scrollX: 0, scrollY: 0 });
+
+    const response = await handler({ url: "https://example.com", storageTarget: "har", recordHar: true });
+
+    expect(response.content[0].text).toContain("NETWORK: 2 requests, 1.0 KB, 1 failed");
+    expect(response.content[0].text).toContain("✗ GET https://cdn.example.com/app.js net::ERR_CONNECTION_REFUSED");
+    expect(response.structuredContent.har).toMatchObject({
+      location: expect.stringMatching(/^memory:\/\//),
+      summary: { totalRequests: 2, totalBytes: 1024 },
+    });
+    expect(captureScreenshotOutputSchema.safeParse(response.structuredContent).success).toBe(true);
+
+    const item = (await storage.list()).find((entry) => entry.metadata?.kind === "har")!;
+    const har = JSON.parse((await storage.retrieve(item.key))!.toString("utf8"));
+    expect(har.log.entries.map((entry: any) => entry.request.url)).toEqual(
+      expect.arrayContaining(["https://example.com/", "https://cdn.example.com/app.js"]),
+    );
+    expect(mockPage.off).toHaveBeenCalledWith("request", expect.any(Function));
+  });
+
+  it("saves the HAR when the capture fails", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+    registerStorageTarget("har-failures", new MemoryStorageTarget());
+
+    setGotoWithTraffic(404);
+
+    const error = await handler({
+      url: "https://example.com/missing",
+      storageTarget: "har-failures",
+      recordHar: true,
+    }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).data).toMatchObject({ harLocation: expect.stringMatching(/^memory:\/\//) });
+  });
+
+  it("applies network rules and reports which ones matched", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    const interceptable = (url: string, resourceType = "script") => ({
+      url: () => url,
+      method: () => "GET",
+      resourceType: () => resourceType,
+      headers: () => ({}),
+      isInterceptResolutionHandled: () => false,
+      respond: vi.fn(async () => undefined),
+      abort: vi.fn(async () => undefined),
+      continue: vi.fn(async () => undefined),
+    });
+    const tracker = interceptable("https://www.googletagmanager.com/gtm.js");
+    const api = interceptable("https://api.example.com/products", "fetch");
+    setGotoImplementation(async () => {
+      emitPageEvent("request", tracker);
+      emitPageEvent("request", api);
+      return { ok: () => true, status: () => 200 };
+    });
+    queueEvaluateResult({ viewportWidth: 1280, viewportHeight: 720, scrollWidth: 1280, scrollHeight: 720, scrollX: 0, scrollY: 0 });
+
+    const response = await handler({
+      url: "https://example.com",
+      network: {
+        blockResourceTypes: ["ads", "analytics"],
+        mocks: [{ url: "https://api.example.com/*", json: [] }],
+      },
+    });
+
+    expect(mockPage.setRequestInterception).toHaveBeenNthCalledWith(1, true);
+    expect(mockPage.setRequestInterception).toHaveBeenLastCalledWith(false);
+    expect(tracker.abort).toHaveBeenCalled();
+    expect(api.respond).toHaveBeenCalled();
+    expect(response.content[0].text).toContain("Network rules matched:\n  mock https://api.example.com/*: 1 request\n  block analytics: 1 request");
+    expect(response.structuredContent.metadata.networkRules).toEqual([
+      { action: "mock", rule: "https://api.example.com/*", matches: 1, urls: ["https://api.example.com/products"] },
+      { action: "block", rule: "analytics", matches: 1, urls: ["https://www.googletagmanager.com/gtm.js"] },
+    ]);
+    expect(captureScreenshotOutputSchema.safeParse(response.structuredContent).success).toBe(true);
+  });
+
+  it("returns console messages and page errors when collectConsole is set", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    setGotoImplementation(async () => {
+      emitPageEvent("console", { type: () => "warn", text: () => "slow render", location: () => ({}) });
+      emitPageEvent("pageerror", new TypeError("widget is undefined"));
+      return { ok: () => true, status: () => 200 };
+    });
+    queueEvaluateResult({ viewportWidth: 1280, viewportHeight: 720, scrollWidth: 1280, scrollHeight: 720, scrollX: 0, scrollY: 0 });
+
+    const response = await handler({ url: "https://example.com", collectConsole: true });
+
+    expect(response.content[0].text).toContain("CONSOLE: 1 warn; 1 uncaught exception; 0 failed requests");
+    expect(response.structuredContent.console).toMatchObject({
+      counts: { warn: 1 },
+      pageErrors: [{ message: "widget is undefined" }],
+    });
+    expect(captureScreenshotOutputSchema.safeParse(response.structuredContent).success).toBe(true);
+    expect(mockPage.off).toHaveBeenCalledWith("pageerror", expect.any(Function));
+  });
+
+  it("fails the capture on page errors when failOnConsoleError is set", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    setGotoImplementation(async () => {
+      emitPageEvent("console", { type: () => "error", text: () => "Uncaught (in promise) 500", location: () => ({}) });
+      return { ok: () => true, status: () => 200 };
+    });
+    queueEvaluateResult({ viewportWidth: 1280, viewportHeight: 720, scrollWidth: 1280, scrollHeight: 720, scrollX: 0, scrollY: 0 });
+
+    const response = await handler({ url: "https://example.com", failOnConsoleError: true, responseFormat: "json" });
+
+    expect(response.isError).toBe(true);
+    expect(response.structuredContent.error.error).toMatchObject({
+      code: "PAGE_ERROR",
+      message: "Page reported 1 JavaScript error: Uncaught (in promise) 500",
+    });
+    expect(response.structuredContent.console.counts).toEqual({ error: 1 });
+    expect(captureScreenshotOutputSchema.safeParse(response.structuredContent).success).toBe(true);
+  });
+
+  it("uses storage targets and defaults from the config file", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+    await applyServerConfig(
+      parseServerConfig({
+        storage: { archive: { type: "memory" } },
+        defaults: { viewport: { width: 800, height: 600 } },
+      }),
+      logger,
+    );
+
+    try {
+      queueEvaluateResult({});
+      const response = await handler({ url: "https://example.com", storageTarget: "archive" });
+
+      expect(mockPage.setViewport).toHaveBeenCalledWith({ width: 800, height: 600 });
+      expect(response.content[0].text).toContain("memory://");
+    } finally {
+      resetCaptureDefaults();
+    }
+  });
+
+  it("reuses the pooled browser and leases a fresh context per call", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    queueEvaluateResult({}, {});
+    await handler({ url: "https://example.com/one" });
+    await handler({ url: "https://example.com/two" });
+
+    expect(launchMock.mock.calls.length).toBeLessThanOrEqual(1);
+    expect(mockBrowser.createBrowserContext).toHaveBeenCalledTimes(2);
+    expect(mockContext.close).toHaveBeenCalledTimes(2);
+    expect(mockBrowser.close).not.toHaveBeenCalled();
+  });
+
+  it("replays the steps once per device and returns an image for each", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    queueEvaluateResult({}, {}, {});
+
+    const response = await handler({
+      url: "https://example.com",
+      devices: ["mobile", "tablet", "desktop"],
+      steps: [{ type: "viewport", device: "desktop-4k" }, { type: "scroll", y: 200 }],
+    });
+
+    const [summary, ...images] = response.content;
+    expect(summary.text).toContain("multi-device capture (3 devices: mobile, tablet, desktop)");
+    expect(summary.text).toContain("[Image 2] Device: tablet");
+    expect(images).toHaveLength(3);
+    expect(images.every((image: any) => image.type === "image")).toBe(true);
+
+    // The device viewport replaces the caller's viewport step on every pass
+    const widths = mockPage.setViewport.mock.calls.map(([viewport]: any[]) => viewport.width);
+    expect(widths).not.toContain(3840);
+    expect(widths).toEqual(expect.arrayContaining([402, 1032, 1920]));
+    expect(mockPage.goto).toHaveBeenCalledTimes(3);
+    expect(mockBrowser.createBrowserContext).toHaveBeenCalledTimes(1);
+  });
+
+  it("resets the user agent and touch emulation of the previous device", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+    const userAgentAtCapture: string[] = [];
+    setScreenshotImpl(async () => {
+      userAgentAtCapture.push(mockPage.setUserAgent.mock.calls.at(-1)![0]);
+      return Buffer.from("mock-image");
+    });
+
+    queueEvaluateResult({}, {});
+
+    await handler({ url: "https://example.com", devices: ["mobile", "desktop"] });
+
+    expect(userAgentAtCapture[0]).toContain("iPhone");
+    expect(userAgentAtCapture[1]).toBe(MOCK_BROWSER_USER_AGENT);
+    const { identifier } = await mockPage.evaluateOnNewDocument.mock.results[0].value;
+    expect(mockPage.removeScriptToEvaluateOnNewDocument).toHaveBeenCalledWith(identifier);
+    expect(mockPage.setViewport.mock.calls.at(-1)![0]).toMatchObject({ width: 1920, isMobile: false });
+  });
+
+  it("adds a side-by-side composite when requested", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    setScreenshotBuffer(encodePng({ width: 4, height: 3, data: new Uint8Array(48).fill(0) }));
+    queueEvaluateResult({}, {});
+
+    const response = await handler({
+      url: "https://example.com",
+      devices: ["mobile", "desktop"],
+      composite: true,
+    });
+
+    expect(response.content).toHaveLength(4);
+    expect(response.content[0].text).toContain("[Image 3] Composite: 24x3 (mobile@x=0, desktop@x=20)");
+    const composite = decodePng(Buffer.from(response.content[3].data, "base64"));
+    expect(composite.width).toBe(24);
+    expect(composite.height).toBe(3);
+  });
+
+  it("skips the composite without failing when captures can't be decoded", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    queueEvaluateResult({}, {});
+
+    const response = await handler({
+      url: "https://example.com",
+      devices: ["mobile", "desktop"],
+      composite: true,
+    });
+
+    expect(response.content).toHaveLength(3);
+    expect(response.content[0].text).toContain("Composite image skipped");
+    expect(logger.warn).toHaveBeenCalledWith("devices:composite_skipped", expect.any(Object));
+  });
+
+  it("rejects repeated devices", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    await expect(handler({ url: "https://example.com", devices: ["mobile", "mobile"] })).rejects.toThrow();
+  });
+
+  it("returns the requested image format and reports it in the metadata", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    queueEvaluateResult({});
+
+    const response = await handler({
+      url: "https://example.com",
+      steps: [{ type: "screenshot", format: "webp", quality: 60 }],
+    });
+
+    expect(mockPage.screenshot).toHaveBeenCalledWith({ type: "webp", quality: 60, fullPage: false });
+    expect(response.content[1]).toMatchObject({ type: "image", mimeType: "image/webp" });
+    expect(response.content[0].text).toContain("Image: webp, quality 60");
+  });
+
+  it("lowers quality and then downscales to fit maxBytes", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    // Encoded size follows quality and pixel area, like a real JPEG encoder
+    setScreenshotImpl(async (options) => {
+      const scale = options.clip?.scale ?? 1;
+      return Buffer.alloc(Math.round(options.quality * 100 * scale * scale));
+    });
+    queueEvaluateResult(
+      { x: 0, y: 0, width: 1280, height: 720, scrollWidth: 1280, scrollHeight: 720 },
+      {},
+    );
+
+    const response = await handler({
+      url: "https://example.com",
+      steps: [{ type: "screenshot", format: "jpeg", quality: 90, maxBytes: 2048 }],
+    });
+
+    const qualities = mockPage.screenshot.mock.calls.map(([options]: any[]) => options.quality);
+    expect(qualities).toEqual(expect.arrayContaining([90, 80, 70, 60, 50, 40, 30]));
+    expect(Buffer.from(response.content[1].data, "base64").length).toBeLessThanOrEqual(2048);
+    expect(response.content[1].mimeType).toBe("image/jpeg");
+    expect(response.content[0].text).toContain("Image: jpeg, quality 30");
+    expect(response.content[0].text).toMatch(/Downscaled to \d+% to fit the byte budget/);
   });
 
   it("scrolls to specified coordinates before capturing screenshot", async () => {
@@ -145,7 +755,7 @@ describe("captureScreenshot tool", () => {
 
     expect(mockPage.evaluate).toHaveBeenCalled();
     expect(response.content[0].text).toContain("Scroll position: (100, 500)");
-    expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+    expect(mockContext.close).toHaveBeenCalledTimes(1);
   });
 
   it("scrolls to element by selector before capturing screenshot", async () => {
@@ -175,7 +785,7 @@ describe("captureScreenshot tool", () => {
 
     expect(mockPage.evaluate).toHaveBeenCalled();
     expect(response.content[0].text).toContain("Scroll position: (0, 800)");
-    expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+    expect(mockContext.close).toHaveBeenCalledTimes(1);
   });
 
   it("handles scroll with smooth behavior", async () => {
@@ -205,7 +815,7 @@ describe("captureScreenshot tool", () => {
     });
 
     expect(response.content[0].text).toContain("Scroll position: (0, 1000)");
-    expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+    expect(mockContext.close).toHaveBeenCalledTimes(1);
   });
 
   it("gracefully handles selector not found during scroll", async () => {
@@ -235,7 +845,7 @@ describe("captureScreenshot tool", () => {
 
     // Should still capture screenshot but with scroll at 0,0
     expect(response.content[0].text).toContain("Scroll position: (0, 0)");
-    expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+    expect(mockContext.close).toHaveBeenCalledTimes(1);
   });
 
   it("executes click actions before taking screenshot", async () => {
@@ -264,7 +874,7 @@ describe("captureScreenshot tool", () => {
     expect(mockPage.waitForSelector).toHaveBeenCalledWith(".open-modal-btn", { timeout: 10000 });
     expect(mockPage.click).toHaveBeenCalledWith(".open-modal-btn", {});
     expect(response.content[0].text).toContain("Steps executed:");
-    expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+    expect(mockContext.close).toHaveBeenCalledTimes(1);
   });
 
   it("executes multiple click actions in sequence", async () => {
@@ -295,7 +905,7 @@ describe("captureScreenshot tool", () => {
     expect(mockPage.waitForSelector).toHaveBeenCalledTimes(3);
     expect(mockPage.click).toHaveBeenCalledTimes(3);
     expect(response.content[0].text).toContain("Steps executed:");
-    expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+    expect(mockContext.close).toHaveBeenCalledTimes(1);
   });
 
   it("handles click action with delayBefore and delayAfter", async () => {
@@ -327,7 +937,7 @@ describe("captureScreenshot tool", () => {
     expect(response.content[0].text).toContain("Steps executed:");
     // Should have waited at least 100ms (50ms before + 50ms after)
     expect(elapsed).toBeGreaterThanOrEqual(90); // Allow some tolerance
-    expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+    expect(mockContext.close).toHaveBeenCalledTimes(1);
   });
 
   it("handles click action with waitForSelector after click", async () => {
@@ -357,7 +967,7 @@ describe("captureScreenshot tool", () => {
     expect(mockPage.click).toHaveBeenCalledWith(".open-modal-btn", {});
     expect(mockPage.waitForSelector).toHaveBeenCalledWith(".modal-content", { timeout: 10000 });
     expect(response.content[0].text).toContain("Steps executed:");
-    expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+    expect(mockContext.close).toHaveBeenCalledTimes(1);
   });
 
   it("handles click action with button and clickCount options", async () => {
@@ -385,7 +995,7 @@ describe("captureScreenshot tool", () => {
 
     expect(mockPage.click).toHaveBeenCalledWith(".item", { button: "left", clickCount: 2 });
     expect(response.content[0].text).toContain("Steps executed:");
-    expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+    expect(mockContext.close).toHaveBeenCalledTimes(1);
   });
 
   it("continues with remaining click actions when one fails", async () => {
@@ -419,7 +1029,7 @@ describe("captureScreenshot tool", () => {
     expect(mockPage.click).toHaveBeenCalledTimes(1);
     expect(mockPage.click).toHaveBeenCalledWith(".existing-btn", {});
     expect(response.content[0].text).toContain("Steps executed:");
-    expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+    expect(mockContext.close).toHaveBeenCalledTimes(1);
   });
 
   it("does not include click actions in metadata when none executed", async () => {
@@ -445,7 +1055,7 @@ describe("captureScreenshot tool", () => {
     expect(mockPage.click).not.toHaveBeenCalled();
     // With the new steps system, an auto-screenshot step is always added
     expect(response.content[0].text).toContain("Steps executed: 1");
-    expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+    expect(mockContext.close).toHaveBeenCalledTimes(1);
   });
 
   // Steps-based action tests
@@ -478,7 +1088,7 @@ describe("captureScreenshot tool", () => {
 
       expect(elapsed).toBeGreaterThanOrEqual(90);
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes click step", async () => {
@@ -508,7 +1118,7 @@ describe("captureScreenshot tool", () => {
       expect(mockPage.waitForSelector).toHaveBeenCalledWith(".btn", { timeout: 10000 });
       expect(mockPage.click).toHaveBeenCalledWith(".btn", {});
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes scroll step with coordinates", async () => {
@@ -539,7 +1149,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.evaluate).toHaveBeenCalled();
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes scroll step with selector", async () => {
@@ -570,7 +1180,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.evaluate).toHaveBeenCalled();
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes waitForSelector step", async () => {
@@ -599,7 +1209,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.waitForSelector).toHaveBeenCalledWith(".loaded", { timeout: 10000 });
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes multiple steps in sequence", async () => {
@@ -635,7 +1245,7 @@ describe("captureScreenshot tool", () => {
       expect(mockPage.click).toHaveBeenCalledWith(".open-btn", {});
       expect(mockPage.waitForSelector).toHaveBeenCalledWith(".modal", { timeout: 10000 });
       expect(response.content[0].text).toContain("Steps executed: 6");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("takes screenshot automatically if no screenshot step is provided", async () => {
@@ -664,7 +1274,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.screenshot).toHaveBeenCalled();
       expect(response.content[0].text).toContain("Steps executed: 3");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes click step with button and clickCount options", async () => {
@@ -693,7 +1303,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.click).toHaveBeenCalledWith(".item", { button: "left", clickCount: 2 });
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("continues with remaining steps when one fails", async () => {
@@ -728,7 +1338,7 @@ describe("captureScreenshot tool", () => {
       expect(mockPage.click).toHaveBeenCalledTimes(1);
       expect(mockPage.click).toHaveBeenCalledWith(".existing", {});
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes screenshot step at specified position in steps", async () => {
@@ -762,7 +1372,7 @@ describe("captureScreenshot tool", () => {
       expect(mockPage.click).toHaveBeenNthCalledWith(2, ".after-btn", {});
       expect(mockPage.screenshot).toHaveBeenCalled();
       expect(response.content[0].text).toContain("Steps executed: 3");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes screenshot step with fullPage override", async () => {
@@ -790,7 +1400,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.screenshot).toHaveBeenCalledWith({ type: "png", fullPage: true });
       expect(response.content[0].text).toContain("Steps executed: 1");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes screenshot step with selector to capture element", async () => {
@@ -818,7 +1428,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.$).toHaveBeenCalledWith(".target-element");
       expect(response.content[0].text).toContain("Steps executed: 1");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("falls back to page screenshot when element selector not found", async () => {
@@ -850,7 +1460,7 @@ describe("captureScreenshot tool", () => {
       expect(mockPage.$).toHaveBeenCalledWith(".nonexistent-element");
       expect(mockPage.screenshot).toHaveBeenCalledWith({ type: "png", fullPage: false });
       expect(response.content[0].text).toContain("Steps executed: 1");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes cookie set step", async () => {
@@ -884,7 +1494,7 @@ describe("captureScreenshot tool", () => {
         }),
       );
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes cookie set step with all options", async () => {
@@ -935,7 +1545,7 @@ describe("captureScreenshot tool", () => {
         }),
       );
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes cookie delete step", async () => {
@@ -975,7 +1585,7 @@ describe("captureScreenshot tool", () => {
         }),
       );
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("handles cookie delete when cookie not found", async () => {
@@ -1008,7 +1618,7 @@ describe("captureScreenshot tool", () => {
       expect(mockPage.cookies).toHaveBeenCalled();
       expect(mockPage.deleteCookie).not.toHaveBeenCalled();
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes localStorage set step", async () => {
@@ -1039,7 +1649,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.evaluate).toHaveBeenCalled();
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes sessionStorage set step", async () => {
@@ -1070,7 +1680,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.evaluate).toHaveBeenCalled();
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes storage delete step", async () => {
@@ -1101,7 +1711,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.evaluate).toHaveBeenCalled();
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes storage clear step", async () => {
@@ -1132,7 +1742,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.evaluate).toHaveBeenCalled();
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes complex workflow with all new step types", async () => {
@@ -1177,7 +1787,7 @@ describe("captureScreenshot tool", () => {
       expect(mockPage.evaluate).toHaveBeenCalled();
       expect(mockPage.click).toHaveBeenCalledWith(".login-btn", {});
       expect(response.content[0].text).toContain("Steps executed: 7");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     // New action type tests
@@ -1208,7 +1818,7 @@ describe("captureScreenshot tool", () => {
       expect(mockPage.waitForSelector).toHaveBeenCalledWith("#username", { timeout: 5000 });
       expect(mockPage.type).toHaveBeenCalledWith("#username", "testuser", { delay: 0 });
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes text input step with pressEnter option", async () => {
@@ -1238,7 +1848,7 @@ describe("captureScreenshot tool", () => {
       expect(mockPage.type).toHaveBeenCalledWith("#search", "query", { delay: 0 });
       expect(mockPage.keyboard.press).toHaveBeenCalledWith("Enter");
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes select step by value", async () => {
@@ -1267,7 +1877,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.select).toHaveBeenCalledWith("#country", "us");
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes select step by text", async () => {
@@ -1298,7 +1908,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.evaluate).toHaveBeenCalled();
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes checkbox step", async () => {
@@ -1329,7 +1939,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.click).toHaveBeenCalledWith("#terms");
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes hover step", async () => {
@@ -1358,7 +1968,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.hover).toHaveBeenCalledWith(".dropdown");
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes focus step", async () => {
@@ -1387,7 +1997,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.focus).toHaveBeenCalledWith("#email");
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes blur step", async () => {
@@ -1418,7 +2028,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.evaluate).toHaveBeenCalled();
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes clear step", async () => {
@@ -1448,7 +2058,7 @@ describe("captureScreenshot tool", () => {
       expect(mockPage.click).toHaveBeenCalledWith("#search", { clickCount: 3 });
       expect(mockPage.keyboard.press).toHaveBeenCalledWith("Backspace");
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes keypress step", async () => {
@@ -1477,7 +2087,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.keyboard.press).toHaveBeenCalledWith("Tab");
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes keypress step with modifiers", async () => {
@@ -1508,7 +2118,7 @@ describe("captureScreenshot tool", () => {
       expect(mockPage.keyboard.press).toHaveBeenCalledWith("a");
       expect(mockPage.keyboard.up).toHaveBeenCalledWith("Control");
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes evaluate step", async () => {
@@ -1539,7 +2149,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.evaluate).toHaveBeenCalled();
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes radio step", async () => {
@@ -1569,7 +2179,7 @@ describe("captureScreenshot tool", () => {
       expect(mockPage.waitForSelector).toHaveBeenCalledWith("input[type='radio'][value=\"option1\"]", { timeout: 5000 });
       expect(mockPage.click).toHaveBeenCalledWith("input[type='radio'][value=\"option1\"]");
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes upload step", async () => {
@@ -1598,7 +2208,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.$).toHaveBeenCalledWith("input[type='file']");
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("executes submit step", async () => {
@@ -1629,7 +2239,7 @@ describe("captureScreenshot tool", () => {
 
       expect(mockPage.evaluate).toHaveBeenCalled();
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
 
     it("handles scroll with smooth behavior", async () => {
@@ -1663,7 +2273,7 @@ describe("captureScreenshot tool", () => {
       expect(elapsed).toBeGreaterThanOrEqual(400); // smooth scroll waits 500ms
       expect(mockPage.evaluate).toHaveBeenCalled();
       expect(response.content[0].text).toContain("Steps executed: 2");
-      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
     });
   });
 });
@@ -1735,6 +2345,167 @@ describe("extractDom tool", () => {
     expect(domBlock.text).toContain('"tagName": "section"');
   });
 
+  it("returns only Markdown of the visible content when format is markdown", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerExtractDomTool, logger);
+
+    queueEvaluateResult((_: (...args: unknown[]) => unknown, params: { visibleOnly: boolean }) => {
+      expect(params.visibleOnly).toBe(true);
+      return {
+        ok: true,
+        payload: {
+          html: "<main>...</main>",
+          text: "Docs Read more",
+          domTree: {
+            type: "element",
+            tagName: "main",
+            attributes: {},
+            children: [
+              { type: "element", tagName: "h1", attributes: {}, children: [{ type: "text", textContent: "Docs" }] },
+              {
+                type: "element",
+                tagName: "a",
+                attributes: { href: "/more" },
+                children: [{ type: "text", textContent: "Read more" }],
+              },
+            ],
+          },
+          nodeCount: 5,
+          truncated: false,
+        },
+      };
+    });
+
+    const response = await handler({ url: "https://example.org/docs", format: "markdown" });
+
+    expect(response.content).toHaveLength(2);
+    expect(response.content[0].text).toContain("Markdown truncated: false");
+    expect(response.content[0].text).not.toContain("HTML truncated");
+    expect(response.content[1].text).toBe("Markdown:\n# Docs\n\n[Read more](https://example.org/more)");
+  });
+
+  it("keeps the spaces between inline elements when serializing for Markdown", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerExtractDomTool, logger);
+
+    // Just enough of a DOM for the in-page serializer
+    const text = (textContent: string) => ({ nodeType: 3, textContent });
+    const element = (tagName: string, attributes: Record<string, string>, ...childNodes: any[]): any => ({
+      nodeType: 1,
+      tagName: tagName.toUpperCase(),
+      attributes: Object.entries(attributes).map(([name, value]) => ({ name, value })),
+      childNodes,
+      textContent: childNodes.map((child) => child.textContent).join(""),
+      outerHTML: `<${tagName}>`,
+      hasAttribute: (name: string) => name in attributes,
+      getAttribute: (name: string) => attributes[name] ?? null,
+    });
+    const paragraph = element("p", {},
+      element("strong", {}, text("Bold")), text(" "),
+      element("em", {}, text("italic")), text("\n  "),
+      element("a", { href: "/x" }, text("link")),
+    );
+    vi.stubGlobal("Node", { TEXT_NODE: 3, ELEMENT_NODE: 1 });
+    vi.stubGlobal("document", { querySelector: () => paragraph });
+    vi.stubGlobal("window", { getComputedStyle: () => ({ display: "block", visibility: "visible" }) });
+    queueEvaluateResult((fn: (params: unknown) => unknown, params: unknown) => fn(params));
+
+    try {
+      const response = await handler({ url: "https://example.org/docs", selector: "p", format: "markdown" });
+
+      expect(response.content[1].text).toBe("Markdown:\n**Bold** _italic_ [link](https://example.org/x)");
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("reports the article container and its metadata in article mode", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerExtractDomTool, logger);
+    const storage = new MemoryStorageTarget();
+    registerStorageTarget("dom-article", storage);
+
+    queueEvaluateResult((_: (...args: unknown[]) => unknown, params: { articleMode: boolean; visibleOnly: boolean }) => {
+      expect(params).toMatchObject({ articleMode: true, visibleOnly: false });
+      return {
+        ok: true,
+        payload: {
+          html: "<div class=\"story-body\"><p>Body</p></div>",
+          text: "Body",
+          domTree: { type: "element", tagName: "div", attributes: { class: "story-body" }, children: [] },
+          nodeCount: 2,
+          truncated: false,
+          article: {
+            selector: "main > div > div",
+            title: "Big news today",
+            byline: "Jane Reporter",
+            publishedAt: "2026-03-04T10:00:00+02:00",
+          },
+        },
+      };
+    });
+
+    const response = await handler({ url: "https://example.org/news", mode: "article", storageTarget: "dom-article" });
+
+    const [summary, htmlBlock, textBlock] = response.content;
+    expect(summary.text).toContain("Article container: main > div > div");
+    expect(summary.text).toContain("Title: Big news today");
+    expect(summary.text).toContain("Byline: Jane Reporter");
+    expect(summary.text).toContain("Published: 2026-03-04T08:00:00.000Z");
+    expect(htmlBlock.text).toBe('HTML:\n<div class="story-body"><p>Body</p></div>');
+    expect(textBlock.text).toBe("Text:\nBody");
+
+    const [stored] = await storage.list();
+    expect(JSON.parse((await storage.retrieve(stored.key))!.toString()).article).toMatchObject({
+      selector: "main > div > div",
+      publishedAt: "2026-03-04T08:00:00.000Z",
+    });
+  });
+
+  it("appends a network summary when recordHar is set", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerExtractDomTool, logger);
+    registerStorageTarget("dom-har", new MemoryStorageTarget());
+
+    setGotoWithTraffic();
+    queueEvaluateResult({
+      ok: true,
+      payload: { html: "<p>hi</p>", text: "hi", domTree: null, nodeCount: 1, truncated: false },
+    });
+
+    const response = await handler({
+      url: "https://example.org",
+      storageTarget: "dom-har",
+      recordHar: { includeBodies: false },
+    });
+
+    const networkBlock = response.content[response.content.length - 1];
+    expect(networkBlock.text).toContain("NETWORK: 2 requests");
+    expect(networkBlock.text).toMatch(/HAR saved at: memory:\/\//);
+  });
+
+  it("fails on page errors when failOnConsoleError is set", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerExtractDomTool, logger);
+
+    setGotoImplementation(async () => {
+      emitPageEvent("pageerror", new Error("hydration failed"));
+      return { ok: () => true, status: () => 200 };
+    });
+    queueEvaluateResult({
+      ok: true,
+      payload: { html: "<p>hi</p>", text: "hi", domTree: null, nodeCount: 1, truncated: false },
+    });
+
+    const error = await handler({ url: "https://example.org", failOnConsoleError: true }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).data).toMatchObject({
+      detail: "Page reported 1 JavaScript error: hydration failed",
+      console: { pageErrors: [{ message: "hydration failed" }] },
+    });
+  });
+
   it("surfaced DOM extraction failures as McpErrors", async () => {
     const logger = createLogger();
     const handler = getToolHandler(registerExtractDomTool, logger);
@@ -1756,3 +2527,531 @@ describe("extractDom tool", () => {
     });
   });
 });
+
+describe("getAccessibilityTree tool", () => {
+  beforeEach(() => {
+    resetPuppeteerMock();
+  });
+
+  const elementWithRef = (ref: string) => async () => ({
+    evaluate: vi.fn(async () => [ref, "body > form > input"]),
+    dispose: vi.fn(async () => undefined),
+  });
+
+  it("returns roles, names, values, states and refs for controls", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerAccessibilityTreeTool, logger);
+
+    setAccessibilitySnapshotImpl(async () => ({
+      role: "RootWebArea",
+      name: "Sign in",
+      elementHandle: async () => null,
+      children: [
+        { role: "heading", name: "Sign in", level: 1, elementHandle: async () => null },
+        {
+          role: "textbox",
+          name: "Email",
+          value: "ada@example.com",
+          focused: true,
+          required: true,
+          elementHandle: elementWithRef("#email"),
+        },
+        { role: "checkbox", name: "Remember me", checked: false, elementHandle: elementWithRef('input[name="remember"]') },
+        { role: "button", name: "More", expanded: false, elementHandle: elementWithRef("form > button") },
+      ],
+    }));
+
+    const response = await handler({ url: "https://example.com/login" });
+
+    expect(mockPage.accessibility.snapshot).toHaveBeenCalledWith({ interestingOnly: true });
+    expect(response.content[0].text).toContain("Nodes: 5");
+    expect(response.content[0].text).toContain("Refs: 3");
+    expect(response.content[1].text).toBe(
+      [
+        '- RootWebArea "Sign in"',
+        '  - heading "Sign in" [level=1]',
+        '  - textbox "Email" = "ada@example.com" [focused, required] ref=#email',
+        '  - checkbox "Remember me" [unchecked] ref=input[name="remember"]',
+        '  - button "More" [collapsed] ref=form > button',
+      ].join("\n"),
+    );
+  });
+
+  it("cuts the tree at maxDepth and scopes it to a selector", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerAccessibilityTreeTool, logger);
+    const leaf = { role: "link", name: "Docs", elementHandle: elementWithRef("nav > a") };
+    const nav = { dispose: vi.fn(async () => undefined) };
+    setElementSelectorImpl(async () => nav);
+
+    setAccessibilitySnapshotImpl(async () => ({
+      role: "navigation",
+      elementHandle: async () => null,
+      children: [{ role: "list", elementHandle: async () => null, children: [{ role: "listitem", elementHandle: async () => null, children: [leaf] }] }],
+    }));
+
+    const response = await handler({ url: "https://example.com", selector: "nav", maxDepth: 1, interestingOnly: false });
+
+    expect(mockPage.$).toHaveBeenCalledWith("nav");
+    expect(mockPage.accessibility.snapshot).toHaveBeenCalledWith({ interestingOnly: false, root: nav });
+    expect(nav.dispose).toHaveBeenCalled();
+    expect(response.content[0].text).toContain("Nodes: 2 (truncated)");
+    expect(response.content[1].text).toBe("- navigation\n  - list (+1 children below maxDepth)");
+  });
+
+  it("fails when the selector matches nothing", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerAccessibilityTreeTool, logger);
+    setElementSelectorNotFound("#missing");
+
+    await expect(handler({ url: "https://example.com", selector: "#missing" })).rejects.toSatisfy((error) => {
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).data).toMatchObject({ detail: "No element matched selector: #missing" });
+      return true;
+    });
+  });
+});
+
+describe("extractMetadata tool", () => {
+  beforeEach(() => {
+    resetPuppeteerMock();
+  });
+
+  it("returns typed metadata as text and structured content", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerExtractMetadataTool, logger);
+    queueEvaluateResult({
+      url: "https://example.com/post",
+      title: "Hello",
+      language: "en",
+      metas: [{ name: null, property: "og:title", httpEquiv: null, content: "Hello, world" }],
+      links: [{ rel: "canonical", href: "https://example.com/post", hreflang: null, type: null, title: null, sizes: null }],
+      jsonLd: ['{"@type":"BlogPosting","headline":"Hello"}'],
+      microdata: [{ types: ["https://schema.org/Person"], id: null, properties: { name: ["Ada"] } }],
+      rdfa: [],
+    });
+
+    const response = await handler({ url: "https://example.com/post" });
+
+    expect(response.content[0].text).toContain("Canonical: https://example.com/post");
+    expect(response.content[0].text).toContain("Robots: <none>");
+    expect(response.content[0].text).toContain("JSON-LD: 1 block(s)");
+    expect(response.structuredContent).toMatchObject({
+      title: "Hello",
+      description: null,
+      openGraph: { title: "Hello, world", images: [] },
+      jsonLd: [{ types: ["BlogPosting"], error: null }],
+      microdata: [{ properties: { name: ["Ada"] } }],
+    });
+    expect(JSON.parse(response.content[1].text)).toEqual(response.structuredContent);
+  });
+
+  it("fails when navigation fails", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerExtractMetadataTool, logger);
+    setGotoFailure(404);
+
+    await expect(handler({ url: "https://example.com/missing" })).rejects.toSatisfy((error) => {
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).data).toMatchObject({ detail: "Navigation failed with status: 404" });
+      return true;
+    });
+  });
+});
+
+describe("findElements tool", () => {
+  beforeEach(() => {
+    resetPuppeteerMock();
+  });
+
+  /** description is what the in-page describer returns (null = hidden); selectors what the ranker returns */
+  const interactiveElement = (description: Record<string, unknown> | null, selectors: string[] = []) => ({
+    evaluate: vi.fn(async (pageFunction: (...args: any[]) => unknown) =>
+      pageFunction.name === "rankedSelectorsFor" ? selectors : description),
+    dispose: vi.fn(async () => undefined),
+  });
+
+  it("lists visible elements with label, type, box and ranked selectors", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerFindElementsTool, logger);
+    const email = interactiveElement(
+      { tagName: "input", type: "email", label: "Email", box: { x: 412, y: 220, width: 320, height: 40 }, disabled: false },
+      ["#email", '[name="email"]', "form > input"],
+    );
+    const hidden = interactiveElement(null);
+    const submit = interactiveElement(
+      { tagName: "button", type: "button", label: "Continue", box: { x: 412, y: 300, width: 120, height: 40 }, disabled: true },
+      ['[data-testid="continue"]', "form > button"],
+    );
+    setElementsSelectorImpl(async () => [email, hidden, submit]);
+
+    const response = await handler({ url: "https://example.com/login" });
+
+    expect(mockPage.$$).toHaveBeenCalledWith(expect.stringContaining("a[href], button"));
+    expect(hidden.evaluate).toHaveBeenCalledTimes(1);
+    for (const handle of [email, hidden, submit]) {
+      expect(handle.dispose).toHaveBeenCalled();
+    }
+    expect(response.content[0].text).toContain("Elements: 2");
+    expect(response.content[1].text).toBe(
+      [
+        '1. email "Email" at (412, 220) 320x40',
+        '   selectors: #email | [name="email"] | form > input',
+        '2. button "Continue" at (412, 300) 120x40 [disabled]',
+        '   selectors: [data-testid="continue"] | form > button',
+      ].join("\n"),
+    );
+  });
+
+  it("searches inside the selector and stops at the limit", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerFindElementsTool, logger);
+    const link = (label: string) => interactiveElement(
+      { tagName: "a", type: "link", label, box: { x: 0, y: 0, width: 80, height: 20 }, disabled: false },
+      [`nav > a[aria-label="${label}"]`],
+    );
+    const handles = [link("Home"), link("Docs"), link("Blog")];
+    const nav = { $$: vi.fn(async () => handles), dispose: vi.fn(async () => undefined) };
+    setElementSelectorImpl(async () => nav);
+
+    const response = await handler({ url: "https://example.com", selector: "nav", limit: 2 });
+
+    expect(mockPage.$).toHaveBeenCalledWith("nav");
+    expect(mockPage.$$).not.toHaveBeenCalled();
+    expect(handles[2].evaluate).not.toHaveBeenCalled();
+    expect(handles[2].dispose).toHaveBeenCalled();
+    expect(nav.dispose).toHaveBeenCalled();
+    expect(response.content[0].text).toContain("Elements: 2 (limit reached");
+    expect(response.content[1].text).not.toContain("Blog");
+  });
+
+  it("reports an empty page and fails on a missing scope", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerFindElementsTool, logger);
+
+    const response = await handler({ url: "https://example.com" });
+    expect(response.content[1].text).toBe("No visible interactive elements found.");
+
+    setElementSelectorNotFound("#missing");
+    await expect(handler({ url: "https://example.com", selector: "#missing" })).rejects.toSatisfy((error) => {
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).data).toMatchObject({ detail: "No element matched selector: #missing" });
+      return true;
+    });
+  });
+});
+
+describe("session tools", () => {
+  beforeEach(() => {
+    resetPuppeteerMock();
+  });
+
+  afterEach(async () => {
+    await shutdownSessions();
+  });
+
+  it("opens a session, captures without a url and keeps the context between calls", async () => {
+    const logger = createLogger();
+    const openSession = getToolHandler(registerSessionTools, logger, "openSession");
+    const closeSession = getToolHandler(registerSessionTools, logger, "closeSession");
+    const capture = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    const opened = await openSession({ sessionId: "dashboard", url: "https://example.com/login" });
+    expect(opened.content[0].text).toContain("Session: dashboard");
+    expect(opened.content[0].text).toContain("Current URL: https://example.com/login");
+    expect(mockPage.goto).toHaveBeenCalledTimes(1);
+
+    queueEvaluateResult({});
+    const response = await capture({ sessionId: "dashboard" });
+
+    expect(response.content[0].text).toContain("https://example.com/login");
+    // Already on the session URL, so no second navigation
+    expect(mockPage.goto).toHaveBeenCalledTimes(1);
+    expect(mockContext.close).not.toHaveBeenCalled();
+
+    await closeSession({ sessionId: "dashboard" });
+    expect(mockContext.close).toHaveBeenCalledTimes(1);
+  });
+
+  it("reloads the session page for every device", async () => {
+    const logger = createLogger();
+    const openSession = getToolHandler(registerSessionTools, logger, "openSession");
+    const capture = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    await openSession({ sessionId: "responsive", url: "https://example.com/" });
+    queueEvaluateResult({}, {});
+    await capture({ sessionId: "responsive", devices: ["mobile", "desktop"] });
+
+    expect(mockPage.goto).toHaveBeenCalledTimes(3);
+    expect(mockPage.setUserAgent).toHaveBeenLastCalledWith(MOCK_BROWSER_USER_AGENT);
+  });
+
+  it("navigates the session page when a different url is requested", async () => {
+    const logger = createLogger();
+    const openSession = getToolHandler(registerSessionTools, logger, "openSession");
+    const extract = getToolHandler(registerExtractDomTool, logger);
+
+    await openSession({ sessionId: "crawl", url: "https://example.com/" });
+
+    queueEvaluateResult({
+      ok: true,
+      payload: {
+        html: "<main></main>",
+        text: "",
+        domTree: { type: "element", tagName: "main", attributes: {}, children: [] },
+        nodeCount: 1,
+        truncated: false,
+      },
+    });
+    await extract({ sessionId: "crawl", url: "https://example.com/settings" });
+
+    expect(mockPage.goto).toHaveBeenLastCalledWith("https://example.com/settings", expect.any(Object));
+    expect(mockContext.close).not.toHaveBeenCalled();
+  });
+
+  it("lists open sessions", async () => {
+    const logger = createLogger();
+    const openSession = getToolHandler(registerSessionTools, logger, "openSession");
+    const listSessions = getToolHandler(registerSessionTools, logger, "listSessions");
+
+    expect((await listSessions({})).content[0].text).toBe("No open sessions.");
+
+    await openSession({ sessionId: "one" });
+    const listed = await listSessions({});
+    expect(listed.content[0].text).toContain("Open sessions: 1");
+    expect(listed.content[0].text).toContain("Session: one");
+  });
+
+  it("rejects captures against unknown sessions", async () => {
+    const logger = createLogger();
+    const capture = getToolHandler(registerCaptureScreenshotTool, logger);
+
+    await expect(capture({ sessionId: "missing" })).rejects.toSatisfy((error) => {
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).data).toMatchObject({
+        detail: expect.stringContaining('Session "missing" not found'),
+      });
+      return true;
+    });
+  });
+
+  it("closes the session when the initial navigation fails", async () => {
+    const logger = createLogger();
+    const openSession = getToolHandler(registerSessionTools, logger, "openSession");
+    const listSessions = getToolHandler(registerSessionTools, logger, "listSessions");
+
+    setGotoFailure(404);
+
+    await expect(openSession({ sessionId: "broken", url: "https://example.com/missing" })).rejects.toBeInstanceOf(McpError);
+    expect(mockContext.close).toHaveBeenCalledTimes(1);
+    expect((await listSessions({})).content[0].text).toBe("No open sessions.");
+  });
+
+  it("reports closeSession on an unknown id as an error", async () => {
+    const logger = createLogger();
+    const closeSession = getToolHandler(registerSessionTools, logger, "closeSession");
+
+    await expect(closeSession({ sessionId: "ghost" })).rejects.toBeInstanceOf(McpError);
+  });
+});
+
+describe("compareScreenshots tool", () => {
+  const createImage = (blackBox?: { x: number; y: number; size: number }): RgbaImage => {
+    const width = 32;
+    const height = 32;
+    const data = new Uint8Array(width * height * 4).fill(255);
+    if (blackBox) {
+      for (let y = blackBox.y; y < blackBox.y + blackBox.size; y++) {
+        for (let x = blackBox.x; x < blackBox.x + blackBox.size; x++) {
+          data.set([0, 0, 0, 255], (y * width + x) * 4);
+        }
+      }
+    }
+    return { width, height, data };
+  };
+
+  let storage: MemoryStorageTarget;
+
+  beforeEach(() => {
+    resetPuppeteerMock();
+    storage = new MemoryStorageTarget();
+    registerStorageTarget("visual", storage);
+  });
+
+  it("passes when the capture matches the baseline", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCompareScreenshotsTool, logger);
+
+    await storage.save(encodePng(createImage()), { filename: "home.png" });
+    setScreenshotBuffer(encodePng(createImage()));
+    queueEvaluateResult({});
+
+    const response = await handler({ url: "https://example.com", baselineKey: "home.png", storageTarget: "visual" });
+
+    const [summary, diffImage] = response.content;
+    expect(summary.text).toContain("Result: PASS");
+    expect(summary.text).toContain("Mismatch: 0.000%");
+    expect(diffImage.type).toBe("image");
+    expect(decodePng(Buffer.from(diffImage.data, "base64")).width).toBe(32);
+  });
+
+  it("fails above the threshold and reports changed regions", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCompareScreenshotsTool, logger);
+
+    await storage.save(encodePng(createImage()), { filename: "home.png" });
+    setScreenshotBuffer(encodePng(createImage({ x: 4, y: 8, size: 4 })));
+    queueEvaluateResult({});
+
+    const response = await handler({ url: "https://example.com", baselineKey: "home.png", storageTarget: "visual" });
+
+    const summary = response.content[0].text;
+    expect(summary).toContain("Result: FAIL");
+    expect(summary).toContain("Changed pixels: 16 of 1024");
+    expect(summary).toContain("x=4 y=8 4x4 (16 px)");
+  });
+
+  it("ignores regions resolved from selectors on the captured page", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCompareScreenshotsTool, logger);
+
+    await storage.save(encodePng(createImage()), { filename: "home.png" });
+    setScreenshotBuffer(encodePng(createImage({ x: 4, y: 8, size: 4 })));
+    queueEvaluateResult({}, (_fn: unknown, selectors: string[]) => {
+      expect(selectors).toEqual([".clock", ".missing"]);
+      return { ".clock": [{ x: 0, y: 0, width: 16, height: 16 }], ".missing": [] };
+    });
+
+    const response = await handler({
+      url: "https://example.com",
+      baselineKey: "home.png",
+      storageTarget: "visual",
+      ignoreRegions: [{ selector: ".clock" }, { selector: ".missing" }],
+    });
+
+    const summary = response.content[0].text;
+    expect(summary).toContain("Result: PASS");
+    expect(summary).toContain("Ignored pixels: 256");
+    expect(summary).toContain("Ignore selectors with no match: .missing");
+  });
+
+  it("errors when the baseline is missing unless updateBaseline is set", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCompareScreenshotsTool, logger);
+
+    await expect(
+      handler({ url: "https://example.com", baselineKey: "new.png", storageTarget: "visual" }),
+    ).rejects.toSatisfy((error) => {
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).data).toMatchObject({
+        detail: expect.stringContaining('Baseline "new.png" not found'),
+      });
+      return true;
+    });
+
+    setScreenshotBuffer(encodePng(createImage()));
+    queueEvaluateResult({});
+
+    const response = await handler({
+      url: "https://example.com",
+      baselineKey: "new.png",
+      storageTarget: "visual",
+      updateBaseline: true,
+    });
+
+    expect(response.content[0].text).toContain("created from this capture");
+    expect(await storage.retrieve("new.png")).not.toBeNull();
+  });
+
+  it("rejects unknown storage targets", async () => {
+    const logger = createLogger();
+    const handler = getToolHandler(registerCompareScreenshotsTool, logger);
+
+    await expect(
+      handler({ url: "https://example.com", baselineKey: "home.png", storageTarget: "nope" }),
+    ).rejects.toBeInstanceOf(McpError);
+  });
+});
+
+describe("capture catalog tools", () => {
+  let storage: MemoryStorageTarget;
+
+  beforeEach(async () => {
+    resetPuppeteerMock();
+    storage = new MemoryStorageTarget();
+    registerStorageTarget("catalog", storage);
+  });
+
+  it("lists screenshots saved by captureScreenshot by their tags", async () => {
+    const logger = createLogger();
+    const capture = getToolHandler(registerCaptureScreenshotTool, logger);
+    const listCaptures = getToolHandler(registerCaptureCatalogTools, logger, "listCaptures");
+
+    queueEvaluateResult({});
+    setScreenshotBuffer(Buffer.from("catalog-image"));
+    await capture({ url: "https://example.com", storageTarget: "catalog" });
+    await storage.save(Buffer.from("{}"), { filename: "other.json", mimeType: "application/json", tags: { url: "https://other.example/" } });
+
+    const response = await listCaptures({ storageTarget: "catalog", url: "example.com", tags: { fullPage: "false" } });
+
+    const text = response.content[0].text;
+    expect(text).toContain('Captures in "catalog": 1');
+    expect(text).toContain("Type: image/png");
+    expect(text).toContain("url=https://example.com/");
+    expect(text).not.toContain("other.json");
+  });
+
+  it("returns stored images as image content and JSON as text", async () => {
+    const logger = createLogger();
+    const getCapture = getToolHandler(registerCaptureCatalogTools, logger, "getCapture");
+
+    await storage.save(Buffer.from("png-bytes"), { filename: "home.png", mimeType: "image/png", tags: { viewport: "1280x720" } });
+    await storage.save(Buffer.from('{"ok":true}'), { filename: "dom.json", mimeType: "application/json" });
+
+    const image = await getCapture({ key: "home.png", storageTarget: "catalog" });
+    const json = await getCapture({ key: "dom.json", storageTarget: "catalog" });
+
+    expect(image.content[0].text).toContain("Tags: viewport=1280x720");
+    expect(image.content[1]).toEqual({ type: "image", mimeType: "image/png", data: Buffer.from("png-bytes").toString("base64") });
+    expect(json.content[1]).toEqual({ type: "text", text: '{"ok":true}' });
+  });
+
+  it("points binary captures to their encoded resource URI", async () => {
+    const logger = createLogger();
+    const getCapture = getToolHandler(registerCaptureCatalogTools, logger, "getCapture");
+    await storage.save(Buffer.from([0, 1, 2]), { filename: "runs/page #1.pdf", mimeType: "application/pdf" });
+
+    const response = await getCapture({ key: "runs/page #1.pdf", storageTarget: "catalog" });
+
+    expect(response.content[1].text).toBe("Binary content (application/pdf) is not shown; read capture://catalog/runs/page%20%231.pdf instead.");
+  });
+
+  it("looks up one capture's metadata without listing the target", async () => {
+    const logger = createLogger();
+    const getCapture = getToolHandler(registerCaptureCatalogTools, logger, "getCapture");
+    await storage.save(Buffer.from("png-bytes"), { filename: "home.png", mimeType: "image/png", tags: { viewport: "1280x720" } });
+    const list = vi.spyOn(storage, "list");
+
+    const image = await getCapture({ key: "home.png", storageTarget: "catalog" });
+
+    expect(image.content[0].text).toContain("Tags: viewport=1280x720");
+    expect(list).not.toHaveBeenCalled();
+  });
+
+  it("deletes captures and reports missing keys", async () => {
+    const logger = createLogger();
+    const deleteCapture = getToolHandler(registerCaptureCatalogTools, logger, "deleteCapture");
+    const getCapture = getToolHandler(registerCaptureCatalogTools, logger, "getCapture");
+
+    await storage.save(Buffer.from("png-bytes"), { filename: "home.png", mimeType: "image/png" });
+
+    const response = await deleteCapture({ key: "home.png", storageTarget: "catalog" });
+
+    expect(response.content[0].text).toBe('Capture "home.png" deleted from "catalog".');
+    await expect(deleteCapture({ key: "home.png", storageTarget: "catalog" })).rejects.toSatisfy((error) => {
+      expect((error as McpError).data).toMatchObject({ detail: 'Capture "home.png" not found in storage target "catalog".' });
+      return true;
+    });
+    await expect(getCapture({ key: "home.png", storageTarget: "catalog" })).rejects.toBeInstanceOf(McpError);
+  });
+});
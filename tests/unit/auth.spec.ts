@@ -0,0 +1,57 @@
+import type { IncomingMessage } from "http";
+import { describe, it, expect } from "vitest";
+
+import { ApiKeyAuthenticator, QuotaTracker, type ApiKeyConfig } from "../../src/transport/auth.js";
+
+const request = (headers: Record<string, string>) => ({ headers }) as unknown as IncomingMessage;
+
+describe("ApiKeyAuthenticator", () => {
+  const authenticator = new ApiKeyAuthenticator(
+    [{ name: "ci", key: "secret-1", quota: { maxRequests: 1 } }, { name: "agents", key: "secret-2" }],
+    { maxRequests: 10 },
+  );
+
+  it("accepts bearer tokens and X-API-Key headers", () => {
+    expect(authenticator.authenticate(request({ authorization: "Bearer secret-1" }))).toMatchObject({ name: "ci" });
+    expect(authenticator.authenticate(request({ "x-api-key": "secret-2" }))).toMatchObject({ name: "agents" });
+  });
+
+  it("applies the default quota to keys without their own", () => {
+    expect(authenticator.authenticate(request({ "x-api-key": "secret-1" }))?.quota).toEqual({ maxRequests: 1 });
+    expect(authenticator.authenticate(request({ "x-api-key": "secret-2" }))?.quota).toEqual({ maxRequests: 10 });
+  });
+
+  it("rejects unknown keys, prefixes and other schemes", () => {
+    expect(authenticator.authenticate(request({ authorization: "Bearer secret" }))).toBeUndefined();
+    expect(authenticator.authenticate(request({ authorization: "Basic secret-1" }))).toBeUndefined();
+    expect(authenticator.authenticate(request({}))).toBeUndefined();
+  });
+
+  it("requires a unique name for every key", () => {
+    expect(() => new ApiKeyAuthenticator([{ key: "secret-1" } as ApiKeyConfig])).toThrow("API key 1 has no name");
+    expect(() => new ApiKeyAuthenticator([{ name: "ci", key: "secret-1" }, { name: "ci", key: "secret-2" }])).toThrow(
+      'API key name "ci" is used more than once',
+    );
+  });
+
+  it("is disabled without keys", () => {
+    expect(new ApiKeyAuthenticator([]).enabled).toBe(false);
+  });
+});
+
+describe("QuotaTracker", () => {
+  it("counts requests per key within a fixed window", () => {
+    const tracker = new QuotaTracker();
+    const quota = { maxRequests: 2, windowMs: 1000 };
+
+    expect(tracker.consume("a", quota, 0)).toEqual({ allowed: true, remaining: 1 });
+    expect(tracker.consume("a", quota, 100)).toEqual({ allowed: true, remaining: 0 });
+    expect(tracker.consume("a", quota, 400)).toEqual({ allowed: false, retryAfterMs: 600 });
+    expect(tracker.consume("b", quota, 400)).toEqual({ allowed: true, remaining: 1 });
+    expect(tracker.consume("a", quota, 1000)).toEqual({ allowed: true, remaining: 1 });
+  });
+
+  it("allows everything when no quota applies", () => {
+    expect(new QuotaTracker().consume("a", undefined)).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const launchMock = vi.fn();
+
+vi.mock("puppeteer", () => ({
+  default: { launch: (...args: any[]) => launchMock(...args) },
+}));
+
+import { BrowserPool, BrowserPoolError } from "../../src/browser/pool.js";
+import { getGlobalTelemetry } from "../../src/telemetry/index.js";
+import type { Logger } from "../../src/logger.js";
+
+function createFakeBrowser() {
+  const contexts: any[] = [];
+  const browser = {
+    connected: true,
+    contexts,
+    createBrowserContext: vi.fn(async () => {
+      const context = {
+        newPage: vi.fn(async () => ({ id: contexts.length })),
+        close: vi.fn(async () => undefined),
+      };
+      contexts.push(context);
+      return context;
+    }),
+    close: vi.fn(async () => undefined),
+    version: vi.fn(async () => "HeadlessChrome/test"),
+    on: vi.fn(),
+    process: vi.fn(() => null),
+  };
+  return browser;
+}
+
+describe("BrowserPool", () => {
+  let mockLogger: Logger;
+  let pool: BrowserPool;
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    launchMock.mockReset();
+    launchMock.mockImplementation(async () => createFakeBrowser());
+  });
+
+  afterEach(async () => {
+    await pool?.shutdown();
+  });
+
+  it("should reuse a warm browser across sequential acquires", async () => {
+    pool = new BrowserPool({ healthCheckIntervalMs: 0 }, mockLogger);
+
+    const first = await pool.acquire("test");
+    await first.release();
+    const second = await pool.acquire("test");
+    await second.release();
+
+    expect(launchMock).toHaveBeenCalledTimes(1);
+    expect(first.browser).toBe(second.browser);
+  });
+
+  it("should give every acquire its own isolated context", async () => {
+    pool = new BrowserPool({ healthCheckIntervalMs: 0 }, mockLogger);
+
+    const first = await pool.acquire("test");
+    const second = await pool.acquire("test");
+
+    expect(first.context).not.toBe(second.context);
+    expect((first.browser as any).createBrowserContext).toHaveBeenCalledTimes(2);
+
+    await first.release();
+    expect((first.context as any).close).toHaveBeenCalledTimes(1);
+    await second.release();
+  });
+
+  it("should launch additional browsers up to maxBrowsers when pages are exhausted", async () => {
+    pool = new BrowserPool({ healthCheckIntervalMs: 0, maxBrowsers: 2, maxPagesPerBrowser: 1 }, mockLogger);
+
+    const first = await pool.acquire("test");
+    const second = await pool.acquire("test");
+
+    expect(launchMock).toHaveBeenCalledTimes(2);
+    expect(first.browser).not.toBe(second.browser);
+    expect(pool.getStats()).toEqual({ browsers: 2, activeContexts: 2, waiting: 0 });
+
+    await first.release();
+    await second.release();
+  });
+
+  it("should queue acquirers when the pool is saturated", async () => {
+    pool = new BrowserPool({ healthCheckIntervalMs: 0, maxBrowsers: 1, maxPagesPerBrowser: 1 }, mockLogger);
+
+    const first = await pool.acquire("test");
+    const pending = pool.acquire("test");
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(pool.getStats().waiting).toBe(1);
+
+    await first.release();
+    const second = await pending;
+
+    expect(second.browser).toBe(first.browser);
+    expect(launchMock).toHaveBeenCalledTimes(1);
+    await second.release();
+  });
+
+  it("should reject acquirers that wait longer than acquireTimeoutMs", async () => {
+    pool = new BrowserPool(
+      { healthCheckIntervalMs: 0, maxBrowsers: 1, maxPagesPerBrowser: 1, acquireTimeoutMs: 20 },
+      mockLogger,
+    );
+
+    const first = await pool.acquire("test");
+    await expect(pool.acquire("test")).rejects.toBeInstanceOf(BrowserPoolError);
+    await first.release();
+  });
+
+  it("should ignore double releases", async () => {
+    pool = new BrowserPool({ healthCheckIntervalMs: 0 }, mockLogger);
+
+    const lease = await pool.acquire("test");
+    await lease.release();
+    await lease.release();
+
+    expect((lease.context as any).close).toHaveBeenCalledTimes(1);
+    expect(pool.getStats().activeContexts).toBe(0);
+  });
+
+  it("should evict browsers that have been idle past idleTimeoutMs", async () => {
+    pool = new BrowserPool({ healthCheckIntervalMs: 0, idleTimeoutMs: 0 }, mockLogger);
+
+    const lease = await pool.acquire("test");
+    await lease.release();
+    await pool.runHealthCheck();
+
+    expect((lease.browser as any).close).toHaveBeenCalledTimes(1);
+    expect(pool.getStats().browsers).toBe(0);
+  });
+
+  it("should recycle a browser that fails its health probe", async () => {
+    pool = new BrowserPool({ healthCheckIntervalMs: 0, healthCheckTimeoutMs: 20 }, mockLogger);
+
+    const lease = await pool.acquire("test");
+    await lease.release();
+    (lease.browser as any).version.mockImplementation(() => new Promise(() => {}));
+
+    await pool.runHealthCheck();
+
+    expect(pool.getStats().browsers).toBe(0);
+    expect(mockLogger.warn).toHaveBeenCalledWith("pool:browser_unresponsive", expect.any(Object));
+
+    const next = await pool.acquire("test");
+    expect(next.browser).not.toBe(lease.browser);
+    expect(launchMock).toHaveBeenCalledTimes(2);
+    await next.release();
+  });
+
+  it("should retire a crashed browser once its context is released", async () => {
+    pool = new BrowserPool({ healthCheckIntervalMs: 0 }, mockLogger);
+
+    const lease = await pool.acquire("test");
+    (lease.browser as any).connected = false;
+    await lease.release();
+
+    expect(pool.getStats().browsers).toBe(0);
+  });
+
+  it("should emit context acquired and released telemetry", async () => {
+    pool = new BrowserPool({ healthCheckIntervalMs: 0 }, mockLogger);
+    const telemetry = getGlobalTelemetry();
+    const acquired = vi.fn();
+    const released = vi.fn();
+    telemetry.on("browser.context_acquired", acquired);
+    telemetry.on("browser.context_released", released);
+
+    const lease = await pool.acquire("captureScreenshot");
+    await lease.release();
+
+    expect(acquired).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ tool: "captureScreenshot" }),
+    }));
+    expect(released).toHaveBeenCalledTimes(1);
+
+    telemetry.off("browser.context_acquired", acquired);
+    telemetry.off("browser.context_released", released);
+  });
+
+  it("should close all browsers and refuse new work after shutdown", async () => {
+    pool = new BrowserPool({ healthCheckIntervalMs: 0 }, mockLogger);
+
+    const lease = await pool.acquire("test");
+    await lease.release();
+    await pool.shutdown();
+
+    expect((lease.browser as any).close).toHaveBeenCalledTimes(1);
+    await expect(pool.acquire("test")).rejects.toThrow("Browser pool has been shut down");
+  });
+});
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { queryCaptures } from "../../src/storage/catalog.js";
+import { MemoryStorageTarget, type StorageTarget } from "../../src/storage/index.js";
+
+describe("queryCaptures", () => {
+  let storage: MemoryStorageTarget;
+
+  beforeEach(async () => {
+    storage = new MemoryStorageTarget();
+    await storage.save(Buffer.from("1"), {
+      filename: "old.png",
+      mimeType: "image/png",
+      timestamp: "2026-01-01T00:00:00.000Z",
+      tags: { url: "https://example.com/", fullPage: "false" },
+    });
+    await storage.save(Buffer.from("2"), {
+      filename: "new.png",
+      mimeType: "image/png",
+      timestamp: "2026-01-03T00:00:00.000Z",
+      tags: { url: "https://example.com/", fullPage: "true" },
+    });
+    await storage.save(Buffer.from("{}"), {
+      filename: "dom.json",
+      mimeType: "application/json",
+      timestamp: "2026-01-02T00:00:00.000Z",
+      tags: { url: "https://other.example/" },
+    });
+  });
+
+  it("returns every capture newest first", async () => {
+    const { items, total } = await queryCaptures(storage);
+
+    expect(total).toBe(3);
+    expect(items.map((item) => item.key)).toEqual(["new.png", "dom.json", "old.png"]);
+  });
+
+  it("filters by tags, time range and content type", async () => {
+    const byTag = await queryCaptures(storage, { tags: { url: "https://example.com/", fullPage: "true" } });
+    const byTime = await queryCaptures(storage, { since: "2026-01-02T00:00:00Z", until: "2026-01-02T23:59:59Z" });
+    const byType = await queryCaptures(storage, { mimeType: "image/*" });
+
+    expect(byTag.items.map((item) => item.key)).toEqual(["new.png"]);
+    expect(byTime.items.map((item) => item.key)).toEqual(["dom.json"]);
+    expect(byType.items.map((item) => item.key)).toEqual(["new.png", "old.png"]);
+  });
+
+  it("reports the total before the limit", async () => {
+    const { items, total } = await queryCaptures(storage, { limit: 1 });
+
+    expect(items.map((item) => item.key)).toEqual(["new.png"]);
+    expect(total).toBe(3);
+  });
+
+  it("rejects targets that cannot list", async () => {
+    const writeOnly: StorageTarget = { type: "custom", save: async () => ({ location: "x", size: 0 }) };
+
+    await expect(queryCaptures(writeOnly)).rejects.toThrow('type "custom" does not support listing');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+
+import { CliUsageError, parseCliCommand, parseCliOptions } from "../../src/config/cli.js";
+
+describe("parseCliOptions", () => {
+  it("defaults to stdio", () => {
+    expect(parseCliOptions([], {})).toEqual({ transport: "stdio", apiKeys: [], help: false });
+  });
+
+  it("reads flags", () => {
+    const options = parseCliOptions(
+      [
+        "--transport", "http",
+        "--port", "8080",
+        "--host", "0.0.0.0",
+        "--api-key", "ci:abc",
+        "--api-key", "agents:d:e:f",
+        "--quota", "30",
+        "--quota-window", "10",
+        "--cors-origin", "https://app.example.com",
+        "--session-ttl", "300",
+      ],
+      {},
+    );
+
+    expect(options).toEqual({
+      transport: "http",
+      port: 8080,
+      host: "0.0.0.0",
+      apiKeys: [{ name: "ci", key: "abc" }, { name: "agents", key: "d:e:f" }],
+      defaultQuota: { maxRequests: 30, windowMs: 10_000 },
+      cors: { origins: ["https://app.example.com"] },
+      sessionIdleTimeoutMs: 300_000,
+      help: false,
+    });
+  });
+
+  it("falls back to environment variables, with flags taking precedence", () => {
+    const options = parseCliOptions(["--port", "9000"], {
+      MCP_TRANSPORT: "sse",
+      MCP_PORT: "1234",
+      MCP_API_KEYS: "a:one, b:two",
+      MCP_CORS_ORIGINS: "https://a.example.com,*",
+    });
+
+    expect(options).toMatchObject({
+      transport: "sse",
+      port: 9000,
+      apiKeys: [{ name: "a", key: "one" }, { name: "b", key: "two" }],
+      cors: { origins: "*" },
+    });
+  });
+
+  it("rejects invalid values and unknown flags", () => {
+    expect(() => parseCliOptions(["--transport", "websocket"], {})).toThrow(CliUsageError);
+    expect(() => parseCliOptions(["--port", "0"], {})).toThrow("--port must be a positive integer");
+    expect(() => parseCliOptions(["--api-key", "ci:"], {})).toThrow('API key "ci:" is empty');
+    expect(() => parseCliOptions(["--api-key", "secret"], {})).toThrow('API keys must be given as "name:key"');
+    expect(() => parseCliOptions(["--api-key", ":secret"], {})).toThrow('API keys must be given as "name:key"');
+    expect(() => parseCliOptions(["--session-ttl", "0"], {})).toThrow("--session-ttl must be a positive integer");
+    expect(() => parseCliOptions(["--verbose"], {})).toThrow(CliUsageError);
+  });
+});
+
+describe("parseCliCommand", () => {
+  it("returns undefined for server arguments", () => {
+    expect(parseCliCommand([])).toBeUndefined();
+    expect(parseCliCommand(["--transport", "http"])).toBeUndefined();
+  });
+
+  it("parses each command", () => {
+    expect(parseCliCommand(["capture", "https://example.com", "--steps", "steps.json", "-o", "shot.png"])).toEqual({
+      command: "capture",
+      url: "https://example.com",
+      steps: "steps.json",
+      out: "shot.png",
+      json: false,
+      help: false,
+    });
+    expect(parseCliCommand(["extract", "https://example.com", "--selector", "main", "--format", "json"])).toEqual({
+      command: "extract",
+      url: "https://example.com",
+      selector: "main",
+      format: "json",
+      out: undefined,
+      help: false,
+    });
+    expect(parseCliCommand(["validate", "--steps", "steps.json"])).toEqual({
+      command: "validate",
+      steps: "steps.json",
+      url: undefined,
+      help: false,
+    });
+  });
+
+  it("rejects missing arguments and options of other commands", () => {
+    expect(() => parseCliCommand(["capture", "https://example.com"])).toThrow('"capture" requires --out <file>');
+    expect(() => parseCliCommand(["extract"])).toThrow('"extract" requires a URL');
+    expect(() => parseCliCommand(["validate", "--steps", "s.json", "--selector", "main"])).toThrow(
+      '--selector is not an option of "validate"',
+    );
+    expect(() => parseCliCommand(["extract", "https://example.com", "--format", "pdf"])).toThrow(CliUsageError);
+  });
+
+  it("accepts --help without the required arguments", () => {
+    expect(parseCliCommand(["capture", "--help"])).toMatchObject({ command: "capture", help: true });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+
+import { composeSideBySide } from "../../src/image/composite.js";
+import type { RgbaImage } from "../../src/image/png.js";
+
+function solid(width: number, height: number, value: number): RgbaImage {
+  return { width, height, data: new Uint8Array(width * height * 4).fill(value) };
+}
+
+function pixel(image: RgbaImage, x: number, y: number): number[] {
+  const pos = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(pos, pos + 4));
+}
+
+describe("composeSideBySide", () => {
+  it("should place images left to right with a gap, top-aligned", () => {
+    const { image, offsets } = composeSideBySide([solid(2, 3, 10), solid(4, 1, 20)], { gap: 1 });
+
+    expect(image.width).toBe(7);
+    expect(image.height).toBe(3);
+    expect(offsets).toEqual([0, 3]);
+
+    expect(pixel(image, 1, 2)).toEqual([10, 10, 10, 10]);
+    expect(pixel(image, 3, 0)).toEqual([20, 20, 20, 20]);
+    // Gap column and the area below the shorter image use the background
+    expect(pixel(image, 2, 0)).toEqual([240, 240, 240, 255]);
+    expect(pixel(image, 4, 2)).toEqual([240, 240, 240, 255]);
+  });
+
+  it("should use a custom background colour", () => {
+    const { image } = composeSideBySide([solid(1, 2, 0), solid(1, 1, 0)], { gap: 0, background: [1, 2, 3, 4] });
+    expect(pixel(image, 1, 1)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("should reject an empty list", () => {
+    expect(() => composeSideBySide([])).toThrow("empty");
+  });
+});
@@ -0,0 +1,114 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { applyServerConfig, ConfigError, loadServerConfig, parseServerConfig } from "../../src/config/file.js";
+import { getCaptureDefaults, resetCaptureDefaults } from "../../src/config/defaults.js";
+import { MemoryStorageTarget, getStorageTarget } from "../../src/storage/index.js";
+import { getGlobalTelemetry } from "../../src/telemetry/index.js";
+import type { Logger } from "../../src/logger.js";
+
+const createLogger = (): Logger => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+describe("server config file", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "config-spec-"));
+  });
+
+  afterEach(async () => {
+    resetCaptureDefaults();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    getGlobalTelemetry().unregisterHook("metrics");
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("loads YAML and JSON files", async () => {
+    const yamlFile = path.join(dir, "config.yaml");
+    const jsonFile = path.join(dir, "config.json");
+    await fs.writeFile(
+      yamlFile,
+      ["storage:", "  archive:", "    type: s3", "    bucket: shots", "defaults:", "  timeouts:", "    totalMs: 90000"].join("\n"),
+    );
+    await fs.writeFile(jsonFile, JSON.stringify({ browser: { args: ["--disable-gpu"] } }));
+
+    expect(await loadServerConfig(yamlFile)).toEqual({
+      storage: { archive: { type: "s3", bucket: "shots" } },
+      defaults: { timeouts: { totalMs: 90000 } },
+    });
+    expect(await loadServerConfig(jsonFile)).toEqual({ browser: { args: ["--disable-gpu"] } });
+  });
+
+  it("treats an empty file as an empty config", async () => {
+    const file = path.join(dir, "empty.yml");
+    await fs.writeFile(file, "");
+
+    expect(await loadServerConfig(file)).toEqual({});
+  });
+
+  it("lists every invalid field", () => {
+    const parse = () =>
+      parseServerConfig({
+        storage: { archive: { type: "s3" } },
+        defaults: { viewport: { preset: "toaster" }, timeouts: { totalMs: -1 } },
+        telemetry: { hooks: ["console"], sink: {} },
+      }, "config.yaml");
+
+    expect(parse).toThrow(ConfigError);
+    expect(parse).toThrow(/^Invalid config file config\.yaml:\n/);
+    expect(parse).toThrow("storage.archive.bucket: Required");
+    expect(parse).toThrow('defaults.viewport.preset: Unknown viewport preset "toaster"');
+    expect(parse).toThrow("defaults.timeouts.totalMs: Number must be greater than 0");
+    expect(parse).toThrow("telemetry: Unrecognized key(s) in object: 'sink'");
+  });
+
+  it("reports unreadable and unparsable files", async () => {
+    const broken = path.join(dir, "broken.json");
+    await fs.writeFile(broken, "{ nope");
+
+    await expect(loadServerConfig(path.join(dir, "missing.json"))).rejects.toThrow(/^Cannot read config file/);
+    await expect(loadServerConfig(broken)).rejects.toThrow(/^Cannot parse config file/);
+  });
+
+  it("registers storage targets, enables hooks and replaces the capture defaults", async () => {
+    const config = parseServerConfig({
+      storage: { scratch: { type: "memory" } },
+      telemetry: { hooks: ["metrics"] },
+      defaults: {
+        viewport: { preset: "mobile", deviceScaleFactor: 1 },
+        retryPolicy: { maxRetries: 1 },
+        timeouts: { navigationMs: 10_000 },
+      },
+    });
+
+    const registerHook = vi.spyOn(getGlobalTelemetry(), "registerHook");
+
+    await applyServerConfig(config, createLogger());
+
+    expect(getStorageTarget("scratch")).toBeInstanceOf(MemoryStorageTarget);
+    expect(registerHook).toHaveBeenCalledWith(expect.objectContaining({ name: "metrics", enabled: true }));
+
+    const defaults = getCaptureDefaults();
+    expect(defaults.viewport).toMatchObject({ isMobile: true, deviceScaleFactor: 1 });
+    expect(defaults.retryPolicy).toEqual({ maxRetries: 1 });
+    expect(defaults.timeouts).toEqual({ navigationMs: 10_000, totalMs: 60_000, screenshotMs: 30_000 });
+  });
+
+  it("refuses to start when an encrypted target has no key", async () => {
+    vi.stubEnv("MCP_STORAGE_KEYS", "");
+    const config = parseServerConfig({ storage: { vault: { type: "memory", encryption: {} } } });
+
+    await expect(applyServerConfig(config, createLogger())).rejects.toThrow(ConfigError);
+    await expect(applyServerConfig(config, createLogger())).rejects.toThrow(
+      'Storage target "vault": Storage encryption is enabled but no key is configured',
+    );
+  });
+});
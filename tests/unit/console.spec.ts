@@ -0,0 +1,121 @@
+import { EventEmitter } from "node:events";
+import { describe, it, expect } from "vitest";
+import type { Page } from "puppeteer";
+
+import { ConsoleCollector, formatConsoleReport } from "../../src/utils/console.js";
+
+function consoleMessage(type: string, text: string, location: { url?: string; lineNumber?: number; columnNumber?: number } = {}) {
+  return { type: () => type, text: () => text, location: () => location };
+}
+
+function fakeRequest(url: string, errorText?: string) {
+  return {
+    url: () => url,
+    method: () => "GET",
+    resourceType: () => "script",
+    failure: () => (errorText ? { errorText } : null),
+  };
+}
+
+function attach() {
+  const emitter = new EventEmitter();
+  const collector = new ConsoleCollector();
+  const stop = collector.attach(emitter as unknown as Page);
+  return { emitter, collector, stop };
+}
+
+describe("ConsoleCollector", () => {
+  it("should group console messages by level and keep their source location", () => {
+    const { emitter, collector } = attach();
+
+    emitter.emit("console", consoleMessage("log", "ready"));
+    emitter.emit("console", consoleMessage("warn", "deprecated API", { url: "https://example.com/app.js", lineNumber: 9, columnNumber: 4 }));
+    emitter.emit("console", consoleMessage("log", "done"));
+
+    const report = collector.report();
+    expect(report.counts).toEqual({ log: 2, warn: 1 });
+    expect(report.messages[1]).toEqual({ level: "warn", text: "deprecated API", location: "https://example.com/app.js:10:5" });
+    expect(collector.errorCount).toBe(0);
+    expect(collector.toError()).toBeUndefined();
+  });
+
+  it("should record uncaught exceptions with their stack", () => {
+    const { emitter, collector } = attach();
+    const error = new TypeError("x is undefined");
+    error.stack = "TypeError: x is undefined\n    at main (https://example.com/app.js:3:7)";
+
+    emitter.emit("pageerror", error);
+    emitter.emit("pageerror", "thrown string");
+
+    expect(collector.report().pageErrors).toEqual([
+      { message: "x is undefined", stack: error.stack },
+      { message: "thrown string" },
+    ]);
+    expect(collector.toError()?.message).toBe("Page reported 2 JavaScript errors: x is undefined");
+  });
+
+  it("should count console.error calls as errors", () => {
+    const { emitter, collector } = attach();
+
+    emitter.emit("console", consoleMessage("error", "Failed to render widget"));
+
+    expect(collector.errorCount).toBe(1);
+    expect(collector.toError()?.message).toBe("Page reported 1 JavaScript error: Failed to render widget");
+  });
+
+  it("should record network failures and error responses", () => {
+    const { emitter, collector } = attach();
+
+    emitter.emit("requestfailed", fakeRequest("https://cdn.example.com/a.js", "net::ERR_NAME_NOT_RESOLVED"));
+    emitter.emit("response", { status: () => 404, request: () => fakeRequest("https://example.com/missing.js") });
+    emitter.emit("response", { status: () => 200, request: () => fakeRequest("https://example.com/ok.js") });
+
+    expect(collector.report().failedRequests).toEqual([
+      { url: "https://cdn.example.com/a.js", method: "GET", resourceType: "script", errorText: "net::ERR_NAME_NOT_RESOLVED" },
+      { url: "https://example.com/missing.js", method: "GET", resourceType: "script", status: 404 },
+    ]);
+  });
+
+  it("should keep counting but stop storing messages past the limit", () => {
+    const { emitter, collector } = attach();
+
+    for (let i = 0; i < 205; i++) {
+      emitter.emit("console", consoleMessage("log", `line ${i}`));
+    }
+
+    const report = collector.report();
+    expect(report.counts.log).toBe(205);
+    expect(report.messages).toHaveLength(200);
+    expect(report.truncated).toBe(true);
+  });
+
+  it("should stop listening once detached", () => {
+    const { emitter, collector, stop } = attach();
+
+    stop();
+    emitter.emit("pageerror", new Error("late"));
+
+    expect(collector.report().pageErrors).toEqual([]);
+    expect(emitter.listenerCount("console")).toBe(0);
+  });
+});
+
+describe("formatConsoleReport", () => {
+  it("should summarize counts, exceptions, errors and failed requests", () => {
+    const text = formatConsoleReport({
+      counts: { log: 3, error: 1 },
+      messages: [
+        { level: "log", text: "ready" },
+        { level: "error", text: "Widget failed", location: "https://example.com/app.js:1:1" },
+      ],
+      pageErrors: [{ message: "boom", stack: "Error: boom\n    at x (app.js:1:1)" }],
+      failedRequests: [{ url: "https://example.com/missing.js", method: "GET", resourceType: "script", status: 404 }],
+    });
+
+    expect(text).toContain("CONSOLE: 3 log, 1 error; 1 uncaught exception; 1 failed request");
+    expect(text).toContain("  ✗ Error: boom\n      at x (app.js:1:1)");
+    expect(text).toContain("  [error] Widget failed (https://example.com/app.js:1:1)");
+    expect(text).not.toContain("ready");
+    expect(text).toContain("  ✗ GET https://example.com/missing.js 404");
+  });
+});
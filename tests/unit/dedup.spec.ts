@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+import { DeduplicatingStorageTarget } from "../../src/storage/dedup.js";
+import { MemoryStorageTarget, onStorageSaved } from "../../src/storage/index.js";
+import type { Logger } from "../../src/logger.js";
+
+const createLogger = (): Logger => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+const blobKeys = async (inner: MemoryStorageTarget) =>
+  (await inner.list()).map((item) => item.key).filter((key) => key.startsWith("blobs/"));
+
+describe("DeduplicatingStorageTarget", () => {
+  let inner: MemoryStorageTarget;
+  let storage: DeduplicatingStorageTarget;
+
+  beforeEach(() => {
+    inner = new MemoryStorageTarget();
+    storage = new DeduplicatingStorageTarget(inner, createLogger());
+  });
+
+  it("stores identical payloads once and reports the duplicate", async () => {
+    const first = await storage.save(Buffer.from("png-bytes"), { filename: "a.png", mimeType: "image/png" });
+    const second = await storage.save(Buffer.from("png-bytes"), { filename: "b.png", mimeType: "image/png" });
+    const third = await storage.save(Buffer.from("other"), { filename: "c.png", mimeType: "image/png" });
+
+    expect(first.metadata).toMatchObject({ deduplicated: false });
+    expect(second.metadata).toMatchObject({ deduplicated: true, sha256: first.metadata?.sha256 });
+    expect(third.metadata).toMatchObject({ deduplicated: false });
+    expect(await blobKeys(inner)).toEqual([
+      `blobs/${first.metadata?.sha256}.png`,
+      `blobs/${third.metadata?.sha256}.png`,
+    ]);
+  });
+
+  it("notifies once per save, as itself", async () => {
+    const listener = vi.fn();
+    const unsubscribe = onStorageSaved(listener);
+    try {
+      await storage.save(Buffer.from("png-bytes"), { filename: "a.png", mimeType: "image/png" });
+    } finally {
+      unsubscribe();
+    }
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(storage, expect.objectContaining({ key: "a.png" }));
+  });
+
+  it("detects blobs saved by an earlier instance", async () => {
+    await storage.save(Buffer.from("png-bytes"), { filename: "a.png" });
+
+    const restarted = new DeduplicatingStorageTarget(inner);
+    const result = await restarted.save(Buffer.from("png-bytes"), { filename: "b.png" });
+
+    expect(result.metadata).toMatchObject({ deduplicated: true });
+  });
+
+  it("writes a sidecar with the source URL and viewport", async () => {
+    const result = await storage.save(Buffer.from("png-bytes"), {
+      filename: "home.png",
+      mimeType: "image/png",
+      timestamp: "2026-01-05T10:00:00.000Z",
+      tags: { url: "https://example.com/", viewport: "1280x720" },
+    });
+
+    const sidecar = JSON.parse((await inner.retrieve("captures/home.png.json"))!.toString());
+
+    expect(sidecar).toEqual({
+      version: 1,
+      key: "home.png",
+      sha256: result.metadata?.sha256,
+      blob: `blobs/${result.metadata?.sha256}.png`,
+      size: 9,
+      mimeType: "image/png",
+      timestamp: "2026-01-05T10:00:00.000Z",
+      url: "https://example.com/",
+      viewport: "1280x720",
+      tags: { url: "https://example.com/", viewport: "1280x720" },
+    });
+  });
+
+  it("retrieves and lists logical captures", async () => {
+    await storage.save(Buffer.from("png-bytes"), { filename: "a.png", mimeType: "image/png", tags: { url: "https://a.test/" } });
+    await storage.save(Buffer.from("png-bytes"), { filename: "b.png", mimeType: "image/png" });
+
+    expect((await storage.retrieve("b.png"))?.toString()).toBe("png-bytes");
+    expect(await storage.retrieve("missing.png")).toBeNull();
+
+    const items = await storage.list();
+    expect(items.map((item) => item.key).sort()).toEqual(["a.png", "b.png"]);
+    expect(items.find((item) => item.key === "a.png")).toMatchObject({
+      size: 9,
+      mimeType: "image/png",
+      metadata: { url: "https://a.test/", sha256: expect.any(String) },
+    });
+  });
+
+  it("describes one capture from its sidecar without listing", async () => {
+    await storage.save(Buffer.from("png-bytes"), { filename: "a.png", mimeType: "image/png", tags: { url: "https://a.test/" } });
+    const list = vi.spyOn(inner, "list");
+
+    expect(await storage.stat("a.png")).toEqual({
+      key: "a.png",
+      size: 9,
+      modified: expect.any(String),
+      mimeType: "image/png",
+      metadata: { url: "https://a.test/", sha256: expect.any(String) },
+    });
+    expect(await storage.stat("missing.png")).toBeNull();
+    expect(list).not.toHaveBeenCalled();
+  });
+
+  it("gives generated keys distinct names", async () => {
+    const first = await storage.save(Buffer.from("x"), { mimeType: "image/png" });
+    const second = await storage.save(Buffer.from("x"), { mimeType: "image/png" });
+
+    expect(first.key).toMatch(/^capture-.*\.png$/);
+    expect(second.key).not.toBe(first.key);
+  });
+
+  it("keeps a shared blob until its last capture is deleted", async () => {
+    await storage.save(Buffer.from("png-bytes"), { filename: "a.png" });
+    await storage.save(Buffer.from("png-bytes"), { filename: "b.png" });
+
+    expect(await storage.delete("a.png")).toBe(true);
+    expect(await blobKeys(inner)).toHaveLength(1);
+    expect((await storage.retrieve("b.png"))?.toString()).toBe("png-bytes");
+
+    expect(await storage.delete("b.png")).toBe(true);
+    expect(await blobKeys(inner)).toHaveLength(0);
+    expect(await storage.delete("b.png")).toBe(false);
+  });
+
+  it("notices blobs removed behind its back", async () => {
+    const first = await storage.save(Buffer.from("png-bytes"), { filename: "a.png" });
+    await inner.delete(first.metadata?.blob);
+
+    const second = await storage.save(Buffer.from("png-bytes"), { filename: "b.png" });
+
+    expect(second.metadata).toMatchObject({ deduplicated: false });
+    expect((await storage.retrieve("b.png"))?.toString()).toBe("png-bytes");
+  });
+
+  it("does not delete a blob that a concurrent save is reusing", async () => {
+    await storage.save(Buffer.from("png-bytes"), { filename: "a.png" });
+
+    // Hold the delete right after it has looked for other captures of the blob
+    const list = inner.list.bind(inner);
+    let listed: () => void = () => undefined;
+    const scanned = new Promise<void>((resolve) => { listed = resolve; });
+    let release: () => void = () => undefined;
+    const held = new Promise<void>((resolve) => { release = resolve; });
+    vi.spyOn(inner, "list").mockImplementationOnce(async () => {
+      const items = await list();
+      listed();
+      await held;
+      return items;
+    });
+
+    const deleting = storage.delete("a.png");
+    await scanned;
+    const saving = storage.save(Buffer.from("png-bytes"), { filename: "b.png" });
+    release();
+
+    expect(await deleting).toBe(true);
+    await saving;
+    expect((await storage.retrieve("b.png"))?.toString()).toBe("png-bytes");
+    expect(await blobKeys(inner)).toHaveLength(1);
+  });
+
+  it("stores the payload again after its blob was removed", async () => {
+    await storage.save(Buffer.from("png-bytes"), { filename: "a.png" });
+    await storage.delete("a.png");
+
+    const result = await storage.save(Buffer.from("png-bytes"), { filename: "b.png" });
+
+    expect(result.metadata).toMatchObject({ deduplicated: false });
+    expect((await storage.retrieve("b.png"))?.toString()).toBe("png-bytes");
+  });
+});
@@ -0,0 +1,184 @@
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { DeduplicatingStorageTarget } from "../../src/storage/dedup.js";
+import { EncryptingStorageTarget } from "../../src/storage/encryption.js";
+import { LocalStorageTarget, MemoryStorageTarget, StorageError, createStorageTarget, onStorageSaved } from "../../src/storage/index.js";
+import type { Logger } from "../../src/logger.js";
+
+const createLogger = (): Logger => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+const oldKey = randomBytes(32).toString("base64");
+const newKey = randomBytes(32).toString("hex");
+
+describe("EncryptingStorageTarget", () => {
+  let inner: MemoryStorageTarget;
+
+  beforeEach(() => {
+    inner = new MemoryStorageTarget();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("stores ciphertext and decrypts it on retrieve", async () => {
+    const storage = new EncryptingStorageTarget(inner, { keys: { k1: oldKey } }, createLogger());
+
+    const result = await storage.save(Buffer.from("customer-data"), { filename: "admin.png", mimeType: "image/png" });
+
+    expect(result).toMatchObject({ key: "admin.png", size: 13, metadata: { encryptionKeyId: "k1" } });
+    const stored = (await inner.retrieve("admin.png")) as Buffer;
+    expect(stored.includes(Buffer.from("customer-data"))).toBe(false);
+    expect(stored.subarray(0, 4).toString()).toBe("MPCE");
+    expect((await storage.retrieve("admin.png"))?.toString()).toBe("customer-data");
+    expect(await storage.retrieve("missing.png")).toBeNull();
+  });
+
+  it("uses a fresh IV for every save", async () => {
+    const storage = new EncryptingStorageTarget(inner, { keys: { k1: oldKey } });
+
+    await storage.save(Buffer.from("same"), { filename: "a.png" });
+    await storage.save(Buffer.from("same"), { filename: "b.png" });
+
+    expect(((await inner.retrieve("a.png")) as Buffer).equals((await inner.retrieve("b.png")) as Buffer)).toBe(false);
+  });
+
+  it("reads captures sealed with a retired key after rotation", async () => {
+    const before = new EncryptingStorageTarget(inner, { keys: { k1: oldKey } });
+    await before.save(Buffer.from("old"), { filename: "old.png" });
+
+    const after = new EncryptingStorageTarget(inner, { keys: { k1: oldKey, k2: newKey }, keyId: "k2" });
+    const result = await after.save(Buffer.from("new"), { filename: "new.png" });
+
+    expect(result.metadata).toMatchObject({ encryptionKeyId: "k2" });
+    expect((await after.retrieve("old.png"))?.toString()).toBe("old");
+    expect((await after.retrieve("new.png"))?.toString()).toBe("new");
+  });
+
+  it("reports a missing key by ID", async () => {
+    await new EncryptingStorageTarget(inner, { keys: { k1: oldKey } }).save(Buffer.from("x"), { filename: "x.png" });
+    const storage = new EncryptingStorageTarget(inner, { keys: { k2: newKey } });
+
+    const error = await storage.retrieve("x.png").catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(StorageError);
+    expect(error).toMatchObject({
+      code: "STORAGE_KEY_MISSING",
+      message: 'Capture "x.png" was encrypted with key "k1", which is not configured',
+    });
+  });
+
+  it("rejects tampered, wrongly keyed and plaintext captures", async () => {
+    const storage = new EncryptingStorageTarget(inner, { keys: { k1: oldKey } });
+    await storage.save(Buffer.from("payload"), { filename: "x.png" });
+
+    const sealed = Buffer.from((await inner.retrieve("x.png")) as Buffer);
+    sealed[sealed.length - 1] ^= 0xff;
+    await inner.save(sealed, { filename: "tampered.png" });
+    await inner.save(Buffer.from("plain"), { filename: "plain.png" });
+    const impostor = new EncryptingStorageTarget(inner, { keys: { k1: newKey } });
+
+    await expect(storage.retrieve("tampered.png")).rejects.toMatchObject({ code: "STORAGE_DECRYPT_FAILED" });
+    await expect(impostor.retrieve("x.png")).rejects.toMatchObject({ code: "STORAGE_DECRYPT_FAILED" });
+    await expect(storage.retrieve("plain.png")).rejects.toThrow('Capture "plain.png" is not encrypted');
+  });
+
+  it("seals tags so the local index holds no plaintext URL", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "encrypted-captures-"));
+    try {
+      const storage = new EncryptingStorageTarget(new LocalStorageTarget(dir), { keys: { k1: oldKey } });
+
+      const result = await storage.save(Buffer.from("x"), {
+        filename: "home.png",
+        tags: { url: "https://example.com/account?token=secret", viewport: "1280x720" },
+      });
+
+      const index = await fs.readFile(path.join(dir, ".captures-index.json"), "utf8");
+      expect(index).not.toContain("example.com");
+      expect(index).not.toContain("1280x720");
+      expect(result.metadata).toMatchObject({ url: "https://example.com/account?token=secret" });
+      expect(result.metadata).not.toHaveProperty("sealedTags");
+      const [item] = await storage.list();
+      expect(item.metadata).toEqual({ url: "https://example.com/account?token=secret", viewport: "1280x720" });
+      expect((await storage.stat("home.png"))?.metadata).toEqual(item.metadata);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("lists captures whose tags were sealed with a missing key without their tags", async () => {
+    await new EncryptingStorageTarget(inner, { keys: { k1: oldKey } }).save(Buffer.from("x"), {
+      filename: "x.png",
+      tags: { url: "https://example.com/" },
+    });
+    const logger = createLogger();
+    const storage = new EncryptingStorageTarget(inner, { keys: { k2: newKey } }, logger);
+
+    const [item] = await storage.list();
+
+    expect(item.key).toBe("x.png");
+    expect(item.metadata).toEqual({});
+    expect(logger.warn).toHaveBeenCalledWith("storage:encrypted:tags_unreadable", expect.objectContaining({ key: "x.png" }));
+  });
+
+  it("notifies once per save, from the outermost target only", async () => {
+    const storage = createStorageTarget({ type: "memory", deduplicate: true, encryption: { keys: { k1: oldKey } } });
+    const listener = vi.fn();
+    const unsubscribe = onStorageSaved(listener);
+    try {
+      await storage.save(Buffer.from("png-bytes"), { filename: "a.png" });
+      await new EncryptingStorageTarget(inner, { keys: { k1: oldKey } }).save(Buffer.from("x"), { filename: "x.png" });
+    } finally {
+      unsubscribe();
+    }
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[0][0]).toBe(storage);
+    expect(listener.mock.calls[1][0]).toBeInstanceOf(EncryptingStorageTarget);
+  });
+
+  it("reads keys from MCP_STORAGE_KEYS", async () => {
+    vi.stubEnv("MCP_STORAGE_KEYS", `k2:${newKey}, k1:${oldKey}`);
+    const storage = new EncryptingStorageTarget(inner);
+
+    const result = await storage.save(Buffer.from("x"), { filename: "x.png" });
+
+    expect(result.metadata).toMatchObject({ encryptionKeyId: "k2" });
+    vi.stubEnv("MCP_STORAGE_KEYS", oldKey);
+    expect(() => new EncryptingStorageTarget(inner)).not.toThrow();
+  });
+
+  it("fails fast without a usable key", () => {
+    vi.stubEnv("MCP_STORAGE_KEYS", "");
+
+    expect(() => new EncryptingStorageTarget(inner)).toThrow(
+      "Storage encryption is enabled but no key is configured: set encryption.keys on the storage target, or MCP_STORAGE_KEYS",
+    );
+    expect(() => new EncryptingStorageTarget(inner, { keys: { k1: "c2hvcnQ=" } })).toThrow(
+      'Encryption key "k1" must be 32 bytes (64 hex characters or base64), got 5 bytes',
+    );
+    expect(() => new EncryptingStorageTarget(inner, { keys: { k1: oldKey }, keyId: "k9" })).toThrow(
+      'Encryption key "k9" is not configured',
+    );
+  });
+
+  it("encrypts blobs and sidecars under deduplication", async () => {
+    const storage = createStorageTarget({ type: "memory", deduplicate: true, encryption: { keys: { k1: oldKey } } });
+
+    await storage.save(Buffer.from("png-bytes"), { filename: "a.png", tags: { url: "https://example.com/" } });
+    const result = await storage.save(Buffer.from("png-bytes"), { filename: "b.png" });
+
+    expect(storage).toBeInstanceOf(DeduplicatingStorageTarget);
+    expect(result.metadata).toMatchObject({ deduplicated: true });
+    expect((await storage.retrieve!("b.png"))?.toString()).toBe("png-bytes");
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { createLLMError, formatErrorForMCP, ERROR_CODES } from "../../src/utils/errors.js";
+import { createLLMError, formatErrorForMCP, classifyCaptureError, classifyStepError, ERROR_CODES } from "../../src/utils/errors.js";
 
 describe("Error Handling", () => {
   describe("createLLMError", () => {
@@ -214,4 +214,107 @@ describe("Error Handling", () => {
       expect(error.recovery.description).toContain("selector");
     });
   });
+
+  describe("classifyCaptureError", () => {
+    it("should map navigation failures to a retryable error", () => {
+      const error = classifyCaptureError(new Error("Navigation failed with status: 503"), {
+        url: "https://example.com",
+        stepsTotal: 3,
+        executionTimeMs: 120,
+      });
+
+      expect(error.error.code).toBe(ERROR_CODES.NAVIGATION_FAILED);
+      expect(error.error.message).toBe("Navigation failed with status: 503");
+      expect(error.recovery.action).toBe("retry");
+      expect(error.context).toMatchObject({ url: "https://example.com", stepsTotal: 3, executionTimeMs: 120 });
+    });
+
+    it("should recognise timeouts", () => {
+      const error = classifyCaptureError(new Error("captureScreenshot timed out after 60000ms"), { url: "https://example.com" });
+
+      expect(error.error.code).toBe(ERROR_CODES.NAVIGATION_TIMEOUT);
+      expect(error.recovery.action).toBe("retry");
+    });
+
+    it("should report page errors before matching their text", () => {
+      const error = classifyCaptureError(new Error("Page reported 1 JavaScript error: request timed out"), { url: "https://example.com" });
+
+      expect(error.error.code).toBe(ERROR_CODES.PAGE_ERROR);
+      expect(error.recovery.action).toBe("abort");
+    });
+
+    it("should fall back to CAPTURE_FAILED for unknown errors", () => {
+      const error = classifyCaptureError("boom", {});
+
+      expect(error.error.code).toBe(ERROR_CODES.CAPTURE_FAILED);
+      expect(error.error.message).toBe("boom");
+      expect(error.recovery.action).toBe("abort");
+    });
+  });
+
+  describe("classifyStepError", () => {
+    const context = { url: "https://example.com", stepsTotal: 3, executionTimeMs: 250 };
+
+    it("should repeat the failing step after a wait when its element is missing", () => {
+      const step = { type: "click", target: "#buy", button: "left" };
+      const error = classifyStepError({
+        ...context,
+        message: "Waiting for selector `#buy` failed: Waiting failed: 10000ms exceeded",
+        step: 2,
+        stepType: "click",
+        target: "#buy",
+        stepsCompleted: 1,
+        lastSuccessfulStep: 1,
+        originalParams: step,
+      });
+
+      expect(error.error).toMatchObject({ code: ERROR_CODES.ELEMENT_NOT_FOUND, step: 2, stepType: "click", target: "#buy" });
+      expect(error.recovery.correctedSteps).toEqual([{ type: "wait", for: "#buy", timeout: 10000 }, step]);
+      expect(error.context).toMatchObject({ stepsTotal: 3, stepsCompleted: 1, lastSuccessfulStep: 1 });
+    });
+
+    it("should lengthen a wait step instead of adding another", () => {
+      const error = classifyStepError({
+        ...context,
+        message: "Waiting for selector `.results` failed: Waiting failed: 10000ms exceeded",
+        step: 1,
+        stepType: "wait",
+        target: ".results",
+        stepsCompleted: 0,
+        originalParams: { type: "wait", for: ".results" },
+      });
+
+      expect(error.recovery.correctedSteps).toEqual([{ type: "wait", for: ".results", timeout: 30000 }]);
+    });
+
+    it("should scroll to elements that are not visible", () => {
+      const error = classifyStepError({
+        ...context,
+        message: "Node is either not visible or not an HTMLElement",
+        step: 1,
+        stepType: "hover",
+        target: ".menu",
+        stepsCompleted: 0,
+        originalParams: { type: "hover", target: ".menu" },
+      });
+
+      expect(error.error.code).toBe(ERROR_CODES.ELEMENT_NOT_VISIBLE);
+      expect(error.recovery.correctedSteps?.[0]).toEqual({ type: "scroll", to: ".menu" });
+      expect(error.recovery.correctedSteps?.at(-1)).toEqual({ type: "hover", target: ".menu" });
+    });
+
+    it("should keep the message and step of other failures", () => {
+      const error = classifyStepError({
+        ...context,
+        message: "keypress failed: Unknown key: \"Foo\"",
+        step: 3,
+        stepType: "keypress",
+        stepsCompleted: 2,
+        lastSuccessfulStep: 2,
+      });
+
+      expect(error.error).toMatchObject({ code: ERROR_CODES.CAPTURE_FAILED, message: "keypress failed: Unknown key: \"Foo\"", step: 3 });
+      expect(error.recovery.correctedSteps).toBeUndefined();
+    });
+  });
 });
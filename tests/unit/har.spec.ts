@@ -0,0 +1,205 @@
+import { EventEmitter } from "node:events";
+import { describe, it, expect, vi } from "vitest";
+import type { HTTPRequest, Page } from "puppeteer";
+
+import { HarRecorder, finishHarRecording, formatHarSummary, summarizeHar } from "../../src/utils/har.js";
+import { MemoryStorageTarget, registerStorageTarget } from "../../src/storage/index.js";
+import type { Logger } from "../../src/logger.js";
+
+const createLogger = (): Logger => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+interface FakeRequestOptions {
+  url: string;
+  method?: string;
+  status?: number;
+  mimeType?: string;
+  body?: Buffer;
+  postData?: string;
+  failure?: string;
+  noResponse?: boolean;
+}
+
+function fakeRequest(options: FakeRequestOptions): HTTPRequest {
+  const body = options.body ?? Buffer.from("ok");
+  const response = options.noResponse
+    ? null
+    : {
+        status: () => options.status ?? 200,
+        statusText: () => "OK",
+        headers: () => ({
+          "content-type": options.mimeType ?? "text/html",
+          "content-length": String(body.length),
+          "set-cookie": "a=1\nb=2",
+        }),
+        buffer: vi.fn(async () => body),
+        timing: () => ({
+          requestTime: 0,
+          dnsStart: 1,
+          dnsEnd: 3,
+          connectStart: 3,
+          connectEnd: 8,
+          sslStart: 5,
+          sslEnd: 8,
+          sendStart: 8,
+          sendEnd: 9,
+          receiveHeadersEnd: 20,
+        }),
+        remoteAddress: () => ({ ip: "93.184.216.34", port: 443 }),
+      };
+
+  return {
+    url: () => options.url,
+    method: () => options.method ?? "GET",
+    headers: () => ({ accept: "*/*" }),
+    postData: () => options.postData,
+    resourceType: () => "document",
+    response: () => response,
+    failure: () => (options.failure ? { errorText: options.failure } : null),
+  } as unknown as HTTPRequest;
+}
+
+function createPage() {
+  const emitter = new EventEmitter();
+  return { page: emitter as unknown as Page, emitter };
+}
+
+describe("HarRecorder", () => {
+  it("should record finished requests as HAR 1.2 entries", async () => {
+    const { page, emitter } = createPage();
+    const recorder = new HarRecorder();
+    const stop = recorder.attach(page, "https://example.com/");
+
+    const request = fakeRequest({ url: "https://example.com/?q=1", method: "POST", postData: "a=b" });
+    emitter.emit("request", request);
+    emitter.emit("requestfinished", request);
+    await stop();
+
+    const har = recorder.toHar();
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.pages).toEqual([expect.objectContaining({ id: "page_1", title: "https://example.com/" })]);
+    const [entry] = har.log.entries;
+    expect(entry.pageref).toBe("page_1");
+    expect(entry.request).toMatchObject({
+      method: "POST",
+      url: "https://example.com/?q=1",
+      queryString: [{ name: "q", value: "1" }],
+      postData: { text: "a=b" },
+      bodySize: 3,
+    });
+    expect(entry.response).toMatchObject({ status: 200, content: { size: 2, mimeType: "text/html" } });
+    expect(entry.response.headers.filter((header) => header.name === "set-cookie")).toHaveLength(2);
+    expect(entry.response.content.text).toBeUndefined();
+    expect(entry.timings).toMatchObject({ blocked: 1, dns: 2, connect: 5, ssl: 3, send: 1, wait: 11 });
+    expect(entry.serverIPAddress).toBe("93.184.216.34");
+  });
+
+  it("should store bodies up to maxBodyBytes when enabled", async () => {
+    const { page, emitter } = createPage();
+    const recorder = new HarRecorder({ includeBodies: true, maxBodyBytes: 10 });
+    const stop = recorder.attach(page, "page");
+
+    const text = fakeRequest({ url: "https://example.com/a.json", mimeType: "application/json", body: Buffer.from('{"a":1}') });
+    const binary = fakeRequest({ url: "https://example.com/a.png", mimeType: "image/png", body: Buffer.from([1, 2, 3]) });
+    const large = fakeRequest({ url: "https://example.com/big.js", mimeType: "text/javascript", body: Buffer.alloc(20) });
+    for (const request of [text, binary, large]) {
+      emitter.emit("request", request);
+      emitter.emit("requestfinished", request);
+    }
+    await stop();
+
+    const [jsonEntry, pngEntry, largeEntry] = recorder.toHar().log.entries;
+    expect(jsonEntry.response.content.text).toBe('{"a":1}');
+    expect(pngEntry.response.content).toMatchObject({ text: "AQID", encoding: "base64" });
+    expect(largeEntry.response.content.text).toBeUndefined();
+    expect(largeEntry.response.content.comment).toContain("exceeds maxBodyBytes (10)");
+  });
+
+  it("should record failed and unfinished requests and stop listening once detached", async () => {
+    const { page, emitter } = createPage();
+    const recorder = new HarRecorder();
+    const stop = recorder.attach(page, "page");
+
+    const failed = fakeRequest({ url: "https://cdn.example.com/x.js", failure: "net::ERR_NAME_NOT_RESOLVED", noResponse: true });
+    const pending = fakeRequest({ url: "https://example.com/slow", noResponse: true });
+    emitter.emit("request", failed);
+    emitter.emit("requestfailed", failed);
+    emitter.emit("request", pending);
+    await stop();
+    emitter.emit("request", fakeRequest({ url: "https://example.com/late" }));
+
+    const entries = recorder.toHar().log.entries;
+    expect(entries).toHaveLength(2);
+    expect(entries.find((entry) => entry.request.url.includes("x.js"))).toMatchObject({
+      response: { status: 0 },
+      _failureText: "net::ERR_NAME_NOT_RESOLVED",
+    });
+    expect(entries.find((entry) => entry.request.url.includes("slow"))?._failureText).toContain("did not finish");
+    expect(emitter.listenerCount("request")).toBe(0);
+  });
+});
+
+describe("summarizeHar", () => {
+  it("should total bytes and list failed and slowest requests", async () => {
+    const { page, emitter } = createPage();
+    const recorder = new HarRecorder();
+    const stop = recorder.attach(page, "page");
+
+    const ok = fakeRequest({ url: "https://example.com/", body: Buffer.alloc(2048) });
+    const missing = fakeRequest({ url: "https://example.com/missing", status: 404, body: Buffer.alloc(512) });
+    for (const request of [ok, missing]) {
+      emitter.emit("request", request);
+      emitter.emit("requestfinished", request);
+    }
+    await stop();
+
+    const summary = summarizeHar(recorder.toHar());
+    expect(summary).toMatchObject({
+      totalRequests: 2,
+      totalBytes: 2560,
+      failed: [{ url: "https://example.com/missing", status: 404 }],
+    });
+    expect(summary.slowest).toHaveLength(2);
+
+    const text = formatHarSummary(summary, "memory://har");
+    expect(text).toContain("NETWORK: 2 requests, 2.5 KB, 1 failed");
+    expect(text).toMatch(/✗ GET https:\/\/example\.com\/missing 404 \(\d+ms\)/);
+    expect(text).toContain("HAR saved at: memory://har");
+  });
+});
+
+describe("finishHarRecording", () => {
+  it("should save the HAR through the storage target", async () => {
+    const storage = new MemoryStorageTarget();
+    registerStorageTarget("har-unit", storage);
+    const recorder = new HarRecorder();
+    recorder.attach(createPage().page, "page");
+
+    const report = await finishHarRecording(recorder, "https://example.com/", "har-unit", createLogger());
+
+    expect(report.location).toMatch(/^memory:\/\//);
+    const [item] = await storage.list();
+    expect(item.metadata).toMatchObject({ kind: "har", url: "https://example.com/" });
+    const har = JSON.parse((await storage.retrieve(item.key))!.toString("utf8"));
+    expect(har.log.pages).toHaveLength(1);
+  });
+
+  it("should still summarize when saving fails", async () => {
+    const logger = createLogger();
+    registerStorageTarget("har-broken", {
+      type: "broken",
+      save: vi.fn(async () => {
+        throw new Error("disk full");
+      }),
+    });
+
+    const report = await finishHarRecording(new HarRecorder(), "https://example.com/", "har-broken", logger);
+
+    expect(report).toEqual({ summary: { totalRequests: 0, totalBytes: 0, failed: [], slowest: [] } });
+    expect(logger.warn).toHaveBeenCalledWith("har:save_failed", expect.objectContaining({ error: "disk full" }));
+  });
+});
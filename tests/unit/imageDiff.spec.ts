@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+
+import { diffImages } from "../../src/image/diff.js";
+import type { RgbaImage } from "../../src/image/png.js";
+
+function solidImage(width: number, height: number, color: [number, number, number, number] = [255, 255, 255, 255]): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set(color, i * 4);
+  }
+  return { width, height, data };
+}
+
+function fillRect(image: RgbaImage, x: number, y: number, width: number, height: number, color: [number, number, number, number]) {
+  for (let row = y; row < y + height; row++) {
+    for (let col = x; col < x + width; col++) {
+      image.data.set(color, (row * image.width + col) * 4);
+    }
+  }
+}
+
+const BLACK: [number, number, number, number] = [0, 0, 0, 255];
+
+describe("diffImages", () => {
+  it("should report no differences for identical images", () => {
+    const result = diffImages(solidImage(20, 10), solidImage(20, 10));
+
+    expect(result.diffPixels).toBe(0);
+    expect(result.mismatchPercentage).toBe(0);
+    expect(result.regions).toEqual([]);
+    expect(result.dimensionsMatch).toBe(true);
+    expect(result.diffImage.width).toBe(20);
+  });
+
+  it("should count changed pixels and report their bounding box", () => {
+    const baseline = solidImage(40, 40);
+    const current = solidImage(40, 40);
+    fillRect(current, 5, 6, 4, 3, BLACK);
+
+    const result = diffImages(baseline, current);
+
+    expect(result.diffPixels).toBe(12);
+    expect(result.mismatchPercentage).toBeCloseTo((12 / 1600) * 100);
+    expect(result.regions).toEqual([{ x: 5, y: 6, width: 4, height: 3, pixels: 12 }]);
+    // Changed pixels are painted red in the diff image
+    expect(Array.from(result.diffImage.data.subarray((6 * 40 + 5) * 4, (6 * 40 + 5) * 4 + 4))).toEqual([255, 0, 0, 255]);
+  });
+
+  it("should report separate regions for distant changes, largest first", () => {
+    const baseline = solidImage(100, 100);
+    const current = solidImage(100, 100);
+    fillRect(current, 0, 0, 2, 2, BLACK);
+    fillRect(current, 80, 80, 5, 5, BLACK);
+
+    const result = diffImages(baseline, current);
+
+    expect(result.regions).toHaveLength(2);
+    expect(result.regions[0]).toMatchObject({ x: 80, y: 80, width: 5, height: 5, pixels: 25 });
+    expect(result.regions[1]).toMatchObject({ x: 0, y: 0, width: 2, height: 2 });
+  });
+
+  it("should tolerate small colour shifts below the colour threshold", () => {
+    const baseline = solidImage(10, 10, [200, 200, 200, 255]);
+    const current = solidImage(10, 10, [203, 203, 203, 255]);
+
+    expect(diffImages(baseline, current).diffPixels).toBe(0);
+    expect(diffImages(baseline, current, { colorThreshold: 0 }).diffPixels).toBe(100);
+  });
+
+  it("should skip ignore regions", () => {
+    const baseline = solidImage(20, 20);
+    const current = solidImage(20, 20);
+    fillRect(current, 2, 2, 5, 5, BLACK);
+
+    const result = diffImages(baseline, current, {
+      ignoreRegions: [{ x: 0, y: 0, width: 10, height: 10 }],
+    });
+
+    expect(result.diffPixels).toBe(0);
+    expect(result.ignoredPixels).toBe(100);
+    expect(result.comparedPixels).toBe(300);
+  });
+
+  it("should clip ignore regions that extend past the image", () => {
+    const result = diffImages(solidImage(10, 10), solidImage(10, 10), {
+      ignoreRegions: [{ x: 5, y: 5, width: 100, height: 100 }],
+    });
+
+    expect(result.ignoredPixels).toBe(25);
+  });
+
+  it("should tolerate anti-aliased edges unless asked to count them", () => {
+    // A black square on white; the current image softens one edge pixel to gray
+    const baseline = solidImage(20, 20);
+    fillRect(baseline, 5, 5, 10, 10, BLACK);
+    const current = solidImage(20, 20);
+    fillRect(current, 5, 5, 10, 10, BLACK);
+    fillRect(current, 4, 9, 1, 1, [128, 128, 128, 255]);
+
+    const tolerant = diffImages(baseline, current);
+    expect(tolerant.diffPixels).toBe(0);
+    expect(tolerant.antialiasedPixels).toBe(1);
+
+    const strict = diffImages(baseline, current, { includeAntialiasing: true });
+    expect(strict.diffPixels).toBe(1);
+  });
+
+  it("should treat pixels outside the smaller image as changed", () => {
+    const result = diffImages(solidImage(10, 10), solidImage(10, 12));
+
+    expect(result.dimensionsMatch).toBe(false);
+    expect(result.width).toBe(10);
+    expect(result.height).toBe(12);
+    expect(result.diffPixels).toBe(20);
+    expect(result.regions[0]).toMatchObject({ x: 0, y: 10, width: 10, height: 2 });
+  });
+});
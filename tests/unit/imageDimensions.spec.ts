@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+
+import { readImageInfo } from "../../src/image/dimensions.js";
+import { encodePng } from "../../src/image/png.js";
+
+function jpegHeader(width: number, height: number): Buffer {
+  const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x10, ...Buffer.from("JFIF\0"), 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+  const sof = Buffer.alloc(19);
+  sof.writeUInt16BE(0xffc0, 0);
+  sof.writeUInt16BE(17, 2);
+  sof[4] = 8;
+  sof.writeUInt16BE(height, 5);
+  sof.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof]);
+}
+
+function webpHeader(chunk: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(20);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(12 + body.length, 4);
+  header.write("WEBP", 8, "latin1");
+  header.write(chunk, 12, "latin1");
+  header.writeUInt32LE(body.length, 16);
+  return Buffer.concat([header, body]);
+}
+
+describe("readImageInfo", () => {
+  it("should read PNG dimensions from the IHDR chunk", () => {
+    const png = encodePng({ width: 7, height: 3, data: new Uint8Array(7 * 3 * 4) });
+    expect(readImageInfo(png)).toEqual({ format: "png", width: 7, height: 3 });
+  });
+
+  it("should read JPEG dimensions from the start-of-frame marker", () => {
+    expect(readImageInfo(jpegHeader(640, 480))).toEqual({ format: "jpeg", width: 640, height: 480 });
+  });
+
+  it("should read lossy, lossless and extended WebP dimensions", () => {
+    const lossy = Buffer.alloc(10);
+    lossy.set([0x9d, 0x01, 0x2a], 3);
+    lossy.writeUInt16LE(800, 6);
+    lossy.writeUInt16LE(600, 8);
+    expect(readImageInfo(webpHeader("VP8 ", lossy))).toEqual({ format: "webp", width: 800, height: 600 });
+
+    const lossless = Buffer.alloc(10);
+    lossless[0] = 0x2f;
+    lossless.writeUInt32LE((320 - 1) | ((200 - 1) << 14), 1);
+    expect(readImageInfo(webpHeader("VP8L", lossless))).toEqual({ format: "webp", width: 320, height: 200 });
+
+    const extended = Buffer.alloc(10);
+    extended.writeUIntLE(1920 - 1, 4, 3);
+    extended.writeUIntLE(1080 - 1, 7, 3);
+    expect(readImageInfo(webpHeader("VP8X", extended))).toEqual({ format: "webp", width: 1920, height: 1080 });
+  });
+
+  it("should return undefined for unknown or truncated data", () => {
+    expect(readImageInfo(Buffer.from("mock-image"))).toBeUndefined();
+    expect(readImageInfo(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBeUndefined();
+  });
+});
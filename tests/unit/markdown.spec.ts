@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+
+import { domTreeToMarkdown } from "../../src/utils/markdown.js";
+import type { DomNode } from "../../src/types/dom.js";
+
+const el = (tagName: string, attributes: Record<string, string> = {}, ...children: Array<DomNode | string>): DomNode => ({
+  type: "element",
+  tagName,
+  attributes,
+  children: children.map((child) => (typeof child === "string" ? { type: "text", textContent: child } : child)),
+});
+
+describe("domTreeToMarkdown", () => {
+  it("renders headings, paragraphs and inline formatting", () => {
+    const tree = el("article", {},
+      el("h1", {}, "  Release\n notes "),
+      "\n  ",
+      el("p", {}, "Now ", el("strong", {}, "faster "), "and ", el("em", {}, "safer"), ", see ", el("code", {}, "run()"), "."),
+      el("div", {}, el("div", {}, "Nested ", el("span", {}, "wrappers")), el("hr")),
+      el("p", {}, "line one", el("br"), "line two"),
+    );
+
+    expect(domTreeToMarkdown(tree)).toBe(
+      [
+        "# Release notes",
+        "Now **faster** and _safer_, see `run()`.",
+        "Nested wrappers",
+        "---",
+        "line one\nline two",
+      ].join("\n\n"),
+    );
+  });
+
+  it("resolves links and images against the page URL and keeps alt text", () => {
+    const tree = el("p", {},
+      el("a", { href: "/docs/a (b)" }, "Docs"),
+      " ",
+      el("a", { href: "javascript:void(0)" }, "Menu"),
+      " ",
+      el("img", { src: "logo.png", alt: "Company logo" }),
+      el("img", { src: "spacer.gif" }),
+      el("a", { href: "/empty" }),
+    );
+
+    expect(domTreeToMarkdown(tree, "https://example.com/guide/")).toBe(
+      "[Docs](https://example.com/docs/a%20%28b%29) Menu ![Company logo](https://example.com/guide/logo.png)",
+    );
+  });
+
+  it("renders nested and ordered lists", () => {
+    const tree = el("ol", { start: "3" },
+      el("li", {}, "Install"),
+      el("li", {}, "Configure", el("ul", {}, el("li", {}, "storage"), el("li", {}, el("p", {}, "telemetry")))),
+    );
+
+    expect(domTreeToMarkdown(tree)).toBe("3. Install\n4. Configure\n   - storage\n   - telemetry");
+  });
+
+  it("renders tables with a header row and escapes pipes", () => {
+    const tree = el("table", {},
+      el("thead", {}, el("tr", {}, el("th", {}, "Name"), el("th", {}, "Value"))),
+      el("tbody", {},
+        el("tr", {}, el("td", {}, "a|b"), el("td", {}, el("a", { href: "https://x.test/" }, "link"))),
+        el("tr", {}, el("td", {}, "only")),
+      ),
+    );
+
+    expect(domTreeToMarkdown(tree)).toBe(
+      "| Name | Value |\n| --- | --- |\n| a\\|b | [link](https://x.test/) |\n| only |  |",
+    );
+  });
+
+  it("keeps code blocks verbatim with their language", () => {
+    const tree = el("div", {},
+      el("pre", {}, el("code", { class: "language-ts" }, "\nconst a = 1;\n  if (a) {\n    run();\n  }\n")),
+      el("pre", {}, "uses ``` fences"),
+    );
+
+    expect(domTreeToMarkdown(tree)).toBe(
+      "```ts\nconst a = 1;\n  if (a) {\n    run();\n  }\n```\n\n````\nuses ``` fences\n````",
+    );
+  });
+
+  it("prefixes blockquotes", () => {
+    const tree = el("blockquote", {}, el("p", {}, "First"), el("p", {}, "Second"));
+
+    expect(domTreeToMarkdown(tree)).toBe("> First\n>\n> Second");
+  });
+
+  it("drops scripts, styles, forms controls and hidden elements", () => {
+    const tree = el("html", {},
+      el("head", {}, el("title", {}, "Title")),
+      el("body", {},
+        el("script", {}, "track()"),
+        el("style", {}, "p { color: red }"),
+        el("p", { hidden: "" }, "Hidden"),
+        el("div", { "aria-hidden": "true" }, "Decorative"),
+        el("p", {}, "Visible ", el("span", { hidden: "" }, "secret"), el("textarea", {}, "draft")),
+      ),
+    );
+
+    expect(domTreeToMarkdown(tree)).toBe("Visible");
+  });
+
+  it("keeps the spaces between inline elements", () => {
+    const tree = el("p", {}, el("strong", {}, "Bold"), " ", el("em", {}, "italic"), " ", el("a", { href: "/x" }, "link"));
+
+    expect(domTreeToMarkdown(tree, "https://example.com/")).toBe("**Bold** _italic_ [link](https://example.com/x)");
+  });
+
+  it("escapes page text that would read as Markdown", () => {
+    const tree = el("article", {},
+      el("p", {}, "2 * 3 = 6, snake_case and [not a link](x) <b>"),
+      el("p", {}, "# not a heading"),
+      el("p", {}, "- not a list"),
+      el("p", {}, "1. not ordered"),
+      el("p", {}, "> not a quote"),
+      el("p", {}, "C# is #1, well-known"),
+      el("h2", {}, "a_b ", el("a", { href: "/x" }, "[1]")),
+      el("p", {}, "Use ", el("code", {}, "a*b_c"), "."),
+    );
+
+    expect(domTreeToMarkdown(tree, "https://example.com/")).toBe(
+      [
+        "2 \\* 3 = 6, snake\\_case and \\[not a link\\](x) \\<b>",
+        "\\# not a heading",
+        "\\- not a list",
+        "1\\. not ordered",
+        "\\> not a quote",
+        "C# is #1, well-known",
+        "## a\\_b [\\[1\\]](https://example.com/x)",
+        "Use `a*b_c`.",
+      ].join("\n\n"),
+    );
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+
+import { buildPageMetadata } from "../../src/utils/metadata.js";
+import type { LinkTag, MetaTag, RawPageMetadata } from "../../src/types/metadata.js";
+
+const meta = (key: string, content: string, attribute: "name" | "property" = "name"): MetaTag => ({
+  name: attribute === "name" ? key : null,
+  property: attribute === "property" ? key : null,
+  httpEquiv: null,
+  content,
+});
+
+const link = (rel: string, href: string, extra: Partial<LinkTag> = {}): LinkTag => ({
+  rel,
+  href,
+  hreflang: null,
+  type: null,
+  title: null,
+  sizes: null,
+  ...extra,
+});
+
+const rawPage = (overrides: Partial<RawPageMetadata> = {}): RawPageMetadata => ({
+  url: "https://shop.example.com/products/42",
+  title: "",
+  language: "",
+  metas: [],
+  links: [],
+  jsonLd: [],
+  microdata: [],
+  rdfa: [],
+  ...overrides,
+});
+
+describe("buildPageMetadata", () => {
+  it("returns nulls and empty lists for a bare page", () => {
+    const metadata = buildPageMetadata(rawPage(), "2026-01-01T00:00:00.000Z");
+
+    expect(metadata).toEqual({
+      url: "https://shop.example.com/products/42",
+      title: null,
+      canonicalUrl: null,
+      language: null,
+      description: null,
+      robots: null,
+      openGraph: { title: null, description: null, type: null, url: null, siteName: null, locale: null, images: [], other: {} },
+      twitter: { card: null, site: null, creator: null, title: null, description: null, image: null, imageAlt: null },
+      jsonLd: [],
+      microdata: [],
+      rdfa: [],
+      alternates: [],
+      feeds: [],
+      favicons: [],
+      capturedAt: "2026-01-01T00:00:00.000Z",
+    });
+  });
+
+  it("reads title, description, robots and the Twitter card", () => {
+    const metadata = buildPageMetadata(rawPage({
+      title: "  Trail Shoe | Shop ",
+      language: "en-GB",
+      metas: [
+        meta("Description", "Lightweight trail shoe"),
+        meta("description", "ignored duplicate"),
+        meta("robots", "NoIndex, follow, max-image-preview:large"),
+        meta("twitter:card", "summary_large_image"),
+        meta("twitter:site", "@shop"),
+        meta("twitter:image:src", "/img/shoe.jpg"),
+      ],
+    }));
+
+    expect(metadata.title).toBe("Trail Shoe | Shop");
+    expect(metadata.language).toBe("en-GB");
+    expect(metadata.description).toBe("Lightweight trail shoe");
+    expect(metadata.robots).toEqual({
+      content: "NoIndex, follow, max-image-preview:large",
+      directives: ["noindex", "follow", "max-image-preview:large"],
+      index: false,
+      follow: true,
+    });
+    expect(metadata.twitter).toMatchObject({
+      card: "summary_large_image",
+      site: "@shop",
+      creator: null,
+      image: "https://shop.example.com/img/shoe.jpg",
+    });
+  });
+
+  it("groups og:image properties with the image they follow", () => {
+    const metadata = buildPageMetadata(rawPage({
+      metas: [
+        meta("og:title", "Trail Shoe", "property"),
+        meta("og:type", "product", "property"),
+        meta("og:site_name", "Shop", "property"),
+        meta("og:url", "/products/42", "property"),
+        meta("og:image", "/img/shoe.jpg", "property"),
+        meta("og:image:width", "1200", "property"),
+        meta("og:image:alt", "Side view", "property"),
+        meta("og:image", "https://cdn.example.com/sole.jpg", "property"),
+        meta("og:image:height", "not a number", "property"),
+        meta("og:price:amount", "89.00", "property"),
+      ],
+    }));
+
+    expect(metadata.openGraph).toEqual({
+      title: "Trail Shoe",
+      description: null,
+      type: "product",
+      url: "https://shop.example.com/products/42",
+      siteName: "Shop",
+      locale: null,
+      images: [
+        { url: "https://shop.example.com/img/shoe.jpg", secureUrl: null, type: null, width: 1200, height: null, alt: "Side view" },
+        { url: "https://cdn.example.com/sole.jpg", secureUrl: null, type: null, width: null, height: null, alt: null },
+      ],
+      other: { "price:amount": "89.00" },
+    });
+  });
+
+  it("parses JSON-LD blocks and reports the invalid ones", () => {
+    const metadata = buildPageMetadata(rawPage({
+      jsonLd: [
+        '{"@context":"https://schema.org","@type":"Product","name":"Trail Shoe"}',
+        '//<![CDATA[\n{"@graph":[{"@type":"Organization"},{"@type":["WebPage","ItemPage"]}]}\n//]]>',
+        '{"@type": "BreadcrumbList",}',
+      ],
+    }));
+
+    expect(metadata.jsonLd[0]).toEqual({
+      types: ["Product"],
+      data: { "@context": "https://schema.org", "@type": "Product", name: "Trail Shoe" },
+      error: null,
+    });
+    expect(metadata.jsonLd[1].types).toEqual(["Organization", "WebPage", "ItemPage"]);
+    expect(metadata.jsonLd[2]).toMatchObject({ types: [], data: null });
+    expect(metadata.jsonLd[2].error).toEqual(expect.any(String));
+  });
+
+  it("sorts link tags into canonical, alternates, feeds and favicons", () => {
+    const metadata = buildPageMetadata(rawPage({
+      links: [
+        link("canonical", "https://shop.example.com/p/42"),
+        link("alternate", "https://shop.example.com/de/p/42", { hreflang: "de" }),
+        link("alternate", "https://shop.example.com/p/42", { hreflang: "x-default" }),
+        link("alternate", "https://shop.example.com/feed.xml", { type: "application/RSS+xml", title: "New arrivals" }),
+        link("Shortcut Icon", "https://shop.example.com/favicon.ico"),
+        link("icon", "https://shop.example.com/favicon.ico", { sizes: "32x32" }),
+        link("apple-touch-icon", "https://shop.example.com/touch.png", { sizes: "180x180", type: "image/png" }),
+        link("stylesheet", "https://shop.example.com/site.css"),
+      ],
+    }));
+
+    expect(metadata.canonicalUrl).toBe("https://shop.example.com/p/42");
+    expect(metadata.alternates).toEqual([
+      { hreflang: "de", href: "https://shop.example.com/de/p/42" },
+      { hreflang: "x-default", href: "https://shop.example.com/p/42" },
+    ]);
+    expect(metadata.feeds).toEqual([
+      { type: "application/rss+xml", title: "New arrivals", href: "https://shop.example.com/feed.xml" },
+    ]);
+    expect(metadata.favicons).toEqual([
+      { rel: "shortcut icon", href: "https://shop.example.com/favicon.ico", sizes: null, type: null },
+      { rel: "apple-touch-icon", href: "https://shop.example.com/touch.png", sizes: "180x180", type: "image/png" },
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+import { EventEmitter } from "node:events";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, it, expect, vi } from "vitest";
+import type { HTTPRequest, Page } from "puppeteer";
+
+import { NetworkInterceptor, configureMockDirectory, formatNetworkRuleMatches, globToRegExp } from "../../src/utils/network.js";
+
+function fakeRequest(url: string, options: { method?: string; resourceType?: string; headers?: Record<string, string> } = {}) {
+  return {
+    url: () => url,
+    method: () => options.method ?? "GET",
+    resourceType: () => options.resourceType ?? "document",
+    headers: () => ({ ...options.headers }),
+    isInterceptResolutionHandled: () => false,
+    respond: vi.fn(async () => undefined),
+    abort: vi.fn(async () => undefined),
+    continue: vi.fn(async () => undefined),
+  };
+}
+
+function createPage() {
+  const emitter = new EventEmitter();
+  const setRequestInterception = vi.fn(async () => undefined);
+  Object.assign(emitter, { setRequestInterception });
+  return { page: emitter as unknown as Page, emitter, setRequestInterception };
+}
+
+async function send(emitter: EventEmitter, request: ReturnType<typeof fakeRequest>) {
+  emitter.emit("request", request as unknown as HTTPRequest);
+  // Let the async handler settle
+  await new Promise((resolve) => setImmediate(resolve));
+  return request;
+}
+
+describe("globToRegExp", () => {
+  it("should match the whole string with * and ? wildcards", () => {
+    expect(globToRegExp("*://*.doubleclick.net/*").test("https://ad.doubleclick.net/x?y=1")).toBe(true);
+    expect(globToRegExp("https://example.com/*.mp4").test("https://example.com/media/intro.mp4")).toBe(true);
+    expect(globToRegExp("https://example.com/a?c").test("https://example.com/abc")).toBe(true);
+    expect(globToRegExp("https://example.com/").test("https://example.com/page")).toBe(false);
+    expect(globToRegExp("*.example.com").test("api.EXAMPLE.com")).toBe(true);
+  });
+});
+
+describe("NetworkInterceptor", () => {
+  afterEach(() => {
+    configureMockDirectory(undefined);
+  });
+
+  it("should block requests by URL glob and category and let others through", async () => {
+    const { page, emitter, setRequestInterception } = createPage();
+    const interceptor = await NetworkInterceptor.create({
+      block: ["*.mp4"],
+      blockResourceTypes: ["analytics", "fonts"],
+    });
+    const interception = await interceptor.attach(page);
+
+    const video = await send(emitter, fakeRequest("https://example.com/intro.mp4", { resourceType: "media" }));
+    const tracker = await send(emitter, fakeRequest("https://www.google-analytics.com/collect", { resourceType: "xhr" }));
+    const font = await send(emitter, fakeRequest("https://fonts.example.com/a.woff2", { resourceType: "font" }));
+    const documentRequest = await send(emitter, fakeRequest("https://example.com/"));
+
+    expect(setRequestInterception).toHaveBeenCalledWith(true);
+    expect(video.abort).toHaveBeenCalledWith("blockedbyclient");
+    expect(tracker.abort).toHaveBeenCalled();
+    expect(font.abort).toHaveBeenCalled();
+    expect(documentRequest.continue).toHaveBeenCalledWith();
+    expect(interception.matchedRules()).toEqual([
+      { action: "block", rule: "*.mp4", matches: 1, urls: ["https://example.com/intro.mp4"] },
+      { action: "block", rule: "analytics", matches: 1, urls: ["https://www.google-analytics.com/collect"] },
+      { action: "block", rule: "fonts", matches: 1, urls: ["https://fonts.example.com/a.woff2"] },
+    ]);
+  });
+
+  it("should answer mocked requests with inline JSON, text or file contents", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "network-spec-"));
+    const file = path.join(dir, "page.html");
+    await fs.writeFile(file, "<h1>Mocked</h1>");
+    configureMockDirectory(dir);
+
+    try {
+      const { page, emitter } = createPage();
+      const interceptor = await NetworkInterceptor.create({
+        mocks: [
+          { url: "https://api.example.com/products*", method: "get", json: { items: [] } },
+          { url: "https://api.example.com/health", status: 503, body: "down" },
+          { url: "https://example.com/", file: "page.html" },
+        ],
+      });
+      await interceptor.attach(page);
+
+      const products = await send(emitter, fakeRequest("https://api.example.com/products?page=2"));
+      const productsPost = await send(emitter, fakeRequest("https://api.example.com/products", { method: "POST" }));
+      const health = await send(emitter, fakeRequest("https://api.example.com/health"));
+      const documentRequest = await send(emitter, fakeRequest("https://example.com/"));
+
+      expect(products.respond).toHaveBeenCalledWith({
+        status: 200,
+        headers: { "access-control-allow-origin": "*" },
+        contentType: "application/json",
+        body: Buffer.from('{"items":[]}'),
+      });
+      expect(productsPost.respond).not.toHaveBeenCalled();
+      expect(productsPost.continue).toHaveBeenCalled();
+      expect(health.respond).toHaveBeenCalledWith(expect.objectContaining({ status: 503, contentType: "text/plain" }));
+      expect(documentRequest.respond).toHaveBeenCalledWith(
+        expect.objectContaining({ contentType: "text/html", body: Buffer.from("<h1>Mocked</h1>") }),
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should fail up front when a mock file cannot be read", async () => {
+    await expect(
+      NetworkInterceptor.create({ mocks: [{ url: "https://example.com/", file: "/does/not/exist.json" }] }),
+    ).rejects.toThrow("Cannot read mock file for https://example.com/");
+  });
+
+  it("should only read mock files inside the configured mock directory", async () => {
+    const parent = await fs.mkdtemp(path.join(os.tmpdir(), "network-spec-"));
+    const dir = path.join(parent, "mocks");
+    await fs.mkdir(dir);
+    await fs.writeFile(path.join(parent, "secret.txt"), "secret");
+    await fs.symlink(path.join(parent, "secret.txt"), path.join(dir, "link.txt"));
+    const mockFile = (file: string) => NetworkInterceptor.create({ mocks: [{ url: "https://example.com/", file }] });
+
+    try {
+      await expect(mockFile("secret.txt")).rejects.toThrow("mock files are disabled");
+
+      configureMockDirectory(dir);
+      await expect(mockFile(path.join(parent, "secret.txt"))).rejects.toThrow("is outside the mock directory");
+      await expect(mockFile("../secret.txt")).rejects.toThrow("is outside the mock directory");
+      await expect(mockFile("link.txt")).rejects.toThrow("is outside the mock directory");
+    } finally {
+      await fs.rm(parent, { recursive: true, force: true });
+    }
+  });
+
+  it("should rewrite request headers for matching hosts", async () => {
+    const { page, emitter } = createPage();
+    const interceptor = await NetworkInterceptor.create({
+      headers: {
+        "*.example.com": { "X-Env": "test", Cookie: null },
+        "cdn.other.com": { "X-Other": "1" },
+      },
+    });
+    const interception = await interceptor.attach(page);
+
+    const api = await send(emitter, fakeRequest("https://api.example.com/v1", { headers: { cookie: "a=1", accept: "*/*" } }));
+    const apex = await send(emitter, fakeRequest("https://example.com/"));
+
+    expect(api.continue).toHaveBeenCalledWith({ headers: { accept: "*/*", "x-env": "test" } });
+    expect(apex.continue).toHaveBeenCalledWith();
+    expect(interception.matchedRules()).toEqual([
+      { action: "headers", rule: "*.example.com", matches: 1, urls: ["https://api.example.com/v1"] },
+    ]);
+  });
+
+  it("should abort a request whose rule could not be applied", async () => {
+    const { page, emitter } = createPage();
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const interceptor = await NetworkInterceptor.create({ mocks: [{ url: "https://api.example.com/*", json: [] }] }, logger);
+    await interceptor.attach(page);
+
+    const request = fakeRequest("https://api.example.com/products");
+    request.respond.mockRejectedValueOnce(new Error("Protocol error (Fetch.fulfillRequest): Invalid header"));
+    await send(emitter, request);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(request.abort).toHaveBeenCalledWith("failed");
+    expect(logger.warn).toHaveBeenCalledWith("network:intercept_failed", expect.objectContaining({ url: "https://api.example.com/products" }));
+  });
+
+  it("should stop intercepting once detached", async () => {
+    const { page, emitter, setRequestInterception } = createPage();
+    const interceptor = await NetworkInterceptor.create({ block: ["*"] });
+    const interception = await interceptor.attach(page);
+
+    await interception.detach();
+    const request = await send(emitter, fakeRequest("https://example.com/"));
+
+    expect(setRequestInterception).toHaveBeenLastCalledWith(false);
+    expect(request.abort).not.toHaveBeenCalled();
+    expect(emitter.listenerCount("request")).toBe(0);
+  });
+});
+
+describe("formatNetworkRuleMatches", () => {
+  it("should list each matched rule with its request count", () => {
+    const text = formatNetworkRuleMatches([
+      { action: "block", rule: "ads", matches: 3, urls: [] },
+      { action: "mock", rule: "https://api.example.com/*", matches: 1, urls: [] },
+    ]);
+
+    expect(text).toBe(
+      ["Network rules matched:", "  block ads: 3 requests", "  mock https://api.example.com/*: 1 request"].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import { deflateSync } from "zlib";
+
+import { decodePng, encodePng, isPng, PngError } from "../../src/image/png.js";
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const body = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/** Builds a PNG from already-filtered scanlines */
+function buildPng(
+  header: { width: number; height: number; bitDepth: number; colorType: number; interlace?: number },
+  scanlines: number[][],
+  extra: Buffer[] = [],
+): Buffer {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(header.width, 0);
+  ihdr.writeUInt32BE(header.height, 4);
+  ihdr[8] = header.bitDepth;
+  ihdr[9] = header.colorType;
+  ihdr[12] = header.interlace ?? 0;
+  return Buffer.concat([
+    SIGNATURE,
+    chunk("IHDR", ihdr),
+    ...extra,
+    chunk("IDAT", deflateSync(Buffer.from(scanlines.flat()))),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function pixel(data: Uint8Array, width: number, x: number, y: number): number[] {
+  const pos = (y * width + x) * 4;
+  return Array.from(data.subarray(pos, pos + 4));
+}
+
+describe("png", () => {
+  it("should round-trip RGBA pixels through encode and decode", () => {
+    const data = new Uint8Array(3 * 2 * 4);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = (i * 37) % 256;
+    }
+
+    const encoded = encodePng({ width: 3, height: 2, data });
+    expect(isPng(encoded)).toBe(true);
+
+    const decoded = decodePng(encoded);
+    expect(decoded.width).toBe(3);
+    expect(decoded.height).toBe(2);
+    expect(Array.from(decoded.data)).toEqual(Array.from(data));
+  });
+
+  it("should decode RGB scanlines using every filter type", () => {
+    // 2x5 image, one row per filter type; each row encodes pixels (10,20,30) and (40,50,60)
+    const png = buildPng({ width: 2, height: 5, bitDepth: 8, colorType: 2 }, [
+      [0, 10, 20, 30, 40, 50, 60],
+      [1, 10, 20, 30, 30, 30, 30],
+      [2, 0, 0, 0, 0, 0, 0],
+      [3, 10 - 5, 20 - 10, 30 - 15, 40 - 25, 50 - 35, 60 - 45],
+      [4, 0, 0, 0, 0, 0, 0],
+    ]);
+
+    const { data, width } = decodePng(png);
+
+    for (let y = 0; y < 5; y++) {
+      expect(pixel(data, width, 0, y)).toEqual([10, 20, 30, 255]);
+      expect(pixel(data, width, 1, y)).toEqual([40, 50, 60, 255]);
+    }
+  });
+
+  it("should expand palette images with tRNS alpha", () => {
+    const palette = Buffer.from([255, 0, 0, 0, 0, 255]);
+    const alpha = Buffer.from([128]);
+    // 1-bit indices: pixels 0,1,1,0
+    const png = buildPng(
+      { width: 4, height: 1, bitDepth: 1, colorType: 3 },
+      [[0, 0b01100000]],
+      [chunk("PLTE", palette), chunk("tRNS", alpha)],
+    );
+
+    const { data, width } = decodePng(png);
+
+    expect(pixel(data, width, 0, 0)).toEqual([255, 0, 0, 128]);
+    expect(pixel(data, width, 1, 0)).toEqual([0, 0, 255, 255]);
+    expect(pixel(data, width, 2, 0)).toEqual([0, 0, 255, 255]);
+    expect(pixel(data, width, 3, 0)).toEqual([255, 0, 0, 128]);
+  });
+
+  it("should scale low bit depth grayscale to 8 bits", () => {
+    const png = buildPng({ width: 4, height: 1, bitDepth: 2, colorType: 0 }, [[0, 0b00011011]]);
+    const { data, width } = decodePng(png);
+
+    expect([0, 1, 2, 3].map((x) => pixel(data, width, x, 0)[0])).toEqual([0, 85, 170, 255]);
+  });
+
+  it("should read the high byte of 16-bit samples", () => {
+    const png = buildPng({ width: 1, height: 1, bitDepth: 16, colorType: 6 }, [
+      [0, 0x12, 0x34, 0x56, 0x78, 0x9a, 0xbc, 0xff, 0xff],
+    ]);
+
+    expect(Array.from(decodePng(png).data)).toEqual([0x12, 0x56, 0x9a, 0xff]);
+  });
+
+  it("should de-interlace Adam7 images", () => {
+    // 2x2 grayscale: pass 1 holds (0,0), pass 6 holds (1,0), pass 7 holds row 1
+    const png = buildPng({ width: 2, height: 2, bitDepth: 8, colorType: 0, interlace: 1 }, [
+      [0, 10],
+      [0, 20],
+      [0, 30, 40],
+    ]);
+
+    const { data, width } = decodePng(png);
+
+    expect(pixel(data, width, 0, 0)[0]).toBe(10);
+    expect(pixel(data, width, 1, 0)[0]).toBe(20);
+    expect(pixel(data, width, 0, 1)[0]).toBe(30);
+    expect(pixel(data, width, 1, 1)[0]).toBe(40);
+  });
+
+  it("should reject non-PNG input", () => {
+    expect(() => decodePng(Buffer.from("not an image"))).toThrow(PngError);
+  });
+
+  it("should reject chunks with a bad CRC", () => {
+    const png = encodePng({ width: 1, height: 1, data: new Uint8Array([1, 2, 3, 4]) });
+    png[png.length - 20] ^= 0xff;
+
+    expect(() => decodePng(png)).toThrow(/CRC mismatch|Truncated/);
+  });
+
+  it("should reject truncated image data", () => {
+    const png = buildPng({ width: 4, height: 4, bitDepth: 8, colorType: 6 }, [[0, 1, 2, 3, 4]]);
+    expect(() => decodePng(png)).toThrow("shorter than its dimensions");
+  });
+
+  it("should reject a pixel buffer that does not match the dimensions", () => {
+    expect(() => encodePng({ width: 2, height: 2, data: new Uint8Array(4) })).toThrow(PngError);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Page } from "puppeteer";
+
+import { captureScreenshotWithinBudget } from "../../src/utils/screenshotBudget.js";
+import type { Logger } from "../../src/logger.js";
+
+const createLogger = (): Logger => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+/**
+ * Fake page whose encoded size grows with quality and pixel area:
+ * PNG is 100 KB, lossy formats are quality KB at full scale.
+ */
+function createPage(metrics = { x: 0, y: 50, width: 1280, height: 720, scrollWidth: 1280, scrollHeight: 4000 }) {
+  const screenshot = vi.fn(async (options: any) => {
+    const scale = options.clip?.scale ?? 1;
+    const kilobytes = options.type === "png" ? 100 : options.quality;
+    return Buffer.alloc(Math.round(kilobytes * 1024 * scale * scale));
+  });
+  const evaluate = vi.fn(async () => metrics);
+  return { page: { screenshot, evaluate } as unknown as Page, screenshot, evaluate };
+}
+
+describe("captureScreenshotWithinBudget", () => {
+  it("should capture PNG without quality by default", async () => {
+    const { page, screenshot } = createPage();
+
+    const result = await captureScreenshotWithinBudget(page, { fullPage: true });
+
+    expect(screenshot).toHaveBeenCalledWith({ type: "png", fullPage: true });
+    expect(result).toMatchObject({ format: "png", scale: 1, budgetExceeded: false, attempts: 1 });
+    expect(result.quality).toBeUndefined();
+  });
+
+  it("should pass the requested format and quality through", async () => {
+    const { page, screenshot } = createPage();
+
+    const result = await captureScreenshotWithinBudget(page, { format: "webp", quality: 55, fullPage: false });
+
+    expect(screenshot).toHaveBeenCalledWith({ type: "webp", quality: 55, fullPage: false });
+    expect(result).toMatchObject({ format: "webp", quality: 55, attempts: 1 });
+  });
+
+  it("should lower quality step by step until the image fits", async () => {
+    const { page, screenshot } = createPage();
+
+    const result = await captureScreenshotWithinBudget(page, { format: "jpeg", quality: 90, maxBytes: 65 * 1024, fullPage: false });
+
+    expect(screenshot.mock.calls.map(([options]: any[]) => options.quality)).toEqual([90, 80, 70, 60]);
+    expect(result).toMatchObject({ format: "jpeg", quality: 60, scale: 1, budgetExceeded: false });
+  });
+
+  it("should switch PNG to JPEG when over budget", async () => {
+    const { page } = createPage();
+
+    const result = await captureScreenshotWithinBudget(page, { maxBytes: 90 * 1024, fullPage: false });
+
+    expect(result).toMatchObject({ format: "jpeg", quality: 80, scale: 1, attempts: 2 });
+  });
+
+  it("should downscale through the clip once quality bottoms out", async () => {
+    const { page, screenshot } = createPage();
+
+    const result = await captureScreenshotWithinBudget(page, { format: "jpeg", maxBytes: 10 * 1024, fullPage: true });
+
+    expect(result.quality).toBe(30);
+    expect(result.scale).toBeLessThan(1);
+    expect(result.buffer.length).toBeLessThanOrEqual(10 * 1024);
+    expect(result.budgetExceeded).toBe(false);
+    const lastCall = screenshot.mock.calls.at(-1)![0];
+    expect(lastCall.clip).toMatchObject({ x: 0, y: 0, width: 1280, height: 4000, scale: result.scale });
+  });
+
+  it("should clip the visible viewport when not capturing the full page", async () => {
+    const { page, screenshot } = createPage();
+
+    await captureScreenshotWithinBudget(page, { format: "jpeg", quality: 30, maxBytes: 20 * 1024, fullPage: false });
+
+    expect(screenshot.mock.calls.at(-1)![0].clip).toMatchObject({ x: 0, y: 50, width: 1280, height: 720 });
+  });
+
+  it("should clip an element by its bounding box in page coordinates", async () => {
+    const { page, screenshot } = createPage();
+    const element = {
+      screenshot: vi.fn(async (options: any) => Buffer.alloc(options.quality * 1024)),
+      boundingBox: vi.fn(async () => ({ x: 10, y: 20, width: 300, height: 200 })),
+    };
+
+    const result = await captureScreenshotWithinBudget(
+      page,
+      { format: "jpeg", quality: 30, maxBytes: 20 * 1024, fullPage: false, element: element as any },
+    );
+
+    expect(element.screenshot).toHaveBeenCalledTimes(1);
+    expect(screenshot.mock.calls.at(-1)![0].clip).toMatchObject({ x: 10, y: 70, width: 300, height: 200 });
+    expect(result.scale).toBeLessThan(1);
+  });
+
+  it("should flag and warn when the budget can't be met", async () => {
+    const { page } = createPage();
+    const logger = createLogger();
+
+    const result = await captureScreenshotWithinBudget(page, { format: "jpeg", maxBytes: 1, fullPage: false }, logger);
+
+    expect(result.budgetExceeded).toBe(true);
+    expect(result.scale).toBeGreaterThanOrEqual(0.1);
+    expect(logger.warn).toHaveBeenCalledWith("screenshot:budget_exceeded", expect.objectContaining({ maxBytes: 1 }));
+  });
+});
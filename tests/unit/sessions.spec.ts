@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const acquireMock = vi.fn();
+
+vi.mock("../../src/browser/pool.js", () => ({
+  getBrowserPool: () => ({ acquire: (...args: any[]) => acquireMock(...args) }),
+}));
+
+import { BrowserSessionManager, SessionError } from "../../src/browser/sessions.js";
+import type { Logger } from "../../src/logger.js";
+import { runAsTenant } from "../../src/utils/tenant.js";
+
+function createFakeLease() {
+  let closed = false;
+  const page = {
+    url: vi.fn(() => "https://example.com/dashboard"),
+    isClosed: vi.fn(() => closed),
+    close: () => { closed = true; },
+  };
+  return {
+    page,
+    release: vi.fn(async () => undefined),
+  };
+}
+
+describe("BrowserSessionManager", () => {
+  let mockLogger: Logger;
+  let manager: BrowserSessionManager;
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    acquireMock.mockReset();
+    acquireMock.mockImplementation(async () => createFakeLease());
+    manager = new BrowserSessionManager({ sweepIntervalMs: 0 }, mockLogger);
+  });
+
+  afterEach(async () => {
+    await manager.shutdown();
+  });
+
+  describe("open", () => {
+    it("should open a session with a generated id", async () => {
+      const info = await manager.open();
+
+      expect(info.id).toMatch(/^session-/);
+      expect(info.url).toBe("https://example.com/dashboard");
+      expect(acquireMock).toHaveBeenCalledWith("session");
+      expect(manager.list()).toHaveLength(1);
+    });
+
+    it("should open a session with a caller-chosen name", async () => {
+      const info = await manager.open({ id: "admin" });
+      expect(info.id).toBe("admin");
+      expect(manager.has("admin")).toBe(true);
+    });
+
+    it("should reject duplicate session names", async () => {
+      await manager.open({ id: "admin" });
+      await expect(manager.open({ id: "admin" })).rejects.toMatchObject({ code: "SESSION_EXISTS" });
+    });
+
+    it("should reject invalid session names", async () => {
+      await expect(manager.open({ id: "../etc" })).rejects.toMatchObject({ code: "INVALID_SESSION_ID" });
+    });
+
+    it("should enforce the maximum session count", async () => {
+      manager = new BrowserSessionManager({ sweepIntervalMs: 0, maxSessions: 1 }, mockLogger);
+      await manager.open({ id: "one" });
+
+      await expect(manager.open({ id: "two" })).rejects.toMatchObject({ code: "SESSION_LIMIT" });
+    });
+
+    it("should count the maximum per API key", async () => {
+      manager = new BrowserSessionManager({ sweepIntervalMs: 0, maxSessions: 1 }, mockLogger);
+      await runAsTenant("a", () => manager.open({ id: "one" }));
+
+      await expect(runAsTenant("a", () => manager.open({ id: "two" }))).rejects.toMatchObject({ code: "SESSION_LIMIT" });
+      await expect(runAsTenant("b", () => manager.open({ id: "two" }))).resolves.toMatchObject({ id: "two" });
+    });
+
+    it("should reject a concurrent open of the same name while the first waits for its browser", async () => {
+      let resolveLease!: (lease: ReturnType<typeof createFakeLease>) => void;
+      acquireMock.mockImplementationOnce(() => new Promise((resolve) => { resolveLease = resolve; }));
+
+      const first = manager.open({ id: "admin" });
+      await expect(manager.open({ id: "admin" })).rejects.toMatchObject({ code: "SESSION_EXISTS" });
+      resolveLease(createFakeLease());
+
+      await expect(first).resolves.toMatchObject({ id: "admin" });
+      expect(acquireMock).toHaveBeenCalledTimes(1);
+      expect(manager.list()).toHaveLength(1);
+    });
+
+    it("should free the name when the browser cannot be acquired", async () => {
+      acquireMock.mockRejectedValueOnce(new Error("pool exhausted"));
+
+      await expect(manager.open({ id: "admin" })).rejects.toThrow("pool exhausted");
+      await expect(manager.open({ id: "admin" })).resolves.toMatchObject({ id: "admin" });
+    });
+
+    it("should cap idle timeouts at maxIdleTimeoutMs", async () => {
+      manager = new BrowserSessionManager({ sweepIntervalMs: 0, maxIdleTimeoutMs: 5_000 }, mockLogger);
+      const info = await manager.open({ idleTimeoutMs: 60_000 });
+      expect(info.idleTimeoutMs).toBe(5_000);
+    });
+  });
+
+  describe("use", () => {
+    it("should run work against the session page", async () => {
+      await manager.open({ id: "app" });
+      const url = await manager.use("app", async (page) => page.url());
+      expect(url).toBe("https://example.com/dashboard");
+    });
+
+    it("should serialize concurrent calls on the same session", async () => {
+      await manager.open({ id: "app" });
+      const order: string[] = [];
+
+      const first = manager.use("app", async () => {
+        order.push("first:start");
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        order.push("first:end");
+      });
+      const second = manager.use("app", async () => {
+        order.push("second:start");
+      });
+
+      await Promise.all([first, second]);
+      expect(order).toEqual(["first:start", "first:end", "second:start"]);
+    });
+
+    it("should keep the queue running after a failed call", async () => {
+      await manager.open({ id: "app" });
+
+      await expect(manager.use("app", async () => { throw new Error("boom"); })).rejects.toThrow("boom");
+      await expect(manager.use("app", async () => "ok")).resolves.toBe("ok");
+    });
+
+    it("should fail for unknown sessions", async () => {
+      await expect(manager.use("missing", async () => undefined)).rejects.toBeInstanceOf(SessionError);
+      await expect(manager.use("missing", async () => undefined)).rejects.toMatchObject({ code: "SESSION_NOT_FOUND" });
+    });
+
+    it("should drop sessions whose page has been closed", async () => {
+      await manager.open({ id: "app" });
+      const lease = await acquireMock.mock.results[0].value;
+      lease.page.close();
+
+      await expect(manager.use("app", async () => undefined)).rejects.toMatchObject({ code: "SESSION_CLOSED" });
+      expect(manager.has("app")).toBe(false);
+      expect(lease.release).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("close", () => {
+    it("should release the pooled context", async () => {
+      await manager.open({ id: "app" });
+      const lease = await acquireMock.mock.results[0].value;
+
+      await expect(manager.close("app")).resolves.toBe(true);
+      expect(lease.release).toHaveBeenCalledTimes(1);
+      expect(manager.has("app")).toBe(false);
+    });
+
+    it("should return false for unknown sessions", async () => {
+      await expect(manager.close("missing")).resolves.toBe(false);
+    });
+  });
+
+  describe("ownership", () => {
+    it("should hide sessions from other API keys", async () => {
+      await runAsTenant("team-a", () => manager.open({ id: "app" }));
+
+      await runAsTenant("team-b", async () => {
+        expect(manager.list()).toEqual([]);
+        expect(manager.get("app")).toBeUndefined();
+        await expect(manager.use("app", async () => undefined)).rejects.toMatchObject({ code: "SESSION_NOT_FOUND" });
+        await expect(manager.close("app")).resolves.toBe(false);
+        // The name is free for this key too
+        await expect(manager.open({ id: "app" })).resolves.toMatchObject({ id: "app" });
+      });
+
+      expect(manager.has("app")).toBe(false);
+      expect(runAsTenant("team-a", () => manager.list().map((info) => info.id))).toEqual(["app"]);
+      await expect(runAsTenant("team-a", () => manager.close("app"))).resolves.toBe(true);
+      expect(runAsTenant("team-b", () => manager.has("app"))).toBe(true);
+    });
+  });
+
+  describe("sweepIdleSessions", () => {
+    it("should close sessions idle past their timeout", async () => {
+      await manager.open({ id: "stale", idleTimeoutMs: 0 });
+      await manager.open({ id: "fresh", idleTimeoutMs: 60_000 });
+
+      const expired = await manager.sweepIdleSessions();
+
+      expect(expired).toEqual(["stale"]);
+      expect(manager.has("stale")).toBe(false);
+      expect(manager.has("fresh")).toBe(true);
+    });
+
+    it("should not close sessions with work in flight", async () => {
+      await manager.open({ id: "busy", idleTimeoutMs: 0 });
+      let finish: () => void = () => undefined;
+      const running = manager.use("busy", () => new Promise<void>((resolve) => { finish = resolve; }));
+
+      expect(await manager.sweepIdleSessions()).toEqual([]);
+      expect(manager.get("busy")?.busy).toBe(true);
+
+      finish();
+      await running;
+    });
+  });
+});
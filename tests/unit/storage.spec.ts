@@ -1,15 +1,20 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { promises as fs } from "fs";
+import os from "os";
 import path from "path";
 import { 
   LocalStorageTarget, 
   MemoryStorageTarget,
+  StorageError,
   S3StorageTarget,
   createStorageTarget,
   registerStorageTarget,
   getStorageTarget,
   getDefaultStorageTarget
 } from "../../src/storage/index.js";
+import { DeduplicatingStorageTarget } from "../../src/storage/dedup.js";
+import { getGlobalTelemetry } from "../../src/telemetry/index.js";
+import { runAsTenant } from "../../src/utils/tenant.js";
 import type { Logger } from "../../src/logger.js";
 
 describe("storage targets", () => {
@@ -109,6 +114,27 @@ describe("storage targets", () => {
       expect(list.map(item => item.key)).toContain("file2.txt");
     });
 
+    it("should describe one file without listing the rest", async () => {
+      const storage = new LocalStorageTarget(tempDir, mockLogger);
+      await storage.save(Buffer.from("shot"), {
+        filename: "shots/home.png",
+        mimeType: "image/png",
+        timestamp: "2026-01-05T10:00:00.000Z",
+        tags: { url: "https://example.com/" },
+      });
+
+      expect(await storage.stat("shots/home.png")).toEqual({
+        key: "shots/home.png",
+        size: 4,
+        modified: "2026-01-05T10:00:00.000Z",
+        mimeType: "image/png",
+        metadata: { url: "https://example.com/" },
+      });
+      expect(await storage.stat("shots")).toBeNull();
+      expect(await storage.stat("missing.png")).toBeNull();
+      await expect(storage.stat("../outside.png")).rejects.toMatchObject({ code: "STORAGE_FORBIDDEN" });
+    });
+
     it("should delete stored file", async () => {
       const storage = new LocalStorageTarget(tempDir, mockLogger);
       
@@ -121,6 +147,155 @@ describe("storage targets", () => {
       expect(retrieved).toBeNull();
     });
 
+    it("should persist tags and content type across instances", async () => {
+      const storage = new LocalStorageTarget(tempDir, mockLogger);
+
+      await storage.save(Buffer.from("image"), {
+        filename: "home.png",
+        mimeType: "image/png",
+        timestamp: "2026-01-05T10:00:00.000Z",
+        tags: { url: "https://example.com/", fullPage: "true" },
+      });
+
+      const [item] = await new LocalStorageTarget(tempDir, mockLogger).list();
+      expect(item).toEqual({
+        key: "home.png",
+        size: 5,
+        modified: "2026-01-05T10:00:00.000Z",
+        mimeType: "image/png",
+        metadata: { url: "https://example.com/", fullPage: "true" },
+      });
+    });
+
+    it("should drop index entries of deleted files", async () => {
+      const storage = new LocalStorageTarget(tempDir, mockLogger);
+
+      await Promise.all([
+        storage.save(Buffer.from("a"), { filename: "a.png", tags: { url: "https://a.example/" } }),
+        storage.save(Buffer.from("b"), { filename: "b.png", tags: { url: "https://b.example/" } }),
+      ]);
+      await storage.delete("a.png");
+
+      const index = JSON.parse(await fs.readFile(path.join(tempDir, ".captures-index.json"), "utf8"));
+      expect(Object.keys(index)).toEqual(["b.png"]);
+      expect((await storage.list()).map((item) => item.key)).toEqual(["b.png"]);
+    });
+
+    it("should partition generated filenames by capture date", async () => {
+      const storage = new LocalStorageTarget(tempDir, mockLogger, { partitionByDate: true });
+
+      const generated = await storage.save(Buffer.from("a"), { mimeType: "image/png", timestamp: "2026-01-05T10:00:00.000Z" });
+      const named = await storage.save(Buffer.from("b"), { filename: "baseline.png", timestamp: "2026-01-05T10:00:00.000Z" });
+
+      expect(generated.key).toMatch(/^2026-01-05\/capture-.*\.png$/);
+      expect(named.key).toBe("baseline.png");
+      expect((await storage.retrieve(generated.key!))?.toString()).toBe("a");
+      expect((await storage.list()).map((item) => item.key).sort()).toEqual([generated.key, "baseline.png"].sort());
+    });
+
+    it("should evict the oldest files when a save exceeds the quota", async () => {
+      const storage = new LocalStorageTarget(tempDir, mockLogger, { retention: { maxFiles: 2, maxBytes: 9 }, sweepIntervalMs: 0 });
+
+      await storage.save(Buffer.from("1111"), { mimeType: "image/png", timestamp: "2026-01-01T00:00:00.000Z" });
+      const b = await storage.save(Buffer.from("2222"), { mimeType: "image/png", timestamp: "2026-01-02T00:00:00.000Z" });
+      const c = await storage.save(Buffer.from("3333"), { mimeType: "image/png", timestamp: "2026-01-03T00:00:00.000Z" });
+      expect((await storage.list()).map((item) => item.key).sort()).toEqual([b.key, c.key].sort());
+
+      const d = await storage.save(Buffer.from("444444"), { mimeType: "image/png", timestamp: "2026-01-04T00:00:00.000Z" });
+      expect((await storage.list()).map((item) => item.key)).toEqual([d.key]);
+    });
+
+    it("should leave captures saved under an explicit filename out of retention", async () => {
+      const storage = new LocalStorageTarget(tempDir, mockLogger, { retention: { maxAgeMs: 24 * 60 * 60_000, maxFiles: 1 }, sweepIntervalMs: 0 });
+
+      await storage.save(Buffer.from("base"), { filename: "baselines/home.png", timestamp: "2020-01-01T00:00:00.000Z", tags: { role: "baseline" } });
+      const old = await storage.save(Buffer.from("old"), { mimeType: "image/png", timestamp: "2020-01-02T00:00:00.000Z" });
+      const fresh = await storage.save(Buffer.from("fresh"), { mimeType: "image/png" });
+
+      expect((await storage.list()).map((item) => item.key).sort()).toEqual(["baselines/home.png", fresh.key].sort());
+      const result = await storage.sweep();
+      expect(result).toEqual({ deleted: [], freedBytes: 0, remainingFiles: 1, remainingBytes: 5 });
+      expect((await storage.retrieve("baselines/home.png"))?.toString()).toBe("base");
+      expect(await storage.retrieve(old.key!)).toBeNull();
+    });
+
+    it("should sweep expired captures and report the result", async () => {
+      const emit = vi.spyOn(getGlobalTelemetry(), "emitTelemetry");
+      const storage = new LocalStorageTarget(tempDir, mockLogger, {
+        retention: { maxAgeMs: 24 * 60 * 60_000 },
+        partitionByDate: true,
+        sweepIntervalMs: 0,
+      });
+      const old = await storage.save(Buffer.from("old"), { mimeType: "image/png", timestamp: "2020-01-01T00:00:00.000Z" });
+      await storage.save(Buffer.from("fresh"), { mimeType: "image/png" });
+
+      const result = await storage.sweep();
+
+      expect(result).toEqual({ deleted: [old.key], freedBytes: 3, remainingFiles: 1, remainingBytes: 5 });
+      await expect(fs.stat(path.join(tempDir, "2020-01-01"))).rejects.toThrow();
+      expect(emit).toHaveBeenCalledWith("storage.swept", expect.objectContaining({ trigger: "sweep", deletedFiles: 1, freedBytes: 3 }));
+      emit.mockRestore();
+    });
+
+    it("should sweep on its interval until shut down", async () => {
+      const storage = new LocalStorageTarget(tempDir, mockLogger, { retention: { maxAgeMs: 1 }, sweepIntervalMs: 20 });
+      await storage.save(Buffer.from("x"), { mimeType: "image/png", timestamp: "2020-01-01T00:00:00.000Z" });
+
+      await vi.waitFor(async () => expect(await storage.list()).toEqual([]));
+      storage.shutdown();
+    });
+
+    it("should reject keys that leave the capture directory", async () => {
+      const storage = new LocalStorageTarget(tempDir, mockLogger);
+      const unsafeKeys = ["../../etc/passwd", "/etc/passwd", "a/../../b.png", "a//b.png", ".captures-index.json", "a\\b.png"];
+
+      for (const key of unsafeKeys) {
+        await expect(storage.retrieve(key)).rejects.toMatchObject({ name: "StorageError", code: "STORAGE_FORBIDDEN" });
+        await expect(storage.delete(key)).rejects.toBeInstanceOf(StorageError);
+        await expect(storage.save(Buffer.from("x"), { filename: key })).rejects.toMatchObject({ code: "STORAGE_FORBIDDEN" });
+      }
+      await expect(storage.retrieve("")).rejects.toThrow('Invalid storage key "": it is empty');
+      await expect(fs.stat(tempDir)).rejects.toThrow();
+    });
+
+    it("should refuse keys that reach outside through a symlink", async () => {
+      const outside = await fs.mkdtemp(path.join(os.tmpdir(), "outside-"));
+      await fs.writeFile(path.join(outside, "secret.txt"), "secret");
+      await fs.mkdir(tempDir, { recursive: true });
+      await fs.symlink(outside, path.join(tempDir, "link"));
+      const storage = new LocalStorageTarget(tempDir, mockLogger);
+
+      try {
+        await expect(storage.retrieve("link/secret.txt")).rejects.toMatchObject({ code: "STORAGE_FORBIDDEN" });
+        await expect(storage.save(Buffer.from("x"), { filename: "link/new.txt" })).rejects.toMatchObject({ code: "STORAGE_FORBIDDEN" });
+        await expect(fs.stat(path.join(outside, "new.txt"))).rejects.toThrow();
+      } finally {
+        await fs.rm(outside, { recursive: true, force: true });
+      }
+    });
+
+    it("should write through a temp file and leave only the capture behind", async () => {
+      const storage = new LocalStorageTarget(tempDir, mockLogger);
+
+      await storage.save(Buffer.from("first"), { filename: "shot.png" });
+      await storage.save(Buffer.from("second"), { filename: "shot.png" });
+
+      expect((await fs.readdir(tempDir)).sort()).toEqual([".captures-index.json", "shot.png"]);
+      expect((await storage.retrieve("shot.png"))?.toString()).toBe("second");
+    });
+
+    it("should report file system failures as I/O errors", async () => {
+      // The capture directory path is taken by a file
+      await fs.writeFile(tempDir, "not a directory");
+      const storage = new LocalStorageTarget(tempDir, mockLogger);
+
+      await expect(storage.save(Buffer.from("x"), { filename: "x.png" })).rejects.toMatchObject({
+        code: "STORAGE_IO_ERROR",
+        message: expect.stringContaining('Cannot write capture "x.png"'),
+      });
+      expect(await storage.retrieve("x.png")).toBeNull();
+    });
+
     it("should return false when deleting non-existent file", async () => {
       const storage = new LocalStorageTarget(tempDir, mockLogger);
       
@@ -136,6 +311,9 @@ describe("storage targets", () => {
       
       const jpegResult = await storage.save(Buffer.from("jpeg"), { mimeType: "image/jpeg" });
       expect(jpegResult.location).toContain(".jpg");
+
+      const webpResult = await storage.save(Buffer.from("webp"), { mimeType: "image/webp" });
+      expect(webpResult.location).toContain(".webp");
       
       const htmlResult = await storage.save(Buffer.from("html"), { mimeType: "text/html" });
       expect(htmlResult.location).toContain(".html");
@@ -184,6 +362,14 @@ describe("storage targets", () => {
       expect(list[0].metadata).toEqual({ type: "test" });
     });
 
+    it("should describe one item", async () => {
+      const storage = new MemoryStorageTarget(mockLogger);
+      await storage.save(Buffer.from("item"), { filename: "item.txt", tags: { type: "test" } });
+
+      expect(await storage.stat("item.txt")).toMatchObject({ key: "item.txt", size: 4, mimeType: "text/plain", metadata: { type: "test" } });
+      expect(await storage.stat("missing.txt")).toBeNull();
+    });
+
     it("should delete items from memory", async () => {
       const storage = new MemoryStorageTarget(mockLogger);
       
@@ -208,59 +394,6 @@ describe("storage targets", () => {
     });
   });
 
-  describe("S3StorageTarget", () => {
-    it("should create mock S3 storage result", async () => {
-      const storage = new S3StorageTarget({
-        bucket: "test-bucket",
-        prefix: "screenshots/",
-        region: "us-west-2",
-      }, mockLogger);
-      
-      const data = Buffer.from("s3 test");
-      
-      const result = await storage.save(data, {
-        filename: "test.png",
-        mimeType: "image/png",
-      });
-      
-      expect(result.location).toBe("s3://test-bucket/screenshots/test.png");
-      expect(result.url).toContain("test-bucket.s3.us-west-2.amazonaws.com");
-      expect(result.size).toBe(data.length);
-      expect(mockLogger.info).toHaveBeenCalledWith(
-        "storage:s3:save",
-        expect.objectContaining({
-          note: "S3 integration not implemented - using mock response",
-        })
-      );
-    });
-
-    it("should handle prefix configuration", async () => {
-      const storage = new S3StorageTarget({
-        bucket: "my-bucket",
-        prefix: "captures/dom/",
-      }, mockLogger);
-      
-      const result = await storage.save(Buffer.from("data"), {
-        filename: "dom.json",
-      });
-      
-      expect(result.location).toBe("s3://my-bucket/captures/dom/dom.json");
-    });
-
-    it("should generate filename if not provided", async () => {
-      const storage = new S3StorageTarget({
-        bucket: "auto-bucket",
-      }, mockLogger);
-      
-      const result = await storage.save(Buffer.from("data"), {
-        mimeType: "image/png",
-      });
-      
-      expect(result.location).toContain("s3://auto-bucket/");
-      expect(result.location).toContain(".png");
-    });
-  });
-
   describe("storage factory", () => {
     it("should create local storage target", () => {
       const storage = createStorageTarget({
@@ -291,6 +424,25 @@ describe("storage targets", () => {
       expect(storage.type).toBe("memory");
     });
 
+    it("should wrap the target when deduplicate is set", () => {
+      const storage = createStorageTarget({
+        type: "memory",
+        deduplicate: true,
+      }, mockLogger);
+
+      expect(storage).toBeInstanceOf(DeduplicatingStorageTarget);
+      expect(storage.type).toBe("dedup");
+    });
+
+    it("should refuse deduplication on a local target with retention", () => {
+      expect(() => createStorageTarget({
+        type: "local",
+        path: tempDir,
+        retention: { maxFiles: 10 },
+        deduplicate: true,
+      }, mockLogger)).toThrow("retention cannot be combined with deduplicate");
+    });
+
     it("should throw for unknown storage type", () => {
       expect(() => createStorageTarget({
         type: "unknown" as any,
@@ -323,5 +475,28 @@ describe("storage targets", () => {
       const secondCall = getDefaultStorageTarget(mockLogger);
       expect(secondCall).toBe(defaultStorage);
     });
+
+    it("should give each API key its own view of a target", async () => {
+      const storage = new MemoryStorageTarget(mockLogger);
+      registerStorageTarget("shared", storage);
+
+      const saved = await runAsTenant("team-a", () =>
+        getStorageTarget("shared")!.save(Buffer.from("a"), { filename: "baseline.png", mimeType: "image/png" }));
+      const generated = await runAsTenant("team a", () =>
+        getStorageTarget("shared")!.save(Buffer.from("b"), { mimeType: "image/png" }));
+      const teamB = runAsTenant("team-b", () => getStorageTarget("shared")!);
+
+      expect(saved.key).toBe("baseline.png");
+      expect(saved.location).toBe("memory://tenants/team-a/baseline.png");
+      expect(generated.key).not.toMatch(/^tenants\//);
+      expect(await teamB.list!()).toEqual([]);
+      expect(await teamB.retrieve!("baseline.png")).toBeNull();
+      expect(await teamB.delete!("baseline.png")).toBe(false);
+      expect(await runAsTenant("team-a", () => getStorageTarget("shared")!.list!())).toMatchObject([{ key: "baseline.png" }]);
+      expect((await storage.list()).map((item) => item.key)).toEqual([
+        "tenants/team-a/baseline.png",
+        expect.stringMatching(/^tenants\/key-[0-9a-f]{16}\//),
+      ]);
+    });
   });
 });
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Page } from "puppeteer";
+
+import { StepTracer, detachThumbnails, saveTraceBundle } from "../../src/utils/trace.js";
+import { MemoryStorageTarget } from "../../src/storage/index.js";
+import type { Logger } from "../../src/logger.js";
+
+const createLogger = (): Logger => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+function createPage() {
+  const screenshot = vi.fn(async () => Buffer.from("thumb"));
+  const evaluate = vi.fn(async () => ({ x: 0, y: 200, width: 1280, height: 720, scrollWidth: 1280, scrollHeight: 3000 }));
+  return { page: { screenshot, evaluate } as unknown as Page, screenshot, evaluate };
+}
+
+describe("StepTracer", () => {
+  it("should record each step with its timing and outcome", async () => {
+    const { page, screenshot } = createPage();
+    const tracer = new StepTracer("https://example.com/");
+    const startedAt = Date.now() - 25;
+
+    await tracer.record(page, { index: 0, type: "click", target: "#go", startedAt, success: true });
+    await tracer.record(page, { index: 1, type: "wait", target: ".done", startedAt, success: false, error: "Timed out" });
+
+    expect(screenshot).not.toHaveBeenCalled();
+    expect(tracer.trace.steps).toHaveLength(2);
+    expect(tracer.trace.steps[0]).toMatchObject({
+      index: 0,
+      phase: "after-navigation",
+      type: "click",
+      target: "#go",
+      attempt: 1,
+      outcome: "success",
+    });
+    expect(tracer.trace.steps[0].durationMs).toBeGreaterThanOrEqual(25);
+    expect(tracer.trace.steps[1]).toMatchObject({ outcome: "failed", error: "Timed out" });
+  });
+
+  it("should tag steps with the current device, phase and attempt", async () => {
+    const { page } = createPage();
+    const tracer = new StepTracer("https://example.com/");
+    tracer.device = "mobile";
+    tracer.phase = "before-navigation";
+    tracer.attempt = 2;
+
+    await tracer.record(page, { index: 0, type: "cookie", startedAt: Date.now(), success: true });
+
+    expect(tracer.trace.steps[0]).toMatchObject({ device: "mobile", phase: "before-navigation", attempt: 2 });
+  });
+
+  it("should take a downscaled viewport thumbnail after each step when enabled", async () => {
+    const { page, screenshot } = createPage();
+    const tracer = new StepTracer("https://example.com/", { thumbnails: true });
+
+    await tracer.record(page, { index: 0, type: "scroll", startedAt: Date.now(), success: true });
+
+    expect(screenshot).toHaveBeenCalledWith({
+      type: "jpeg",
+      quality: 60,
+      clip: { x: 0, y: 200, width: 1280, height: 720, scale: 0.25 },
+    });
+    expect(tracer.trace.steps[0].thumbnail).toMatchObject({
+      mimeType: "image/jpeg",
+      imageBase64: Buffer.from("thumb").toString("base64"),
+    });
+  });
+
+  it("should keep recording when a thumbnail fails", async () => {
+    const { page, screenshot } = createPage();
+    screenshot.mockRejectedValueOnce(new Error("Target closed"));
+    const logger = createLogger();
+    const tracer = new StepTracer("https://example.com/", { thumbnails: true }, logger);
+
+    await tracer.record(page, { index: 0, type: "click", startedAt: Date.now(), success: true });
+
+    expect(tracer.trace.steps[0].thumbnail).toBeUndefined();
+    expect(logger.warn).toHaveBeenCalledWith("trace:thumbnail_failed", { error: "Target closed" });
+  });
+
+  it("should mark the trace failed with the error that ended the run", () => {
+    const tracer = new StepTracer("https://example.com/");
+
+    expect(tracer.trace.outcome).toBe("running");
+    const trace = tracer.finish(new Error("Navigation failed with status: 500"));
+
+    expect(trace.outcome).toBe("failed");
+    expect(trace.error).toBe("Navigation failed with status: 500");
+    expect(trace.endedAt).toBeDefined();
+    expect(trace.durationMs).toBeGreaterThanOrEqual(0);
+    expect(new StepTracer("https://example.com/").finish().outcome).toBe("success");
+  });
+});
+
+describe("saveTraceBundle", () => {
+  it("should save the trace as one JSON document", async () => {
+    const { page } = createPage();
+    const storage = new MemoryStorageTarget();
+    const tracer = new StepTracer("https://example.com/", { thumbnails: true, save: true });
+    await tracer.record(page, { index: 0, type: "click", target: "#go", startedAt: Date.now(), success: true });
+
+    const saved = await saveTraceBundle(tracer.finish(), storage);
+
+    expect(saved.location).toMatch(/^memory:\/\//);
+    expect(saved.metadata).toMatchObject({ kind: "trace", url: "https://example.com/", outcome: "success" });
+    const [item] = await storage.list();
+    const bundle = JSON.parse((await storage.retrieve(item.key))!.toString("utf8"));
+    expect(bundle.version).toBe(1);
+    expect(bundle.trace.steps[0]).toMatchObject({ type: "click", target: "#go" });
+    expect(bundle.trace.steps[0].thumbnail.imageBase64).toBeDefined();
+  });
+});
+
+describe("detachThumbnails", () => {
+  const traceWithThumbnails = async () => {
+    const { page } = createPage();
+    const tracer = new StepTracer("https://example.com/", { thumbnails: true });
+    await tracer.record(page, { index: 0, type: "click", target: "#go", startedAt: Date.now(), success: true });
+    await tracer.record(page, { index: 1, type: "wait", startedAt: Date.now(), success: true });
+    return tracer.finish();
+  };
+
+  it("should number the thumbnails as image blocks when there is no bundle", async () => {
+    const trace = await traceWithThumbnails();
+
+    const detached = detachThumbnails(trace, false, 2);
+
+    expect(detached.images.map((image) => image.imageBase64)).toEqual([
+      Buffer.from("thumb").toString("base64"),
+      Buffer.from("thumb").toString("base64"),
+    ]);
+    expect(detached.trace.steps.map((step) => step.thumbnail)).toEqual([
+      { mimeType: "image/jpeg", contentIndex: 2 },
+      { mimeType: "image/jpeg", contentIndex: 3 },
+    ]);
+    expect(JSON.stringify(detached.trace)).not.toContain("imageBase64");
+    expect(trace.steps[0].thumbnail?.imageBase64).toBeDefined();
+  });
+
+  it("should point into the saved bundle instead", async () => {
+    const detached = detachThumbnails(await traceWithThumbnails(), true, 2);
+
+    expect(detached.images).toEqual([]);
+    expect(detached.trace.steps[1].thumbnail).toEqual({ mimeType: "image/jpeg", bundlePointer: "/trace/steps/1/thumbnail" });
+  });
+});
@@ -147,6 +147,18 @@ describe("viewport configuration", () => {
       expect(result).toEqual(preset);
     });
 
+    it("should ignore overrides that are undefined", () => {
+      const preset = {
+        width: 393,
+        height: 852,
+        isMobile: true,
+      };
+
+      const result = mergeViewportOptions(preset, { width: undefined, height: undefined, isMobile: undefined });
+
+      expect(result).toEqual(preset);
+    });
+
     it("should handle partial overrides", () => {
       const preset = {
         width: 1920,